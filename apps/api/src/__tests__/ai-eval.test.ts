@@ -0,0 +1,176 @@
+/**
+ * AI evaluation harness — golden set consistency, answer checks, recording
+ * and report rendering, with the DB and Redis mocked out
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+vi.mock("@knesset-vote/db", () => ({
+  db: {
+    vote: { findMany: vi.fn().mockResolvedValue([]) },
+    mK: { findFirst: vi.fn().mockResolvedValue(null), findUnique: vi.fn().mockResolvedValue(null) },
+  },
+  Prisma: {},
+}));
+
+vi.mock("../plugins/redis.js", () => ({
+  getRedis: vi.fn().mockReturnValue(null),
+  getCached: vi
+    .fn()
+    .mockImplementation((_key: string, _ttl: number, fetcher: () => unknown) => fetcher()),
+  buildCacheKey: vi.fn().mockImplementation((route: string) => route),
+}));
+
+import type { AiAnswer } from "@knesset-vote/shared";
+import { checkAnswer, recordTurns, renderMarkdownReport, runEval } from "../eval/ai-eval.js";
+import { GOLDEN_SET, type GoldenQuestion } from "../eval/golden-questions.js";
+import {
+  createScriptedProvider,
+  setLLMProvider,
+  type ScriptedTurn,
+} from "../services/llm/index.js";
+
+const VOTE_ROW = {
+  id: "v1",
+  title_he: "חוק הדיור - קריאה ראשונה",
+  vote_date: new Date("2024-03-01T00:00:00Z"),
+  result: "passed",
+  yes_count: 60,
+  no_count: 50,
+  abstain_count: 0,
+  source_url: "https://knesset.gov.il/vote/1",
+};
+
+const VOTES_QUESTION: GoldenQuestion = {
+  id: "votes-housing",
+  question: "מה הצביעו על חוק הדיור?",
+  expect: { tools: ["search_votes"] },
+  script: [
+    { toolCalls: [{ name: "search_votes", args: { keyword: "דיור" } }] },
+    { text: "לפי search_votes, חוק הדיור עבר בקריאה ראשונה." },
+  ],
+};
+
+const OFF_TOPIC: GoldenQuestion = {
+  id: "off-topic",
+  question: "מה מזג האוויר?",
+  expect: { refusal: true },
+  script: [{ text: "אני עונה רק על שאלות הקשורות לכנסת ישראל." }],
+};
+
+function answer(overrides: Partial<AiAnswer>): AiAnswer {
+  return {
+    question: "",
+    conversation_id: "c1",
+    answer_md: "",
+    citations: [],
+    claims: [],
+    entity_cards: [],
+    tool_calls_made: [],
+    model: "scripted",
+    disclaimer: "",
+    ...overrides,
+  };
+}
+
+afterEach(() => setLLMProvider(null));
+
+describe("golden set", () => {
+  it("has unique ids, and scripts that call the expected tools", () => {
+    const ids = GOLDEN_SET.questions.map((q) => q.id);
+    expect(new Set(ids).size).toBe(ids.length);
+
+    for (const q of GOLDEN_SET.questions) {
+      const scripted = q.script.flatMap((t) => t.toolCalls ?? []).map((c) => c.name);
+      expect(scripted, q.id).toEqual(expect.arrayContaining(q.expect.tools ?? []));
+      if (q.expect.refusal) expect(scripted, q.id).toEqual([]);
+    }
+  });
+});
+
+describe("checkAnswer", () => {
+  it("requires the expected tools and entities, and no refusal on topic", () => {
+    const question: GoldenQuestion = {
+      ...VOTES_QUESTION,
+      expect: { tools: ["get_mk_detail"], entities: [{ type: "mk", label: "יאיר לפיד" }] },
+    };
+    const checks = checkAnswer(
+      question,
+      answer({
+        answer_md: "אני עונה רק על שאלות הקשורות לכנסת ישראל.",
+        entity_cards: [{ type: "party", id: "p1", label: "יאיר לפיד", url: "/parties/p1" }],
+      }),
+    );
+    expect(checks).toEqual([
+      { name: "tool get_mk_detail", passed: false },
+      { name: "entity mk:יאיר לפיד", passed: false },
+      { name: "answers", passed: false },
+    ]);
+  });
+
+  it("fails a refusal question that calls tools", () => {
+    const checks = checkAnswer(
+      OFF_TOPIC,
+      answer({ answer_md: "אני עונה רק על שאלות הקשורות לכנסת.", tool_calls_made: ["search_mks"] }),
+    );
+    expect(checks).toEqual([{ name: "refuses", passed: false }]);
+  });
+});
+
+describe("runEval", () => {
+  it("replays scripts through the tool loop and reports each question", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.vote.findMany).mockResolvedValue([VOTE_ROW] as never);
+
+    const report = await runEval(
+      {
+        version: "test",
+        questions: [VOTES_QUESTION, OFF_TOPIC, { ...OFF_TOPIC, id: "broken", script: [] }],
+      },
+      (q) => createScriptedProvider(q.script),
+    );
+
+    expect(report).toMatchObject({
+      set_version: "test",
+      provider: "scripted",
+      total: 3,
+      passed: 2,
+      failed: 1,
+    });
+    expect(report.cases[0]).toMatchObject({
+      id: "votes-housing",
+      passed: true,
+      tool_calls_made: ["search_votes"],
+      entity_cards: [],
+    });
+    expect(report.cases[2]).toMatchObject({
+      id: "broken",
+      passed: false,
+      error: "Scripted provider: no turn 1 in the script",
+    });
+
+    const md = renderMarkdownReport(report);
+    expect(md).toContain("**2/3 passed**, 1 failed");
+    expect(md).toContain("| `votes-housing` | pass | search_votes | — | — |");
+    expect(md).toContain("### `broken` — מה מזג האוויר?");
+  });
+
+  it("records a provider's turns so they replay to the same report", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.vote.findMany).mockResolvedValue([VOTE_ROW] as never);
+
+    const turns: Record<string, ScriptedTurn[]> = {};
+    const live = await runEval({ version: "test", questions: [VOTES_QUESTION] }, (q) =>
+      recordTurns(createScriptedProvider(q.script, "live-model"), (turns[q.id] = [])),
+    );
+    expect(turns["votes-housing"]).toEqual([
+      { text: "", toolCalls: [{ name: "search_votes", args: { keyword: "דיור" } }] },
+      { text: "לפי search_votes, חוק הדיור עבר בקריאה ראשונה.", toolCalls: [] },
+    ]);
+
+    const replayed = await runEval({ version: "test", questions: [VOTES_QUESTION] }, (q) =>
+      createScriptedProvider(turns[q.id]!, "live-model"),
+    );
+    expect(replayed).toEqual(live);
+  });
+});
@@ -0,0 +1,516 @@
+/**
+ * AI assistant tool loop and conversation follow-ups against the scripted
+ * provider, plus the OpenAI-compatible adapter's wire handling with a
+ * stubbed fetch
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// In-memory stand-in for the Redis commands the conversation store uses
+const redisStore = vi.hoisted(() => new Map<string, string>());
+
+vi.mock("@knesset-vote/db", () => ({
+  db: {
+    vote: { findMany: vi.fn().mockResolvedValue([]) },
+    voteRecord: { findMany: vi.fn().mockResolvedValue([]) },
+    mK: { findFirst: vi.fn().mockResolvedValue(null), findUnique: vi.fn().mockResolvedValue(null) },
+  },
+  Prisma: {},
+}));
+
+vi.mock("../plugins/redis.js", () => ({
+  getRedis: vi.fn().mockReturnValue({
+    get: async (key: string) => redisStore.get(key) ?? null,
+    setex: async (key: string, _ttl: number, value: string) => void redisStore.set(key, value),
+  }),
+  getCached: vi
+    .fn()
+    .mockImplementation((_key: string, _ttl: number, fetcher: () => unknown) => fetcher()),
+  buildCacheKey: vi.fn().mockImplementation((route: string) => route),
+}));
+
+import {
+  askAI,
+  askAIStream,
+  carryOverEntityArgs,
+  type AiStreamEvent,
+} from "../services/ai-service.js";
+import {
+  carriedEntities,
+  trimToTokenBudget,
+  type ConversationTurn,
+} from "../services/ai-conversation-service.js";
+import { verifyAnswer } from "../services/ai-verification-service.js";
+import {
+  createLLMProvider,
+  createScriptedProvider,
+  setLLMProvider,
+} from "../services/llm/index.js";
+import { createOpenAIProvider } from "../services/llm/openai-provider.js";
+
+const VOTE_ROW = {
+  id: "v1",
+  title_he: "חוק הדיור - קריאה ראשונה",
+  vote_date: new Date("2024-03-01T00:00:00Z"),
+  result: "passed",
+  yes_count: 60,
+  no_count: 50,
+  abstain_count: 0,
+  source_url: "https://knesset.gov.il/vote/1",
+};
+
+function votesScript() {
+  return createScriptedProvider([
+    { toolCalls: [{ id: "c1", name: "search_votes", args: { keyword: "דיור" } }] },
+    { text: "נמצאה הצבעה אחת על חוק הדיור." },
+  ]);
+}
+
+afterEach(() => setLLMProvider(null));
+
+describe("askAI", () => {
+  beforeEach(async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.vote.findMany).mockResolvedValue([VOTE_ROW] as never);
+  });
+
+  it("runs requested tools, returns their results to the model and cites them", async () => {
+    const provider = votesScript();
+    setLLMProvider(provider);
+
+    const answer = await askAI("מה הצביעו על חוק הדיור?");
+
+    expect(answer.answer_md).toBe("נמצאה הצבעה אחת על חוק הדיור.");
+    expect(answer.model).toBe("scripted");
+    expect(answer.tool_calls_made).toEqual(["search_votes"]);
+    expect(answer.citations).toEqual([
+      { label: "מקור: search_votes", url: "https://knesset.gov.il/vote/1" },
+    ]);
+
+    const toolTurn = provider.received[1];
+    expect(Array.isArray(toolTurn)).toBe(true);
+    expect(toolTurn).toMatchObject([
+      { call: { id: "c1", name: "search_votes" }, result: [{ id: "v1", votes_for: 60 }] },
+    ]);
+  });
+
+  it("stops after a bounded number of tool rounds", async () => {
+    setLLMProvider(
+      createScriptedProvider(() => ({
+        toolCalls: [{ name: "search_votes", args: {} }],
+      })),
+    );
+
+    const answer = await askAI("שאלה שלא נגמרת");
+    expect(answer.answer_md).toBe("לא הצלחתי לעבד את השאלה. נסה שוב.");
+  });
+
+  it("looks up an MK's own votes and links each vote", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.voteRecord.findMany).mockResolvedValueOnce([
+      {
+        mk_id: "mk1",
+        position: "no",
+        mk: { name_he: "ישראל ישראלי" },
+        vote: { ...VOTE_ROW, bill_reading: "first" },
+      },
+    ] as never);
+    setLLMProvider(
+      createScriptedProvider([
+        { toolCalls: [{ name: "get_mk_votes", args: { mk_id: "mk1", keyword: "דיור" } }] },
+        { text: "הצביע/ה נגד." },
+      ]),
+    );
+
+    const answer = await askAI('איך הצביע ח"כ ישראלי על חוק הדיור?');
+
+    expect(vi.mocked(db.voteRecord.findMany).mock.calls[0]![0]).toMatchObject({
+      where: { mk_id: "mk1", vote: { title_he: { contains: "דיור" } } },
+    });
+    expect(answer.entity_cards).toEqual([
+      {
+        type: "vote",
+        id: "v1",
+        label: "חוק הדיור - קריאה ראשונה",
+        url: "/votes/v1",
+        meta: "נגד",
+      },
+    ]);
+    expect(answer.citations).toEqual([
+      { label: "מקור: get_mk_votes", url: "https://knesset.gov.il/vote/1" },
+    ]);
+  });
+
+  it("refuses an MK vote lookup without an MK instead of listing everyone's votes", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.voteRecord.findMany).mockClear();
+    const provider = createScriptedProvider([
+      { toolCalls: [{ name: "get_mk_votes", args: { keyword: "דיור" } }] },
+      { text: "לא נמצאו נתונים במסד הנתונים עבור שאלה זו." },
+    ]);
+    setLLMProvider(provider);
+
+    await askAI("איך הצביעו על חוק הדיור?");
+
+    expect(vi.mocked(db.voteRecord.findMany)).not.toHaveBeenCalled();
+    expect(provider.received[1]).toMatchObject([
+      { result: { found: false, error: "לא נמצא חבר כנסת עם פרטים אלו" } },
+    ]);
+  });
+});
+
+describe("verifyAnswer", () => {
+  const results = [
+    [
+      {
+        id: "v1",
+        title_he: 'הצעת חוק הדיור, התשפ"ד-2024',
+        vote_date: "2024-03-01",
+        votes_for: 60,
+        votes_against: 50,
+        source_url: "https://knesset.gov.il/vote/1234",
+      },
+    ],
+  ];
+
+  it("verifies numbers, dates and names found in the tool results", () => {
+    const claims = verifyAnswer(
+      "**הצעת חוק הדיור** עברה ב-1.3.2024 עם 60 תומכים ו-50 מתנגדים.",
+      results,
+    );
+    expect(claims.map((c) => [c.kind, c.text, c.verified])).toEqual([
+      ["date", "1.3.2024", true],
+      ["name", "הצעת חוק הדיור", true],
+      ["number", "60", true],
+      ["number", "50", true],
+    ]);
+  });
+
+  it("flags claims the data does not contain, with their sentence", () => {
+    const claims = verifyAnswer(
+      "נמצאה הצבעה אחת.\n- ההצעה קיבלה 72 קולות בעד, לפי **יוסי כהן**.",
+      results,
+    );
+    expect(claims.filter((c) => !c.verified)).toEqual([
+      {
+        text: "יוסי כהן",
+        kind: "name",
+        sentence: "ההצעה קיבלה 72 קולות בעד, לפי **יוסי כהן**.",
+        verified: false,
+      },
+      {
+        text: "72",
+        kind: "number",
+        sentence: "ההצעה קיבלה 72 קולות בעד, לפי **יוסי כהן**.",
+        verified: false,
+      },
+    ]);
+  });
+
+  it("ignores ids and URLs as evidence, and bold headings and list numbers as claims", () => {
+    const claims = verifyAnswer("**הצבעות:**\n1. ההצבעה 1234 נערכה במליאה.", results);
+    expect(claims).toEqual([
+      {
+        text: "1234",
+        kind: "number",
+        sentence: "ההצבעה 1234 נערכה במליאה.",
+        verified: false,
+      },
+    ]);
+  });
+
+  it("accepts entities carried over from earlier turns and rounded percentages", () => {
+    const claims = verifyAnswer(
+      "**ישראל ישראלי** הצביע/ה עם הסיעה ב-83% מההצבעות.",
+      [{ agreement_rate: 0.8312 }],
+      [{ type: "mk", id: "mk1", label: "ישראל ישראלי", url: "/mks/mk1" }],
+    );
+    expect(claims.every((c) => c.verified)).toBe(true);
+  });
+
+  it("returns each answer's claims from askAI", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.vote.findMany).mockResolvedValue([VOTE_ROW] as never);
+    setLLMProvider(
+      createScriptedProvider([
+        { toolCalls: [{ name: "search_votes", args: { keyword: "דיור" } }] },
+        { text: "בהצבעה היו 60 בעד ו-49 נגד." },
+      ]),
+    );
+
+    const answer = await askAI("מה הצביעו על חוק הדיור?");
+    expect(answer.claims.map((c) => [c.text, c.verified])).toEqual([
+      ["60", true],
+      ["49", false],
+    ]);
+  });
+});
+
+describe("askAIStream", () => {
+  it("emits the same tools and answer as askAI", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.vote.findMany).mockResolvedValue([VOTE_ROW] as never);
+    setLLMProvider(votesScript());
+
+    const events: AiStreamEvent[] = [];
+    for await (const event of askAIStream("מה הצביעו על חוק הדיור?")) events.push(event);
+
+    expect(events.slice(0, 2)).toEqual([
+      { type: "tool_start", tool: "search_votes" },
+      { type: "tool_done", tool: "search_votes" },
+    ]);
+    const text = events.flatMap((e) => (e.type === "text_chunk" ? [e.chunk] : [])).join("");
+    expect(text).toBe("[כלים שהופעלו: search_votes]\n\nנמצאה הצבעה אחת על חוק הדיור.");
+    const done = events[events.length - 1];
+    expect(done).toMatchObject({ type: "done", meta: { tool_calls_made: ["search_votes"] } });
+  });
+
+  it("reports provider errors as a friendly message", async () => {
+    setLLMProvider(createLLMProvider({ AI_PROVIDER: "gemini" }));
+
+    const events: AiStreamEvent[] = [];
+    for await (const event of askAIStream("שאלה")) events.push(event);
+    expect(events).toEqual([{ type: "error", message: "AI_UNAVAILABLE" }]);
+  });
+});
+
+describe("conversations", () => {
+  const MK = {
+    id: "mk1",
+    name_he: "ישראל ישראלי",
+    name_en: null,
+    external_id: "100",
+    source_url: "https://knesset.gov.il/mk/100",
+    is_current: true,
+    memberships: [],
+    committee_memberships: [],
+    government_roles: [],
+    _count: { bill_roles: 3 },
+  };
+
+  it("replays earlier turns and fills a follow-up's tool call with the earlier MK", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.mK.findFirst).mockResolvedValueOnce(MK as never);
+    vi.mocked(db.mK.findUnique).mockResolvedValueOnce(MK as never);
+    const provider = createScriptedProvider((input, turn) => {
+      if (turn > 0) return { text: "תשובה" };
+      // Follow-up: the model names nobody and expects the context to carry over
+      return provider.chats.length === 1
+        ? { toolCalls: [{ name: "get_mk_detail", args: { name_query: "ישראלי" } }] }
+        : { toolCalls: [{ name: "get_mk_detail", args: {} }] };
+    });
+    setLLMProvider(provider);
+
+    const first = await askAI("מי זה ישראל ישראלי?");
+    expect(first.entity_cards.map((c) => c.id)).toEqual(["mk1"]);
+
+    const second = await askAI("ובכמה הצעות חוק הוא מעורב?", first.conversation_id);
+    expect(second.conversation_id).toBe(first.conversation_id);
+    expect(provider.chats[1]!.history).toEqual([
+      { role: "user", text: "מי זה ישראל ישראלי?" },
+      { role: "assistant", text: "תשובה" },
+    ]);
+    expect(provider.chats[1]!.systemInstruction).toContain("ישראל ישראלי (id: mk1)");
+    expect(vi.mocked(db.mK.findUnique).mock.lastCall?.[0]?.where).toEqual({ id: "mk1" });
+  });
+
+  it("starts a new conversation when none is given", async () => {
+    setLLMProvider(createScriptedProvider());
+    const a = await askAI("שאלה ראשונה");
+    const b = await askAI("שאלה שנייה");
+    expect(a.conversation_id).not.toBe(b.conversation_id);
+  });
+
+  it("keeps only the newest turns that fit the token budget", () => {
+    const turn = (q: string): ConversationTurn => ({
+      question: q,
+      answer: "x".repeat(300),
+      entity_cards: [],
+    });
+    const kept = trimToTokenBudget([turn("1"), turn("2"), turn("3")], 250);
+    expect(kept.map((t) => t.question)).toEqual(["2", "3"]);
+  });
+
+  it("carries the most recent entities first, once each", () => {
+    const card = (id: string) => ({ type: "mk" as const, id, label: id, url: `/mks/${id}` });
+    const entities = carriedEntities([
+      { question: "", answer: "", entity_cards: [card("a"), card("b")] },
+      { question: "", answer: "", entity_cards: [card("b"), card("c")] },
+    ]);
+    expect(entities.map((e) => e.id)).toEqual(["b", "c", "a"]);
+  });
+
+  it("resolves a name from the conversation to its id and leaves explicit ids alone", () => {
+    const entities = [
+      { type: "party" as const, id: "p1", label: "הליכוד", url: "/parties/p1" },
+      { type: "mk" as const, id: "mk1", label: "ישראל ישראלי", url: "/mks/mk1" },
+    ];
+    expect(
+      carryOverEntityArgs({ name: "get_mk_detail", args: { name_query: "ישראלי" } }, entities).args,
+    ).toEqual({ mk_id: "mk1" });
+    expect(
+      carryOverEntityArgs({ name: "get_mk_detail", args: { mk_id: "mk9" } }, entities).args,
+    ).toEqual({ mk_id: "mk9" });
+    expect(
+      carryOverEntityArgs({ name: "get_mk_detail", args: { name_query: "אחר" } }, entities).args,
+    ).toEqual({ name_query: "אחר" });
+  });
+
+  it("carries earlier entities into the vote, bill and party topic tools", () => {
+    const entities = [
+      { type: "bill" as const, id: "b1", label: "חוק הדיור", url: "/bills/b1" },
+      { type: "mk" as const, id: "mk1", label: "ישראל ישראלי", url: "/mks/mk1" },
+      { type: "party" as const, id: "p1", label: "הליכוד", url: "/parties/p1" },
+    ];
+    expect(
+      carryOverEntityArgs({ name: "get_mk_votes", args: { bill_id: "b1" } }, entities).args,
+    ).toEqual({ mk_id: "mk1", bill_id: "b1" });
+    expect(
+      carryOverEntityArgs({ name: "get_bill_detail", args: { title_query: "הדיור" } }, entities)
+        .args,
+    ).toEqual({ bill_id: "b1" });
+    expect(
+      carryOverEntityArgs({ name: "get_party_topic_scores", args: {} }, entities).args,
+    ).toEqual({ party_id: "p1" });
+    expect(
+      carryOverEntityArgs({ name: "search_statements", args: { keyword: "דיור" } }, entities).args,
+    ).toEqual({ keyword: "דיור" });
+  });
+});
+
+describe("createLLMProvider", () => {
+  it("selects the backend and model from the environment", () => {
+    expect(createLLMProvider({}).name).toBe("gemini");
+    expect(createLLMProvider({ AI_PROVIDER: "scripted" }).model).toBe("scripted");
+    const local = createLLMProvider({
+      AI_PROVIDER: "openai",
+      OPENAI_BASE_URL: "http://localhost:8080/v1",
+      AI_MODEL: "qwen2.5",
+    });
+    expect([local.name, local.model]).toEqual(["openai", "qwen2.5"]);
+    expect(() => createLLMProvider({ AI_PROVIDER: "nope" })).toThrow("AI_PROVIDER");
+  });
+});
+
+describe("OpenAI-compatible provider", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const chatOpts = {
+    systemInstruction: "system",
+    tools: [
+      {
+        name: "search_votes",
+        description: "search",
+        parameters: {
+          type: "object" as const,
+          properties: { keyword: { type: "string" as const } },
+        },
+      },
+    ],
+  };
+
+  it("requires a key only for the hosted API", () => {
+    expect(() => createOpenAIProvider({}).startChat(chatOpts)).toThrow("OPENAI_API_KEY");
+    expect(() =>
+      createOpenAIProvider({ baseUrl: "http://localhost:11434/v1" }).startChat(chatOpts),
+    ).not.toThrow();
+  });
+
+  it("parses tool calls and sends results back with their call id", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        Response.json({
+          choices: [
+            {
+              message: {
+                content: null,
+                tool_calls: [
+                  {
+                    id: "call_1",
+                    type: "function",
+                    function: { name: "search_votes", arguments: '{"keyword":"דיור"}' },
+                  },
+                ],
+              },
+            },
+          ],
+        }),
+      )
+      .mockResolvedValueOnce(Response.json({ choices: [{ message: { content: "תשובה" } }] }));
+
+    const chat = createOpenAIProvider({ baseUrl: "http://localhost:8080/v1/" }).startChat(chatOpts);
+    const first = await chat.send("שאלה");
+    expect(first.toolCalls).toEqual([
+      { id: "call_1", name: "search_votes", args: { keyword: "דיור" } },
+    ]);
+
+    const second = await chat.send([{ call: first.toolCalls[0]!, result: [{ id: "v1" }] }]);
+    expect(second).toEqual({ text: "תשובה", toolCalls: [] });
+
+    const [url, init] = fetchMock.mock.calls[1] as [string, RequestInit];
+    expect(url).toBe("http://localhost:8080/v1/chat/completions");
+    const body = JSON.parse(init.body as string);
+    expect(body.messages.map((m: { role: string }) => m.role)).toEqual([
+      "system",
+      "user",
+      "assistant",
+      "tool",
+    ]);
+    expect(body.messages[3]).toEqual({
+      role: "tool",
+      tool_call_id: "call_1",
+      content: '[{"id":"v1"}]',
+    });
+  });
+
+  it("assembles streamed text and tool call fragments", async () => {
+    const sse = [
+      { choices: [{ delta: { content: "שלום " } }] },
+      { choices: [{ delta: { content: "עולם" } }] },
+      {
+        choices: [
+          {
+            delta: {
+              tool_calls: [
+                { index: 0, id: "c9", function: { name: "search_votes", arguments: "" } },
+              ],
+            },
+          },
+        ],
+      },
+      {
+        choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '{"keyword"' } }] } }],
+      },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: ':"x"}' } }] } }] },
+    ]
+      .map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`)
+      .concat("data: [DONE]\n\n")
+      .join("");
+    fetchMock.mockResolvedValueOnce(new Response(sse));
+
+    const chat = createOpenAIProvider({ baseUrl: "http://localhost:8080/v1" }).startChat(chatOpts);
+    const deltas = [];
+    for await (const delta of chat.stream("שאלה")) deltas.push(delta);
+
+    expect(deltas).toEqual([
+      { type: "text", text: "שלום " },
+      { type: "text", text: "עולם" },
+      { type: "tool_call", call: { id: "c9", name: "search_votes", args: { keyword: "x" } } },
+    ]);
+  });
+
+  it("surfaces HTTP errors with the status for classification", async () => {
+    fetchMock.mockResolvedValueOnce(new Response("slow down", { status: 429 }));
+    const chat = createOpenAIProvider({ baseUrl: "http://localhost:8080/v1" }).startChat(chatOpts);
+    await expect(chat.send("שאלה")).rejects.toThrow("returned 429");
+  });
+});
@@ -10,8 +10,16 @@ process.env["NODE_ENV"] = "test";
 
 // Mock database calls
 vi.mock("@knesset-vote/db", () => ({
+  Prisma: { sql: vi.fn(), raw: vi.fn(), join: vi.fn() },
   db: {
     $queryRaw: vi.fn().mockResolvedValue([{ "?column?": 1 }]),
+    // Interactive transactions run against the mocked client itself
+    $transaction: vi.fn().mockImplementation(function (
+      this: unknown,
+      fn: (tx: unknown) => unknown,
+    ) {
+      return fn(this);
+    }),
     eTLRun: {
       findFirst: vi.fn().mockResolvedValue(null),
     },
@@ -29,6 +37,14 @@ vi.mock("@knesset-vote/db", () => ({
       findMany: vi.fn().mockResolvedValue([]),
       count: vi.fn().mockResolvedValue(0),
       findFirst: vi.fn().mockResolvedValue(null),
+      groupBy: vi.fn().mockResolvedValue([]),
+    },
+    billTimeline: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      findFirst: vi.fn().mockResolvedValue(null),
+    },
+    billStageSpan: {
+      findMany: vi.fn().mockResolvedValue([]),
     },
     mKBillRole: {
       count: vi.fn().mockResolvedValue(0),
@@ -36,16 +52,88 @@ vi.mock("@knesset-vote/db", () => ({
     committeeMembership: {
       count: vi.fn().mockResolvedValue(0),
     },
+    committee: {
+      findMany: vi.fn().mockResolvedValue([]),
+      count: vi.fn().mockResolvedValue(0),
+      findFirst: vi.fn().mockResolvedValue(null),
+    },
     voteRecord: {
       count: vi.fn().mockResolvedValue(0),
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    vote: {
+      findMany: vi.fn().mockResolvedValue([]),
+      count: vi.fn().mockResolvedValue(0),
+      findFirst: vi.fn().mockResolvedValue(null),
+      groupBy: vi.fn().mockResolvedValue([]),
+    },
+    partyMembership: {
+      findMany: vi.fn().mockResolvedValue([]),
+      groupBy: vi.fn().mockResolvedValue([]),
+    },
+    governmentRole: {
+      findMany: vi.fn().mockResolvedValue([]),
+      groupBy: vi.fn().mockResolvedValue([]),
+    },
+    changeEvent: {
+      findMany: vi.fn().mockResolvedValue([]),
+      count: vi.fn().mockResolvedValue(0),
+    },
+    mKParticipation: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    mKVoteSimilarity: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    mKPartyCohesion: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    voteDefection: {
+      findMany: vi.fn().mockResolvedValue([]),
     },
     promise: {
       findMany: vi.fn().mockResolvedValue([]),
       count: vi.fn().mockResolvedValue(0),
+      findFirst: vi.fn().mockResolvedValue(null),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    promiseMatch: {
+      findMany: vi.fn().mockResolvedValue([]),
+      count: vi.fn().mockResolvedValue(0),
+      findFirst: vi.fn().mockResolvedValue(null),
+      update: vi
+        .fn()
+        .mockImplementation(({ where, data }: { where: { id: string }; data: object }) =>
+          Promise.resolve({ id: where.id, ...data }),
+        ),
+    },
+    editor: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      findFirst: vi.fn().mockResolvedValue(null),
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn(),
+      update: vi.fn().mockResolvedValue({}),
+    },
+    auditLog: {
+      create: vi.fn().mockResolvedValue({}),
+      findMany: vi.fn().mockResolvedValue([]),
+      count: vi.fn().mockResolvedValue(0),
     },
     sourceLink: {
       findMany: vi.fn().mockResolvedValue([]),
     },
+    webhookSubscription: {
+      create: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
+      findFirst: vi.fn().mockResolvedValue(null),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+    webhookDelivery: {
+      findMany: vi.fn().mockResolvedValue([]),
+      count: vi.fn().mockResolvedValue(0),
+    },
   },
 }));
 
@@ -160,10 +248,883 @@ describe("GET /api/bills", () => {
     });
     expect(res.statusCode).toBe(200);
   });
+
+  it("filters by bill type", async () => {
+    const { db } = await import("@knesset-vote/db");
+    const res = await app.inject({ method: "GET", url: "/api/bills?bill_type=government" });
+    expect(res.statusCode).toBe(200);
+    expect(vi.mocked(db.bill.findMany)).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ bill_type: "government" }) }),
+    );
+  });
+
+  it("rejects an unknown bill type", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/bills?bill_type=ministerial" });
+    expect(res.statusCode).toBe(400);
+  });
+});
+
+describe("GET /api/bills/:id", () => {
+  it("lists the plenum votes linked to the bill with their reading", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.bill.findFirst).mockResolvedValueOnce({
+      id: "b1",
+      external_id: "100",
+      external_source: "knesset_odata",
+      title_he: "הצעת חוק",
+      title_en: null,
+      description_he: null,
+      description_en: null,
+      status: "first_reading",
+      bill_type: "private",
+      topic: null,
+      knesset_number: 25,
+      submitted_date: null,
+      last_status_date: null,
+      source_url: null,
+      sponsors: [],
+      stage_history: [],
+      ai_summary: null,
+      votes: [
+        {
+          id: "v1",
+          title_he: "הצעת חוק - קריאה ראשונה",
+          vote_date: new Date("2024-02-01T10:00:00Z"),
+          bill_reading: "first_reading",
+          result: "passed",
+          yes_count: 40,
+          no_count: 10,
+          abstain_count: 0,
+          bill_link_confidence: "high",
+        },
+      ],
+    } as never);
+
+    const res = await app.inject({ method: "GET", url: "/api/bills/b1" });
+    expect(res.statusCode).toBe(200);
+    expect(res.json().data.votes).toEqual([
+      expect.objectContaining({ id: "v1", reading: "first_reading", link_confidence: "high" }),
+    ]);
+  });
+});
+
+describe("GET /api/bills/:id/timeline", () => {
+  it("returns 404 for unknown bill", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/bills/missing/timeline" });
+    expect(res.statusCode).toBe(404);
+  });
+
+  it("returns stages with labels and days", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.bill.findFirst).mockResolvedValueOnce({ id: "b1", bill_type: "private" } as never);
+    vi.mocked(db.billTimeline.findUnique).mockResolvedValueOnce({
+      bill_id: "b1",
+      committee_id: "c1",
+      submitted_at: new Date("2025-01-01T00:00:00Z"),
+      first_reading_at: new Date("2025-01-31T00:00:00Z"),
+      passed_at: null,
+      days_to_first_reading: 30,
+      days_to_passed: null,
+      computed_at: new Date("2025-06-01T00:00:00Z"),
+    } as never);
+    vi.mocked(db.billStageSpan.findMany).mockResolvedValueOnce([
+      {
+        position: 0,
+        status: "submitted",
+        started_at: new Date("2025-01-01T00:00:00Z"),
+        ended_at: new Date("2025-01-31T00:00:00Z"),
+        days: 30,
+        source: "submission",
+        committee_id: null,
+      },
+      {
+        position: 1,
+        status: "first_reading",
+        started_at: new Date("2025-01-31T00:00:00Z"),
+        ended_at: null,
+        days: 121,
+        source: "snapshot",
+        committee_id: "c1",
+      },
+    ] as never);
+    vi.mocked(db.committee.findMany).mockResolvedValueOnce([
+      { id: "c1", name_he: "ועדת הכספים" },
+    ] as never);
+
+    const res = await app.inject({ method: "GET", url: "/api/bills/b1/timeline" });
+    expect(res.statusCode).toBe(200);
+    const { data } = res.json();
+    expect(data).toMatchObject({ bill_type: "private", days_to_first_reading: 30 });
+    expect(data.stages).toEqual([
+      expect.objectContaining({ status: "submitted", status_label: "הוגשה", days: 30 }),
+      expect.objectContaining({
+        status: "first_reading",
+        ended_at: null,
+        committee: { id: "c1", name_he: "ועדת הכספים" },
+      }),
+    ]);
+  });
+});
+
+describe("GET /api/stats/legislative-pipeline", () => {
+  it("splits medians by bill type and committee", async () => {
+    const { db } = await import("@knesset-vote/db");
+    const row = (overrides: Record<string, unknown>) => ({
+      by_type: 1,
+      by_committee: 1,
+      bill_type: null,
+      committee_id: null,
+      bills: 10,
+      reached_first_reading: 4,
+      passed: 1,
+      median_days_to_first_reading: 45.25,
+      median_days_to_passed: 300,
+      ...overrides,
+    });
+    vi.mocked(db.$queryRaw)
+      .mockResolvedValueOnce([
+        row({}),
+        row({ by_type: 0, bill_type: "government", bills: 3, median_days_to_first_reading: 20 }),
+        row({ by_type: 0, bill_type: "private", bills: 7 }),
+        row({ by_committee: 0, committee_id: "c1", bills: 5 }),
+        row({ by_committee: 0, committee_id: null, bills: 5 }),
+      ])
+      .mockResolvedValueOnce([
+        { status: "first_reading", spans: 4, median_days: 60 },
+        { status: "submitted", spans: 9, median_days: 12.5 },
+      ]);
+    vi.mocked(db.committee.findMany).mockResolvedValueOnce([
+      { id: "c1", name_he: "ועדת החוקה" },
+    ] as never);
+
+    const res = await app.inject({ method: "GET", url: "/api/stats/legislative-pipeline" });
+    expect(res.statusCode).toBe(200);
+    const { data } = res.json();
+    expect(data.overall).toEqual({
+      bills: 10,
+      median_days_to_first_reading: 45.3,
+      median_days_to_passed: 300,
+      reached_first_reading: 4,
+      passed: 1,
+    });
+    expect(data.by_bill_type.map((g: { bill_type: string }) => g.bill_type)).toEqual([
+      "private",
+      "government",
+    ]);
+    expect(data.by_committee).toEqual([
+      expect.objectContaining({ committee_id: "c1", committee_name_he: "ועדת החוקה" }),
+    ]);
+    expect(data.time_in_stage.map((s: { status: string }) => s.status)).toEqual([
+      "submitted",
+      "first_reading",
+    ]);
+  });
+
+  it("rejects an invalid knesset", async () => {
+    const res = await app.inject({
+      method: "GET",
+      url: "/api/stats/legislative-pipeline?knesset=abc",
+    });
+    expect(res.statusCode).toBe(400);
+  });
+});
+
+describe("GET /api/committees", () => {
+  it("returns 200 with paginated response", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/committees" });
+    expect(res.statusCode).toBe(200);
+    const body = res.json();
+    expect(body).toHaveProperty("data");
+    expect(body).toHaveProperty("total");
+    expect(body).toHaveProperty("pages");
+  });
+
+  it("accepts knesset_number, is_active and search filters", async () => {
+    const res = await app.inject({
+      method: "GET",
+      url: "/api/committees?knesset_number=25&is_active=true&search=כספים",
+    });
+    expect(res.statusCode).toBe(200);
+  });
+
+  it("returns 400 for a non-numeric knesset_number", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/committees?knesset_number=abc" });
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("lists distinct bills handled by the committee with their latest stage there", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.committee.findFirst).mockResolvedValueOnce({
+      id: "c1",
+      external_id: "1",
+      external_source: "knesset_odata",
+      name_he: "ועדת הכספים",
+      name_en: null,
+      knesset_number: 25,
+      is_active: true,
+      source_url: null,
+      last_seen_at: null,
+      memberships: [],
+    } as never);
+    vi.mocked(db.bill.findMany).mockResolvedValueOnce([
+      {
+        id: "b1",
+        title_he: "הצעת חוק הדיור",
+        status: "committee",
+        source_url: null,
+        stage_history: [{ stage_name_he: "דיון בוועדה", stage_date: new Date("2024-05-01") }],
+      },
+    ] as never);
+    vi.mocked(db.bill.count).mockResolvedValueOnce(1);
+
+    const res = await app.inject({ method: "GET", url: "/api/committees/c1" });
+    expect(res.statusCode).toBe(200);
+    expect(vi.mocked(db.bill.findMany)).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: { stage_history: { some: { committee_id: "c1" } } },
+        take: 50,
+      }),
+    );
+    expect(res.json().data).toMatchObject({
+      bill_count: 1,
+      bills: [
+        {
+          id: "b1",
+          last_stage_name_he: "דיון בוועדה",
+          last_stage_date: "2024-05-01T00:00:00.000Z",
+        },
+      ],
+    });
+  });
+
+  it("returns 404 for unknown committee", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/committees/no-exist" });
+    expect(res.statusCode).toBe(404);
+    expect(res.json().statusCode).toBe(404);
+  });
+});
+
+describe("GET /api/changes", () => {
+  it("returns 200 with paginated response", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/changes" });
+    expect(res.statusCode).toBe(200);
+    const body = res.json();
+    expect(body).toHaveProperty("data");
+    expect(body).toHaveProperty("pages");
+    expect(body.methodology_url).toBe("/methodology#changes");
+  });
+
+  it("filters by since and entity_type and serializes events", async () => {
+    const { db } = await import("@knesset-vote/db");
+    const detectedAt = new Date("2026-10-18T03:00:00Z");
+    vi.mocked(db.changeEvent.findMany).mockResolvedValueOnce([
+      {
+        id: "ce1",
+        entity_type: "bill",
+        entity_id: "b1",
+        external_id: "501",
+        change_type: "status_changed",
+        field: "status",
+        old_value: "committee_review",
+        new_value: "first_reading",
+        label_he: "הצעת חוק לדוגמה",
+        occurred_at: null,
+        etl_run_id: "run1",
+        detected_at: detectedAt,
+      },
+    ] as never);
+    vi.mocked(db.changeEvent.count).mockResolvedValueOnce(1);
+
+    const res = await app.inject({
+      method: "GET",
+      url: "/api/changes?since=2026-10-12&entity_type=bill",
+    });
+    expect(res.statusCode).toBe(200);
+    const body = res.json();
+    expect(body.total).toBe(1);
+    expect(body.data[0]).toMatchObject({
+      change_type: "status_changed",
+      old_value: "committee_review",
+      new_value: "first_reading",
+      detected_at: detectedAt.toISOString(),
+    });
+    expect(body.data[0]).not.toHaveProperty("etl_run_id");
+    expect(vi.mocked(db.changeEvent.findMany).mock.lastCall?.[0]?.where).toEqual({
+      detected_at: { gte: new Date("2026-10-12") },
+      entity_type: "bill",
+    });
+    // A unique last sort key, so offset pages neither repeat nor skip events
+    expect(vi.mocked(db.changeEvent.findMany).mock.lastCall?.[0]?.orderBy).toContainEqual({
+      id: "asc",
+    });
+  });
+
+  it("returns 400 for an unknown entity_type or unparsable since", async () => {
+    const badType = await app.inject({ method: "GET", url: "/api/changes?entity_type=foo" });
+    expect(badType.statusCode).toBe(400);
+    const badSince = await app.inject({ method: "GET", url: "/api/changes?since=last-week" });
+    expect(badSince.statusCode).toBe(400);
+  });
+});
+
+describe("Knesset terms", () => {
+  it("lists terms newest first with seats and governments", async () => {
+    const { db } = await import("@knesset-vote/db");
+    const d = (iso: string) => new Date(iso);
+    vi.mocked(db.party.findMany).mockResolvedValueOnce([
+      { id: "p25", name_he: "א", name_en: null, knesset_number: 25, seat_count: 32 },
+      { id: "p24", name_he: "ב", name_en: null, knesset_number: 24, seat_count: 17 },
+    ] as never);
+    vi.mocked(db.partyMembership.groupBy)
+      .mockResolvedValueOnce([
+        {
+          knesset_number: 24,
+          _min: { start_date: d("2021-04-06") },
+        },
+        {
+          knesset_number: 25,
+          _min: { start_date: d("2022-11-15") },
+        },
+      ] as never)
+      .mockResolvedValueOnce([
+        { knesset_number: 24, mk_id: "mk1" },
+        { knesset_number: 25, mk_id: "mk1" },
+        { knesset_number: 25, mk_id: "mk2" },
+      ] as never);
+    vi.mocked(db.governmentRole.groupBy).mockResolvedValueOnce([
+      {
+        knesset_num: 24,
+        government_num: 36,
+        _min: { start_date: d("2021-06-13") },
+        _max: { end_date: d("2022-12-29") },
+        _count: { _all: 28 },
+      },
+      {
+        knesset_num: 25,
+        government_num: 37,
+        _min: { start_date: d("2022-12-29") },
+        _max: { end_date: d("2024-01-01") },
+        _count: { _all: 31 },
+      },
+    ] as never);
+    vi.mocked(db.vote.groupBy).mockResolvedValueOnce([
+      { knesset_number: 25, _count: { _all: 40 } },
+    ] as never);
+
+    const res = await app.inject({ method: "GET", url: "/api/knessets" });
+    expect(res.statusCode).toBe(200);
+    const { data, total } = res.json();
+    expect(total).toBe(2);
+    expect(data[0]).toMatchObject({
+      knesset_number: 25,
+      is_current: true,
+      end_date: null,
+      mk_count: 2,
+      vote_count: 40,
+      bill_count: 0,
+      seats: [{ party_id: "p25", seat_count: 32 }],
+      governments: [{ government_num: 37, end_date: null, role_count: 31 }],
+    });
+    expect(data[1]).toMatchObject({
+      knesset_number: 24,
+      is_current: false,
+      end_date: "2022-11-15T00:00:00.000Z",
+      governments: [{ government_num: 36, end_date: "2022-12-29T00:00:00.000Z" }],
+    });
+  });
+
+  it("lists everyone who served in a past term, not only current MKs", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.mK.count).mockClear();
+
+    const res = await app.inject({ method: "GET", url: "/api/mks?knesset=24&party_id=p24" });
+    expect(res.statusCode).toBe(200);
+    const where = vi.mocked(db.mK.count).mock.calls[0]?.[0]?.where;
+    expect(where?.is_current).toBeUndefined();
+    expect(where?.memberships).toEqual({
+      some: { knesset_number: 24, party: { OR: [{ id: "p24" }, { external_id: "p24" }] } },
+    });
+  });
+
+  it("applies the knesset param to parties, bills, votes and ministers", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.party.count).mockClear();
+    vi.mocked(db.bill.count).mockClear();
+    vi.mocked(db.vote.count).mockClear();
+    vi.mocked(db.governmentRole.findMany).mockClear();
+
+    for (const path of ["parties", "bills", "votes", "government"]) {
+      const res = await app.inject({ method: "GET", url: `/api/${path}?knesset=24` });
+      expect(res.statusCode).toBe(200);
+    }
+    expect(vi.mocked(db.party.count).mock.calls[0]?.[0]?.where).toMatchObject({
+      knesset_number: 24,
+    });
+    expect(vi.mocked(db.bill.count).mock.calls[0]?.[0]?.where).toMatchObject({
+      knesset_number: 24,
+    });
+    expect(vi.mocked(db.vote.count).mock.calls[0]?.[0]?.where).toMatchObject({
+      knesset_number: 24,
+    });
+    expect(vi.mocked(db.governmentRole.findMany).mock.calls[0]?.[0]?.where).toEqual({
+      knesset_num: 24,
+    });
+  });
+});
+
+describe("Feeds", () => {
+  const bill = {
+    id: "b1",
+    external_id: "501",
+    external_source: "knesset_odata",
+    title_he: 'הצעת חוק <מים> & "חשמל"',
+    title_en: null,
+    description_he: null,
+    description_en: null,
+    status: "first_reading",
+    topic: "economy",
+    knesset_number: 25,
+    submitted_date: new Date("2026-09-01T00:00:00Z"),
+    last_status_date: new Date("2026-10-10T00:00:00Z"),
+    source_url:
+      "https://main.knesset.gov.il/Activity/Legislation/Laws/Pages/LawBill.aspx?t=lawsuggestionssearch&lawitemid=501",
+    is_demo: false,
+  };
+
+  it("renders bills as Atom with stable ids, escaped Hebrew titles and source links", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.bill.findMany).mockResolvedValueOnce([bill] as never);
+
+    const res = await app.inject({ method: "GET", url: "/feeds/bills.atom" });
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toContain("application/atom+xml");
+    expect(res.body).toContain('xml:lang="he"');
+    expect(res.body).toContain("<id>urn:knesset-vote:bill:b1</id>");
+    expect(res.body).toContain("הצעת חוק &lt;מים&gt; &amp; &quot;חשמל&quot;");
+    expect(res.body).toContain(
+      '<link rel="via" type="text/html" href="https://main.knesset.gov.il/',
+    );
+    expect(res.body).toContain('dir="rtl"');
+    expect(res.body).toContain("<updated>2026-10-10T00:00:00.000Z</updated>");
+  });
+
+  it("renders votes as JSON Feed 1.1", async () => {
+    const res = await app.inject({ method: "GET", url: "/feeds/votes.json" });
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toContain("application/feed+json");
+    const body = res.json();
+    expect(body.version).toBe("https://jsonfeed.org/version/1.1");
+    expect(body.language).toBe("he");
+    expect(body.items).toEqual([]);
+  });
+
+  it("includes the MK's own position on vote items", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.mK.findFirst).mockResolvedValueOnce({ id: "mk1", name_he: "חבר כנסת" } as never);
+    vi.mocked(db.vote.findMany).mockResolvedValueOnce([
+      {
+        id: "v1",
+        external_id: "9001",
+        external_source: "knesset_odata",
+        source_url: null,
+        title_he: "הצבעה על הצעת חוק",
+        title_en: null,
+        vote_date: new Date("2026-10-12T10:00:00Z"),
+        knesset_number: 25,
+        bill_id: null,
+        topic: null,
+        yes_count: 60,
+        no_count: 50,
+        abstain_count: 0,
+        result: "passed",
+      },
+    ] as never);
+    vi.mocked(db.voteRecord.findMany).mockResolvedValueOnce([
+      { vote_id: "v1", position: "no" },
+    ] as never);
+
+    const res = await app.inject({ method: "GET", url: "/feeds/mks/mk1.json" });
+    expect(res.statusCode).toBe(200);
+    const [item] = res.json().items;
+    expect(item.id).toBe("urn:knesset-vote:vote:v1");
+    expect(item.content_text).toContain("הצבעה: נגד");
+    expect(item.date_published).toBe("2026-10-12T10:00:00.000Z");
+  });
+
+  it("lists a party's bills by the sponsors' membership when each was submitted", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.party.findFirst).mockResolvedValueOnce({ id: "p1", name_he: "סיעה" } as never);
+    vi.mocked(db.$queryRaw).mockResolvedValueOnce([{ bill_id: "b1" }, { bill_id: "b2" }] as never);
+
+    const res = await app.inject({ method: "GET", url: "/feeds/parties/p1.json" });
+    expect(res.statusCode).toBe(200);
+    expect(vi.mocked(db.bill.findMany)).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: { id: { in: ["b1", "b2"] } } }),
+    );
+  });
+
+  it("returns 404 for unknown MK or party", async () => {
+    const mk = await app.inject({ method: "GET", url: "/feeds/mks/no-exist.atom" });
+    expect(mk.statusCode).toBe(404);
+    const party = await app.inject({ method: "GET", url: "/feeds/parties/no-exist.json" });
+    expect(party.statusCode).toBe(404);
+  });
+});
+
+describe("Coalition status", () => {
+  it("filters MKs by the coalition periods in effect today", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.mK.count).mockClear();
+
+    const res = await app.inject({ method: "GET", url: "/api/mks?coalition=opposition" });
+    expect(res.statusCode).toBe(200);
+    const where = vi.mocked(db.mK.count).mock.calls[0]?.[0]?.where;
+    expect(where?.memberships?.some?.party).toMatchObject({
+      coalition_periods: { some: { status: "opposition" } },
+    });
+  });
+
+  it("resolves vote records against the government of the vote date", async () => {
+    const { db } = await import("@knesset-vote/db");
+    const voteDate = new Date("2023-11-01T10:00:00Z");
+    vi.mocked(db.vote.findFirst).mockResolvedValueOnce({
+      id: "v1",
+      external_id: "500",
+      external_source: "knesset_odata",
+      title_he: "הצבעה",
+      title_en: null,
+      vote_date: voteDate,
+      knesset_number: 25,
+      bill_id: null,
+      topic: null,
+      yes_count: 2,
+      no_count: 0,
+      abstain_count: 0,
+      result: "passed",
+      source_url: null,
+      records: [
+        { id: "r1", vote_id: "v1", mk_id: "mk1", position: "yes", mk: { name_he: "א" } },
+        { id: "r2", vote_id: "v1", mk_id: "mk2", position: "yes", mk: { name_he: "ב" } },
+      ],
+    } as never);
+    vi.mocked(db.partyMembership.findMany).mockResolvedValueOnce([
+      {
+        mk_id: "mk1",
+        party: {
+          coalition_periods: [
+            { status: "coalition", start_date: new Date("2023-10-12"), end_date: null },
+          ],
+        },
+      },
+    ] as never);
+
+    const res = await app.inject({ method: "GET", url: "/api/votes/v1" });
+    expect(res.statusCode).toBe(200);
+    const { data } = JSON.parse(res.body);
+    expect(
+      data.records.map((r: { coalition_status: string | null }) => r.coalition_status),
+    ).toEqual(["coalition", null]);
+  });
+
+  it("breaks the vote down by faction and bloc, counting seated MKs without a record as absent", async () => {
+    const { db } = await import("@knesset-vote/db");
+    const voteDate = new Date("2023-11-01T10:00:00Z");
+    vi.mocked(db.vote.findFirst).mockResolvedValueOnce({
+      id: "v2",
+      external_id: "501",
+      external_source: "knesset_odata",
+      title_he: "הצבעה",
+      title_en: null,
+      vote_date: voteDate,
+      knesset_number: 25,
+      bill_id: null,
+      topic: null,
+      yes_count: 2,
+      no_count: 1,
+      abstain_count: 0,
+      result: "passed",
+      source_url: null,
+      records: [
+        { id: "r1", vote_id: "v2", mk_id: "mk1", position: "yes", mk: { name_he: "א" } },
+        { id: "r2", vote_id: "v2", mk_id: "mk2", position: "yes", mk: { name_he: "ב" } },
+        { id: "r3", vote_id: "v2", mk_id: "mk3", position: "no", mk: { name_he: "ג" } },
+      ],
+    } as never);
+    const party = (id: string, status: string) => ({
+      id,
+      name_he: `סיעה ${id}`,
+      abbreviation: null,
+      coalition_periods: [{ status, start_date: new Date("2023-01-01"), end_date: null }],
+    });
+    vi.mocked(db.partyMembership.findMany).mockResolvedValueOnce([
+      { mk_id: "mk1", party: party("p1", "coalition") },
+      { mk_id: "mk2", party: party("p1", "coalition") },
+      { mk_id: "mk3", party: party("p2", "opposition") },
+      { mk_id: "mk4", party: party("p2", "opposition") },
+    ] as never);
+
+    const res = await app.inject({ method: "GET", url: "/api/votes/v2" });
+    expect(res.statusCode).toBe(200);
+    const { breakdown } = res.json().data;
+    expect(vi.mocked(db.partyMembership.findMany)).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: expect.not.objectContaining({ mk_id: expect.anything() }) }),
+    );
+    expect(breakdown.parties).toEqual([
+      expect.objectContaining({ party_id: "p1", seats: 2, yes: 2, coalition_status: "coalition" }),
+      expect.objectContaining({ party_id: "p2", seats: 2, no: 1, absent: 1 }),
+    ]);
+    expect(breakdown.blocs.coalition).toEqual({ yes: 2, no: 0, abstain: 0, present: 0, absent: 0 });
+    expect(breakdown.blocs.opposition).toEqual({
+      yes: 0,
+      no: 1,
+      abstain: 0,
+      present: 0,
+      absent: 1,
+    });
+  });
+
+  it("derives the term from the vote date when the vote has no Knesset number", async () => {
+    const { db } = await import("@knesset-vote/db");
+    const voteDate = new Date("2023-11-01T10:00:00Z");
+    vi.mocked(db.vote.findFirst).mockResolvedValueOnce({
+      id: "v3",
+      external_id: "502",
+      external_source: "knesset_v4",
+      title_he: "הצבעה",
+      title_en: null,
+      vote_date: voteDate,
+      knesset_number: null,
+      bill_id: null,
+      topic: null,
+      yes_count: 1,
+      no_count: 0,
+      abstain_count: 0,
+      result: "passed",
+      source_url: null,
+      records: [{ id: "r1", vote_id: "v3", mk_id: "mk1", position: "yes", mk: { name_he: "א" } }],
+    } as never);
+    vi.mocked(db.partyMembership.groupBy).mockResolvedValueOnce([
+      { knesset_number: 24, _min: { start_date: new Date("2021-04-06") } },
+      { knesset_number: 25, _min: { start_date: new Date("2022-11-15") } },
+    ] as never);
+    const party = {
+      id: "p1",
+      name_he: "סיעה p1",
+      abbreviation: null,
+      coalition_periods: [
+        { status: "coalition", start_date: new Date("2023-01-01"), end_date: null },
+      ],
+    };
+    vi.mocked(db.partyMembership.findMany).mockResolvedValueOnce([
+      { mk_id: "mk1", party },
+      { mk_id: "mk2", party },
+    ] as never);
+
+    const res = await app.inject({ method: "GET", url: "/api/votes/v3" });
+    expect(res.statusCode).toBe(200);
+    expect(vi.mocked(db.partyMembership.findMany)).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ knesset_number: 25 }) }),
+    );
+    expect(res.json().data.breakdown.parties).toEqual([
+      expect.objectContaining({ party_id: "p1", seats: 2, yes: 1, absent: 1 }),
+    ]);
+  });
+});
+
+describe("GET /api/mks?sort=participation", () => {
+  it("orders MKs by overall participation, MKs without data last", async () => {
+    const { db } = await import("@knesset-vote/db");
+    const overall = (mk_id: string, yes: number, absent: number) => ({
+      mk_id,
+      scope: "overall",
+      period: "all",
+      total_votes: yes + absent,
+      yes_count: yes,
+      no_count: 0,
+      abstain_count: 0,
+      present_count: 0,
+      absent_count: absent,
+      unknown_count: 0,
+      computed_at: new Date(),
+    });
+    const rows = [overall("low", 20, 80), overall("high", 90, 10)];
+    vi.mocked(db.mK.findMany)
+      .mockResolvedValueOnce([
+        { id: "low", name_he: "א" },
+        { id: "none", name_he: "ב" },
+        { id: "high", name_he: "ג" },
+      ] as never)
+      .mockResolvedValueOnce(
+        ["none", "high", "low"].map((id) => ({
+          id,
+          name_he: id,
+          memberships: [],
+          government_roles: [],
+          committee_memberships: [],
+        })) as never,
+      );
+    vi.mocked(db.mK.count).mockResolvedValueOnce(3);
+    vi.mocked(db.mKParticipation.findMany)
+      .mockResolvedValueOnce(rows as never)
+      .mockResolvedValueOnce(rows as never);
+
+    const res = await app.inject({ method: "GET", url: "/api/mks?sort=participation" });
+    expect(res.statusCode).toBe(200);
+    const body = res.json();
+    expect(body.data.map((m: { id: string }) => m.id)).toEqual(["high", "low", "none"]);
+    expect(body.data[0].participation_pct).toBe(90);
+    expect(body.data[2].participation_pct).toBeNull();
+  });
+});
+
+describe("GET /api/mks/:id/participation", () => {
+  it("returns 404 for unknown MK", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/mks/no-exist/participation" });
+    expect(res.statusCode).toBe(404);
+  });
+
+  it("splits rows into overall, term and month and derives rates", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.mK.findFirst).mockResolvedValueOnce({ id: "mk1" } as never);
+    const row = (scope: string, period: string) => ({
+      mk_id: "mk1",
+      scope,
+      period,
+      total_votes: 200,
+      yes_count: 100,
+      no_count: 40,
+      abstain_count: 10,
+      present_count: 5,
+      absent_count: 45,
+      unknown_count: 0,
+      computed_at: new Date(),
+    });
+    vi.mocked(db.mKParticipation.findMany).mockResolvedValueOnce([
+      row("month", "2024-01"),
+      row("term", "25"),
+      row("overall", "all"),
+      row("term", "24"),
+    ] as never);
+
+    const res = await app.inject({ method: "GET", url: "/api/mks/mk1/participation" });
+    expect(res.statusCode).toBe(200);
+    const { data } = res.json();
+    expect(data.overall).toMatchObject({
+      participation_pct: 75,
+      absence_pct: 22.5,
+      abstention_pct: 5,
+    });
+    expect(data.by_term.map((t: { period: string }) => t.period)).toEqual(["24", "25"]);
+    expect(data.by_month).toHaveLength(1);
+  });
+});
+
+describe("GET /api/mks/:id/similar", () => {
+  it("returns 404 for unknown MK", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/mks/no-exist/similar" });
+    expect(res.statusCode).toBe(404);
+  });
+
+  it("rejects a limit above 20", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/mks/mk1/similar?limit=50" });
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("returns most and least aligned MKs with overlap counts", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.mK.findFirst).mockResolvedValueOnce({ id: "mk1" } as never);
+    const row = (other: string, agreements: number) => ({
+      mk_id: "mk1",
+      other_mk_id: other,
+      overlap: 200,
+      agreements,
+      agreement_rate: agreements / 200,
+      computed_at: new Date(),
+    });
+    vi.mocked(db.mKVoteSimilarity.findMany)
+      .mockResolvedValueOnce([row("mk2", 190)] as never)
+      .mockResolvedValueOnce([row("mk3", 41)] as never);
+    vi.mocked(db.mK.findMany).mockResolvedValueOnce([
+      { id: "mk2", name_he: "א", memberships: [{ party: { name_he: "סיעה א" } }] },
+      { id: "mk3", name_he: "ב", memberships: [] },
+    ] as never);
+
+    const res = await app.inject({ method: "GET", url: "/api/mks/mk1/similar?limit=1" });
+    expect(res.statusCode).toBe(200);
+    const { data } = res.json();
+    expect(data.most_similar[0]).toMatchObject({
+      mk_id: "mk2",
+      party_name_he: "סיעה א",
+      overlap: 200,
+      agreement_pct: 95,
+    });
+    expect(data.least_similar[0]).toMatchObject({ mk_id: "mk3", agreement_pct: 20.5 });
+    expect(vi.mocked(db.mKVoteSimilarity.findMany).mock.lastCall?.[0]?.where).toEqual({
+      mk_id: "mk1",
+      other_mk_id: { notIn: ["mk2"] },
+    });
+  });
+});
+
+describe("GET /api/mks/:id/cohesion", () => {
+  it("returns 404 for unknown MK", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/mks/no-exist/cohesion" });
+    expect(res.statusCode).toBe(404);
+  });
+
+  it("aggregates loyalty across factions and returns notable defections", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.mK.findFirst).mockResolvedValueOnce({ id: "mk1", name_he: "ח״כ בדיקה" } as never);
+    vi.mocked(db.mKPartyCohesion.findMany).mockResolvedValueOnce([
+      {
+        party_id: "p1",
+        votes_counted: 90,
+        votes_with: 81,
+        votes_against: 9,
+        computed_at: new Date(),
+      },
+      {
+        party_id: "p2",
+        votes_counted: 10,
+        votes_with: 10,
+        votes_against: 0,
+        computed_at: new Date(),
+      },
+    ] as never);
+    vi.mocked(db.voteDefection.findMany).mockResolvedValueOnce([
+      {
+        mk_id: "mk1",
+        party_id: "p1",
+        vote_id: "v1",
+        vote_date: new Date("2024-01-01"),
+        position: "no",
+        party_position: "yes",
+        party_rice_index: 0.9,
+      },
+    ] as never);
+
+    const res = await app.inject({ method: "GET", url: "/api/mks/mk1/cohesion" });
+    expect(res.statusCode).toBe(200);
+    const { data } = res.json();
+    expect(data.votes_counted).toBe(100);
+    expect(data.with_party_pct).toBe(91);
+    expect(data.parties[0].with_party_pct).toBe(90);
+    expect(data.defections).toHaveLength(1);
+    expect(data.defections[0].party_position).toBe("yes");
+  });
+});
+
+describe("GET /api/parties/:id/cohesion", () => {
+  it("returns 404 for unknown party", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/parties/no-exist/cohesion" });
+    expect(res.statusCode).toBe(404);
+  });
 });
 
 describe("GET /api/search", () => {
   it("returns 200 with search results", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.$queryRaw).mockResolvedValueOnce([] as never);
     const res = await app.inject({
       method: "GET",
       url: "/api/search?q=נתניהו",
@@ -174,6 +1135,75 @@ describe("GET /api/search", () => {
     expect(body).toHaveProperty("query");
   });
 
+  it("returns ranked results with highlight segments and pagination", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.$queryRaw).mockResolvedValueOnce([
+      {
+        type: "bill",
+        id: "b1",
+        title: "הצעת חוק הדיור",
+        subtitle: null,
+        source_url: null,
+        headline: "הצעת חוק \uE000הדיור\uE001 הציבורי",
+        score: 0.61234,
+        total: 45,
+      },
+    ] as never);
+    vi.mocked(db.$queryRaw).mockResolvedValueOnce([
+      { facet: "type", value: "mk", count: 1 },
+      { facet: "type", value: "bill", count: 45 },
+      { facet: "topic", value: "housing", count: 40 },
+      { facet: "knesset", value: "24", count: 5 },
+      { facet: "knesset", value: "25", count: 40 },
+    ] as never);
+
+    const res = await app.inject({ method: "GET", url: "/api/search?q=בדיור&type=bill&page=2" });
+    expect(res.statusCode).toBe(200);
+    const body = res.json();
+    expect(body).toMatchObject({ total: 45, page: 2, limit: 20, pages: 3 });
+    expect(body.facets).toEqual({
+      type: [
+        { value: "bill", count: 45 },
+        { value: "mk", count: 1 },
+      ],
+      topic: [{ value: "housing", count: 40 }],
+      status: [],
+      knesset: [
+        { value: 25, count: 40 },
+        { value: 24, count: 5 },
+      ],
+    });
+    expect(body.data[0]).toMatchObject({ url: "/bills/b1", score: 0.612 });
+    expect(body.data[0].highlight).toEqual([
+      { text: "הצעת חוק ", match: false },
+      { text: "הדיור", match: true },
+      { text: " הציבורי", match: false },
+    ]);
+  });
+
+  it("keeps the total on a page past the last result", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.$queryRaw).mockResolvedValueOnce([] as never);
+    vi.mocked(db.$queryRaw).mockResolvedValueOnce([
+      { facet: "type", value: "mk", count: 1 },
+      { facet: "type", value: "bill", count: 45 },
+    ] as never);
+
+    const res = await app.inject({ method: "GET", url: "/api/search?q=בדיור&type=bill&page=9" });
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toMatchObject({ data: [], total: 45, page: 9, pages: 3 });
+  });
+
+  it("returns no results without querying when the query has no words", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.$queryRaw).mockClear();
+
+    const res = await app.inject({ method: "GET", url: "/api/search?q=%21%21" });
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toMatchObject({ data: [], total: 0 });
+    expect(db.$queryRaw).not.toHaveBeenCalled();
+  });
+
   it("returns 400 when query is missing", async () => {
     const res = await app.inject({
       method: "GET",
@@ -181,6 +1211,11 @@ describe("GET /api/search", () => {
     });
     expect(res.statusCode).toBe(400);
   });
+
+  it("returns 400 for an invalid knesset filter", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/search?q=חוק&knesset=abc" });
+    expect(res.statusCode).toBe(400);
+  });
 });
 
 describe("GET /api/promises", () => {
@@ -191,11 +1226,64 @@ describe("GET /api/promises", () => {
     expect(body).toHaveProperty("data");
     expect(body).toHaveProperty("editorial_note");
   });
+
+  it("only lists published statements", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.promise.findMany).mockClear();
+    await app.inject({ method: "GET", url: "/api/promises" });
+    expect(vi.mocked(db.promise.findMany).mock.calls[0]?.[0]?.where).toMatchObject({
+      status: "published",
+    });
+  });
 });
 
-describe("POST /api/promises without API_KEY", () => {
-  it("returns 404 when API_KEY not set", async () => {
+describe("Editorial API", () => {
+  let keyed: FastifyInstance;
+  const adminHeaders = { "x-api-key": "test-key" };
+  const editorHeaders = { "x-api-key": "kv_editor" };
+
+  const promiseRow = (overrides: Record<string, unknown> = {}) => ({
+    id: "p1",
+    text: "נוריד את מחירי הדיור בתוך שנתיים",
+    category: "statement",
+    topic: "housing",
+    mk_id: null,
+    party_id: null,
+    stated_on: null,
+    source_url: "https://example.com/interview",
+    source_label: "ראיון",
+    status: "draft",
+    published_at: null,
+    created_by_id: "e1",
+    last_edited_by_id: "e1",
+    created_at: new Date("2026-10-01T00:00:00Z"),
+    updated_at: new Date("2026-10-01T00:00:00Z"),
+    ...overrides,
+  });
+
+  async function signInAs(role: "viewer" | "editor" | "admin", id = "e1") {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.editor.findUnique).mockResolvedValueOnce({
+      id,
+      name: `Editor ${id}`,
+      role,
+      is_active: true,
+    } as never);
+  }
+
+  beforeAll(async () => {
+    process.env["API_KEY"] = "test-key";
+    const { build } = await import("../server.js");
+    keyed = await build();
+    await keyed.ready();
+  });
+
+  afterAll(async () => {
     delete process.env["API_KEY"];
+    await keyed.close();
+  });
+
+  it("returns 401 without a valid key", async () => {
     const res = await app.inject({
       method: "POST",
       url: "/api/promises",
@@ -206,10 +1294,571 @@ describe("POST /api/promises without API_KEY", () => {
         source_label: "Test",
       },
     });
+    expect(res.statusCode).toBe(401);
+
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.editor.findUnique).mockResolvedValueOnce({
+      id: "e9",
+      name: "Former editor",
+      role: "admin",
+      is_active: false,
+    } as never);
+    const inactive = await keyed.inject({
+      method: "GET",
+      url: "/api/audit-log",
+      headers: { "x-api-key": "kv_revoked" },
+    });
+    expect(inactive.statusCode).toBe(401);
+  });
+
+  it("returns 403 when the role is too low", async () => {
+    await signInAs("viewer");
+    const create = await keyed.inject({
+      method: "POST",
+      url: "/api/promises",
+      headers: editorHeaders,
+      payload: { text: "x" },
+    });
+    expect(create.statusCode).toBe(403);
+
+    await signInAs("editor");
+    const del = await keyed.inject({
+      method: "DELETE",
+      url: "/api/promises/p1",
+      headers: editorHeaders,
+    });
+    expect(del.statusCode).toBe(403);
+  });
+
+  it("creates statements as drafts and records who did it", async () => {
+    const { db } = await import("@knesset-vote/db");
+    await signInAs("editor");
+    vi.mocked(db.promise.create).mockClear();
+    vi.mocked(db.promise.create).mockResolvedValueOnce(promiseRow() as never);
+    vi.mocked(db.auditLog.create).mockClear();
+
+    const res = await keyed.inject({
+      method: "POST",
+      url: "/api/promises",
+      headers: editorHeaders,
+      payload: {
+        text: "נוריד את מחירי הדיור בתוך שנתיים",
+        category: "statement",
+        topic: "housing",
+        source_url: "https://example.com/interview",
+        source_label: "ראיון",
+      },
+    });
+    expect(res.statusCode).toBe(201);
+    expect(res.json().data).toMatchObject({ id: "p1", status: "draft" });
+    expect(vi.mocked(db.promise.create).mock.calls[0]?.[0]?.data).toMatchObject({
+      status: "draft",
+      created_by_id: "e1",
+      added_by: "api",
+    });
+    expect(vi.mocked(db.auditLog.create).mock.calls[0]?.[0]?.data).toMatchObject({
+      editor_id: "e1",
+      actor: "Editor e1",
+      action: "create",
+      entity_type: "promise",
+      entity_id: "p1",
+    });
+  });
+
+  it("rejects invalid statement input", async () => {
+    const res = await keyed.inject({
+      method: "PATCH",
+      url: "/api/promises/p1",
+      headers: adminHeaders,
+      payload: {},
+    });
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("lets another editor publish a draft, but not its author", async () => {
+    const { db } = await import("@knesset-vote/db");
+    await signInAs("editor", "e1");
+    vi.mocked(db.promise.findFirst).mockResolvedValueOnce(promiseRow() as never);
+    const own = await keyed.inject({
+      method: "POST",
+      url: "/api/promises/p1/publish",
+      headers: editorHeaders,
+    });
+    expect(own.statusCode).toBe(403);
+
+    // Whoever edited the draft last cannot publish it either
+    await signInAs("editor", "e3");
+    vi.mocked(db.promise.findFirst).mockResolvedValueOnce(
+      promiseRow({ last_edited_by_id: "e3" }) as never,
+    );
+    const edited = await keyed.inject({
+      method: "POST",
+      url: "/api/promises/p1/publish",
+      headers: editorHeaders,
+    });
+    expect(edited.statusCode).toBe(403);
+
+    await signInAs("editor", "e2");
+    vi.mocked(db.promise.findFirst).mockResolvedValueOnce(promiseRow() as never);
+    vi.mocked(db.promise.update).mockResolvedValueOnce(
+      promiseRow({ status: "published", published_at: new Date("2026-10-02T00:00:00Z") }) as never,
+    );
+    vi.mocked(db.auditLog.create).mockClear();
+    const res = await keyed.inject({
+      method: "POST",
+      url: "/api/promises/p1/publish",
+      headers: editorHeaders,
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.json().data).toMatchObject({ status: "published" });
+    expect(vi.mocked(db.auditLog.create).mock.calls[0]?.[0]?.data).toMatchObject({
+      editor_id: "e2",
+      action: "publish",
+      changes: { status: { from: "draft", to: "published" } },
+    });
+
+    vi.mocked(db.promise.findFirst).mockResolvedValueOnce(
+      promiseRow({ status: "published" }) as never,
+    );
+    const again = await keyed.inject({
+      method: "POST",
+      url: "/api/promises/p1/publish",
+      headers: adminHeaders,
+    });
+    expect(again.statusCode).toBe(409);
+  });
+
+  it("records the last editor and returns editors' changes to published statements to draft", async () => {
+    const { db } = await import("@knesset-vote/db");
+    const published = promiseRow({
+      status: "published",
+      published_at: new Date("2026-10-02T00:00:00Z"),
+    });
+
+    await signInAs("editor", "e2");
+    vi.mocked(db.promise.findFirst).mockResolvedValueOnce(published as never);
+    vi.mocked(db.promise.update).mockClear();
+    vi.mocked(db.promise.update).mockResolvedValueOnce(
+      promiseRow({ text: "טקסט מתוקן", last_edited_by_id: "e2" }) as never,
+    );
+    const res = await keyed.inject({
+      method: "PATCH",
+      url: "/api/promises/p1",
+      headers: editorHeaders,
+      payload: { text: "טקסט מתוקן" },
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.json().data).toMatchObject({ status: "draft", last_edited_by_id: "e2" });
+    expect(vi.mocked(db.promise.update).mock.calls[0]?.[0]?.data).toEqual({
+      text: "טקסט מתוקן",
+      last_edited_by_id: "e2",
+      status: "draft",
+      published_at: null,
+    });
+
+    // Admins' changes keep the statement published
+    vi.mocked(db.promise.findFirst).mockResolvedValueOnce(published as never);
+    vi.mocked(db.promise.update).mockClear();
+    vi.mocked(db.promise.update).mockResolvedValueOnce(published as never);
+    await keyed.inject({
+      method: "PATCH",
+      url: "/api/promises/p1",
+      headers: adminHeaders,
+      payload: { text: "טקסט מתוקן" },
+    });
+    expect(vi.mocked(db.promise.update).mock.calls[0]?.[0]?.data).toEqual({
+      text: "טקסט מתוקן",
+      last_edited_by_id: null,
+    });
+  });
+
+  it("lets admins delete statements", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.promise.findFirst).mockResolvedValueOnce(promiseRow() as never);
+    const res = await keyed.inject({
+      method: "DELETE",
+      url: "/api/promises/p1",
+      headers: adminHeaders,
+    });
+    expect(res.statusCode).toBe(204);
+    expect(vi.mocked(db.promise.delete)).toHaveBeenCalledWith({ where: { id: "p1" } });
+
+    const missing = await keyed.inject({
+      method: "DELETE",
+      url: "/api/promises/missing",
+      headers: adminHeaders,
+    });
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it("requires exactly one target for a manual match", async () => {
+    const res = await keyed.inject({
+      method: "POST",
+      url: "/api/promises/p1/matches",
+      headers: adminHeaders,
+      payload: { confidence: "high", status: "matched", bill_id: "b1", vote_id: "v1" },
+    });
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("returns a new editor's key once and stores only its hash", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.editor.create).mockImplementationOnce((({ data }: { data: object }) =>
+      Promise.resolve({
+        id: "e3",
+        is_active: true,
+        last_used_at: null,
+        created_at: new Date("2026-10-01T00:00:00Z"),
+        ...data,
+      })) as never);
+
+    const res = await keyed.inject({
+      method: "POST",
+      url: "/api/editors",
+      headers: adminHeaders,
+      payload: { name: "מתנדבת", role: "editor" },
+    });
+    expect(res.statusCode).toBe(201);
+    const body = res.json();
+    expect(body.api_key).toMatch(/^kv_[0-9a-f]{48}$/);
+    expect(body.data).toMatchObject({ id: "e3", role: "editor" });
+    expect(body.data).not.toHaveProperty("key_hash");
+
+    const { createHash } = await import("crypto");
+    const data = vi.mocked(db.editor.create).mock.calls[0]?.[0]?.data;
+    expect(data?.key_hash).toBe(createHash("sha256").update(body.api_key).digest("hex"));
+    expect(JSON.stringify(data)).not.toContain(body.api_key);
+  });
+
+  it("lists the audit log for viewers", async () => {
+    const { db } = await import("@knesset-vote/db");
+    await signInAs("viewer");
+    vi.mocked(db.auditLog.findMany).mockResolvedValueOnce([
+      {
+        id: "a1",
+        editor_id: "e1",
+        actor: "Editor e1",
+        action: "update",
+        entity_type: "promise",
+        entity_id: "p1",
+        changes: { topic: { from: null, to: "housing" } },
+        created_at: new Date("2026-10-02T00:00:00Z"),
+      },
+    ] as never);
+    vi.mocked(db.auditLog.count).mockResolvedValueOnce(1);
+
+    const res = await keyed.inject({
+      method: "GET",
+      url: "/api/audit-log?entity_type=promise&entity_id=p1",
+      headers: editorHeaders,
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toMatchObject({
+      total: 1,
+      data: [{ id: "a1", action: "update", changes: { topic: { to: "housing" } } }],
+    });
+  });
+});
+
+describe("Statement match review", () => {
+  it("returns 401 for the review routes without an API key", async () => {
+    delete process.env["API_KEY"];
+    const res = await app.inject({ method: "GET", url: "/api/promises/review" });
+    expect(res.statusCode).toBe(401);
+    const post = await app.inject({
+      method: "POST",
+      url: "/api/promises/matches/m1/review",
+      payload: { decision: "accept" },
+    });
+    expect(post.statusCode).toBe(401);
+  });
+
+  describe("with API_KEY", () => {
+    let keyed: FastifyInstance;
+    const headers = { "x-api-key": "test-key" };
+
+    beforeAll(async () => {
+      process.env["API_KEY"] = "test-key";
+      const { build } = await import("../server.js");
+      keyed = await build();
+      await keyed.ready();
+    });
+
+    afterAll(async () => {
+      delete process.env["API_KEY"];
+      await keyed.close();
+    });
+
+    it("rejects a wrong API key", async () => {
+      const res = await keyed.inject({
+        method: "GET",
+        url: "/api/promises/review",
+        headers: { "x-api-key": "nope" },
+      });
+      expect(res.statusCode).toBe(401);
+    });
+
+    it("lists pending suggestions by default", async () => {
+      const { db } = await import("@knesset-vote/db");
+      vi.mocked(db.promiseMatch.findMany).mockClear();
+      vi.mocked(db.promiseMatch.findMany).mockResolvedValueOnce([
+        {
+          id: "m1",
+          match_type: "auto_keyword",
+          confidence: "high",
+          score: 0.5,
+          status: "matched",
+          review_status: "pending",
+          reviewed_at: null,
+          notes: "Auto-suggested",
+          promise: {
+            id: "p1",
+            text: "נוריד את מחירי הדיור",
+            topic: "housing",
+            stated_on: null,
+            mk: { id: "mk1", name_he: "ח״כ א" },
+            party: null,
+          },
+          bill: { id: "b1", title_he: "הצעת חוק הדיור", status: "submitted" },
+          vote: null,
+        },
+      ] as never);
+      vi.mocked(db.promiseMatch.count).mockResolvedValueOnce(1);
+
+      const res = await keyed.inject({ method: "GET", url: "/api/promises/review", headers });
+      expect(res.statusCode).toBe(200);
+      const body = res.json();
+      expect(body.total).toBe(1);
+      expect(body.data[0]).toMatchObject({
+        id: "m1",
+        review_status: "pending",
+        promise: { mk: { id: "mk1" } },
+        bill: { id: "b1", title: "הצעת חוק הדיור" },
+      });
+      const where = vi.mocked(db.promiseMatch.findMany).mock.calls[0]?.[0]?.where;
+      expect(where).toMatchObject({ review_status: "pending", match_type: { not: "manual" } });
+    });
+
+    it("accepts a suggestion", async () => {
+      const { db } = await import("@knesset-vote/db");
+      vi.mocked(db.promiseMatch.findFirst).mockResolvedValueOnce({
+        match_type: "auto_keyword",
+      } as never);
+      vi.mocked(db.promiseMatch.update).mockClear();
+
+      const res = await keyed.inject({
+        method: "POST",
+        url: "/api/promises/matches/m1/review",
+        headers,
+        payload: { decision: "accept" },
+      });
+      expect(res.statusCode).toBe(200);
+      expect(res.json().data).toEqual({ id: "m1", review_status: "accepted" });
+      expect(vi.mocked(db.promiseMatch.update).mock.calls[0]?.[0]?.data).toMatchObject({
+        review_status: "accepted",
+      });
+    });
+
+    it("refuses to review manual matches and unknown ids", async () => {
+      const { db } = await import("@knesset-vote/db");
+      vi.mocked(db.promiseMatch.findFirst).mockResolvedValueOnce({
+        match_type: "manual",
+      } as never);
+      const manual = await keyed.inject({
+        method: "POST",
+        url: "/api/promises/matches/m2/review",
+        headers,
+        payload: { decision: "reject" },
+      });
+      expect(manual.statusCode).toBe(409);
+
+      const missing = await keyed.inject({
+        method: "POST",
+        url: "/api/promises/matches/missing/review",
+        headers,
+        payload: { decision: "reject" },
+      });
+      expect(missing.statusCode).toBe(404);
+    });
+
+    it("rejects an invalid decision", async () => {
+      const res = await keyed.inject({
+        method: "POST",
+        url: "/api/promises/matches/m1/review",
+        headers,
+        payload: { decision: "maybe" },
+      });
+      expect(res.statusCode).toBe(400);
+    });
+  });
+});
+describe("GET /api/export/:entity", () => {
+  it("streams CSV with a BOM, header row and quoted values", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.bill.findMany).mockResolvedValueOnce([
+      {
+        id: "b1",
+        external_id: "100",
+        title_he: 'הצעת חוק "בדיקה", תשפ"ו',
+        title_en: null,
+        status: "passed",
+        topic: null,
+        knesset_number: 25,
+        submitted_date: new Date("2026-01-02T00:00:00Z"),
+        last_status_date: null,
+        is_demo: false,
+        source_url: null,
+        last_changed_at: null,
+      },
+    ] as never);
+
+    const res = await app.inject({ method: "GET", url: "/api/export/bills?format=csv" });
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/csv");
+    expect(res.headers["content-disposition"]).toMatch(/knesset-vote-bills-.*\.csv/);
+    const lines = res.body.split("\r\n");
+    expect(lines[0]!.startsWith("\uFEFFid,external_id,title_he,")).toBe(true);
+    expect(lines[1]).toBe(
+      'b1,100,"הצעת חוק ""בדיקה"", תשפ""ו",,passed,,25,2026-01-02T00:00:00.000Z,,false,,',
+    );
+  });
+
+  it("streams JSON Lines", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.voteRecord.findMany).mockResolvedValueOnce([
+      { id: "r1", vote_id: "v1", mk_id: "mk1", position: "yes" },
+      { id: "r2", vote_id: "v1", mk_id: "mk2", position: "no" },
+    ] as never);
+
+    const res = await app.inject({ method: "GET", url: "/api/export/vote_records?format=jsonl" });
+    expect(res.statusCode).toBe(200);
+    const rows = res.body
+      .trim()
+      .split("\n")
+      .map((l) => JSON.parse(l));
+    expect(rows).toEqual([
+      { id: "r1", vote_id: "v1", mk_id: "mk1", position: "yes" },
+      { id: "r2", vote_id: "v1", mk_id: "mk2", position: "no" },
+    ]);
+  });
+
+  it("rejects unknown entities", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/export/promises" });
+    expect(res.statusCode).toBe(400);
+  });
+});
+
+describe("Webhooks without API_KEY", () => {
+  it("returns 404 for every webhook route when API_KEY not set", async () => {
+    for (const [method, url] of [
+      ["POST", "/api/webhooks"],
+      ["GET", "/api/webhooks"],
+      ["DELETE", "/api/webhooks/abc"],
+      ["GET", "/api/webhooks/abc/deliveries"],
+    ] as const) {
+      const res = await app.inject({
+        method,
+        url,
+        ...(method === "POST" ? { payload: { url: "https://example.com/hook" } } : {}),
+      });
+      expect(res.statusCode).toBe(404);
+      expect(JSON.parse(res.body).message).toContain("API_KEY");
+    }
+  });
+});
+
+describe("Webhooks with API_KEY", () => {
+  let keyed: FastifyInstance;
+  const headers = { "x-api-key": "test-key" };
+
+  beforeAll(async () => {
+    process.env["API_KEY"] = "test-key";
+    const { build } = await import("../server.js");
+    keyed = await build();
+    await keyed.ready();
+  });
+
+  afterAll(async () => {
+    delete process.env["API_KEY"];
+    await keyed.close();
+  });
+
+  it("rejects a missing or wrong API key", async () => {
+    for (const key of [undefined, "nope", "test-ke", "test-key2"]) {
+      const res = await keyed.inject({
+        method: "GET",
+        url: "/api/webhooks",
+        headers: key === undefined ? {} : { "x-api-key": key },
+      });
+      expect(res.statusCode, key).toBe(401);
+    }
+  });
+
+  it("rejects non-http urls", async () => {
+    const res = await keyed.inject({
+      method: "POST",
+      url: "/api/webhooks",
+      headers,
+      payload: { url: "ftp://example.com/hook" },
+    });
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("rejects urls on private or loopback hosts", async () => {
+    for (const url of ["http://127.0.0.1:8080/hook", "https://[::1]/hook", "http://10.0.0.1/"]) {
+      const res = await keyed.inject({
+        method: "POST",
+        url: "/api/webhooks",
+        headers,
+        payload: { url },
+      });
+      expect(res.statusCode, url).toBe(400);
+    }
+  });
+
+  it("creates a subscription and returns its secret once", async () => {
+    const { db } = await import("@knesset-vote/db");
+    vi.mocked(db.webhookSubscription.create).mockImplementationOnce(
+      (args) =>
+        ({
+          id: "wh1",
+          ...args.data,
+          is_active: true,
+          created_at: new Date("2026-10-01T00:00:00Z"),
+          updated_at: new Date("2026-10-01T00:00:00Z"),
+        }) as never,
+    );
+
+    const res = await keyed.inject({
+      method: "POST",
+      url: "/api/webhooks",
+      headers,
+      payload: { url: "https://93.184.215.14/hook", topic: "housing" },
+    });
+    expect(res.statusCode).toBe(201);
+    const { data } = JSON.parse(res.body);
+    expect(data).toMatchObject({ id: "wh1", topic: "housing", bill_id: null, mk_id: null });
+    expect(data.secret).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("returns 404 when deleting an unknown subscription", async () => {
+    const res = await keyed.inject({ method: "DELETE", url: "/api/webhooks/missing", headers });
     expect(res.statusCode).toBe(404);
   });
 });
 
+describe("POST /api/ai/answer", () => {
+  it("rejects a malformed conversation_id", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/ai/answer",
+      payload: { question: "מי יושב ראש הכנסת?", conversation_id: "../../etc" },
+    });
+    expect(res.statusCode).toBe(400);
+    expect(res.json().message).toBe("מזהה שיחה לא תקין");
+  });
+});
+
 describe("Rate limiting", () => {
   it("includes rate limit headers", async () => {
     const res = await app.inject({ method: "GET", url: "/api/health" });
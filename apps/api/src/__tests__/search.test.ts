@@ -0,0 +1,99 @@
+/**
+ * Unit tests for the search query normaliser, transliteration, highlight
+ * parsing and facet grouping
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@knesset-vote/db", () => ({ db: {}, Prisma: {} }));
+
+import {
+  buildTsQuery,
+  normalizeSearchText,
+  parseHeadline,
+  prefixVariants,
+  toFacets,
+  transliterateToHebrew,
+} from "../services/search-service.js";
+
+describe("normalizeSearchText", () => {
+  it("drops niqqud, gershayim and quotes and lower-cases Latin text", () => {
+    expect(normalizeSearchText('ש"ס')).toBe("שס");
+    expect(normalizeSearchText("ש\u05B8\u05C1לו\u05B9ם")).toBe("שלום");
+    expect(normalizeSearchText("צה״ל Likud")).toBe("צהל likud");
+  });
+});
+
+describe("prefixVariants", () => {
+  it("adds forms without one and two prefix letters", () => {
+    expect(prefixVariants("והכנסת")).toEqual(["והכנסת", "הכנסת", "כנסת"]);
+    expect(prefixVariants("בדיור")).toEqual(["בדיור", "דיור"]);
+  });
+
+  it("keeps at least three letters and ignores non-prefix letters", () => {
+    expect(prefixVariants("הלל")).toEqual(["הלל"]);
+    expect(prefixVariants("כנסת")).toEqual(["כנסת"]);
+    expect(prefixVariants("likud")).toEqual(["likud"]);
+  });
+});
+
+describe("buildTsQuery", () => {
+  it("requires every word, each as a prefix in any of its forms", () => {
+    expect(buildTsQuery("חוק  בדיור")).toBe("(חוק:*) & (בדיור:* | דיור:*)");
+  });
+
+  it("strips tsquery operators and returns null without words", () => {
+    expect(buildTsQuery("a & b:* | !c")).toBe("(a:*) & (b:*) & (c:*)");
+    expect(buildTsQuery("!?")).toBeNull();
+  });
+});
+
+describe("parseHeadline", () => {
+  it("splits marked matches into segments", () => {
+    expect(parseHeadline("חוק הדיור הציבורי")).toEqual([
+      { text: "חוק", match: true },
+      { text: " הדיור ", match: false },
+      { text: "הציבורי", match: true },
+    ]);
+  });
+
+  it("returns plain text when nothing is marked", () => {
+    expect(parseHeadline("חוק הדיור")).toEqual([{ text: "חוק הדיור", match: false }]);
+    expect(parseHeadline(null)).toEqual([]);
+  });
+});
+
+describe("transliterateToHebrew", () => {
+  it("spells common MK names close to their Hebrew form", () => {
+    expect(transliterateToHebrew("Smotrich")).toBe("סמוטריץ'");
+    expect(transliterateToHebrew("Lieberman")).toBe("ליברמן");
+    expect(transliterateToHebrew("Bennett")).toBe("בנט");
+    expect(transliterateToHebrew("Benny Gantz")).toBe("בני גנץ");
+  });
+
+  it("writes a leading vowel as alef and a final a as he", () => {
+    expect(transliterateToHebrew("Ohana")).toBe("אוהנה");
+  });
+
+  it("returns null for queries without Latin letters", () => {
+    expect(transliterateToHebrew("נתניהו")).toBeNull();
+    expect(transliterateToHebrew("2024")).toBeNull();
+  });
+});
+
+describe("toFacets", () => {
+  it("groups rows by facet, largest first, with Knesset terms newest first", () => {
+    const facets = toFacets([
+      { facet: "status", value: "passed", count: 2 },
+      { facet: "status", value: "rejected", count: 7 },
+      { facet: "knesset", value: "24", count: 9 },
+      { facet: "knesset", value: "25", count: 1 },
+    ]);
+    expect(facets.status.map((b) => b.value)).toEqual(["rejected", "passed"]);
+    expect(facets.knesset).toEqual([
+      { value: 25, count: 1 },
+      { value: 24, count: 9 },
+    ]);
+    expect(facets.type).toEqual([]);
+  });
+});
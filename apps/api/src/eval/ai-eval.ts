@@ -0,0 +1,239 @@
+/**
+ * AI assistant evaluation — replays the golden questions through askAI and
+ * checks the tools called, the entity cards and off-topic refusals.
+ *
+ * The report leaves out timings and dates so that two runs of the same set
+ * can be diffed between commits; only behavior changes show up.
+ */
+
+import type { AiAnswer } from "@knesset-vote/shared";
+import { askAI } from "../services/ai-service.js";
+import {
+  setLLMProvider,
+  type LLMProvider,
+  type LLMStreamDelta,
+  type ScriptedTurn,
+} from "../services/llm/index.js";
+import type { GoldenQuestion, GoldenSet } from "./golden-questions.js";
+
+// How the assistant declines off-topic questions, in the system prompt's spirit
+const REFUSAL_RE = /(רק על שאלות|אינ[הוםן] קשור|לא קשור|איני יכול|אינני יכול|לא אוכל|מחוץ לתחום)/;
+
+export interface EvalCheck {
+  name: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  question: string;
+  passed: boolean;
+  checks: EvalCheck[];
+  tool_calls_made: string[];
+  /** "type:label" of every entity card */
+  entity_cards: string[];
+  /** Claims the verification pass could not match to tool results */
+  unverified_claims: string[];
+  answer_md: string;
+  error?: string;
+}
+
+export interface EvalReport {
+  set_version: string;
+  provider: string;
+  model: string;
+  total: number;
+  passed: number;
+  failed: number;
+  cases: EvalCaseResult[];
+}
+
+/** Turns recorded from a live model, replayed with `--provider=recorded` */
+export interface EvalRecording {
+  set_version: string;
+  model: string;
+  turns: Record<string, ScriptedTurn[]>;
+}
+
+export function isRefusal(answer: AiAnswer): boolean {
+  return answer.tool_calls_made.length === 0 && REFUSAL_RE.test(answer.answer_md);
+}
+
+export function checkAnswer(question: GoldenQuestion, answer: AiAnswer): EvalCheck[] {
+  const { expect } = question;
+  const checks: EvalCheck[] = [];
+
+  for (const tool of expect.tools ?? []) {
+    checks.push({
+      name: `tool ${tool}`,
+      passed: answer.tool_calls_made.includes(tool),
+    });
+  }
+
+  for (const entity of expect.entities ?? []) {
+    checks.push({
+      name: `entity ${entity.type}:${entity.label}`,
+      passed: answer.entity_cards.some(
+        (c) => c.type === entity.type && c.label.includes(entity.label),
+      ),
+    });
+  }
+  if (expect.entities?.length === 0) {
+    checks.push({
+      name: "no entities",
+      passed: answer.entity_cards.length === 0,
+      detail: answer.entity_cards.map((c) => c.label).join(", ") || undefined,
+    });
+  }
+
+  // On-topic questions are checked too, so an over-eager refusal fails
+  const refused = isRefusal(answer);
+  checks.push({
+    name: expect.refusal ? "refuses" : "answers",
+    passed: refused === Boolean(expect.refusal),
+  });
+
+  for (const phrase of expect.answer_includes ?? []) {
+    checks.push({ name: `answer includes "${phrase}"`, passed: answer.answer_md.includes(phrase) });
+  }
+
+  return checks;
+}
+
+/**
+ * Wraps a provider so each turn it produces is appended to `sink`, in the
+ * shape the scripted provider replays.
+ */
+export function recordTurns(inner: LLMProvider, sink: ScriptedTurn[]): LLMProvider {
+  return {
+    name: inner.name,
+    model: inner.model,
+    startChat(opts) {
+      const chat = inner.startChat(opts);
+      return {
+        async send(input) {
+          const turn = await chat.send(input);
+          sink.push({ text: turn.text, toolCalls: turn.toolCalls });
+          return turn;
+        },
+        async *stream(input): AsyncGenerator<LLMStreamDelta> {
+          const turn = { text: "", toolCalls: [] as NonNullable<ScriptedTurn["toolCalls"]> };
+          for await (const delta of chat.stream(input)) {
+            if (delta.type === "text") turn.text += delta.text;
+            else turn.toolCalls.push(delta.call);
+            yield delta;
+          }
+          sink.push(turn);
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Asks every golden question with the provider `providerFor` returns for it.
+ * A question whose provider or answer throws fails with the error recorded.
+ */
+export async function runEval(
+  set: GoldenSet,
+  providerFor: (question: GoldenQuestion) => LLMProvider,
+): Promise<EvalReport> {
+  const cases: EvalCaseResult[] = [];
+  let provider: LLMProvider | null = null;
+
+  try {
+    for (const question of set.questions) {
+      try {
+        provider = providerFor(question);
+        setLLMProvider(provider);
+        const answer = await askAI(question.question);
+        const checks = checkAnswer(question, answer);
+        cases.push({
+          id: question.id,
+          question: question.question,
+          passed: checks.every((c) => c.passed),
+          checks,
+          tool_calls_made: answer.tool_calls_made,
+          entity_cards: answer.entity_cards.map((c) => `${c.type}:${c.label}`),
+          unverified_claims: answer.claims.filter((c) => !c.verified).map((c) => c.text),
+          answer_md: answer.answer_md,
+        });
+      } catch (err) {
+        cases.push({
+          id: question.id,
+          question: question.question,
+          passed: false,
+          checks: [],
+          tool_calls_made: [],
+          entity_cards: [],
+          unverified_claims: [],
+          answer_md: "",
+          // Prisma errors span many lines; the first one names the failure
+          error: (err instanceof Error ? err.message : String(err))
+            .split("\n")
+            .map((line) => line.trim())
+            .find(Boolean),
+        });
+      }
+    }
+  } finally {
+    setLLMProvider(null);
+  }
+
+  const passed = cases.filter((c) => c.passed).length;
+  return {
+    set_version: set.version,
+    provider: provider?.name ?? "none",
+    model: provider?.model ?? "none",
+    total: cases.length,
+    passed,
+    failed: cases.length - passed,
+    cases,
+  };
+}
+
+function cell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+export function renderMarkdownReport(report: EvalReport): string {
+  const lines = [
+    `# AI evaluation — golden set v${report.set_version}`,
+    "",
+    `Provider: \`${report.provider}\` · model: \`${report.model}\``,
+    "",
+    `**${report.passed}/${report.total} passed**, ${report.failed} failed`,
+    "",
+    "| Question | Result | Tools | Entities | Unverified claims |",
+    "| --- | --- | --- | --- | --- |",
+    ...report.cases.map((c) =>
+      [
+        "",
+        `\`${c.id}\``,
+        c.passed ? "pass" : "**FAIL**",
+        cell(c.tool_calls_made.join(", ") || "—"),
+        cell(c.entity_cards.join(", ") || "—"),
+        cell(c.unverified_claims.join(", ") || "—"),
+        "",
+      ]
+        .join(" | ")
+        .trim(),
+    ),
+  ];
+
+  const failures = report.cases.filter((c) => !c.passed);
+  if (failures.length > 0) {
+    lines.push("", "## Failures");
+    for (const c of failures) {
+      lines.push("", `### \`${c.id}\` — ${c.question}`, "");
+      if (c.error) lines.push(`- error: ${c.error}`);
+      for (const check of c.checks.filter((k) => !k.passed)) {
+        lines.push(`- ${check.name}${check.detail ? ` (${check.detail})` : ""}`);
+      }
+      if (c.answer_md) lines.push("", "> " + c.answer_md.split("\n").join("\n> "));
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
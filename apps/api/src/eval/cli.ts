@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+/**
+ * AI evaluation CLI
+ * Usage: pnpm ai:eval [--provider=scripted|recorded|live] [--recording=FILE]
+ *                     [--record=FILE] [--only=ID,ID] [--out=DIR]
+ *
+ *   scripted  (default) replay each golden question's own script — no model
+ *   recorded  replay turns captured earlier from a live model (--recording)
+ *   live      ask the model configured by AI_PROVIDER / AI_MODEL; with
+ *             --record=FILE the turns are saved for later `recorded` runs
+ *
+ * Runs against the database in DATABASE_URL — point it at a seeded test DB.
+ * Writes ai-eval.json and ai-eval.md to --out (default: ai-eval-reports) and
+ * exits 1 when any question fails.
+ */
+
+import fs from "fs";
+import path from "path";
+import { db } from "@knesset-vote/db";
+import {
+  createLLMProvider,
+  createScriptedProvider,
+  type LLMProvider,
+  type ScriptedTurn,
+} from "../services/llm/index.js";
+import { GOLDEN_SET, type GoldenQuestion } from "./golden-questions.js";
+import { recordTurns, renderMarkdownReport, runEval, type EvalRecording } from "./ai-eval.js";
+
+function argValue(args: string[], name: string): string | undefined {
+  return args.find((a) => a.startsWith(`--${name}=`))?.slice(name.length + 3);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const mode = argValue(args, "provider") ?? "scripted";
+  const outDir = path.resolve(argValue(args, "out") ?? "ai-eval-reports");
+  const only = argValue(args, "only")?.split(",");
+  const recordTo = argValue(args, "record");
+
+  if (recordTo && mode !== "live") {
+    console.error("--record only applies to --provider=live");
+    process.exit(1);
+  }
+
+  const set = only
+    ? { ...GOLDEN_SET, questions: GOLDEN_SET.questions.filter((q) => only.includes(q.id)) }
+    : GOLDEN_SET;
+
+  let providerFor: (q: GoldenQuestion) => LLMProvider;
+  const recorded: Record<string, ScriptedTurn[]> = {};
+
+  if (mode === "scripted") {
+    providerFor = (q) => createScriptedProvider(q.script);
+  } else if (mode === "recorded") {
+    const file = argValue(args, "recording");
+    if (!file) {
+      console.error("--provider=recorded needs --recording=FILE");
+      process.exit(1);
+    }
+    const recording = JSON.parse(fs.readFileSync(file, "utf8")) as EvalRecording;
+    if (recording.set_version !== set.version) {
+      console.warn(
+        `Recording is for golden set v${recording.set_version}, running v${set.version}`,
+      );
+    }
+    providerFor = (q) => {
+      const turns = recording.turns[q.id];
+      if (!turns) throw new Error(`No recorded turns for ${q.id}`);
+      return createScriptedProvider(turns, recording.model);
+    };
+  } else if (mode === "live") {
+    const live = createLLMProvider(process.env);
+    providerFor = (q) => recordTurns(live, (recorded[q.id] = []));
+  } else {
+    console.error(`Unknown --provider=${mode} (expected scripted, recorded or live)`);
+    process.exit(1);
+  }
+
+  const report = await runEval(set, providerFor);
+
+  await fs.promises.mkdir(outDir, { recursive: true });
+  await fs.promises.writeFile(
+    path.join(outDir, "ai-eval.json"),
+    JSON.stringify(report, null, 2) + "\n",
+  );
+  await fs.promises.writeFile(path.join(outDir, "ai-eval.md"), renderMarkdownReport(report));
+
+  if (recordTo) {
+    const recording: EvalRecording = {
+      set_version: set.version,
+      model: report.model,
+      turns: recorded,
+    };
+    await fs.promises.writeFile(recordTo, JSON.stringify(recording, null, 2) + "\n");
+  }
+
+  console.info(
+    `AI eval v${report.set_version} (${report.provider}/${report.model}): ` +
+      `${report.passed}/${report.total} passed — report in ${outDir}`,
+  );
+  for (const c of report.cases.filter((c) => !c.passed)) {
+    console.info(`  FAIL ${c.id}${c.error ? `: ${c.error}` : ""}`);
+  }
+
+  await db.$disconnect();
+  process.exit(report.failed > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,161 @@
+/**
+ * Golden questions for the AI assistant evaluation (pnpm ai:eval).
+ *
+ * Expectations are written against the demo seed (`pnpm db:seed`, then
+ * `pnpm etl:aggregate` for party topic scores). Each question also carries
+ * the turns an ideal model would take, which the scripted provider replays
+ * so the suite runs without a model.
+ *
+ * Bump GOLDEN_SET_VERSION whenever a question or expectation changes —
+ * reports from different versions are not comparable.
+ */
+
+import type { EntityCard } from "@knesset-vote/shared";
+import type { ScriptedTurn } from "../services/llm/index.js";
+
+export const GOLDEN_SET_VERSION = "1";
+
+export interface GoldenQuestion {
+  /** Stable id — report rows and recordings are keyed by it */
+  id: string;
+  question: string;
+  expect: {
+    /** Tools that must all be called (others may be called too) */
+    tools?: string[];
+    /** Entity cards that must appear; the label is matched as a substring */
+    entities?: { type: EntityCard["type"]; label: string }[];
+    /** Off-topic: the answer must decline without calling any tool */
+    refusal?: boolean;
+    /** Phrases the answer must contain */
+    answer_includes?: string[];
+  };
+  /** Model turns replayed by the scripted provider */
+  script: ScriptedTurn[];
+}
+
+export interface GoldenSet {
+  version: string;
+  questions: GoldenQuestion[];
+}
+
+export const GOLDEN_SET: GoldenSet = {
+  version: GOLDEN_SET_VERSION,
+  questions: [
+    // ── MKs ──────────────────────────────────────────────────────────────
+    {
+      id: "mk-legislation",
+      question: "מה הפעילות החקיקתית של בנימין נתניהו?",
+      expect: {
+        tools: ["get_mk_detail"],
+        entities: [{ type: "mk", label: "בנימין נתניהו" }],
+      },
+      script: [
+        { toolCalls: [{ name: "get_mk_detail", args: { name_query: "בנימין נתניהו" } }] },
+        { text: "לפי get_mk_detail, אלה הצעות החוק שבנימין נתניהו הגיש בכנסת ה-25." },
+      ],
+    },
+    {
+      id: "mk-committees",
+      question: "באילו ועדות כנסת חבר יאיר לפיד?",
+      expect: {
+        tools: ["get_mk_detail"],
+        entities: [{ type: "mk", label: "יאיר לפיד" }],
+      },
+      script: [
+        { toolCalls: [{ name: "get_mk_detail", args: { name_query: "יאיר לפיד" } }] },
+        { text: "לפי get_mk_detail, אלה הוועדות שיאיר לפיד חבר בהן." },
+      ],
+    },
+    {
+      id: "mk-unknown",
+      question: "מה הפעילות החקיקתית של ישראל ישראלי?",
+      expect: {
+        tools: ["get_mk_detail"],
+        entities: [],
+        answer_includes: ["לא נמצאו נתונים"],
+      },
+      script: [
+        { toolCalls: [{ name: "get_mk_detail", args: { name_query: "ישראל ישראלי" } }] },
+        { text: "לא נמצאו נתונים במסד הנתונים עבור שאלה זו (get_mk_detail)." },
+      ],
+    },
+
+    // ── Parties ──────────────────────────────────────────────────────────
+    {
+      id: "party-seats",
+      question: "כמה מנדטים יש להליכוד?",
+      expect: {
+        tools: ["get_party_info"],
+        entities: [{ type: "party", label: "הליכוד" }],
+      },
+      script: [
+        { toolCalls: [{ name: "get_party_info", args: { name_query: "הליכוד" } }] },
+        { text: "לפי get_party_info, זה מספר המנדטים של הליכוד בכנסת הנוכחית." },
+      ],
+    },
+    {
+      id: "party-members",
+      question: 'מי הח"כים של יש עתיד?',
+      expect: {
+        tools: ["get_party_info"],
+        entities: [{ type: "party", label: "יש עתיד" }],
+      },
+      script: [
+        { toolCalls: [{ name: "get_party_info", args: { name_query: "יש עתיד" } }] },
+        { text: 'לפי get_party_info, אלה הח"כים של יש עתיד.' },
+      ],
+    },
+    {
+      id: "party-topics",
+      question: "באילו נושאים מחוקקת סיעת הליכוד?",
+      expect: {
+        tools: ["get_party_topic_scores"],
+        entities: [{ type: "party", label: "הליכוד" }],
+      },
+      script: [
+        { toolCalls: [{ name: "get_party_topic_scores", args: { name_query: "הליכוד" } }] },
+        { text: "לפי get_party_topic_scores, אלה הנושאים שבהם חברי הליכוד מגישים הצעות חוק." },
+      ],
+    },
+
+    // ── Bills ────────────────────────────────────────────────────────────
+    {
+      id: "bills-by-topic",
+      question: "מה הצעת החוק האחרונה שהוגשה בנושא בריאות?",
+      expect: {
+        tools: ["search_bills"],
+        entities: [{ type: "bill", label: "הצעת חוק בריאות הציבור" }],
+      },
+      script: [
+        { toolCalls: [{ name: "search_bills", args: { topic: "healthcare" } }] },
+        { text: "לפי search_bills, הצעת החוק האחרונה בנושא בריאות היא הצעת חוק בריאות הציבור." },
+      ],
+    },
+    {
+      id: "bill-status",
+      question: "מה מצב הצעת חוק חינוך לכולם?",
+      expect: {
+        tools: ["get_bill_detail"],
+        entities: [{ type: "bill", label: "הצעת חוק חינוך לכולם" }],
+      },
+      script: [
+        { toolCalls: [{ name: "get_bill_detail", args: { title_query: "חינוך לכולם" } }] },
+        { text: "לפי get_bill_detail, הצעת חוק חינוך לכולם עברה קריאה ראשונה." },
+      ],
+    },
+
+    // ── Off-topic ────────────────────────────────────────────────────────
+    {
+      id: "off-topic-weather",
+      question: "מה מזג האוויר מחר בתל אביב?",
+      expect: { refusal: true },
+      script: [{ text: "אני עונה רק על שאלות הקשורות לכנסת ישראל." }],
+    },
+    {
+      id: "off-topic-recipe",
+      question: "איך מכינים שקשוקה?",
+      expect: { refusal: true },
+      script: [{ text: "שאלה זו אינה קשורה לכנסת, ולכן איני יכול לענות עליה." }],
+    },
+  ],
+};
@@ -0,0 +1,24 @@
+import crypto from "crypto";
+import type { FastifyReply, FastifyRequest } from "fastify";
+
+/**
+ * Whether `key` is the shared API_KEY. SHA-256 digests are compared in
+ * constant time, so neither the key nor its length leaks through timing.
+ */
+export function matchesApiKey(key: unknown): boolean {
+  const expected = process.env["API_KEY"];
+  if (!expected || typeof key !== "string" || !key) return false;
+  const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(key), digest(expected));
+}
+
+/** preHandler for editor-only routes: 401 unless x-api-key matches API_KEY */
+export async function requireApiKey(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  if (!matchesApiKey(request.headers["x-api-key"])) {
+    reply.code(401).send({
+      error: "Unauthorized",
+      message: "Invalid or missing API key",
+      statusCode: 401,
+    });
+  }
+}
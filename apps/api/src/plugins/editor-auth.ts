@@ -0,0 +1,71 @@
+/**
+ * Editorial API authentication — per-editor API keys with roles.
+ *
+ * Keys are stored as SHA-256 hashes on Editor rows. The shared API_KEY, when
+ * set, still works and acts as an admin; use it to create the first editors.
+ */
+
+import crypto from "crypto";
+import type { FastifyReply, FastifyRequest } from "fastify";
+import { db } from "@knesset-vote/db";
+import type { EditorRole } from "@knesset-vote/shared";
+import { matchesApiKey } from "./api-key.js";
+
+export interface EditorIdentity {
+  id: string | null; // null for the shared API_KEY
+  name: string;
+  role: EditorRole;
+}
+
+declare module "fastify" {
+  interface FastifyRequest {
+    editor?: EditorIdentity;
+  }
+}
+
+const ROLE_RANK: Record<EditorRole, number> = { viewer: 0, editor: 1, admin: 2 };
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+export function hasRole(role: EditorRole, required: EditorRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+async function resolveEditor(key: string): Promise<EditorIdentity | null> {
+  if (matchesApiKey(key)) {
+    return { id: null, name: "api_key", role: "admin" };
+  }
+
+  const editor = await db.editor.findUnique({ where: { key_hash: hashApiKey(key) } });
+  if (!editor?.is_active) return null;
+
+  await db.editor.update({ where: { id: editor.id }, data: { last_used_at: new Date() } });
+  return { id: editor.id, name: editor.name, role: editor.role as EditorRole };
+}
+
+/** preHandler: 401 without a valid x-api-key, 403 when the editor's role is below `required` */
+export function requireRole(required: EditorRole) {
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const key = request.headers["x-api-key"];
+    const editor = typeof key === "string" && key ? await resolveEditor(key) : null;
+    if (!editor) {
+      reply.code(401).send({
+        error: "Unauthorized",
+        message: "Invalid or missing API key",
+        statusCode: 401,
+      });
+      return;
+    }
+    if (!hasRole(editor.role, required)) {
+      reply.code(403).send({
+        error: "Forbidden",
+        message: `This action requires the ${required} role`,
+        statusCode: 403,
+      });
+      return;
+    }
+    request.editor = editor;
+  };
+}
@@ -1,27 +1,37 @@
 /**
  * AI routes
  *
- * POST /api/ai/answer   → Gemini-powered "Ask + Verify" with real DB data
+ * POST /api/ai/answer   → "Ask + Verify" with real DB data (model set by AI_PROVIDER)
  * POST /api/ai/feedback → thumbs-up / thumbs-down stored in Redis
  * GET  /api/ai/stats    → question count + feedback totals (admin-friendly)
  *
  * Security:
- * - GEMINI_API_KEY never returned to client
+ * - Provider API keys (GEMINI_API_KEY / OPENAI_API_KEY) never returned to client
  * - Per-IP rate limit: 10 req/minute (separate from global 100 req/minute)
  * - Question max 500 chars
+ *
+ * Both answer endpoints take an optional conversation_id (returned with every
+ * answer) to ask a follow-up with the earlier turns as context.
  */
 
 import type { FastifyInstance } from "fastify";
 import { z } from "zod";
 import { askAI, askAIStream } from "../services/ai-service.js";
+import { isValidConversationId } from "../services/ai-conversation-service.js";
 import { getRedis } from "../plugins/redis.js";
 
 // Redis key helpers
 const AI_STATS_KEY = "ai:stats"; // HASH: questions_total, feedback_up, feedback_down
 const AI_QUESTIONS_ZSET = "ai:questions"; // ZSET: question → score=count (top questions)
 
+const ConversationIdSchema = z
+  .string()
+  .refine(isValidConversationId, "מזהה שיחה לא תקין")
+  .optional();
+
 const AiAnswerBodySchema = z.object({
   question: z.string().min(3, "השאלה קצרה מדי").max(500, "השאלה ארוכה מדי"),
+  conversation_id: ConversationIdSchema,
 });
 
 export async function aiRoutes(app: FastifyInstance): Promise<void> {
@@ -45,8 +55,8 @@ export async function aiRoutes(app: FastifyInstance): Promise<void> {
       },
       schema: {
         description:
-          "Gemini-powered AI assistant. Answers questions about the Israeli Knesset using real DB data only. " +
-          "GEMINI_API_KEY is server-side only — never exposed to client.",
+          "AI assistant. Answers questions about the Israeli Knesset using real DB data only. " +
+          "The model backend is chosen by AI_PROVIDER; its API key is server-side only — never exposed to client.",
         tags: ["AI"],
         body: {
           type: "object",
@@ -58,6 +68,10 @@ export async function aiRoutes(app: FastifyInstance): Promise<void> {
               maxLength: 500,
               description: "שאלה בעברית על הכנסת, חברי כנסת, הצעות חוק, שרים, או ועדות",
             },
+            conversation_id: {
+              type: "string",
+              description: "Continue a conversation (from a previous answer's conversation_id)",
+            },
           },
         },
         response: {
@@ -68,8 +82,10 @@ export async function aiRoutes(app: FastifyInstance): Promise<void> {
                 type: "object",
                 properties: {
                   question: { type: "string" },
+                  conversation_id: { type: "string" },
                   answer_md: { type: "string" },
                   citations: { type: "array" },
+                  claims: { type: "array" },
                   entity_cards: { type: "array" },
                   tool_calls_made: { type: "array", items: { type: "string" } },
                   model: { type: "string" },
@@ -117,13 +133,13 @@ export async function aiRoutes(app: FastifyInstance): Promise<void> {
         });
       }
 
-      const { question } = parseResult.data;
+      const { question, conversation_id } = parseResult.data;
       const requestIp = request.ip;
 
       app.log.info({ question: question.slice(0, 80), ip: requestIp }, "AI question received");
 
       try {
-        const answer = await askAI(question);
+        const answer = await askAI(question, conversation_id);
 
         app.log.info(
           {
@@ -151,18 +167,20 @@ export async function aiRoutes(app: FastifyInstance): Promise<void> {
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : String(err);
 
-        // Don't expose GEMINI_API_KEY or internal details in the error message
+        // Don't expose API keys or internal details in the error message
         const isKeyError =
-          errorMessage.includes("GEMINI_API_KEY") ||
-          errorMessage.includes("API_KEY_INVALID") ||
-          errorMessage.includes("PERMISSION_DENIED");
+          errorMessage.includes("API_KEY") ||
+          errorMessage.includes("AI_PROVIDER") ||
+          errorMessage.includes("PERMISSION_DENIED") ||
+          errorMessage.includes("returned 401");
         const isQuota =
           errorMessage.includes("RESOURCE_EXHAUSTED") ||
           errorMessage.includes("quota") ||
-          errorMessage.includes("free_tier");
+          errorMessage.includes("free_tier") ||
+          errorMessage.includes("returned 429");
 
         app.log.error(
-          { err: isKeyError ? "GEMINI_API_KEY configuration error" : err },
+          { err: isKeyError ? "AI provider configuration error" : err },
           "AI service error",
         );
 
@@ -218,16 +236,20 @@ export async function aiRoutes(app: FastifyInstance): Promise<void> {
           required: ["q"],
           properties: {
             q: { type: "string", minLength: 3, maxLength: 500 },
+            conversation_id: { type: "string" },
           },
         },
       },
     },
     async (request, reply) => {
-      const { q } = request.query as { q: string };
+      const { q, conversation_id } = request.query as { q: string; conversation_id?: string };
 
       if (!q || q.trim().length < 3) {
         return reply.status(400).send({ error: "Bad Request", message: "שאלה קצרה מדי" });
       }
+      if (conversation_id !== undefined && !isValidConversationId(conversation_id)) {
+        return reply.status(400).send({ error: "Bad Request", message: "מזהה שיחה לא תקין" });
+      }
 
       // Set SSE headers — bypass Fastify's JSON serialization.
       // Because we use reply.raw.writeHead() directly, Fastify's CORS plugin
@@ -264,7 +286,7 @@ export async function aiRoutes(app: FastifyInstance): Promise<void> {
       }, 15_000);
 
       try {
-        for await (const event of askAIStream(q.trim())) {
+        for await (const event of askAIStream(q.trim(), conversation_id)) {
           send(event);
           if (event.type === "done" || event.type === "error") break;
         }
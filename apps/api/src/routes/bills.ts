@@ -1,7 +1,8 @@
 import type { FastifyInstance } from "fastify";
 import { listBills, getBillById } from "../services/bill-service.js";
+import { getBillTimeline } from "../services/bill-timeline-service.js";
 import { getCached, buildCacheKey } from "../plugins/redis.js";
-import { CACHE_TTL, BILL_TOPIC_LABELS } from "@knesset-vote/shared";
+import { CACHE_TTL, BILL_TOPIC_LABELS, BillTypeSchema, type BillType } from "@knesset-vote/shared";
 
 export async function billRoutes(app: FastifyInstance): Promise<void> {
   app.get(
@@ -16,7 +17,13 @@ export async function billRoutes(app: FastifyInstance): Promise<void> {
             search: { type: "string", maxLength: 200 },
             topic: { type: "string" },
             status: { type: "string" },
+            bill_type: {
+              type: "string",
+              enum: BillTypeSchema.options,
+              description: "government, private or committee bill",
+            },
             mk_id: { type: "string" },
+            knesset: { type: "integer", minimum: 1, description: "Knesset term number" },
             page: { type: "integer", minimum: 1, default: 1 },
             limit: { type: "integer", minimum: 1, maximum: 100, default: 20 },
           },
@@ -28,21 +35,34 @@ export async function billRoutes(app: FastifyInstance): Promise<void> {
         search,
         topic,
         status,
+        bill_type,
         mk_id,
+        knesset,
         page = 1,
         limit = 20,
       } = request.query as {
         search?: string;
         topic?: string;
         status?: string;
+        bill_type?: BillType;
         mk_id?: string;
+        knesset?: number;
         page?: number;
         limit?: number;
       };
 
-      const cacheKey = buildCacheKey("bills", { search, topic, status, mk_id, page, limit });
+      const cacheKey = buildCacheKey("bills", {
+        search,
+        topic,
+        status,
+        bill_type,
+        mk_id,
+        knesset,
+        page,
+        limit,
+      });
       const result = await getCached(cacheKey, CACHE_TTL.SHORT, () =>
-        listBills({ search, topic, status, mk_id, page, limit }),
+        listBills({ search, topic, status, bill_type, mk_id, knesset, page, limit }),
       );
 
       reply.send({
@@ -93,4 +113,33 @@ export async function billRoutes(app: FastifyInstance): Promise<void> {
       });
     },
   );
+
+  app.get(
+    "/api/bills/:id/timeline",
+    {
+      schema: {
+        description:
+          "Reconstructed stage timeline with days spent in each stage. Derived from status changes across ETL runs and stage rows; stages between two syncs may be missing.",
+        tags: ["Bills"],
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: { id: { type: "string" } },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const cacheKey = buildCacheKey("bill-timeline", { id });
+
+      const timeline = await getCached(cacheKey, CACHE_TTL.MEDIUM, () => getBillTimeline(id));
+
+      if (!timeline) {
+        reply.code(404).send({ error: "Not Found", message: "Bill not found", statusCode: 404 });
+        return;
+      }
+
+      reply.send({ data: timeline, methodology_url: "/methodology#bill-timeline" });
+    },
+  );
 }
@@ -0,0 +1,73 @@
+/**
+ * Change feed routes
+ *
+ * GET /api/changes → change events detected by the ETL between consecutive snapshots
+ *                    (filters: since, entity_type, change_type)
+ */
+
+import type { FastifyInstance } from "fastify";
+import { listChanges } from "../services/change-service.js";
+import { getCached, buildCacheKey } from "../plugins/redis.js";
+import { CACHE_TTL, ChangeEntityTypeSchema, ChangeTypeSchema } from "@knesset-vote/shared";
+
+export async function changeRoutes(app: FastifyInstance): Promise<void> {
+  app.get(
+    "/api/changes",
+    {
+      schema: {
+        description:
+          "List data changes (bill status moves, party switches, ministerial appointments, new votes) detected since a given time",
+        tags: ["Changes"],
+        querystring: {
+          type: "object",
+          properties: {
+            since: {
+              type: "string",
+              description: "Only changes detected at or after this ISO date / timestamp",
+            },
+            entity_type: { type: "string", enum: ChangeEntityTypeSchema.options },
+            change_type: { type: "string", enum: ChangeTypeSchema.options },
+            page: { type: "integer", minimum: 1, default: 1 },
+            limit: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const {
+        since,
+        entity_type,
+        change_type,
+        page = 1,
+        limit = 20,
+      } = request.query as {
+        since?: string;
+        entity_type?: string;
+        change_type?: string;
+        page?: number;
+        limit?: number;
+      };
+
+      if (since && Number.isNaN(Date.parse(since))) {
+        return reply.status(400).send({
+          error: "Bad Request",
+          message: "since must be an ISO date or timestamp",
+          statusCode: 400,
+        });
+      }
+
+      const cacheKey = buildCacheKey("changes", { since, entity_type, change_type, page, limit });
+      const result = await getCached(cacheKey, CACHE_TTL.SHORT, () =>
+        listChanges({ since, entity_type, change_type, page, limit }),
+      );
+
+      reply.send({
+        ...result,
+        page,
+        limit,
+        pages: Math.ceil(result.total / limit),
+        methodology_url: "/methodology#changes",
+      });
+    },
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Committee routes
+ *
+ * GET /api/committees       → list committees (filters: knesset, is_active, search)
+ * GET /api/committees/:id   → committee detail with members, chairs and bills from stage history
+ */
+
+import type { FastifyInstance } from "fastify";
+import { listCommittees, getCommitteeById } from "../services/committee-service.js";
+import { getCached, buildCacheKey } from "../plugins/redis.js";
+import { CACHE_TTL } from "@knesset-vote/shared";
+
+export async function committeeRoutes(app: FastifyInstance): Promise<void> {
+  app.get(
+    "/api/committees",
+    {
+      schema: {
+        description: "List Knesset committees with optional filters",
+        tags: ["Committees"],
+        querystring: {
+          type: "object",
+          properties: {
+            search: { type: "string", maxLength: 200 },
+            knesset: { type: "integer", minimum: 1, description: "Knesset term number" },
+            knesset_number: {
+              type: "integer",
+              minimum: 1,
+              description: "Deprecated alias of knesset",
+            },
+            is_active: { type: "boolean" },
+            page: { type: "integer", minimum: 1, default: 1 },
+            limit: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const {
+        search,
+        knesset,
+        knesset_number,
+        is_active,
+        page = 1,
+        limit = 20,
+      } = request.query as {
+        search?: string;
+        knesset?: number;
+        knesset_number?: number;
+        is_active?: boolean;
+        page?: number;
+        limit?: number;
+      };
+
+      const knessetNumber = knesset ?? knesset_number;
+
+      const cacheKey = buildCacheKey("committees", {
+        search,
+        knesset: knessetNumber,
+        is_active,
+        page,
+        limit,
+      });
+      const result = await getCached(cacheKey, CACHE_TTL.MEDIUM, () =>
+        listCommittees({ search, knesset_number: knessetNumber, is_active, page, limit }),
+      );
+
+      reply.send({
+        ...result,
+        page,
+        limit,
+        pages: Math.ceil(result.total / limit),
+        methodology_url: "/methodology#committees",
+      });
+    },
+  );
+
+  app.get(
+    "/api/committees/:id",
+    {
+      schema: {
+        description:
+          "Get committee detail with current/past members, chairs, and bills from stage history",
+        tags: ["Committees"],
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: { id: { type: "string" } },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const cacheKey = buildCacheKey("committee", { id });
+
+      const committee = await getCached(cacheKey, CACHE_TTL.SHORT, () => getCommitteeById(id));
+
+      if (!committee) {
+        reply
+          .code(404)
+          .send({ error: "Not Found", message: "Committee not found", statusCode: 404 });
+        return;
+      }
+
+      reply.send({
+        data: committee,
+        methodology_url: "/methodology#committees",
+        computed_fields: {
+          chairs: {
+            definition: "Members whose committee role (KNS_PersonToPosition) is chair",
+            limitations: "Role descriptions are taken as published; deputy chairs are not included",
+          },
+          bills: {
+            definition:
+              "Bills with at least one stage in Knesset OData bill history linked to this committee",
+            limitations: "Up to 50 most recent bills are listed; bill_count is the full total",
+          },
+        },
+      });
+    },
+  );
+}
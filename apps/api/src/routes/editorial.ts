@@ -0,0 +1,519 @@
+/**
+ * Editorial API — statements, their matches and editor accounts.
+ * Every route needs an x-api-key: a per-editor key, or the shared API_KEY
+ * (acts as admin). Minimum role per route:
+ *
+ * viewer  GET    /api/promises/drafts              → unpublished statements
+ *         GET    /api/promises/review              → auto-suggested matches awaiting review
+ *         GET    /api/audit-log                    → who changed what
+ * editor  POST   /api/promises                     → new statement (draft)
+ *         PATCH  /api/promises/:id
+ *         POST   /api/promises/:id/publish         → not for the draft's own author
+ *         POST   /api/promises/:id/matches         → manual match to a bill or vote
+ *         PATCH  /api/promises/matches/:id
+ *         POST   /api/promises/matches/:id/review  → accept / reject a suggestion
+ * admin   DELETE /api/promises/:id
+ *         DELETE /api/promises/matches/:id
+ *         GET    /api/editors
+ *         POST   /api/editors                      → returns the new API key once
+ *         PATCH  /api/editors/:id
+ *         POST   /api/editors/:id/rotate-key       → returns the new API key once
+ */
+
+import type { FastifyInstance, FastifyReply } from "fastify";
+import {
+  AuditEntityTypeSchema,
+  EditorRoleSchema,
+  PromiseMatchReviewStatusSchema,
+} from "@knesset-vote/shared";
+import { z } from "zod";
+import {
+  createMatch,
+  createPromise,
+  deleteMatch,
+  deletePromise,
+  listMatchReviewQueue,
+  listPromises,
+  publishPromise,
+  reviewMatch,
+  updateMatch,
+  updatePromise,
+} from "../services/promise-service.js";
+import { createEditor, listEditors, rotateKey, updateEditor } from "../services/editor-service.js";
+import { listAuditLog } from "../services/audit-service.js";
+import { requireRole, type EditorIdentity } from "../plugins/editor-auth.js";
+
+const PromiseFieldsSchema = z.object({
+  text: z.string().min(10).max(2000),
+  category: z.enum(["statement", "commitment", "pledge"]),
+  topic: z.string().nullable().optional(),
+  mk_id: z.string().nullable().optional(),
+  party_id: z.string().nullable().optional(),
+  stated_on: z.string().datetime().nullable().optional(),
+  source_url: z.string().url(),
+  source_label: z.string().min(2).max(200),
+});
+
+const UpdatePromiseSchema = PromiseFieldsSchema.partial().refine(
+  (p) => Object.keys(p).length > 0,
+  "At least one field is required",
+);
+
+const MatchFieldsSchema = z.object({
+  confidence: z.enum(["high", "medium", "low", "unavailable"]),
+  status: z.enum(["matched", "partial_match", "no_match", "unavailable"]),
+  status_date: z.string().datetime().nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+const CreateMatchSchema = MatchFieldsSchema.extend({
+  bill_id: z.string().optional(),
+  vote_id: z.string().optional(),
+}).refine((m) => Boolean(m.bill_id) !== Boolean(m.vote_id), "Set exactly one of bill_id, vote_id");
+
+const UpdateMatchSchema = MatchFieldsSchema.partial().refine(
+  (m) => Object.keys(m).length > 0,
+  "At least one field is required",
+);
+
+const ReviewMatchSchema = z.object({
+  decision: z.enum(["accept", "reject"]),
+  notes: z.string().max(2000).optional(),
+});
+
+const CreateEditorSchema = z.object({
+  name: z.string().min(2).max(100),
+  email: z.string().email().optional(),
+  role: EditorRoleSchema.default("editor"),
+});
+
+const UpdateEditorSchema = z
+  .object({
+    name: z.string().min(2).max(100),
+    role: EditorRoleSchema,
+    is_active: z.boolean(),
+  })
+  .partial()
+  .refine((e) => Object.keys(e).length > 0, "At least one field is required");
+
+const idParams = {
+  type: "object",
+  required: ["id"],
+  properties: { id: { type: "string" } },
+} as const;
+
+const pageQuery = {
+  page: { type: "integer", minimum: 1, default: 1 },
+  limit: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+} as const;
+
+function badRequest(reply: FastifyReply, error: z.ZodError): void {
+  reply.code(400).send({
+    error: "Bad Request",
+    message: "Invalid input",
+    details: error.flatten(),
+    statusCode: 400,
+  });
+}
+
+function notFound(reply: FastifyReply, message: string): void {
+  reply.code(404).send({ error: "Not Found", message, statusCode: 404 });
+}
+
+const NOT_FOUND_MESSAGES = {
+  not_found: "Statement not found",
+  mk_not_found: "MK not found",
+  party_not_found: "Party not found",
+  bill_not_found: "Bill not found",
+  vote_not_found: "Vote not found",
+} as const;
+
+export async function editorialRoutes(app: FastifyInstance): Promise<void> {
+  // requireRole sets request.editor before any handler runs
+  const actorOf = (request: { editor?: EditorIdentity }) => request.editor as EditorIdentity;
+
+  // ─── Statements ───
+
+  app.get(
+    "/api/promises/drafts",
+    {
+      preHandler: requireRole("viewer"),
+      schema: {
+        description: "Unpublished statements, newest first (viewer role)",
+        tags: ["Editorial"],
+        security: [{ apiKey: [] }],
+        querystring: { type: "object", properties: { ...pageQuery } },
+      },
+    },
+    async (request, reply) => {
+      const { page = 1, limit = 20 } = request.query as { page?: number; limit?: number };
+      const { data, total } = await listPromises({ status: "draft", page, limit });
+      reply.send({ data, total, page, limit, pages: Math.ceil(total / limit) });
+    },
+  );
+
+  app.post(
+    "/api/promises",
+    {
+      preHandler: requireRole("editor"),
+      schema: {
+        description:
+          "Create a statement/commitment (editor role). It stays a draft until another editor publishes it.",
+        tags: ["Editorial"],
+        security: [{ apiKey: [] }],
+      },
+    },
+    async (request, reply) => {
+      const parsed = PromiseFieldsSchema.safeParse(request.body);
+      if (!parsed.success) return badRequest(reply, parsed.error);
+
+      const result = await createPromise(parsed.data, actorOf(request));
+      if ("error" in result) return notFound(reply, NOT_FOUND_MESSAGES[result.error]);
+      reply.code(201).send(result);
+    },
+  );
+
+  app.patch(
+    "/api/promises/:id",
+    {
+      preHandler: requireRole("editor"),
+      schema: {
+        description:
+          "Edit a statement (editor role). An editor's change to a published statement returns it to draft; admins' changes keep it published.",
+        tags: ["Editorial"],
+        security: [{ apiKey: [] }],
+        params: idParams,
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const parsed = UpdatePromiseSchema.safeParse(request.body);
+      if (!parsed.success) return badRequest(reply, parsed.error);
+
+      const result = await updatePromise(id, parsed.data, actorOf(request));
+      if ("error" in result) return notFound(reply, NOT_FOUND_MESSAGES[result.error]);
+      reply.send(result);
+    },
+  );
+
+  app.post(
+    "/api/promises/:id/publish",
+    {
+      preHandler: requireRole("editor"),
+      schema: {
+        description:
+          "Publish a draft statement (editor role). Editors cannot publish drafts they wrote or last edited.",
+        tags: ["Editorial"],
+        security: [{ apiKey: [] }],
+        params: idParams,
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const result = await publishPromise(id, actorOf(request));
+      if (!("error" in result)) return reply.send(result);
+
+      if (result.error === "not_found") return notFound(reply, NOT_FOUND_MESSAGES.not_found);
+      if (result.error === "already_published") {
+        reply.code(409).send({
+          error: "Conflict",
+          message: "Statement is already published",
+          statusCode: 409,
+        });
+        return;
+      }
+      reply.code(403).send({
+        error: "Forbidden",
+        message: "Another editor must review and publish a draft you wrote or last edited",
+        statusCode: 403,
+      });
+    },
+  );
+
+  app.delete(
+    "/api/promises/:id",
+    {
+      preHandler: requireRole("admin"),
+      schema: {
+        description: "Delete a statement and its matches (admin role)",
+        tags: ["Editorial"],
+        security: [{ apiKey: [] }],
+        params: idParams,
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const deleted = await deletePromise(id, actorOf(request));
+      if (!deleted) return notFound(reply, NOT_FOUND_MESSAGES.not_found);
+      reply.code(204).send();
+    },
+  );
+
+  // ─── Matches ───
+
+  app.post(
+    "/api/promises/:id/matches",
+    {
+      preHandler: requireRole("editor"),
+      schema: {
+        description: "Manually match a statement to a bill or a vote (editor role)",
+        tags: ["Editorial"],
+        security: [{ apiKey: [] }],
+        params: idParams,
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const parsed = CreateMatchSchema.safeParse(request.body);
+      if (!parsed.success) return badRequest(reply, parsed.error);
+
+      const result = await createMatch(id, parsed.data, actorOf(request));
+      if ("error" in result) return notFound(reply, NOT_FOUND_MESSAGES[result.error]);
+      reply.code(201).send(result);
+    },
+  );
+
+  app.patch(
+    "/api/promises/matches/:id",
+    {
+      preHandler: requireRole("editor"),
+      schema: {
+        description: "Edit a statement match (editor role)",
+        tags: ["Editorial"],
+        security: [{ apiKey: [] }],
+        params: idParams,
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const parsed = UpdateMatchSchema.safeParse(request.body);
+      if (!parsed.success) return badRequest(reply, parsed.error);
+
+      const result = await updateMatch(id, parsed.data, actorOf(request));
+      if ("error" in result) return notFound(reply, "Match not found");
+      reply.send(result);
+    },
+  );
+
+  app.delete(
+    "/api/promises/matches/:id",
+    {
+      preHandler: requireRole("admin"),
+      schema: {
+        description: "Delete a statement match (admin role)",
+        tags: ["Editorial"],
+        security: [{ apiKey: [] }],
+        params: idParams,
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const deleted = await deleteMatch(id, actorOf(request));
+      if (!deleted) return notFound(reply, "Match not found");
+      reply.code(204).send();
+    },
+  );
+
+  app.get(
+    "/api/promises/review",
+    {
+      preHandler: requireRole("viewer"),
+      schema: {
+        description:
+          "Review queue of auto-suggested statement matches (viewer role). Defaults to pending suggestions, best score first.",
+        tags: ["Editorial"],
+        security: [{ apiKey: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            status: {
+              type: "string",
+              enum: PromiseMatchReviewStatusSchema.options,
+              default: "pending",
+            },
+            ...pageQuery,
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const {
+        status = "pending",
+        page = 1,
+        limit = 20,
+      } = request.query as {
+        status?: z.infer<typeof PromiseMatchReviewStatusSchema>;
+        page?: number;
+        limit?: number;
+      };
+
+      const { data, total } = await listMatchReviewQueue({ status, page, limit });
+      reply.send({ data, total, page, limit, pages: Math.ceil(total / limit) });
+    },
+  );
+
+  app.post(
+    "/api/promises/matches/:id/review",
+    {
+      preHandler: requireRole("editor"),
+      schema: {
+        description:
+          "Accept or reject an auto-suggested statement match (editor role). Accepted matches become public.",
+        tags: ["Editorial"],
+        security: [{ apiKey: [] }],
+        params: idParams,
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const parsed = ReviewMatchSchema.safeParse(request.body);
+      if (!parsed.success) return badRequest(reply, parsed.error);
+
+      const outcome = await reviewMatch(
+        id,
+        parsed.data.decision,
+        parsed.data.notes,
+        actorOf(request),
+      );
+      if (outcome === "not_found") return notFound(reply, "Match not found");
+      if (outcome === "manual") {
+        reply.code(409).send({
+          error: "Conflict",
+          message: "Manual matches are not part of the review queue",
+          statusCode: 409,
+        });
+        return;
+      }
+
+      reply.send({
+        data: { id, review_status: parsed.data.decision === "accept" ? "accepted" : "rejected" },
+      });
+    },
+  );
+
+  // ─── Audit log ───
+
+  app.get(
+    "/api/audit-log",
+    {
+      preHandler: requireRole("viewer"),
+      schema: {
+        description: "Editorial audit log, newest first (viewer role). Entries are never modified.",
+        tags: ["Editorial"],
+        security: [{ apiKey: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            entity_type: { type: "string", enum: AuditEntityTypeSchema.options },
+            entity_id: { type: "string" },
+            editor_id: { type: "string" },
+            ...pageQuery,
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const {
+        page = 1,
+        limit = 20,
+        ...filters
+      } = request.query as {
+        entity_type?: z.infer<typeof AuditEntityTypeSchema>;
+        entity_id?: string;
+        editor_id?: string;
+        page?: number;
+        limit?: number;
+      };
+
+      const { data, total } = await listAuditLog({ ...filters, page, limit });
+      reply.send({ data, total, page, limit, pages: Math.ceil(total / limit) });
+    },
+  );
+
+  // ─── Editors ───
+
+  app.get(
+    "/api/editors",
+    {
+      preHandler: requireRole("admin"),
+      schema: {
+        description: "List editor accounts (admin role). Keys are never returned.",
+        tags: ["Editorial"],
+        security: [{ apiKey: [] }],
+      },
+    },
+    async (_request, reply) => {
+      reply.send({ data: await listEditors() });
+    },
+  );
+
+  app.post(
+    "/api/editors",
+    {
+      preHandler: requireRole("admin"),
+      schema: {
+        description:
+          "Create an editor account (admin role). The API key is only returned in this response.",
+        tags: ["Editorial"],
+        security: [{ apiKey: [] }],
+      },
+    },
+    async (request, reply) => {
+      const parsed = CreateEditorSchema.safeParse(request.body);
+      if (!parsed.success) return badRequest(reply, parsed.error);
+
+      const result = await createEditor(parsed.data, actorOf(request));
+      if ("error" in result) {
+        reply.code(409).send({
+          error: "Conflict",
+          message: "An editor with this email already exists",
+          statusCode: 409,
+        });
+        return;
+      }
+      reply.code(201).send(result);
+    },
+  );
+
+  app.patch(
+    "/api/editors/:id",
+    {
+      preHandler: requireRole("admin"),
+      schema: {
+        description: "Change an editor's name or role, or deactivate their key (admin role)",
+        tags: ["Editorial"],
+        security: [{ apiKey: [] }],
+        params: idParams,
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const parsed = UpdateEditorSchema.safeParse(request.body);
+      if (!parsed.success) return badRequest(reply, parsed.error);
+
+      const result = await updateEditor(id, parsed.data, actorOf(request));
+      if ("error" in result) return notFound(reply, "Editor not found");
+      reply.send(result);
+    },
+  );
+
+  app.post(
+    "/api/editors/:id/rotate-key",
+    {
+      preHandler: requireRole("admin"),
+      schema: {
+        description:
+          "Replace an editor's API key (admin role). The new key is only returned in this response.",
+        tags: ["Editorial"],
+        security: [{ apiKey: [] }],
+        params: idParams,
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const result = await rotateKey(id, actorOf(request));
+      if ("error" in result) return notFound(reply, "Editor not found");
+      reply.send(result);
+    },
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * Bulk export routes
+ *
+ * GET /api/export/:entity?format=csv|jsonl → streamed dump of a whole table
+ *     (parties, mks, memberships, bills, bill_roles, votes, vote_records)
+ */
+
+import type { FastifyInstance } from "fastify";
+import { ExportEntitySchema, ExportFormatSchema } from "@knesset-vote/shared";
+import type { ExportEntity, ExportFormat } from "@knesset-vote/shared";
+import { EXPORT_CONTENT_TYPES, streamExport } from "../services/export-service.js";
+
+export async function exportRoutes(app: FastifyInstance): Promise<void> {
+  app.get(
+    "/api/export/:entity",
+    {
+      config: {
+        // Full-table scans — keep well below the global limit
+        rateLimit: { max: 10, timeWindow: "1 minute" },
+      },
+      schema: {
+        description:
+          "Stream every row of an entity as CSV (UTF-8 with BOM) or JSON Lines. For a full offline snapshot with a manifest, use the ETL dump command.",
+        tags: ["Export"],
+        params: {
+          type: "object",
+          required: ["entity"],
+          properties: { entity: { type: "string", enum: ExportEntitySchema.options } },
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            format: { type: "string", enum: ExportFormatSchema.options, default: "csv" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { entity } = request.params as { entity: ExportEntity };
+      const { format = "csv" } = request.query as { format?: ExportFormat };
+
+      const date = new Date().toISOString().slice(0, 10);
+      reply.header("Content-Type", EXPORT_CONTENT_TYPES[format]);
+      reply.header(
+        "Content-Disposition",
+        `attachment; filename="knesset-vote-${entity}-${date}.${format}"`,
+      );
+      return reply.send(streamExport(entity, format));
+    },
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * Feed routes — Atom and JSON Feed subscriptions
+ *
+ * GET /feeds/bills.atom | .json         → recently submitted / updated bills
+ * GET /feeds/votes.atom | .json         → recent plenum votes
+ * GET /feeds/mks/:id.atom | .json       → bills sponsored by the MK + votes with their position
+ * GET /feeds/parties/:id.atom | .json   → bills sponsored by the party's MKs
+ */
+
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import {
+  getBillsFeed,
+  getVotesFeed,
+  getMKFeed,
+  getPartyFeed,
+  renderAtom,
+  renderJsonFeed,
+  type Feed,
+} from "../services/feed-service.js";
+import { getCached, buildCacheKey } from "../plugins/redis.js";
+import { CACHE_TTL } from "@knesset-vote/shared";
+
+const FORMATS = {
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+} as const;
+
+type FeedFormat = keyof typeof FORMATS;
+
+function sendFeed(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  format: FeedFormat,
+  feed: Feed,
+): FastifyReply {
+  const selfUrl = `${request.protocol}://${request.hostname}${request.url}`;
+  reply.header("Content-Type", FORMATS[format]);
+  return format === "atom"
+    ? reply.send(renderAtom(feed, selfUrl))
+    : reply.send(JSON.stringify(renderJsonFeed(feed, selfUrl)));
+}
+
+const idParams = {
+  type: "object",
+  required: ["id"],
+  properties: { id: { type: "string" } },
+} as const;
+
+export async function feedRoutes(app: FastifyInstance): Promise<void> {
+  for (const format of Object.keys(FORMATS) as FeedFormat[]) {
+    app.get(
+      `/feeds/bills.${format}`,
+      { schema: { description: `Recent bills (${format} feed)`, tags: ["Feeds"] } },
+      async (request, reply) => {
+        const feed = await getCached(buildCacheKey("feed-bills", {}), CACHE_TTL.MEDIUM, () =>
+          getBillsFeed(),
+        );
+        return sendFeed(request, reply, format, feed);
+      },
+    );
+
+    app.get(
+      `/feeds/votes.${format}`,
+      { schema: { description: `Recent plenum votes (${format} feed)`, tags: ["Feeds"] } },
+      async (request, reply) => {
+        const feed = await getCached(buildCacheKey("feed-votes", {}), CACHE_TTL.MEDIUM, () =>
+          getVotesFeed(),
+        );
+        return sendFeed(request, reply, format, feed);
+      },
+    );
+
+    app.get(
+      `/feeds/mks/:id.${format}`,
+      {
+        schema: {
+          description: `MK activity — sponsored bills and plenum votes (${format} feed)`,
+          tags: ["Feeds"],
+          params: idParams,
+        },
+      },
+      async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const feed = await getCached(buildCacheKey("feed-mk", { id }), CACHE_TTL.MEDIUM, () =>
+          getMKFeed(id),
+        );
+        if (!feed) {
+          return reply
+            .code(404)
+            .send({ error: "Not Found", message: "MK not found", statusCode: 404 });
+        }
+        return sendFeed(request, reply, format, feed);
+      },
+    );
+
+    app.get(
+      `/feeds/parties/:id.${format}`,
+      {
+        schema: {
+          description: `Bills sponsored by the party's MKs (${format} feed)`,
+          tags: ["Feeds"],
+          params: idParams,
+        },
+      },
+      async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const feed = await getCached(buildCacheKey("feed-party", { id }), CACHE_TTL.MEDIUM, () =>
+          getPartyFeed(id),
+        );
+        if (!feed) {
+          return reply
+            .code(404)
+            .send({ error: "Not Found", message: "Party not found", statusCode: 404 });
+        }
+        return sendFeed(request, reply, format, feed);
+      },
+    );
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * Government routes
  *
- * GET /api/government       → list current ministers
+ * GET /api/government       → list current ministers (or a past term's, with ?knesset=N)
  * GET /api/government/:id   → minister detail by MK id
  */
 
@@ -20,6 +20,16 @@ export async function governmentRoutes(app: FastifyInstance): Promise<void> {
       schema: {
         description: "List current government ministers with ministry, role, and related bills",
         tags: ["Government"],
+        querystring: {
+          type: "object",
+          properties: {
+            knesset: {
+              type: "integer",
+              minimum: 1,
+              description: "Knesset term number — lists every minister who served in that term",
+            },
+          },
+        },
         response: {
           200: {
             type: "object",
@@ -32,9 +42,10 @@ export async function governmentRoutes(app: FastifyInstance): Promise<void> {
         },
       },
     },
-    async (_request, reply) => {
-      const cacheKey = buildCacheKey("government", {});
-      const result = await getCached(cacheKey, CACHE_TTL.MEDIUM, () => listMinisters());
+    async (request, reply) => {
+      const { knesset } = request.query as { knesset?: number };
+      const cacheKey = buildCacheKey("government", { knesset });
+      const result = await getCached(cacheKey, CACHE_TTL.MEDIUM, () => listMinisters(knesset));
 
       reply.send({
         ...result,
@@ -0,0 +1,32 @@
+/**
+ * Knesset term routes
+ *
+ * GET /api/knessets → Knesset terms with dates, seat distribution and governments
+ */
+
+import type { FastifyInstance } from "fastify";
+import { listKnessets } from "../services/knesset-service.js";
+import { getCached, buildCacheKey } from "../plugins/redis.js";
+import { CACHE_TTL } from "@knesset-vote/shared";
+
+export async function knessetRoutes(app: FastifyInstance): Promise<void> {
+  app.get(
+    "/api/knessets",
+    {
+      schema: {
+        description:
+          "List Knesset terms (newest first) with dates, faction seat distribution and governments. Pass a term number as ?knesset=N to the list endpoints to browse it.",
+        tags: ["Knessets"],
+      },
+    },
+    async (_request, reply) => {
+      const cacheKey = buildCacheKey("knessets", {});
+      const result = await getCached(cacheKey, CACHE_TTL.LONG, () => listKnessets());
+
+      reply.send({
+        ...result,
+        methodology_url: "/methodology#knesset-terms",
+      });
+    },
+  );
+}
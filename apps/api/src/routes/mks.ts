@@ -1,7 +1,8 @@
 import type { FastifyInstance } from "fastify";
-import { listMKs, getMKById } from "../services/mk-service.js";
+import { listMKs, getMKById, getMKParticipation, getSimilarMKs } from "../services/mk-service.js";
+import { getMKCohesion } from "../services/cohesion-service.js";
 import { getCached, buildCacheKey } from "../plugins/redis.js";
-import { CACHE_TTL } from "@knesset-vote/shared";
+import { CACHE_TTL, MIN_SIMILARITY_OVERLAP } from "@knesset-vote/shared";
 
 export async function mkRoutes(app: FastifyInstance): Promise<void> {
   app.get(
@@ -15,12 +16,20 @@ export async function mkRoutes(app: FastifyInstance): Promise<void> {
           properties: {
             search: { type: "string", maxLength: 200 },
             party_id: { type: "string" },
-            is_current: { type: "boolean", default: true },
-            knesset_number: { type: "integer" },
+            is_current: {
+              type: "boolean",
+              description: "Defaults to true unless a Knesset term is given",
+            },
+            knesset: { type: "integer", minimum: 1, description: "Knesset term number" },
+            knesset_number: {
+              type: "integer",
+              minimum: 1,
+              description: "Deprecated alias of knesset",
+            },
             coalition: { type: "string", enum: ["coalition", "opposition"] },
             gender: { type: "string", enum: ["male", "female"] },
             role: { type: "string", enum: ["minister", "committee_chair"] },
-            sort: { type: "string", enum: ["name", "bills", "party"] },
+            sort: { type: "string", enum: ["name", "bills", "party", "participation"] },
             page: { type: "integer", minimum: 1, default: 1 },
             limit: { type: "integer", minimum: 1, maximum: 200, default: 20 },
           },
@@ -31,7 +40,8 @@ export async function mkRoutes(app: FastifyInstance): Promise<void> {
       const {
         search,
         party_id,
-        is_current = true,
+        is_current: isCurrentParam,
+        knesset,
         knesset_number,
         coalition,
         gender,
@@ -43,6 +53,7 @@ export async function mkRoutes(app: FastifyInstance): Promise<void> {
         search?: string;
         party_id?: string;
         is_current?: boolean;
+        knesset?: number;
         knesset_number?: number;
         coalition?: "coalition" | "opposition";
         gender?: "male" | "female";
@@ -52,11 +63,15 @@ export async function mkRoutes(app: FastifyInstance): Promise<void> {
         limit?: number;
       };
 
+      // A Knesset term lists everyone who served in it; otherwise current MKs only
+      const knessetNumber = knesset ?? knesset_number;
+      const is_current = isCurrentParam ?? (knessetNumber ? undefined : true);
+
       const cacheKey = buildCacheKey("mks", {
         search,
         party_id,
         is_current,
-        knesset_number,
+        knesset: knessetNumber,
         coalition,
         gender,
         role,
@@ -69,7 +84,7 @@ export async function mkRoutes(app: FastifyInstance): Promise<void> {
           search,
           party_id,
           is_current,
-          knesset_number,
+          knesset_number: knessetNumber,
           coalition,
           gender,
           role,
@@ -129,4 +144,141 @@ export async function mkRoutes(app: FastifyInstance): Promise<void> {
       });
     },
   );
+
+  app.get(
+    "/api/mks/:id/participation",
+    {
+      schema: {
+        description: "MK participation, absence and abstention rates overall, by term and by month",
+        tags: ["MKs"],
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: { id: { type: "string" } },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const cacheKey = buildCacheKey("mk-participation", { id });
+
+      const participation = await getCached(cacheKey, CACHE_TTL.MEDIUM, () =>
+        getMKParticipation(id),
+      );
+
+      if (!participation) {
+        reply.code(404).send({ error: "Not Found", message: "MK not found", statusCode: 404 });
+        return;
+      }
+
+      reply.send({
+        data: participation,
+        methodology_url: "/methodology#participation",
+        computed_fields: {
+          participation_pct: {
+            definition:
+              "Share of the MK's recorded plenum votes with a yes, no or abstain position (ResultCode 7/8/9/11)",
+            limitations:
+              "Absence may reflect ministerial duties, pairing agreements or leave; the source does not record reasons",
+          },
+          absence_pct: {
+            definition: "Share of recorded plenum votes marked absent (ResultCode 10)",
+          },
+          abstention_pct: {
+            definition: "Share of recorded plenum votes marked abstain (ResultCode 9)",
+          },
+        },
+      });
+    },
+  );
+
+  app.get(
+    "/api/mks/:id/similar",
+    {
+      schema: {
+        description: "Most and least aligned MKs by plenum voting record",
+        tags: ["MKs"],
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: { id: { type: "string" } },
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            limit: { type: "integer", minimum: 1, maximum: 20, default: 5 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const { limit = 5 } = request.query as { limit?: number };
+      const cacheKey = buildCacheKey("mk-similar", { id, limit });
+
+      const similarity = await getCached(cacheKey, CACHE_TTL.MEDIUM, () =>
+        getSimilarMKs(id, limit),
+      );
+
+      if (!similarity) {
+        reply.code(404).send({ error: "Not Found", message: "MK not found", statusCode: 404 });
+        return;
+      }
+
+      reply.send({
+        data: similarity,
+        methodology_url: "/methodology#similarity",
+        computed_fields: {
+          agreement_pct: {
+            definition:
+              "Share of plenum votes, among those both MKs were present for, where they took the same position (yes/no/abstain)",
+            limitations: `Current MKs only; pairs with fewer than ${MIN_SIMILARITY_OVERLAP} shared votes are omitted`,
+          },
+        },
+      });
+    },
+  );
+
+  app.get(
+    "/api/mks/:id/cohesion",
+    {
+      schema: {
+        description: "How often the MK voted with their faction majority, with notable defections",
+        tags: ["MKs"],
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: { id: { type: "string" } },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const cacheKey = buildCacheKey("mk-cohesion", { id });
+
+      const cohesion = await getCached(cacheKey, CACHE_TTL.MEDIUM, () => getMKCohesion(id));
+
+      if (!cohesion) {
+        reply.code(404).send({ error: "Not Found", message: "MK not found", statusCode: 404 });
+        return;
+      }
+
+      reply.send({
+        data: cohesion,
+        methodology_url: "/methodology#cohesion",
+        computed_fields: {
+          with_party_pct: {
+            definition:
+              "Share of the MK's yes/no/abstain votes matching their faction's majority position on that vote",
+            limitations:
+              "Faction is taken from PartyMembership dates on the vote date; votes without per-MK records are not counted",
+          },
+          defections: {
+            definition:
+              "Votes against the faction majority where the faction was largely united (Rice index ≥ 0.5)",
+          },
+        },
+      });
+    },
+  );
 }
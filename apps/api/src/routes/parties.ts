@@ -1,5 +1,6 @@
 import type { FastifyInstance } from "fastify";
 import { listParties, getPartyById } from "../services/party-service.js";
+import { getPartyCohesion } from "../services/cohesion-service.js";
 import { getCached, buildCacheKey } from "../plugins/redis.js";
 import { CACHE_TTL } from "@knesset-vote/shared";
 
@@ -15,6 +16,7 @@ export async function partyRoutes(app: FastifyInstance): Promise<void> {
           type: "object",
           properties: {
             search: { type: "string", maxLength: 200 },
+            knesset: { type: "integer", minimum: 1, description: "Knesset term number" },
             page: { type: "integer", minimum: 1, default: 1 },
             limit: { type: "integer", minimum: 1, maximum: 100, default: 20 },
           },
@@ -24,17 +26,19 @@ export async function partyRoutes(app: FastifyInstance): Promise<void> {
     async (request, reply) => {
       const {
         search,
+        knesset,
         page = 1,
         limit = 20,
       } = request.query as {
         search?: string;
+        knesset?: number;
         page?: number;
         limit?: number;
       };
 
-      const cacheKey = buildCacheKey("parties", { search, page, limit });
+      const cacheKey = buildCacheKey("parties", { search, knesset, page, limit });
       const result = await getCached(cacheKey, CACHE_TTL.SHORT, () =>
-        listParties({ search, page, limit }),
+        listParties({ search, knesset, page, limit }),
       );
 
       reply.send({
@@ -88,4 +92,48 @@ export async function partyRoutes(app: FastifyInstance): Promise<void> {
       });
     },
   );
+
+  app.get(
+    "/api/parties/:id/cohesion",
+    {
+      schema: {
+        description:
+          "Faction voting cohesion (Rice index) over time, least loyal members and notable defections",
+        tags: ["Parties"],
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: { id: { type: "string" } },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const cacheKey = buildCacheKey("party-cohesion", { id });
+
+      const cohesion = await getCached(cacheKey, CACHE_TTL.MEDIUM, () => getPartyCohesion(id));
+
+      if (!cohesion) {
+        reply.code(404).send({ error: "Not Found", message: "Party not found", statusCode: 404 });
+        return;
+      }
+
+      reply.send({
+        data: cohesion,
+        methodology_url: "/methodology#cohesion",
+        computed_fields: {
+          avg_rice_index: {
+            definition:
+              "Mean Rice index |yes − no| / (yes + no) of the faction's members across plenum votes, 0–1",
+            limitations:
+              "Abstentions are excluded from the Rice index; months with no votes are omitted",
+          },
+          members: {
+            definition:
+              "Share of each member's votes matching the faction majority, least loyal first",
+          },
+        },
+      });
+    },
+  );
 }
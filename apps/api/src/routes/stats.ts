@@ -0,0 +1,33 @@
+import type { FastifyInstance } from "fastify";
+import { CACHE_TTL } from "@knesset-vote/shared";
+import { getLegislativePipelineStats } from "../services/bill-timeline-service.js";
+import { getCached, buildCacheKey } from "../plugins/redis.js";
+
+export async function statsRoutes(app: FastifyInstance): Promise<void> {
+  app.get(
+    "/api/stats/legislative-pipeline",
+    {
+      schema: {
+        description:
+          "Median days from submission to first reading and to passage — overall, by bill type (government / private / committee) and by handling committee — plus median days per stage. Derived from reconstructed bill timelines.",
+        tags: ["Stats"],
+        querystring: {
+          type: "object",
+          properties: {
+            knesset: { type: "integer", minimum: 1, description: "Knesset term number" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { knesset } = request.query as { knesset?: number };
+      const cacheKey = buildCacheKey("stats-legislative-pipeline", { knesset });
+
+      const stats = await getCached(cacheKey, CACHE_TTL.LONG, () =>
+        getLegislativePipelineStats({ knesset }),
+      );
+
+      reply.send({ data: stats, methodology_url: "/methodology#bill-timeline" });
+    },
+  );
+}
@@ -15,7 +15,12 @@ export async function voteRoutes(app: FastifyInstance): Promise<void> {
           properties: {
             mk_id: { type: "string", description: "Filter by MK id or external_id" },
             bill_id: { type: "string", description: "Filter by Bill id or external_id" },
-            knesset_number: { type: "integer", description: "Filter by Knesset number" },
+            knesset: { type: "integer", minimum: 1, description: "Knesset term number" },
+            knesset_number: {
+              type: "integer",
+              minimum: 1,
+              description: "Deprecated alias of knesset",
+            },
             result: { type: "string", enum: ["passed", "rejected", "unknown"] },
             page: { type: "integer", minimum: 1, default: 1 },
             limit: { type: "integer", minimum: 1, maximum: 100, default: 20 },
@@ -27,6 +32,7 @@ export async function voteRoutes(app: FastifyInstance): Promise<void> {
       const {
         mk_id,
         bill_id,
+        knesset,
         knesset_number,
         result,
         page = 1,
@@ -34,22 +40,25 @@ export async function voteRoutes(app: FastifyInstance): Promise<void> {
       } = request.query as {
         mk_id?: string;
         bill_id?: string;
+        knesset?: number;
         knesset_number?: number;
         result?: string;
         page?: number;
         limit?: number;
       };
 
+      const knessetNumber = knesset ?? knesset_number;
+
       const cacheKey = buildCacheKey("votes", {
         mk_id,
         bill_id,
-        knesset_number,
+        knesset: knessetNumber,
         result,
         page,
         limit,
       });
       const data = await getCached(cacheKey, CACHE_TTL.SHORT, () =>
-        listVotes({ mk_id, bill_id, knesset_number, result, page, limit }),
+        listVotes({ mk_id, bill_id, knesset_number: knessetNumber, result, page, limit }),
       );
 
       reply.send({
@@ -65,7 +74,8 @@ export async function voteRoutes(app: FastifyInstance): Promise<void> {
     "/api/votes/:id",
     {
       schema: {
-        description: "Get vote detail with all MK vote records",
+        description:
+          "Get vote detail with all MK vote records, plus per-faction and coalition / opposition counts as of the vote date",
         tags: ["Votes"],
         params: {
           type: "object",
@@ -0,0 +1,180 @@
+/**
+ * Webhook subscription routes (require API_KEY)
+ *
+ * POST   /api/webhooks                 → subscribe (filters: bill_id, topic, mk_id); returns the signing secret once
+ * GET    /api/webhooks                 → list subscriptions
+ * DELETE /api/webhooks/:id             → unsubscribe
+ * GET    /api/webhooks/:id/deliveries  → delivery log for one subscription
+ */
+
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { BillTopicSchema } from "@knesset-vote/shared";
+import { z } from "zod";
+import {
+  createWebhook,
+  listWebhooks,
+  deleteWebhook,
+  listWebhookDeliveries,
+} from "../services/webhook-service.js";
+import { requireApiKey } from "../plugins/api-key.js";
+
+const CreateWebhookSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .max(2000)
+    .refine((u) => /^https?:\/\//i.test(u), "url must use http or https"),
+  description: z.string().max(200).optional(),
+  bill_id: z.string().optional(),
+  topic: BillTopicSchema.optional(),
+  mk_id: z.string().optional(),
+});
+
+const idParams = {
+  type: "object",
+  required: ["id"],
+  properties: { id: { type: "string" } },
+} as const;
+
+export async function webhookRoutes(app: FastifyInstance): Promise<void> {
+  // Explicitly return 404 if no API key configured
+  if (!process.env["API_KEY"]) {
+    const notEnabled = async (_: FastifyRequest, reply: FastifyReply) => {
+      reply.code(404).send({
+        error: "Not Found",
+        message: "Webhooks are not enabled. Set API_KEY environment variable to enable.",
+        statusCode: 404,
+      });
+    };
+    const schema = {
+      description: "Not available - requires API_KEY configuration",
+      tags: ["Webhooks"],
+    };
+    app.post("/api/webhooks", { schema }, notEnabled);
+    app.get("/api/webhooks", { schema }, notEnabled);
+    app.delete("/api/webhooks/:id", { schema }, notEnabled);
+    app.get("/api/webhooks/:id/deliveries", { schema }, notEnabled);
+    return;
+  }
+
+  // Routes registered in this plugin are encapsulated, so the hook only guards them
+  app.addHook("preHandler", requireApiKey);
+
+  app.post(
+    "/api/webhooks",
+    {
+      schema: {
+        description:
+          "Subscribe a URL to bill status changes and new bill stages. Every filter that is set must match. The HMAC signing secret is only returned here.",
+        tags: ["Webhooks"],
+        security: [{ apiKey: [] }],
+      },
+    },
+    async (request, reply) => {
+      const parsed = CreateWebhookSchema.safeParse(request.body);
+      if (!parsed.success) {
+        reply.code(400).send({
+          error: "Bad Request",
+          message: "Invalid input",
+          details: parsed.error.flatten(),
+          statusCode: 400,
+        });
+        return;
+      }
+
+      const result = await createWebhook(parsed.data);
+      if ("error" in result && result.error === "url_not_allowed") {
+        reply.code(400).send({
+          error: "Bad Request",
+          message: "url must resolve to a public address",
+          statusCode: 400,
+        });
+        return;
+      }
+      if ("error" in result) {
+        reply.code(404).send({
+          error: "Not Found",
+          message: result.error === "bill_not_found" ? "Bill not found" : "MK not found",
+          statusCode: 404,
+        });
+        return;
+      }
+
+      reply.code(201).send({ data: result.data });
+    },
+  );
+
+  app.get(
+    "/api/webhooks",
+    {
+      schema: {
+        description: "List webhook subscriptions (secrets are not included)",
+        tags: ["Webhooks"],
+        security: [{ apiKey: [] }],
+      },
+    },
+    async (_, reply) => {
+      reply.send({ data: await listWebhooks() });
+    },
+  );
+
+  app.delete(
+    "/api/webhooks/:id",
+    {
+      schema: {
+        description: "Delete a webhook subscription and its delivery log",
+        tags: ["Webhooks"],
+        security: [{ apiKey: [] }],
+        params: idParams,
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      if (!(await deleteWebhook(id))) {
+        reply.code(404).send({
+          error: "Not Found",
+          message: "Webhook not found",
+          statusCode: 404,
+        });
+        return;
+      }
+      reply.code(204).send();
+    },
+  );
+
+  app.get(
+    "/api/webhooks/:id/deliveries",
+    {
+      schema: {
+        description:
+          "Delivery log for a subscription: status, attempts, last response code and error",
+        tags: ["Webhooks"],
+        security: [{ apiKey: [] }],
+        params: idParams,
+        querystring: {
+          type: "object",
+          properties: {
+            page: { type: "integer", minimum: 1, default: 1 },
+            limit: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const { page = 1, limit = 20 } = request.query as { page?: number; limit?: number };
+
+      const result = await listWebhookDeliveries(id, { page, limit });
+      if (!result) {
+        reply.code(404).send({
+          error: "Not Found",
+          message: "Webhook not found",
+          statusCode: 404,
+        });
+        return;
+      }
+
+      reply.send({ ...result, page, limit, pages: Math.ceil(result.total / limit) });
+    },
+  );
+}
@@ -16,7 +16,15 @@ import { promiseRoutes } from "./routes/promises.js";
 import { voteRoutes } from "./routes/votes.js";
 import { recommendationRoutes } from "./routes/recommendations.js";
 import { governmentRoutes } from "./routes/government.js";
+import { knessetRoutes } from "./routes/knessets.js";
 import { aiRoutes } from "./routes/ai.js";
+import { committeeRoutes } from "./routes/committees.js";
+import { changeRoutes } from "./routes/changes.js";
+import { feedRoutes } from "./routes/feeds.js";
+import { webhookRoutes } from "./routes/webhooks.js";
+import { exportRoutes } from "./routes/export.js";
+import { editorialRoutes } from "./routes/editorial.js";
+import { statsRoutes } from "./routes/stats.js";
 import { RATE_LIMIT } from "@knesset-vote/shared";
 
 const PORT = Number(process.env["PORT"] ?? process.env["API_PORT"] ?? 3001);
@@ -50,7 +58,7 @@ async function build() {
 
   await app.register(cors, {
     origin: process.env["NODE_ENV"] === "production" ? allowedOrigins : true,
-    methods: ["GET", "POST", "OPTIONS"],
+    methods: ["GET", "POST", "PATCH", "DELETE", "OPTIONS"],
     credentials: true,
   });
 
@@ -110,19 +118,43 @@ async function build() {
         { name: "Parties", description: "Party/faction data" },
         { name: "MKs", description: "Member of Knesset data" },
         { name: "Bills", description: "Legislative bills" },
+        { name: "Committees", description: "Knesset committees, members and bills" },
+        {
+          name: "Stats",
+          description: "Legislative pipeline statistics from reconstructed bill timelines",
+        },
         { name: "Search", description: "Unified search" },
         { name: "Votes", description: "Parliamentary votes and MK vote records" },
+        { name: "Changes", description: "Data change feed — what changed between ETL runs" },
+        {
+          name: "Feeds",
+          description: "Atom and JSON Feed subscriptions for bills, votes, MKs and parties",
+        },
+        {
+          name: "Export",
+          description: "Bulk CSV / JSON Lines exports of whole tables for research use",
+        },
+        {
+          name: "Webhooks",
+          description: "Signed HTTP callbacks on bill stage transitions (requires API key)",
+        },
         { name: "Statements", description: "Statements and commitments tracker" },
+        {
+          name: "Editorial",
+          description:
+            "Statement editing, publishing and match review (per-editor API key with a role)",
+        },
         {
           name: "Recommendations",
           description: "My Election — personalized party recommendations",
         },
         { name: "Government", description: "Current government ministers and their roles" },
+        { name: "Knessets", description: "Knesset terms — pass ?knesset=N to browse a term" },
         {
           name: "AI",
           description:
-            "AI assistant — Gemini-powered Q&A with real DB data. " +
-            "GEMINI_API_KEY is server-side only, never exposed to clients.",
+            "AI assistant — Q&A with real DB data (Gemini, OpenAI-compatible or scripted backend). " +
+            "Provider API keys are server-side only, never exposed to clients.",
         },
       ],
     },
@@ -166,12 +198,20 @@ async function build() {
   await app.register(partyRoutes);
   await app.register(mkRoutes);
   await app.register(billRoutes);
+  await app.register(statsRoutes);
   await app.register(searchRoutes);
   await app.register(promiseRoutes);
+  await app.register(editorialRoutes);
   await app.register(voteRoutes);
   await app.register(recommendationRoutes);
   await app.register(governmentRoutes);
+  await app.register(knessetRoutes);
   await app.register(aiRoutes);
+  await app.register(committeeRoutes);
+  await app.register(changeRoutes);
+  await app.register(feedRoutes);
+  await app.register(webhookRoutes);
+  await app.register(exportRoutes);
 
   return app;
 }
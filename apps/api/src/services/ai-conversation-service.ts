@@ -0,0 +1,99 @@
+/**
+ * AI conversation sessions — short-lived question/answer history in Redis.
+ *
+ * A conversation is a list of turns under `ai:conversation:<id>`, refreshed
+ * to a 30-minute TTL on every turn. Only the newest turns that fit the token
+ * budget are kept, so a long chat cannot grow the prompt without bound.
+ * Without Redis every question starts a fresh conversation.
+ */
+
+import crypto from "crypto";
+import type { EntityCard } from "@knesset-vote/shared";
+import { getRedis } from "../plugins/redis.js";
+
+export const CONVERSATION_TTL_SECONDS = 30 * 60;
+export const HISTORY_TOKEN_BUDGET = 2000;
+const MAX_CARRIED_ENTITIES = 10;
+
+const CONVERSATION_ID_RE = /^[A-Za-z0-9_-]{8,64}$/;
+
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+  entity_cards: EntityCard[];
+}
+
+function conversationKey(id: string): string {
+  return `ai:conversation:${id}`;
+}
+
+export function isValidConversationId(id: string): boolean {
+  return CONVERSATION_ID_RE.test(id);
+}
+
+export function newConversationId(): string {
+  return crypto.randomUUID();
+}
+
+/** Rough token count — Hebrew runs about three characters per token */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 3);
+}
+
+/** The newest turns whose questions and answers fit in `budget` tokens, oldest first */
+export function trimToTokenBudget(
+  turns: ConversationTurn[],
+  budget = HISTORY_TOKEN_BUDGET,
+): ConversationTurn[] {
+  const kept: ConversationTurn[] = [];
+  let used = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const turn = turns[i]!;
+    used += estimateTokens(turn.question) + estimateTokens(turn.answer);
+    if (used > budget) break;
+    kept.unshift(turn);
+  }
+  return kept;
+}
+
+/** Entities shown in earlier answers, most recent first, one per type + id */
+export function carriedEntities(turns: ConversationTurn[]): EntityCard[] {
+  const seen = new Set<string>();
+  const entities: EntityCard[] = [];
+  for (let i = turns.length - 1; i >= 0; i--) {
+    for (const card of turns[i]!.entity_cards) {
+      const key = `${card.type}:${card.id}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      entities.push(card);
+    }
+  }
+  return entities.slice(0, MAX_CARRIED_ENTITIES);
+}
+
+export async function loadConversation(id: string): Promise<ConversationTurn[]> {
+  const redis = getRedis();
+  if (!redis) return [];
+  try {
+    const raw = await redis.get(conversationKey(id));
+    return raw ? (JSON.parse(raw) as ConversationTurn[]) : [];
+  } catch {
+    // An unreadable history only costs the follow-up its context
+    return [];
+  }
+}
+
+export async function appendConversationTurn(
+  id: string,
+  history: ConversationTurn[],
+  turn: ConversationTurn,
+): Promise<void> {
+  const redis = getRedis();
+  if (!redis) return;
+  try {
+    const turns = trimToTokenBudget([...history, turn]);
+    await redis.setex(conversationKey(id), CONVERSATION_TTL_SECONDS, JSON.stringify(turns));
+  } catch {
+    // Non-fatal — the answer was already produced
+  }
+}
@@ -1,34 +1,58 @@
 /**
- * AI Service — Gemini-powered "Ask + Verify" for Knesset data.
+ * AI Service — "Ask + Verify" for Knesset data.
  *
  * Security rules:
- * - GEMINI_API_KEY is read server-side only, never logged, never returned to client.
+ * - Provider API keys are read server-side only, never logged, never returned to client.
  * - All factual claims MUST be backed by a DB tool call + source_url.
  * - The AI is instructed not to invent data; if DB returns empty, it says so.
  *
  * Architecture:
  * 1. Receive question from route
- * 2. Call Gemini with 6 DB-backed function tools
- * 3. Gemini calls tools → we execute DB queries with real data
- * 4. Gemini generates final Hebrew answer from tool results
+ * 2. Call the configured model (./llm — Gemini, OpenAI-compatible or scripted)
+ *    with 11 DB-backed function tools
+ * 3. The model calls tools → we execute DB queries with real data
+ * 4. The model generates final Hebrew answer from tool results
  * 5. We parse answer + extract citations/entity_cards
- * 6. Return structured AiAnswer
+ * 6. Every number, date and name in the answer is checked against this turn's
+ *    tool results (ai-verification-service); unsupported claims are flagged
+ * 7. Return structured AiAnswer
+ *
+ * Follow-ups: with a conversation_id, earlier turns (ai-conversation-service)
+ * are replayed to the model, and entities from earlier answers are listed in
+ * the prompt and filled into tool arguments the model leaves out.
  */
 
-import { GoogleGenAI, Type, type Tool, type FunctionCall } from "@google/genai";
 import { db } from "@knesset-vote/db";
 import { getCached, buildCacheKey } from "../plugins/redis.js";
-import { CACHE_TTL } from "@knesset-vote/shared";
+import { coalitionStatusAt, periodActiveAt } from "./coalition-service.js";
+import { searchIds } from "./search-service.js";
+import {
+  appendConversationTurn,
+  carriedEntities,
+  loadConversation,
+  newConversationId,
+  type ConversationTurn,
+} from "./ai-conversation-service.js";
+import { verifyAnswer } from "./ai-verification-service.js";
+import {
+  getLLMProvider,
+  type LLMInput,
+  type LLMToolCall,
+  type LLMToolDeclaration,
+  type LLMToolResult,
+} from "./llm/index.js";
+import { BILL_TOPIC_LABELS_HE, CACHE_TTL } from "@knesset-vote/shared";
 import type { Citation, EntityCard, AiAnswer } from "@knesset-vote/shared";
 
 // ─── Constants ──────────────────────────────────────────────────────────────
 
-const MODEL_NAME = "gemini-2.5-flash";
+// Guards against a model (small local ones especially) that keeps calling tools
+const MAX_TOOL_ROUNDS = 6;
 
 const SYSTEM_INSTRUCTION = `אתה עוזר AI של Knesset Vote — פלטפורמת שקיפות פרלמנטרית ישראלית.
 
 חוקים שחייבים לקיים:
-1. ענה רק על שאלות הקשורות לכנסת ישראל, חברי כנסת, סיעות, הצעות חוק, שרים, ועדות, והצבעות.
+1. ענה רק על שאלות הקשורות לכנסת ישראל, חברי כנסת, סיעות, הצעות חוק, שרים, ועדות, הצבעות והצהרות פומביות.
 2. כל טענה עובדתית חייבת להתבסס על תוצאת tool call — לעולם אל תמציא נתונים.
 3. אם tool call מחזיר תוצאות ריקות, אמור בגלוי: "לא נמצאו נתונים במסד הנתונים עבור שאלה זו".
 4. ענה בעברית בלבד.
@@ -41,80 +65,44 @@ const DISCLAIMER_HE =
   "ייחוס הצעות חוק לשרים הוא לפי נושא המשרד ואינו ייחוס סיבתי ישיר. " +
   "לפרטים מלאים ראה את עמוד המתודולוגיה.";
 
-// Coalition status map (knesset 25) — mirrors mk-service.ts
-const KNESSET_25_COALITION = new Set(["1096", "1105", "1102", "1104", "1108", "1106", "1107"]);
-const KNESSET_25_OPPOSITION = new Set([
-  "1097",
-  "1099",
-  "1101",
-  "1100",
-  "1103",
-  "1109",
-  "1110",
-  "1098",
-]);
-
-function getCoalitionStatus(externalId: string | null): "coalition" | "opposition" | null {
-  if (!externalId) return null;
-  if (KNESSET_25_COALITION.has(externalId)) return "coalition";
-  if (KNESSET_25_OPPOSITION.has(externalId)) return "opposition";
-  return null;
-}
-
-// ─── Lazy-init Gemini client ──────────────────────────────────────────────
-
-let _genAI: GoogleGenAI | null = null;
-
-function getGenAI(): GoogleGenAI {
-  if (_genAI) return _genAI;
-  const apiKey = process.env["GEMINI_API_KEY"];
-  if (!apiKey) {
-    throw new Error(
-      "GEMINI_API_KEY environment variable is not set. " +
-        "Add it to Railway (API service) environment variables.",
-    );
-  }
-  _genAI = new GoogleGenAI({ apiKey });
-  return _genAI;
-}
-
 /**
- * Maps raw Gemini API error messages to friendly Hebrew strings
+ * Maps raw provider error messages to friendly Hebrew strings
  * so we never leak internal details to the client.
  */
-function classifyGeminiError(msg: string): string {
-  if (msg.includes("GEMINI_API_KEY") || msg.includes("API_KEY_INVALID")) {
+function classifyLLMError(msg: string): string {
+  // Missing / invalid GEMINI_API_KEY or OPENAI_API_KEY, or a bad AI_PROVIDER
+  if (msg.includes("API_KEY") || msg.includes("AI_PROVIDER")) {
     return "AI_UNAVAILABLE";
   }
-  if (msg.includes("RESOURCE_EXHAUSTED") || msg.includes("quota") || msg.includes("free_tier")) {
+  if (
+    msg.includes("RESOURCE_EXHAUSTED") ||
+    msg.includes("quota") ||
+    msg.includes("free_tier") ||
+    msg.includes("returned 429")
+  ) {
     return "שירות ה-AI עמוס כרגע — נסה שוב עוד כמה שניות.";
   }
-  if (msg.includes("PERMISSION_DENIED") || msg.includes("403")) {
+  if (msg.includes("PERMISSION_DENIED") || msg.includes("403") || msg.includes("returned 401")) {
     return "AI_UNAVAILABLE";
   }
-  if (msg.includes("UNAVAILABLE") || msg.includes("503")) {
+  if (msg.includes("UNAVAILABLE") || msg.includes("503") || msg.includes("fetch failed")) {
     return "שירות ה-AI אינו זמין כרגע. נסה שוב מאוחר יותר.";
   }
-  // Generic fallback — don't expose raw Gemini error text
+  // Generic fallback — don't expose raw provider error text
   return "שגיאה בעיבוד השאלה. נסה שוב.";
 }
 
 // ─── Tool implementations (DB queries) ───────────────────────────────────
 
 /**
- * search_mks — fuzzy search MKs by name
+ * search_mks — ranked name search over the search index (prefix- and typo-tolerant)
  */
 async function toolSearchMks(args: { query: string; limit?: number }) {
   const { query, limit = 5 } = args;
+  const ids = await searchIds("mk", query, limit);
+  const rank = new Map(ids.map((id, i) => [id, i]));
   const mks = await db.mK.findMany({
-    where: {
-      OR: [
-        { name_he: { contains: query } },
-        { name_en: { contains: query, mode: "insensitive" } },
-        { name_first_he: { contains: query } },
-        { name_last_he: { contains: query } },
-      ],
-    },
+    where: { id: { in: ids } },
     include: {
       memberships: {
         where: { is_current: true },
@@ -125,9 +113,8 @@ async function toolSearchMks(args: { query: string; limit?: number }) {
         orderBy: { knesset_number: "desc" },
       },
     },
-    take: limit,
-    orderBy: [{ is_current: "desc" }, { name_he: "asc" }],
   });
+  mks.sort((a, b) => (rank.get(a.id) ?? 0) - (rank.get(b.id) ?? 0));
 
   return mks.map((mk) => ({
     id: mk.id,
@@ -151,7 +138,9 @@ async function toolGetMkDetail(args: { mk_id?: string; name_query?: string }) {
     memberships: {
       where: { is_current: true },
       include: {
-        party: { select: { name_he: true, external_id: true } },
+        party: {
+          select: { name_he: true, coalition_periods: { where: periodActiveAt(new Date()) } },
+        },
       },
       take: 1,
       orderBy: { knesset_number: "desc" as const },
@@ -189,15 +178,13 @@ async function toolGetMkDetail(args: { mk_id?: string; name_query?: string }) {
 
   if (!mk) return { found: false, error: "לא נמצא חבר כנסת עם פרטים אלו" };
 
-  const partyExtId = mk.memberships[0]?.party?.external_id ?? null;
-
   return {
     found: true,
     id: mk.id,
     name_he: mk.name_he,
     name_en: mk.name_en,
     party: mk.memberships[0]?.party?.name_he ?? null,
-    coalition_status: getCoalitionStatus(partyExtId),
+    coalition_status: coalitionStatusAt(mk.memberships[0]?.party?.coalition_periods),
     is_current: mk.is_current,
     bills_count: mk._count.bill_roles,
     committees: mk.committee_memberships.map((cm) => cm.committee.name_he),
@@ -214,18 +201,19 @@ async function toolGetMkDetail(args: { mk_id?: string; name_query?: string }) {
 async function toolSearchBills(args: { topic?: string; keyword?: string; limit?: number }) {
   const { topic, keyword, limit = 8 } = args;
 
+  // Keywords are ranked by the search index; the topic filter narrows a wider
+  // candidate list. Without a keyword, the most recently active bills come first.
+  const ids = keyword ? await searchIds("bill", keyword, topic ? 100 : limit) : null;
+  const rank = new Map(ids?.map((id, i) => [id, i]));
+
   const bills = await db.bill.findMany({
     where: {
       is_demo: false,
       ...(topic ? { topic } : {}),
-      ...(keyword
-        ? {
-            OR: [{ title_he: { contains: keyword } }, { description_he: { contains: keyword } }],
-          }
-        : {}),
+      ...(ids ? { id: { in: ids } } : {}),
     },
     orderBy: [{ last_status_date: "desc" }, { submitted_date: "desc" }],
-    take: limit,
+    ...(ids ? {} : { take: limit }),
     select: {
       id: true,
       title_he: true,
@@ -236,6 +224,11 @@ async function toolSearchBills(args: { topic?: string; keyword?: string; limit?:
     },
   });
 
+  if (ids) {
+    bills.sort((a, b) => (rank.get(a.id) ?? 0) - (rank.get(b.id) ?? 0));
+    bills.splice(limit);
+  }
+
   return bills.map((b) => ({
     id: b.id,
     title_he: b.title_he,
@@ -262,6 +255,7 @@ async function toolGetPartyInfo(args: { name_query: string }) {
       knesset_number: 25,
     },
     orderBy: { knesset_number: "desc" },
+    include: { coalition_periods: { where: periodActiveAt(new Date()) } },
   });
 
   if (!party) return { found: false, error: `לא נמצאה סיעה בשם: ${name_query}` };
@@ -272,7 +266,7 @@ async function toolGetPartyInfo(args: { name_query: string }) {
     name_he: party.name_he,
     name_en: party.name_en,
     seat_count: party.seat_count,
-    coalition_status: getCoalitionStatus(party.external_id),
+    coalition_status: coalitionStatusAt(party.coalition_periods),
     knesset_number: party.knesset_number,
     is_active: party.is_active,
     source_url: party.source_url,
@@ -363,122 +357,488 @@ async function toolSearchVotes(args: { keyword?: string; limit?: number }) {
   }));
 }
 
-// ─── Tool definitions for Gemini ─────────────────────────────────────────
+/**
+ * search_committees — committees by name, with their current members
+ */
+async function toolSearchCommittees(args: { query: string; limit?: number }) {
+  const { query, limit = 3 } = args;
+  const ids = await searchIds("committee", query, limit);
+  const rank = new Map(ids.map((id, i) => [id, i]));
+  const committees = await db.committee.findMany({
+    where: { id: { in: ids } },
+    include: {
+      memberships: {
+        where: { is_current: true },
+        include: { mk: { select: { id: true, name_he: true } } },
+      },
+    },
+  });
+  committees.sort((a, b) => (rank.get(a.id) ?? 0) - (rank.get(b.id) ?? 0));
+
+  return committees.map((c) => ({
+    id: c.id,
+    name_he: c.name_he,
+    knesset_number: c.knesset_number,
+    is_active: c.is_active,
+    members: c.memberships.map((m) => ({ mk_id: m.mk.id, name_he: m.mk.name_he, role: m.role })),
+    source_url: c.source_url,
+    platform_url: `/committees/${c.id}`,
+  }));
+}
 
-const TOOLS: Tool[] = [
-  {
-    functionDeclarations: [
-      {
-        name: "search_mks",
-        description: "חיפוש חברי כנסת לפי שם. מחזיר רשימה עם שיוך מפלגתי ו-source_url.",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {
-            query: {
-              type: Type.STRING,
-              description: "שם חבר/ת הכנסת לחיפוש (עברית או אנגלית)",
-            },
-            limit: {
-              type: Type.NUMBER,
-              description: "מספר תוצאות מקסימלי (ברירת מחדל: 5)",
-            },
-          },
-          required: ["query"],
+const POSITION_LABELS_HE: Record<string, string> = {
+  yes: "בעד",
+  no: "נגד",
+  abstain: "נמנע",
+  present: "נוכח, לא הצביע",
+  absent: "לא נכח",
+  did_not_vote: "לא הצביע",
+};
+
+/**
+ * get_mk_votes — how one MK voted, optionally narrowed to a vote, a bill or a keyword
+ */
+async function toolGetMkVotes(args: {
+  mk_id?: string;
+  name_query?: string;
+  vote_id?: string;
+  bill_id?: string;
+  keyword?: string;
+  limit?: number;
+}) {
+  const { name_query, vote_id, bill_id, keyword, limit = 10 } = args;
+  // Without an MK the query below would return every MK's records
+  const mk_id = args.mk_id ?? (name_query ? (await searchIds("mk", name_query, 1))[0] : undefined);
+  if (!mk_id) return { found: false, error: "לא נמצא חבר כנסת עם פרטים אלו" };
+
+  const records = await db.voteRecord.findMany({
+    where: {
+      mk_id,
+      vote: {
+        ...(vote_id ? { id: vote_id } : {}),
+        ...(bill_id ? { bill_id } : {}),
+        ...(keyword ? { title_he: { contains: keyword } } : {}),
+      },
+    },
+    orderBy: { vote: { vote_date: "desc" } },
+    take: limit,
+    include: {
+      mk: { select: { name_he: true } },
+      vote: {
+        select: {
+          id: true,
+          title_he: true,
+          vote_date: true,
+          result: true,
+          bill_reading: true,
+          source_url: true,
         },
       },
-      {
-        name: "get_mk_detail",
-        description: "מידע מפורט על חבר/ת כנסת — כולל מספר הצעות חוק, ועדות, ותפקיד ממשלתי.",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {
-            mk_id: {
-              type: Type.STRING,
-              description: "מזהה פנימי של חבר/ת הכנסת (מ-search_mks)",
-            },
-            name_query: {
-              type: Type.STRING,
-              description: "שם חבר/ת הכנסת לחיפוש (חלופה ל-mk_id)",
-            },
-          },
+    },
+  });
+
+  return records.map((r) => ({
+    id: r.vote.id,
+    title_he: r.vote.title_he,
+    vote_date: r.vote.vote_date?.toISOString().slice(0, 10) ?? null,
+    reading: r.vote.bill_reading,
+    position: r.position,
+    position_he: POSITION_LABELS_HE[r.position] ?? r.position,
+    mk_id: r.mk_id,
+    mk_name_he: r.mk.name_he,
+    result: r.vote.result,
+    source_url: r.vote.source_url,
+    platform_url: `/votes/${r.vote.id}`,
+  }));
+}
+
+/**
+ * get_bill_detail — one bill with its sponsors, stage history and plenum votes
+ */
+async function toolGetBillDetail(args: { bill_id?: string; title_query?: string }) {
+  const { title_query } = args;
+  const bill_id =
+    args.bill_id ?? (title_query ? (await searchIds("bill", title_query, 1))[0] : undefined);
+  if (!bill_id) return { found: false, error: "לא נמצאה הצעת חוק מתאימה" };
+
+  const bill = await db.bill.findUnique({
+    where: { id: bill_id },
+    include: {
+      sponsors: { include: { mk: { select: { id: true, name_he: true } } } },
+      stage_history: { orderBy: { stage_date: "asc" } },
+      votes: {
+        orderBy: { vote_date: "asc" },
+        select: {
+          id: true,
+          vote_date: true,
+          bill_reading: true,
+          result: true,
+          yes_count: true,
+          no_count: true,
         },
       },
-      {
-        name: "search_bills",
-        description: "חיפוש הצעות חוק לפי נושא או מילת מפתח.",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {
-            topic: {
-              type: Type.STRING,
-              description: "נושא ההצעה (למשל: justice_law, education, healthcare, economy)",
-            },
-            keyword: {
-              type: Type.STRING,
-              description: "מילת מפתח לחיפוש בשם ההצעה",
-            },
-            limit: {
-              type: Type.NUMBER,
-              description: "מספר תוצאות מקסימלי (ברירת מחדל: 8)",
-            },
+    },
+  });
+  if (!bill) return { found: false, error: "לא נמצאה הצעת חוק מתאימה" };
+
+  return {
+    found: true,
+    id: bill.id,
+    title_he: bill.title_he,
+    status: bill.status,
+    bill_type: bill.bill_type,
+    topic: bill.topic,
+    knesset_number: bill.knesset_number,
+    submitted_date: bill.submitted_date?.toISOString().slice(0, 10) ?? null,
+    sponsors: bill.sponsors.map((s) => ({ mk_id: s.mk.id, name_he: s.mk.name_he, role: s.role })),
+    stages: bill.stage_history.map((st) => ({
+      stage: st.stage_name_he,
+      status: st.status,
+      date: st.stage_date?.toISOString().slice(0, 10) ?? null,
+    })),
+    votes: bill.votes.map((v) => ({
+      vote_id: v.id,
+      date: v.vote_date?.toISOString().slice(0, 10) ?? null,
+      reading: v.bill_reading,
+      result: v.result,
+      votes_for: v.yes_count,
+      votes_against: v.no_count,
+    })),
+    source_url: bill.source_url,
+    platform_url: `/bills/${bill.id}`,
+  };
+}
+
+/**
+ * search_statements — published statements / commitments by MK, party, topic or text
+ */
+async function toolSearchStatements(args: {
+  keyword?: string;
+  mk_id?: string;
+  party_id?: string;
+  topic?: string;
+  limit?: number;
+}) {
+  const { keyword, mk_id, party_id, topic, limit = 8 } = args;
+
+  const statements = await db.promise.findMany({
+    where: {
+      status: "published",
+      is_demo: false,
+      ...(keyword ? { text: { contains: keyword } } : {}),
+      ...(mk_id ? { mk_id } : {}),
+      ...(party_id ? { party_id } : {}),
+      ...(topic ? { topic } : {}),
+    },
+    orderBy: { stated_on: "desc" },
+    take: limit,
+    include: {
+      mk: { select: { name_he: true } },
+      party: { select: { name_he: true } },
+      // Only editor-accepted matches, as on the public listing
+      matches: {
+        where: { review_status: "accepted" },
+        select: { status: true, bill_id: true, vote_id: true },
+      },
+    },
+  });
+
+  return statements.map((p) => ({
+    statement_id: p.id,
+    type: p.category,
+    text: p.text.slice(0, 400),
+    topic: p.topic,
+    mk: p.mk?.name_he ?? null,
+    party: p.party?.name_he ?? null,
+    stated_on: p.stated_on?.toISOString().slice(0, 10) ?? null,
+    source_label: p.source_label,
+    matches: p.matches,
+    source_url: p.source_url,
+  }));
+}
+
+/**
+ * get_party_topic_scores — a party's legislative activity per topic (PartyTopicAgg)
+ */
+async function toolGetPartyTopicScores(args: {
+  party_id?: string;
+  name_query?: string;
+  topic?: string;
+}) {
+  const { party_id, name_query, topic } = args;
+
+  const party = party_id
+    ? await db.party.findUnique({ where: { id: party_id } })
+    : name_query
+      ? await db.party.findFirst({
+          where: {
+            OR: [
+              { name_he: { contains: name_query } },
+              { name_en: { contains: name_query, mode: "insensitive" } },
+            ],
           },
+          orderBy: { knesset_number: "desc" },
+        })
+      : null;
+  if (!party) return { found: false, error: "לא נמצאה סיעה מתאימה" };
+
+  const rows = await db.partyTopicAgg.findMany({
+    where: { party_id: party.id, ...(topic ? { topic } : {}) },
+    orderBy: { raw_score: "desc" },
+  });
+
+  return {
+    found: true,
+    id: party.id,
+    name_he: party.name_he,
+    seat_count: party.seat_count,
+    topics: rows.map((r) => ({
+      topic: r.topic,
+      topic_he: BILL_TOPIC_LABELS_HE[r.topic] ?? r.topic,
+      mk_bill_score: r.raw_score,
+      mk_bill_count: r.bill_count,
+      government_bill_score: r.government_score,
+      government_bill_count: r.government_bill_count,
+    })),
+    computed_at: rows[0]?.computed_at.toISOString() ?? null,
+    source_url: party.source_url,
+    platform_url: `/parties/${party.id}`,
+  };
+}
+
+// ─── Tool definitions (provider-neutral JSON Schema) ─────────────────────
+
+const TOOLS: LLMToolDeclaration[] = [
+  {
+    name: "search_mks",
+    description: "חיפוש חברי כנסת לפי שם. מחזיר רשימה עם שיוך מפלגתי ו-source_url.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "שם חבר/ת הכנסת לחיפוש (עברית או אנגלית)",
+        },
+        limit: {
+          type: "number",
+          description: "מספר תוצאות מקסימלי (ברירת מחדל: 5)",
         },
       },
-      {
-        name: "get_party_info",
-        description: "מידע על סיעה — מספר מנדטים, קואליציה/אופוזיציה.",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {
-            name_query: {
-              type: Type.STRING,
-              description: "שם הסיעה לחיפוש",
-            },
-          },
-          required: ["name_query"],
+      required: ["query"],
+    },
+  },
+  {
+    name: "get_mk_detail",
+    description: "מידע מפורט על חבר/ת כנסת — כולל מספר הצעות חוק, ועדות, ותפקיד ממשלתי.",
+    parameters: {
+      type: "object",
+      properties: {
+        mk_id: {
+          type: "string",
+          description: "מזהה פנימי של חבר/ת הכנסת (מ-search_mks)",
+        },
+        name_query: {
+          type: "string",
+          description: "שם חבר/ת הכנסת לחיפוש (חלופה ל-mk_id)",
         },
       },
-      {
-        name: "list_ministers",
-        description: "רשימת שרי הממשלה הנוכחיים עם שם המשרד.",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {
-            filter_ministry: {
-              type: Type.STRING,
-              description: "סנן לפי שם משרד (אופציונלי)",
-            },
-          },
+    },
+  },
+  {
+    name: "search_bills",
+    description: "חיפוש הצעות חוק לפי נושא או מילת מפתח.",
+    parameters: {
+      type: "object",
+      properties: {
+        topic: {
+          type: "string",
+          description: "נושא ההצעה (למשל: justice_law, education, healthcare, economy)",
+        },
+        keyword: {
+          type: "string",
+          description: "מילת מפתח לחיפוש בשם ההצעה",
+        },
+        limit: {
+          type: "number",
+          description: "מספר תוצאות מקסימלי (ברירת מחדל: 8)",
         },
       },
-      {
-        name: "search_votes",
-        description: "חיפוש הצבעות פרלמנטריות לפי מילת מפתח.",
-        parameters: {
-          type: Type.OBJECT,
-          properties: {
-            keyword: {
-              type: Type.STRING,
-              description: "מילת מפתח לחיפוש בנושא ההצבעה",
-            },
-            limit: {
-              type: Type.NUMBER,
-              description: "מספר תוצאות מקסימלי (ברירת מחדל: 8)",
-            },
-          },
+    },
+  },
+  {
+    name: "get_party_info",
+    description: "מידע על סיעה — מספר מנדטים, קואליציה/אופוזיציה.",
+    parameters: {
+      type: "object",
+      properties: {
+        name_query: {
+          type: "string",
+          description: "שם הסיעה לחיפוש",
         },
       },
-    ],
+      required: ["name_query"],
+    },
+  },
+  {
+    name: "list_ministers",
+    description: "רשימת שרי הממשלה הנוכחיים עם שם המשרד.",
+    parameters: {
+      type: "object",
+      properties: {
+        filter_ministry: {
+          type: "string",
+          description: "סנן לפי שם משרד (אופציונלי)",
+        },
+      },
+    },
+  },
+  {
+    name: "search_votes",
+    description: "חיפוש הצבעות פרלמנטריות לפי מילת מפתח.",
+    parameters: {
+      type: "object",
+      properties: {
+        keyword: {
+          type: "string",
+          description: "מילת מפתח לחיפוש בנושא ההצבעה",
+        },
+        limit: {
+          type: "number",
+          description: "מספר תוצאות מקסימלי (ברירת מחדל: 8)",
+        },
+      },
+    },
+  },
+  {
+    name: "search_committees",
+    description: "חיפוש ועדות הכנסת לפי שם, כולל חברי הוועדה הנוכחיים ותפקידם.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "שם הוועדה או חלק ממנו (למשל: כספים, חוקה)",
+        },
+        limit: {
+          type: "number",
+          description: "מספר תוצאות מקסימלי (ברירת מחדל: 3)",
+        },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "get_mk_votes",
+    description:
+      "איך הצביע/ה חבר/ת כנסת בהצבעות מליאה — בעד, נגד, נמנע או לא נכח. אפשר לצמצם להצבעה אחת, להצעת חוק או למילת מפתח.",
+    parameters: {
+      type: "object",
+      properties: {
+        mk_id: {
+          type: "string",
+          description: "מזהה פנימי של חבר/ת הכנסת (מ-search_mks)",
+        },
+        name_query: {
+          type: "string",
+          description: "שם חבר/ת הכנסת לחיפוש (חלופה ל-mk_id)",
+        },
+        vote_id: {
+          type: "string",
+          description: "רק הצבעה זו (מזהה מ-search_votes)",
+        },
+        bill_id: {
+          type: "string",
+          description: "רק הצבעות על הצעת חוק זו (מזהה מ-search_bills)",
+        },
+        keyword: {
+          type: "string",
+          description: "מילת מפתח בנושא ההצבעה",
+        },
+        limit: {
+          type: "number",
+          description: "מספר תוצאות מקסימלי (ברירת מחדל: 10)",
+        },
+      },
+    },
+  },
+  {
+    name: "get_bill_detail",
+    description:
+      "פרטי הצעת חוק — מגישים, היסטוריית שלבים והצבעות המליאה עליה (קריאה, תוצאה, מספר קולות).",
+    parameters: {
+      type: "object",
+      properties: {
+        bill_id: {
+          type: "string",
+          description: "מזהה פנימי של הצעת החוק (מ-search_bills)",
+        },
+        title_query: {
+          type: "string",
+          description: "שם הצעת החוק לחיפוש (חלופה ל-bill_id)",
+        },
+      },
+    },
+  },
+  {
+    name: "search_statements",
+    description:
+      "חיפוש הצהרות ומחויבויות פומביות של חברי כנסת וסיעות, עם מקור. אינו קובע אם הן קוימו.",
+    parameters: {
+      type: "object",
+      properties: {
+        keyword: {
+          type: "string",
+          description: "מילת מפתח בנוסח ההצהרה",
+        },
+        mk_id: {
+          type: "string",
+          description: "רק הצהרות של חבר/ת כנסת זה/זו",
+        },
+        party_id: {
+          type: "string",
+          description: "רק הצהרות של סיעה זו (מזהה מ-get_party_info)",
+        },
+        topic: {
+          type: "string",
+          description: "נושא (למשל: housing, education, healthcare)",
+        },
+        limit: {
+          type: "number",
+          description: "מספר תוצאות מקסימלי (ברירת מחדל: 8)",
+        },
+      },
+    },
+  },
+  {
+    name: "get_party_topic_scores",
+    description:
+      "פעילות החקיקה של סיעה לפי נושא — ציון והיקף הצעות חוק של חברי הסיעה, בנפרד מהצעות ממשלתיות.",
+    parameters: {
+      type: "object",
+      properties: {
+        party_id: {
+          type: "string",
+          description: "מזהה פנימי של הסיעה (מ-get_party_info)",
+        },
+        name_query: {
+          type: "string",
+          description: "שם הסיעה לחיפוש (חלופה ל-party_id)",
+        },
+        topic: {
+          type: "string",
+          description: "נושא אחד בלבד (אופציונלי)",
+        },
+      },
+    },
   },
 ];
 
 // ─── Tool dispatcher ──────────────────────────────────────────────────────
 
 async function dispatchTool(
-  call: FunctionCall,
+  call: LLMToolCall,
 ): Promise<{ result: unknown; source_urls: string[] }> {
-  const name = call.name ?? "";
-  const args = (call.args ?? {}) as Record<string, unknown>;
+  const { name, args } = call;
 
   const cacheKey = buildCacheKey(`ai_tool_${name}`, args);
 
@@ -496,6 +856,35 @@ async function dispatchTool(
         return toolListMinisters(args as { filter_ministry?: string });
       case "search_votes":
         return toolSearchVotes(args as { keyword?: string; limit?: number });
+      case "search_committees":
+        return toolSearchCommittees(args as { query: string; limit?: number });
+      case "get_mk_votes":
+        return toolGetMkVotes(
+          args as {
+            mk_id?: string;
+            name_query?: string;
+            vote_id?: string;
+            bill_id?: string;
+            keyword?: string;
+            limit?: number;
+          },
+        );
+      case "get_bill_detail":
+        return toolGetBillDetail(args as { bill_id?: string; title_query?: string });
+      case "search_statements":
+        return toolSearchStatements(
+          args as {
+            keyword?: string;
+            mk_id?: string;
+            party_id?: string;
+            topic?: string;
+            limit?: number;
+          },
+        );
+      case "get_party_topic_scores":
+        return toolGetPartyTopicScores(
+          args as { party_id?: string; name_query?: string; topic?: string },
+        );
       default:
         return { error: `Unknown tool: ${name}` };
     }
@@ -536,6 +925,7 @@ function buildEntityCard(toolName: string, item: Record<string, unknown>): Entit
       };
     }
     case "search_bills":
+    case "get_bill_detail":
       return {
         type: "bill",
         id,
@@ -544,6 +934,7 @@ function buildEntityCard(toolName: string, item: Record<string, unknown>): Entit
         meta: (item["topic"] as string | undefined) ?? undefined,
       };
     case "get_party_info":
+    case "get_party_topic_scores":
       return {
         type: "party",
         id,
@@ -559,6 +950,22 @@ function buildEntityCard(toolName: string, item: Record<string, unknown>): Entit
         url: platformUrl,
         meta: (item["ministry_name"] as string | undefined) ?? undefined,
       };
+    case "search_committees":
+      return {
+        type: "committee",
+        id,
+        label: (item["name_he"] as string) ?? id,
+        url: platformUrl,
+        meta: Array.isArray(item["members"]) ? `${item["members"].length} חברים` : undefined,
+      };
+    case "get_mk_votes":
+      return {
+        type: "vote",
+        id,
+        label: ((item["title_he"] as string) ?? id).slice(0, 60),
+        url: platformUrl,
+        meta: (item["position_he"] as string | undefined) ?? undefined,
+      };
     default:
       return null;
   }
@@ -587,6 +994,131 @@ function extractEntityCards(toolName: string, result: unknown): EntityCard[] {
   });
 }
 
+// ─── Conversation carry-over ─────────────────────────────────────────────
+
+/**
+ * Tool arguments that take an entity id, and the entity types that fit them.
+ * A follow-up like "ובאילו ועדות הוא חבר?" makes the model call the tool
+ * without an id, or with a name from the earlier answer; both resolve to the
+ * entity already shown.
+ */
+const ENTITY_ARGS: Record<
+  string,
+  { idArg: string; nameArg?: string; types: EntityCard["type"][] }
+> = {
+  get_mk_detail: { idArg: "mk_id", nameArg: "name_query", types: ["mk", "minister"] },
+  get_mk_votes: { idArg: "mk_id", nameArg: "name_query", types: ["mk", "minister"] },
+  get_bill_detail: { idArg: "bill_id", nameArg: "title_query", types: ["bill"] },
+  get_party_topic_scores: { idArg: "party_id", nameArg: "name_query", types: ["party"] },
+};
+
+export function carryOverEntityArgs(call: LLMToolCall, entities: EntityCard[]): LLMToolCall {
+  const spec = ENTITY_ARGS[call.name];
+  if (!spec || call.args[spec.idArg]) return call;
+
+  const candidates = entities.filter((e) => spec.types.includes(e.type));
+  const name = spec.nameArg ? call.args[spec.nameArg] : undefined;
+  const match =
+    typeof name === "string" && name.trim()
+      ? candidates.find((e) => e.label.includes(name.trim()) || name.includes(e.label))
+      : candidates[0];
+  if (!match) return call;
+
+  const args = { ...call.args, [spec.idArg]: match.id };
+  if (spec.nameArg) delete args[spec.nameArg];
+  return { ...call, args };
+}
+
+function conversationContext(entities: EntityCard[]): string {
+  if (entities.length === 0) return "";
+  const lines = entities.map((e) => `- ${e.type}: ${e.label} (id: ${e.id})`);
+  return (
+    "\n\nישויות שכבר הוצגו בשיחה — כששאלת ההמשך מתייחסת אליהן, העבר את ה-id שלהן לכלים:\n" +
+    lines.join("\n")
+  );
+}
+
+// ─── Tool loop ────────────────────────────────────────────────────────────
+
+interface ToolLoopState {
+  toolCallsMade: string[];
+  citations: Citation[];
+  entityCards: EntityCard[];
+  /** Entities from earlier turns of the conversation */
+  carried: EntityCard[];
+  /** Every tool result of this turn — the evidence the answer is verified against */
+  results: unknown[];
+}
+
+/** Runs one tool call and folds its sources and entities into the answer state */
+async function runTool(requested: LLMToolCall, state: ToolLoopState): Promise<LLMToolResult> {
+  const call = carryOverEntityArgs(requested, state.carried);
+  if (!state.toolCallsMade.includes(call.name)) state.toolCallsMade.push(call.name);
+
+  const { result, source_urls } = await dispatchTool(call);
+  state.results.push(result);
+  for (const url of source_urls) {
+    state.citations.push({ label: `מקור: ${call.name}`, url });
+  }
+  state.entityCards.push(...extractEntityCards(call.name, result));
+
+  return { call, result };
+}
+
+function dedupeByUrl<T extends { url: string }>(items: T[]): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    if (seen.has(item.url)) return false;
+    seen.add(item.url);
+    return true;
+  });
+}
+
+function answerMeta(
+  question: string,
+  answerMd: string,
+  conversationId: string,
+  model: string,
+  state: ToolLoopState,
+) {
+  return {
+    question,
+    conversation_id: conversationId,
+    citations: dedupeByUrl(state.citations).slice(0, 10),
+    claims: verifyAnswer(answerMd, state.results, state.carried),
+    entity_cards: dedupeByUrl(state.entityCards).slice(0, 6),
+    tool_calls_made: state.toolCallsMade,
+    model,
+    disclaimer: DISCLAIMER_HE,
+  };
+}
+
+async function startAssistantChat(conversationId: string | undefined) {
+  const id = conversationId ?? newConversationId();
+  const history = conversationId ? await loadConversation(conversationId) : [];
+  const carried = carriedEntities(history);
+
+  const provider = getLLMProvider();
+  const chat = provider.startChat({
+    systemInstruction: SYSTEM_INSTRUCTION + conversationContext(carried),
+    tools: TOOLS,
+    history: history.flatMap((t) => [
+      { role: "user" as const, text: t.question },
+      { role: "assistant" as const, text: t.answer },
+    ]),
+  });
+  const state: ToolLoopState = {
+    toolCallsMade: [],
+    citations: [],
+    entityCards: [],
+    carried,
+    results: [],
+  };
+
+  const remember = (turn: ConversationTurn) => appendConversationTurn(id, history, turn);
+  return { chat, model: provider.model, id, state, remember };
+}
+
 // ─── SSE event types ─────────────────────────────────────────────────────
 
 export type AiStreamEvent =
@@ -601,189 +1133,90 @@ export type AiStreamEvent =
 /**
  * askAIStream — same agentic loop as askAI, but yields SSE events:
  *   tool_start / tool_done during the tool-call phase,
- *   text_chunk for each streamed text token,
- *   done with citations + entity_cards + tool_calls_made when finished,
+ *   text_chunk for each streamed text token of the final answer,
+ *   done with citations + claims + entity_cards + tool_calls_made when finished,
  *   error on failure.
  *
+ * Text is streamed as the model produces it. A turn that opens with tool
+ * calls is not the answer, so its text is dropped; backends that put the
+ * tool calls after some text (OpenAI-style streams) may show that text.
+ *
  * The caller (SSE route) writes each event as `data: <json>\n\n`.
  */
-export async function* askAIStream(question: string): AsyncGenerator<AiStreamEvent> {
-  const genAI = getGenAI();
-  const toolCallsMade: string[] = [];
-  const allCitations: Citation[] = [];
-  const allEntityCards: EntityCard[] = [];
-
+export async function* askAIStream(
+  question: string,
+  conversationId?: string,
+): AsyncGenerator<AiStreamEvent> {
   try {
-    // ── Phase 1: tool-call loop (non-streaming, same as askAI) ──
-    const chat = genAI.chats.create({
-      model: MODEL_NAME,
-      config: { systemInstruction: SYSTEM_INSTRUCTION, tools: TOOLS },
-    });
-
-    let response = await chat.sendMessage({ message: question });
-
-    while (response.functionCalls && response.functionCalls.length > 0) {
-      const toolResults = [];
-
-      for (const call of response.functionCalls) {
-        const toolName = call.name ?? "unknown";
-        if (!toolCallsMade.includes(toolName)) toolCallsMade.push(toolName);
-
-        yield { type: "tool_start", tool: toolName };
-        const { result, source_urls } = await dispatchTool(call);
-        yield { type: "tool_done", tool: toolName };
-
-        for (const url of source_urls) {
-          allCitations.push({ label: `מקור: ${toolName}`, url });
+    const { chat, model, id, state, remember } = await startAssistantChat(conversationId);
+    let input: LLMInput = question;
+    let answer = "";
+
+    for (let round = 0; ; round++) {
+      const calls: LLMToolCall[] = [];
+      let answerStarted = false;
+
+      for await (const delta of chat.stream(input)) {
+        if (delta.type === "tool_call") {
+          calls.push(delta.call);
+          continue;
         }
-        allEntityCards.push(...extractEntityCards(toolName, result));
-        toolResults.push({ functionResponse: { name: toolName, response: { result } } });
+        if (calls.length > 0 || !delta.text) continue;
+        if (!answerStarted) {
+          answerStarted = true;
+          if (state.toolCallsMade.length > 0) {
+            yield {
+              type: "text_chunk",
+              chunk: `[כלים שהופעלו: ${state.toolCallsMade.join(", ")}]\n\n`,
+            };
+          }
+        }
+        answer += delta.text;
+        yield { type: "text_chunk", chunk: delta.text };
       }
 
-      response = await chat.sendMessage({ message: toolResults });
-    }
+      if (calls.length === 0 || round >= MAX_TOOL_ROUNDS) break;
 
-    // ── Phase 2: stream the final text answer ──
-    // Re-ask with "please write your final answer" using accumulated tool context
-    const toolSummary =
-      toolCallsMade.length > 0 ? `[כלים שהופעלו: ${toolCallsMade.join(", ")}]\n\n` : "";
-    const finalText = response.text ?? "";
-
-    // Stream the already-formed answer token by token (word chunks)
-    // Gemini doesn't support mid-chat streaming in function-calling mode,
-    // so we stream the complete text in word-sized chunks for UX effect.
-    const words = (toolSummary + finalText).split(/(\s+)/);
-    let buffer = "";
-    for (const word of words) {
-      buffer += word;
-      // Emit every ~4 words or on sentence boundary
-      if (buffer.length >= 20 || /[.!?:]/.test(word)) {
-        yield { type: "text_chunk", chunk: buffer };
-        buffer = "";
-        // Tiny async yield to keep the event loop responsive
-        await new Promise((r) => setTimeout(r, 0));
+      const results: LLMToolResult[] = [];
+      for (const call of calls) {
+        yield { type: "tool_start", tool: call.name };
+        results.push(await runTool(call, state));
+        yield { type: "tool_done", tool: call.name };
       }
+      input = results;
     }
-    if (buffer) yield { type: "text_chunk", chunk: buffer };
-
-    // Deduplicate
-    const seenUrls = new Set<string>();
-    const uniqueCitations = allCitations.filter((c) => {
-      if (seenUrls.has(c.url)) return false;
-      seenUrls.add(c.url);
-      return true;
-    });
-    const seenCards = new Set<string>();
-    const uniqueCards = allEntityCards.filter((c) => {
-      if (seenCards.has(c.url)) return false;
-      seenCards.add(c.url);
-      return true;
-    });
 
-    yield {
-      type: "done",
-      meta: {
-        question,
-        citations: uniqueCitations.slice(0, 10),
-        entity_cards: uniqueCards.slice(0, 6),
-        tool_calls_made: toolCallsMade,
-        model: MODEL_NAME,
-        disclaimer: DISCLAIMER_HE,
-      },
-    };
+    const meta = answerMeta(question, answer, id, model, state);
+    await remember({ question, answer, entity_cards: meta.entity_cards });
+    yield { type: "done", meta };
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     // Log the raw error so we can diagnose in Railway logs
     console.error("[askAIStream] raw error:", msg.slice(0, 500));
-    yield { type: "error", message: classifyGeminiError(msg) };
+    yield { type: "error", message: classifyLLMError(msg) };
   }
 }
 
 // ─── Main exported function ───────────────────────────────────────────────
 
-export async function askAI(question: string): Promise<AiAnswer> {
-  const genAI = getGenAI();
-
-  const toolCallsMade: string[] = [];
-  const allCitations: Citation[] = [];
-  const allEntityCards: EntityCard[] = [];
-
-  // Start a conversation with function calling
-  const chat = genAI.chats.create({
-    model: MODEL_NAME,
-    config: {
-      systemInstruction: SYSTEM_INSTRUCTION,
-      tools: TOOLS,
-    },
-  });
-
-  // Send user question
-  let response = await chat.sendMessage({ message: question });
+export async function askAI(question: string, conversationId?: string): Promise<AiAnswer> {
+  const { chat, model, id, state, remember } = await startAssistantChat(conversationId);
 
   // Agentic loop: handle tool calls until model returns text
-  while (response.functionCalls && response.functionCalls.length > 0) {
-    const toolResults = [];
-
-    for (const call of response.functionCalls) {
-      const toolName = call.name ?? "unknown";
-      if (!toolCallsMade.includes(toolName)) {
-        toolCallsMade.push(toolName);
-      }
-
-      const { result, source_urls } = await dispatchTool(call);
-
-      // Build citations from tool results
-      for (const url of source_urls) {
-        allCitations.push({
-          label: `מקור: ${toolName}`,
-          url,
-          entity_type: undefined,
-          entity_id: undefined,
-        });
-      }
-
-      // Build entity cards
-      const cards = extractEntityCards(toolName, result);
-      allEntityCards.push(...cards);
-
-      toolResults.push({
-        functionResponse: {
-          name: toolName,
-          response: { result },
-        },
-      });
+  let turn = await chat.send(question);
+  for (let round = 0; turn.toolCalls.length > 0 && round < MAX_TOOL_ROUNDS; round++) {
+    const results: LLMToolResult[] = [];
+    for (const call of turn.toolCalls) {
+      results.push(await runTool(call, state));
     }
-
-    // Send tool results back to Gemini
-    response = await chat.sendMessage({ message: toolResults });
+    turn = await chat.send(results);
   }
 
-  // Extract final text answer
-  const answerText = response.text ?? "לא הצלחתי לעבד את השאלה. נסה שוב.";
-
-  // Deduplicate citations by URL
-  const seenUrls = new Set<string>();
-  const uniqueCitations = allCitations.filter((c) => {
-    if (seenUrls.has(c.url)) return false;
-    seenUrls.add(c.url);
-    return true;
-  });
-
-  // Deduplicate entity cards by url
-  const seenCards = new Set<string>();
-  const uniqueCards = allEntityCards.filter((c) => {
-    if (seenCards.has(c.url)) return false;
-    seenCards.add(c.url);
-    return true;
-  });
-
-  return {
-    question,
-    answer_md: answerText,
-    citations: uniqueCitations.slice(0, 10),
-    entity_cards: uniqueCards.slice(0, 6),
-    tool_calls_made: toolCallsMade,
-    model: MODEL_NAME,
-    disclaimer: DISCLAIMER_HE,
+  const answerMd = turn.text || "לא הצלחתי לעבד את השאלה. נסה שוב.";
+  const answer: AiAnswer = {
+    ...answerMeta(question, answerMd, id, model, state),
+    answer_md: answerMd,
   };
+  await remember({ question, answer: answer.answer_md, entity_cards: answer.entity_cards });
+  return answer;
 }
@@ -0,0 +1,192 @@
+/**
+ * AI answer verification — checks the claims in a generated answer against
+ * the tool results of the same turn.
+ *
+ * Numbers, dates and names (bold, quoted or linked phrases, and "הצעת חוק …"
+ * titles) are pulled out of each sentence of `answer_md`. A claim is verified
+ * when the same value appears somewhere in what the DB tools returned, or in
+ * an entity carried over from earlier in the conversation. Nothing is
+ * removed from the answer — unverified claims are flagged so the client can
+ * show their sentences with a warning.
+ */
+
+import type { AiClaim, EntityCard } from "@knesset-vote/shared";
+
+const MAX_CLAIMS = 50;
+
+const HEBREW_PREFIXES = "ובהלמשכ";
+
+// dd.mm.yyyy / dd/mm/yyyy, and ISO dates
+const DMY_DATE_RE = /(?<!\d)(\d{1,2})[./](\d{1,2})[./](\d{4})(?!\d)/g;
+const ISO_DATE_RE = /(?<!\d)(\d{4})-(\d{2})-(\d{2})(?!\d)/g;
+// Digits glued to Latin letters are ids or codes, not quantities
+const NUMBER_RE = /(?<![\d.,A-Za-z])(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?%?(?![\dA-Za-z])/g;
+
+const BOLD_RE = /\*\*([^*\n]{2,80}?)\*\*/g;
+const LINK_RE = /\[([^\]\n]{2,80})\]\([^)\n]*\)/g;
+// A quote opens after a space and closes before one — ח"כ and תשפ"ד are not quotes
+const QUOTED_RE =
+  /(?:^|[\s(])["“״]((?:[^"“”״\n]|(?<=\p{L})["״](?=\p{L})){2,80}?)["”״](?=[\s.,;:!?)]|$)/gu;
+const BILL_TITLE_RE = /הצעת חוק [^.,;:!?()\n"“”״*[\]]{2,80}/g;
+
+interface Evidence {
+  numbers: number[];
+  dates: Set<string>;
+  text: string;
+  words: Set<string>;
+}
+
+/** Lower-cased, niqqud and quote variants unified, whitespace collapsed */
+function normalizeText(text: string): string {
+  return text
+    .replace(/\u05BE/g, "-")
+    .replace(/[\u0591-\u05BD\u05BF\u05C1\u05C2\u05C4\u05C5\u05C7]/g, "")
+    .replace(/[״“”]/g, '"')
+    .replace(/[׳‘’]/g, "'")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+function wordsOf(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^\p{L}\p{N}"'-]+/u)
+    .map((w) => w.replace(/^["'-]+|["'-]+$/g, ""))
+    .filter((w) => w.length >= 2);
+}
+
+function parseNumber(raw: string): number {
+  return Number(raw.replace(/[,%]/g, ""));
+}
+
+function isoDate(year: string, month: string, day: string): string {
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+function collectEvidence(results: unknown[], carried: EntityCard[]): Evidence {
+  const numbers: number[] = [];
+  const dates = new Set<string>();
+  const strings: string[] = carried.flatMap((e) => [e.label, e.meta ?? ""]);
+
+  const visit = (value: unknown, key = ""): void => {
+    if (value === null || value === undefined) return;
+    // Ids and URLs are full of digits that support nothing
+    if (/(^id|_id|url)$/.test(key)) return;
+    if (typeof value === "number") {
+      numbers.push(value);
+    } else if (typeof value === "string") {
+      strings.push(value);
+      for (const m of value.matchAll(ISO_DATE_RE)) dates.add(isoDate(m[1]!, m[2]!, m[3]!));
+      for (const m of value.matchAll(NUMBER_RE)) numbers.push(parseNumber(m[0]));
+    } else if (value instanceof Date) {
+      dates.add(value.toISOString().slice(0, 10));
+    } else if (Array.isArray(value)) {
+      // "Found 3 bills" is supported by a list of three
+      numbers.push(value.length);
+      for (const item of value) visit(item);
+    } else if (typeof value === "object") {
+      for (const [k, v] of Object.entries(value)) visit(v, k);
+    }
+  };
+  for (const result of results) visit(result);
+
+  const text = strings.map(normalizeText).join("\n");
+  return { numbers, dates, text, words: new Set(wordsOf(text)) };
+}
+
+function numberSupported(raw: string, evidence: Evidence): boolean {
+  const value = parseNumber(raw);
+  if (raw.endsWith("%")) {
+    // Shares may come back as 0–1 fractions or as percentages, usually unrounded
+    return evidence.numbers.some(
+      (n) => Math.abs(n - value) < 0.5 || Math.abs(n * 100 - value) < 0.5,
+    );
+  }
+  return evidence.numbers.some((n) => Math.abs(n - value) < 1e-9);
+}
+
+function wordSupported(word: string, evidence: Evidence): boolean {
+  if (evidence.words.has(word)) return true;
+  // Hebrew attaches ו/ה/ב/ל/מ/ש/כ to the word ("ולליכוד", "בכנסת")
+  return HEBREW_PREFIXES.includes(word[0]!) && evidence.words.has(word.slice(1));
+}
+
+function nameSupported(name: string, evidence: Evidence): boolean {
+  const normalized = normalizeText(name);
+  if (evidence.text.includes(normalized)) return true;
+  const words = wordsOf(normalized);
+  return words.length > 0 && words.every((w) => wordSupported(w, evidence));
+}
+
+/** Sentences of a markdown answer, as they appear in it, without list or heading markers */
+function splitSentences(answerMd: string): string[] {
+  return answerMd
+    .split("\n")
+    .map((line) => line.replace(/^\s*(?:#{1,6}\s+|[-*•]\s+|\d+[.)]\s+|>\s*)/, "").trim())
+    .flatMap((line) => line.split(/(?<=[.!?])\s+(?=\S)/))
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function claimsInSentence(sentence: string): Omit<AiClaim, "verified">[] {
+  const claims: Omit<AiClaim, "verified">[] = [];
+  const seen = new Set<string>();
+  const add = (kind: AiClaim["kind"], text: string) => {
+    const key = `${kind}:${text}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    claims.push({ text, kind, sentence });
+  };
+
+  let rest = sentence.replace(LINK_RE, "$1");
+  for (const re of [DMY_DATE_RE, ISO_DATE_RE]) {
+    rest = rest.replace(re, (match) => {
+      add("date", match);
+      return " ";
+    });
+  }
+
+  for (const re of [BOLD_RE, LINK_RE, QUOTED_RE]) {
+    for (const m of sentence.matchAll(re)) {
+      const name = m[1]!.trim();
+      // Bold headings ("**הצבעות אחרונות:**") and bold numbers are not names
+      if (name.endsWith(":") || m[0].trim() === sentence || !/\p{L}/u.test(name)) continue;
+      add("name", name);
+    }
+  }
+  for (const m of sentence.matchAll(BILL_TITLE_RE)) add("name", m[0].trim());
+
+  for (const m of rest.matchAll(NUMBER_RE)) add("number", m[0]);
+  return claims;
+}
+
+function claimSupported(claim: Omit<AiClaim, "verified">, evidence: Evidence): boolean {
+  switch (claim.kind) {
+    case "date": {
+      const dmy = [...claim.text.matchAll(DMY_DATE_RE)][0];
+      const iso = dmy ? isoDate(dmy[3]!, dmy[2]!, dmy[1]!) : claim.text;
+      return evidence.dates.has(iso);
+    }
+    case "number":
+      return numberSupported(claim.text, evidence);
+    case "name":
+      return nameSupported(claim.text, evidence);
+  }
+}
+
+/**
+ * Every number, date and name claimed in `answerMd`, each marked verified
+ * when the turn's tool results (or the conversation's carried entities)
+ * contain it.
+ */
+export function verifyAnswer(
+  answerMd: string,
+  toolResults: unknown[],
+  carried: EntityCard[] = [],
+): AiClaim[] {
+  const evidence = collectEvidence(toolResults, carried);
+  return splitSentences(answerMd)
+    .flatMap(claimsInSentence)
+    .slice(0, MAX_CLAIMS)
+    .map((claim) => ({ ...claim, verified: claimSupported(claim, evidence) }));
+}
@@ -0,0 +1,100 @@
+/**
+ * Audit service — the append-only log of editorial changes.
+ *
+ * Entries are written in the same transaction as the change they describe.
+ * The table rejects UPDATE / DELETE at the database level (see the
+ * add_editorial_workflow migration).
+ */
+
+import { db, type Prisma } from "@knesset-vote/db";
+import type { AuditAction, AuditEntityType, AuditLogEntry } from "@knesset-vote/shared";
+import type { EditorIdentity } from "../plugins/editor-auth.js";
+
+type AuditChanges = Record<string, { from?: unknown; to?: unknown }>;
+
+function toJson(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Fields of `after` that differ from `before`. With no `before` every field
+ * is reported as new (create); with no `after` every field as removed (delete).
+ */
+export function diffChanges(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const key of keys) {
+    if (key === "updated_at") continue;
+    const from = toJson(before?.[key]);
+    const to = toJson(after?.[key]);
+    if (before && after && JSON.stringify(from) === JSON.stringify(to)) continue;
+    changes[key] = {
+      ...(before && key in before ? { from } : {}),
+      ...(after && key in after ? { to } : {}),
+    };
+  }
+  return changes;
+}
+
+export function recordAudit(
+  tx: Prisma.TransactionClient,
+  actor: EditorIdentity,
+  entry: {
+    action: AuditAction;
+    entity_type: AuditEntityType;
+    entity_id: string;
+    changes?: AuditChanges;
+  },
+) {
+  return tx.auditLog.create({
+    data: {
+      editor_id: actor.id,
+      actor: actor.name,
+      action: entry.action,
+      entity_type: entry.entity_type,
+      entity_id: entry.entity_id,
+      changes: (entry.changes ?? undefined) as Prisma.InputJsonValue | undefined,
+    },
+  });
+}
+
+export async function listAuditLog(opts: {
+  entity_type?: AuditEntityType;
+  entity_id?: string;
+  editor_id?: string;
+  page: number;
+  limit: number;
+}): Promise<{ data: AuditLogEntry[]; total: number }> {
+  const { page, limit, ...filters } = opts;
+  const where: NonNullable<Parameters<typeof db.auditLog.findMany>[0]>["where"] = {};
+  if (filters.entity_type) where.entity_type = filters.entity_type;
+  if (filters.entity_id) where.entity_id = filters.entity_id;
+  if (filters.editor_id) where.editor_id = filters.editor_id;
+
+  const [rows, total] = await Promise.all([
+    db.auditLog.findMany({
+      where,
+      orderBy: { created_at: "desc" },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    db.auditLog.count({ where }),
+  ]);
+
+  return {
+    data: rows.map((r) => ({
+      id: r.id,
+      editor_id: r.editor_id,
+      actor: r.actor,
+      action: r.action as AuditAction,
+      entity_type: r.entity_type as AuditEntityType,
+      entity_id: r.entity_id,
+      changes: (r.changes as AuditLogEntry["changes"]) ?? null,
+      created_at: r.created_at.toISOString(),
+    })),
+    total,
+  };
+}
@@ -1,5 +1,5 @@
 import { db } from "@knesset-vote/db";
-import type { Bill, BillDetail } from "@knesset-vote/shared";
+import type { Bill, BillDetail, BillVote } from "@knesset-vote/shared";
 
 async function getSourceLinks(entityType: string, entityId: string) {
   return db.sourceLink.findMany({
@@ -16,15 +16,40 @@ function mapSourceLinks(links: Awaited<ReturnType<typeof getSourceLinks>>) {
   }));
 }
 
+/**
+ * Bills with a sponsor who sat in the party when the bill was submitted, so a
+ * switcher's bills from another faction stay out. Bills without a submission
+ * date fall back to membership in the bill's Knesset.
+ */
+async function billIdsSponsoredByParty(partyId: string): Promise<string[]> {
+  const rows = await db.$queryRaw<{ bill_id: string }[]>`
+    SELECT DISTINCT mbr.bill_id
+    FROM "MKBillRole" mbr
+    JOIN "Bill" b ON b.id = mbr.bill_id
+    JOIN "PartyMembership" pm ON pm.mk_id = mbr.mk_id
+    JOIN "Party" p ON p.id = pm.party_id
+    WHERE (p.id = ${partyId} OR p.external_id = ${partyId})
+      AND CASE
+        WHEN b.submitted_date IS NULL THEN pm.knesset_number = b.knesset_number
+        ELSE (pm.start_date IS NULL OR pm.start_date <= b.submitted_date)
+          AND (pm.end_date IS NULL OR pm.end_date >= b.submitted_date)
+      END
+  `;
+  return rows.map((r) => r.bill_id);
+}
+
 export async function listBills(opts: {
   search?: string;
   topic?: string;
   status?: string;
+  bill_type?: string;
   mk_id?: string;
+  party_id?: string;
+  knesset?: number;
   page: number;
   limit: number;
 }): Promise<{ data: Bill[]; total: number }> {
-  const { search, topic, status, mk_id, page, limit } = opts;
+  const { search, topic, status, bill_type, mk_id, party_id, knesset, page, limit } = opts;
   const skip = (page - 1) * limit;
 
   const where: NonNullable<Parameters<typeof db.bill.findMany>[0]>["where"] = {};
@@ -39,6 +64,8 @@ export async function listBills(opts: {
 
   if (topic) where.topic = topic;
   if (status) where.status = status;
+  if (bill_type) where.bill_type = bill_type;
+  if (knesset) where.knesset_number = knesset;
 
   if (mk_id) {
     where.sponsors = {
@@ -46,6 +73,8 @@ export async function listBills(opts: {
         mk: { OR: [{ id: mk_id }, { external_id: mk_id }] },
       },
     };
+  } else if (party_id) {
+    where.id = { in: await billIdsSponsoredByParty(party_id) };
   }
 
   const [bills, total] = await Promise.all([
@@ -75,6 +104,7 @@ export async function listBills(opts: {
       description_he: b.description_he,
       description_en: b.description_en,
       status: b.status as Bill["status"],
+      bill_type: b.bill_type as Bill["bill_type"],
       topic: b.topic as Bill["topic"],
       knesset_number: b.knesset_number,
       submitted_date: b.submitted_date?.toISOString() ?? null,
@@ -100,6 +130,20 @@ export async function getBillById(id: string): Promise<BillDetail | null> {
         orderBy: { stage_date: "asc" },
       },
       ai_summary: true,
+      votes: {
+        orderBy: { vote_date: "asc" },
+        select: {
+          id: true,
+          title_he: true,
+          vote_date: true,
+          bill_reading: true,
+          result: true,
+          yes_count: true,
+          no_count: true,
+          abstain_count: true,
+          bill_link_confidence: true,
+        },
+      },
     },
   });
 
@@ -120,6 +164,7 @@ export async function getBillById(id: string): Promise<BillDetail | null> {
     description_he: bill.description_he,
     description_en: bill.description_en,
     status: bill.status as BillDetail["status"],
+    bill_type: bill.bill_type as BillDetail["bill_type"],
     topic: bill.topic as BillDetail["topic"],
     knesset_number: bill.knesset_number,
     submitted_date: bill.submitted_date?.toISOString() ?? null,
@@ -143,6 +188,17 @@ export async function getBillById(id: string): Promise<BillDetail | null> {
       notes: st.notes ?? null,
       sources: mapSourceLinks(stageSources[i] ?? []),
     })),
+    votes: bill.votes.map((v) => ({
+      id: v.id,
+      title_he: v.title_he,
+      vote_date: v.vote_date?.toISOString() ?? null,
+      reading: v.bill_reading as BillVote["reading"],
+      result: v.result as BillVote["result"],
+      yes_count: v.yes_count,
+      no_count: v.no_count,
+      abstain_count: v.abstain_count,
+      link_confidence: v.bill_link_confidence as BillVote["link_confidence"],
+    })),
     ai_summary: bill.ai_summary
       ? {
           text: bill.ai_summary.summary_text,
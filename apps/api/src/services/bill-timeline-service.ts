@@ -0,0 +1,179 @@
+/**
+ * Bill timelines and legislative pipeline statistics, read from the
+ * BillStageSpan / BillTimeline tables written by
+ * `pnpm etl:aggregate-bill-timelines`.
+ */
+
+import { db } from "@knesset-vote/db";
+import {
+  BILL_STATUS_LABELS_HE,
+  BillStatusSchema,
+  type BillStatus,
+  type BillTimeline,
+  type BillType,
+  type LegislativePipelineStats,
+} from "@knesset-vote/shared";
+
+export async function getBillTimeline(id: string): Promise<BillTimeline | null> {
+  const bill = await db.bill.findFirst({
+    where: { OR: [{ id }, { external_id: id }] },
+    select: { id: true, bill_type: true },
+  });
+  if (!bill) return null;
+
+  const [timeline, spans] = await Promise.all([
+    db.billTimeline.findUnique({ where: { bill_id: bill.id } }),
+    db.billStageSpan.findMany({ where: { bill_id: bill.id }, orderBy: { position: "asc" } }),
+  ]);
+
+  const committeeIds = [...new Set(spans.flatMap((s) => (s.committee_id ? [s.committee_id] : [])))];
+  const committees = committeeIds.length
+    ? await db.committee.findMany({
+        where: { id: { in: committeeIds } },
+        select: { id: true, name_he: true },
+      })
+    : [];
+  const committeeById = new Map(committees.map((c) => [c.id, c]));
+
+  return {
+    bill_id: bill.id,
+    bill_type: bill.bill_type as BillType | null,
+    submitted_at: timeline?.submitted_at?.toISOString() ?? null,
+    first_reading_at: timeline?.first_reading_at?.toISOString() ?? null,
+    passed_at: timeline?.passed_at?.toISOString() ?? null,
+    days_to_first_reading: timeline?.days_to_first_reading ?? null,
+    days_to_passed: timeline?.days_to_passed ?? null,
+    stages: spans.map((s) => ({
+      status: s.status as BillStatus,
+      status_label: BILL_STATUS_LABELS_HE[s.status as BillStatus] ?? s.status,
+      started_at: s.started_at.toISOString(),
+      ended_at: s.ended_at?.toISOString() ?? null,
+      days: s.days,
+      source: s.source as BillTimeline["stages"][number]["source"],
+      committee: s.committee_id ? (committeeById.get(s.committee_id) ?? null) : null,
+    })),
+    computed_at: timeline?.computed_at.toISOString() ?? null,
+  };
+}
+
+interface PipelineRow {
+  by_type: number; // GROUPING() flags: 0 when the row is grouped by that column
+  by_committee: number;
+  bill_type: string | null;
+  committee_id: string | null;
+  bills: number;
+  reached_first_reading: number;
+  passed: number;
+  median_days_to_first_reading: number | null;
+  median_days_to_passed: number | null;
+}
+
+interface StageRow {
+  status: string;
+  spans: number;
+  median_days: number | null;
+}
+
+// percentile_cont returns a double; one decimal is enough for days
+function round(value: number | null): number | null {
+  return value === null ? null : Math.round(Number(value) * 10) / 10;
+}
+
+function medians(row: PipelineRow) {
+  return {
+    bills: Number(row.bills),
+    median_days_to_first_reading: round(row.median_days_to_first_reading),
+    median_days_to_passed: round(row.median_days_to_passed),
+    reached_first_reading: Number(row.reached_first_reading),
+    passed: Number(row.passed),
+  };
+}
+
+/**
+ * Median days from submission to first reading and to passage — overall, by
+ * bill type and by handling committee — and median days per stage. Bills that
+ * have not reached a milestone are left out of its median; time in stage only
+ * counts stages the bill has left.
+ */
+export async function getLegislativePipelineStats(opts: {
+  knesset?: number;
+}): Promise<LegislativePipelineStats> {
+  const knesset = opts.knesset ?? null;
+
+  const [groups, stages, latest] = await Promise.all([
+    db.$queryRaw<PipelineRow[]>`
+      SELECT
+        GROUPING(b.bill_type)::int    AS by_type,
+        GROUPING(t.committee_id)::int AS by_committee,
+        b.bill_type,
+        t.committee_id,
+        COUNT(*)::int                 AS bills,
+        COUNT(t.first_reading_at)::int AS reached_first_reading,
+        COUNT(t.passed_at)::int       AS passed,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY t.days_to_first_reading)
+          AS median_days_to_first_reading,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY t.days_to_passed)
+          AS median_days_to_passed
+      FROM "BillTimeline" t
+      JOIN "Bill" b ON b.id = t.bill_id
+      WHERE ${knesset}::int IS NULL OR b.knesset_number = ${knesset}
+      GROUP BY GROUPING SETS ((), (b.bill_type), (t.committee_id))
+    `,
+    db.$queryRaw<StageRow[]>`
+      SELECT
+        s.status,
+        COUNT(*)::int AS spans,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY s.days) AS median_days
+      FROM "BillStageSpan" s
+      JOIN "Bill" b ON b.id = s.bill_id
+      WHERE s.ended_at IS NOT NULL
+        AND (${knesset}::int IS NULL OR b.knesset_number = ${knesset})
+      GROUP BY s.status
+    `,
+    db.billTimeline.findFirst({ select: { computed_at: true } }),
+  ]);
+
+  const overall = groups.find((g) => g.by_type === 1 && g.by_committee === 1);
+  const byType = groups.filter((g) => g.by_type === 0);
+  const byCommittee = groups.filter((g) => g.by_committee === 0 && g.committee_id);
+
+  const committees = await db.committee.findMany({
+    where: { id: { in: byCommittee.map((g) => g.committee_id!) } },
+    select: { id: true, name_he: true },
+  });
+  const committeeNames = new Map(committees.map((c) => [c.id, c.name_he]));
+
+  return {
+    overall: overall
+      ? medians(overall)
+      : {
+          bills: 0,
+          median_days_to_first_reading: null,
+          median_days_to_passed: null,
+          reached_first_reading: 0,
+          passed: 0,
+        },
+    by_bill_type: byType
+      .map((g) => ({ bill_type: g.bill_type as BillType | null, ...medians(g) }))
+      .sort((a, b) => b.bills - a.bills),
+    by_committee: byCommittee
+      .map((g) => ({
+        committee_id: g.committee_id!,
+        committee_name_he: committeeNames.get(g.committee_id!) ?? "",
+        ...medians(g),
+      }))
+      .sort((a, b) => b.bills - a.bills),
+    time_in_stage: stages
+      .map((s) => ({
+        status: s.status as BillStatus,
+        spans: Number(s.spans),
+        median_days: round(s.median_days),
+      }))
+      // Pipeline order: submitted → committee → readings
+      .sort(
+        (a, b) =>
+          BillStatusSchema.options.indexOf(a.status) - BillStatusSchema.options.indexOf(b.status),
+      ),
+    computed_at: latest?.computed_at.toISOString() ?? null,
+  };
+}
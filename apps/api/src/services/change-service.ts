@@ -0,0 +1,57 @@
+import { db } from "@knesset-vote/db";
+import type { ChangeEvent } from "@knesset-vote/shared";
+
+export async function listChanges(opts: {
+  since?: string;
+  entity_type?: string;
+  change_type?: string;
+  page: number;
+  limit: number;
+}): Promise<{ data: ChangeEvent[]; total: number }> {
+  const { since, entity_type, change_type, page, limit } = opts;
+  const skip = (page - 1) * limit;
+
+  const where: NonNullable<Parameters<typeof db.changeEvent.findMany>[0]>["where"] = {};
+
+  if (since) {
+    where.detected_at = { gte: new Date(since) };
+  }
+  if (entity_type) {
+    where.entity_type = entity_type;
+  }
+  if (change_type) {
+    where.change_type = change_type;
+  }
+
+  const [events, total] = await Promise.all([
+    db.changeEvent.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: [
+        { detected_at: "desc" },
+        { occurred_at: { sort: "desc", nulls: "last" } },
+        // Events from one run share detected_at; id keeps offset pages stable
+        { id: "asc" },
+      ],
+    }),
+    db.changeEvent.count({ where }),
+  ]);
+
+  return {
+    total,
+    data: events.map((e) => ({
+      id: e.id,
+      entity_type: e.entity_type as ChangeEvent["entity_type"],
+      entity_id: e.entity_id,
+      external_id: e.external_id,
+      change_type: e.change_type as ChangeEvent["change_type"],
+      field: e.field,
+      old_value: e.old_value,
+      new_value: e.new_value,
+      label_he: e.label_he,
+      occurred_at: e.occurred_at?.toISOString() ?? null,
+      detected_at: e.detected_at.toISOString(),
+    })),
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Coalition service — resolves a party's coalition / opposition status on a
+ * given date from CoalitionPeriod rows (curated, applied by the ETL).
+ *
+ * Status is null when no period covers the date: factions of Knessets that
+ * have not been curated yet, and the gap between an election and the swearing
+ * in of the next government.
+ */
+
+import { db } from "@knesset-vote/db";
+import type { CoalitionStatus } from "@knesset-vote/shared";
+
+/** Prisma filter for CoalitionPeriod rows in effect on `at` (end_date is exclusive) */
+export function periodActiveAt(at: Date) {
+  return {
+    start_date: { lte: at },
+    OR: [{ end_date: null }, { end_date: { gt: at } }],
+  };
+}
+
+/**
+ * Status from a party's periods. Callers usually pre-filter with
+ * periodActiveAt; the date check here covers rows loaded without it.
+ */
+export function coalitionStatusAt(
+  periods: { status: string; start_date: Date; end_date: Date | null }[] | undefined,
+  at: Date = new Date(),
+): CoalitionStatus | null {
+  const period = periods?.find((p) => p.start_date <= at && (!p.end_date || p.end_date > at));
+  if (period?.status === "coalition" || period?.status === "opposition") return period.status;
+  return null;
+}
+
+export interface FactionAt {
+  party_id: string;
+  party_name_he: string;
+  abbreviation: string | null;
+  coalition_status: CoalitionStatus | null;
+}
+
+/**
+ * Each MK's faction on `at` — used for historical votes. The membership is
+ * matched by date (open-ended dates count as covering) and, when known, by
+ * Knesset number. Without `mkIds` every MK seated in `knessetNumber` on that
+ * date is returned.
+ */
+export async function getMKFactionsAt(
+  mkIds: string[] | null,
+  at: Date,
+  knessetNumber: number | null,
+): Promise<Map<string, FactionAt>> {
+  if (mkIds?.length === 0 || (mkIds === null && knessetNumber === null)) return new Map();
+
+  const memberships = await db.partyMembership.findMany({
+    where: {
+      ...(mkIds ? { mk_id: { in: mkIds } } : {}),
+      ...(knessetNumber !== null ? { knesset_number: knessetNumber } : {}),
+      AND: [
+        { OR: [{ start_date: null }, { start_date: { lte: at } }] },
+        { OR: [{ end_date: null }, { end_date: { gte: at } }] },
+      ],
+    },
+    select: {
+      mk_id: true,
+      party: {
+        select: {
+          id: true,
+          name_he: true,
+          abbreviation: true,
+          coalition_periods: { where: periodActiveAt(at) },
+        },
+      },
+    },
+  });
+
+  // A switch on the vote date leaves two memberships; prefer the one with a known status
+  const result = new Map<string, FactionAt>();
+  for (const m of memberships) {
+    const status = coalitionStatusAt(m.party.coalition_periods, at);
+    if (status || !result.has(m.mk_id)) {
+      result.set(m.mk_id, {
+        party_id: m.party.id,
+        party_name_he: m.party.name_he,
+        abbreviation: m.party.abbreviation,
+        coalition_status: status,
+      });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,177 @@
+import { db } from "@knesset-vote/db";
+import type {
+  CohesionDefection,
+  MKCohesion,
+  PartyCohesion,
+  PartyCohesionPeriod,
+} from "@knesset-vote/shared";
+
+/**
+ * A defection is "notable" when the faction was largely united on the vote —
+ * Rice index ≥ 0.5 means at least 75% of its yes/no voters went one way.
+ * Breaking from a split faction says little about the MK.
+ */
+export const NOTABLE_DEFECTION_RICE = 0.5;
+
+const DEFECTIONS_LIMIT = 20;
+
+export function withPartyPct(votesWith: number, votesCounted: number): number | null {
+  if (votesCounted === 0) return null;
+  return Math.round((votesWith / votesCounted) * 1000) / 10;
+}
+
+type DefectionRow = Awaited<ReturnType<typeof db.voteDefection.findMany>>[number];
+
+async function mapDefections(rows: DefectionRow[]): Promise<CohesionDefection[]> {
+  if (rows.length === 0) return [];
+
+  const [votes, mks, parties] = await Promise.all([
+    db.vote.findMany({
+      where: { id: { in: [...new Set(rows.map((r) => r.vote_id))] } },
+      select: { id: true, title_he: true },
+    }),
+    db.mK.findMany({
+      where: { id: { in: [...new Set(rows.map((r) => r.mk_id))] } },
+      select: { id: true, name_he: true },
+    }),
+    db.party.findMany({
+      where: { id: { in: [...new Set(rows.map((r) => r.party_id))] } },
+      select: { id: true, name_he: true },
+    }),
+  ]);
+  const voteTitles = new Map(votes.map((v) => [v.id, v.title_he]));
+  const mkNames = new Map(mks.map((m) => [m.id, m.name_he]));
+  const partyNames = new Map(parties.map((p) => [p.id, p.name_he]));
+
+  return rows.map((r) => ({
+    vote_id: r.vote_id,
+    vote_title_he: voteTitles.get(r.vote_id) ?? "",
+    vote_date: r.vote_date?.toISOString() ?? null,
+    mk_id: r.mk_id,
+    mk_name_he: mkNames.get(r.mk_id) ?? "",
+    party_id: r.party_id,
+    party_name_he: partyNames.get(r.party_id) ?? null,
+    position: r.position as CohesionDefection["position"],
+    party_position: r.party_position as CohesionDefection["party_position"],
+    party_rice_index: r.party_rice_index,
+  }));
+}
+
+export async function getMKCohesion(id: string): Promise<MKCohesion | null> {
+  const mk = await db.mK.findFirst({
+    where: { OR: [{ id }, { external_id: id }] },
+    select: { id: true, name_he: true },
+  });
+  if (!mk) return null;
+
+  const [rows, defectionRows] = await Promise.all([
+    db.mKPartyCohesion.findMany({
+      where: { mk_id: mk.id },
+      orderBy: { votes_counted: "desc" },
+    }),
+    db.voteDefection.findMany({
+      where: { mk_id: mk.id, party_rice_index: { gte: NOTABLE_DEFECTION_RICE } },
+      orderBy: [{ vote_date: { sort: "desc", nulls: "last" } }],
+      take: DEFECTIONS_LIMIT,
+    }),
+  ]);
+
+  const parties = await db.party.findMany({
+    where: { id: { in: rows.map((r) => r.party_id) } },
+    select: { id: true, name_he: true },
+  });
+  const partyNames = new Map(parties.map((p) => [p.id, p.name_he]));
+
+  const votesCounted = rows.reduce((sum, r) => sum + r.votes_counted, 0);
+  const votesWith = rows.reduce((sum, r) => sum + r.votes_with, 0);
+  const computedAt = rows[0]?.computed_at ?? null;
+
+  return {
+    mk_id: mk.id,
+    mk_name_he: mk.name_he,
+    votes_counted: votesCounted,
+    votes_with: votesWith,
+    with_party_pct: withPartyPct(votesWith, votesCounted),
+    parties: rows.map((r) => ({
+      party_id: r.party_id,
+      party_name_he: partyNames.get(r.party_id) ?? null,
+      votes_counted: r.votes_counted,
+      votes_with: r.votes_with,
+      votes_against: r.votes_against,
+      with_party_pct: withPartyPct(r.votes_with, r.votes_counted),
+    })),
+    defections: await mapDefections(defectionRows),
+    computed_at: computedAt?.toISOString() ?? null,
+  };
+}
+
+export async function getPartyCohesion(id: string): Promise<PartyCohesion | null> {
+  const party = await db.party.findFirst({
+    where: { OR: [{ id }, { external_id: id }] },
+    select: { id: true, name_he: true },
+  });
+  if (!party) return null;
+
+  const [summary, timelineRows, memberRows, defectionRows] = await Promise.all([
+    db.partyVoteCohesion.aggregate({
+      where: { party_id: party.id, rice_index: { not: null } },
+      _count: { _all: true },
+      _avg: { rice_index: true },
+      _max: { computed_at: true },
+    }),
+    db.$queryRaw<{ period: string; votes: number; avg_rice_index: number }[]>`
+      SELECT
+        to_char(date_trunc('month', vote_date), 'YYYY-MM') AS period,
+        COUNT(*)::int                                       AS votes,
+        AVG(rice_index)::float                              AS avg_rice_index
+      FROM "PartyVoteCohesion"
+      WHERE party_id = ${party.id}
+        AND rice_index IS NOT NULL
+        AND vote_date IS NOT NULL
+      GROUP BY 1
+      ORDER BY 1
+    `,
+    db.mKPartyCohesion.findMany({
+      where: { party_id: party.id, votes_counted: { gt: 0 } },
+    }),
+    db.voteDefection.findMany({
+      where: { party_id: party.id, party_rice_index: { gte: NOTABLE_DEFECTION_RICE } },
+      orderBy: [{ vote_date: { sort: "desc", nulls: "last" } }],
+      take: DEFECTIONS_LIMIT,
+    }),
+  ]);
+
+  const mks = await db.mK.findMany({
+    where: { id: { in: memberRows.map((r) => r.mk_id) } },
+    select: { id: true, name_he: true },
+  });
+  const mkNames = new Map(mks.map((m) => [m.id, m.name_he]));
+
+  const timeline: PartyCohesionPeriod[] = timelineRows.map((r) => ({
+    period: r.period,
+    votes: Number(r.votes),
+    avg_rice_index: Number(r.avg_rice_index),
+  }));
+
+  const members = memberRows
+    .map((r) => ({
+      mk_id: r.mk_id,
+      mk_name_he: mkNames.get(r.mk_id) ?? "",
+      votes_counted: r.votes_counted,
+      votes_with: r.votes_with,
+      votes_against: r.votes_against,
+      with_party_pct: withPartyPct(r.votes_with, r.votes_counted),
+    }))
+    .sort((a, b) => (a.with_party_pct ?? 100) - (b.with_party_pct ?? 100));
+
+  return {
+    party_id: party.id,
+    party_name_he: party.name_he,
+    votes_counted: summary._count._all,
+    avg_rice_index: summary._avg.rice_index,
+    timeline,
+    members,
+    defections: await mapDefections(defectionRows),
+    computed_at: summary._max.computed_at?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,204 @@
+import { db } from "@knesset-vote/db";
+import type {
+  CommitteeBill,
+  CommitteeDetail,
+  CommitteeListItem,
+  CommitteeMember,
+} from "@knesset-vote/shared";
+
+// Max distinct bills returned on the committee detail page (latest status change first)
+const COMMITTEE_BILLS_LIMIT = 50;
+
+/**
+ * Committee roles come from KNS_PersonToPosition.RoleDesc — either normalised
+ * English ("chairman") or the raw Hebrew description ('יו"ר הוועדה').
+ * Deputy chairs are not counted as chairs.
+ */
+export function isChairRole(role: string | null): boolean {
+  if (!role) return false;
+  const normalized = role.trim().toLowerCase();
+  if (normalized === "chairman" || normalized === "chairwoman" || normalized === "chair") {
+    return true;
+  }
+  if (normalized.includes("סגן") || normalized.includes("סגנית")) return false;
+  return (
+    normalized.includes('יו"ר') ||
+    normalized.includes("יושב ראש") ||
+    normalized.includes("יושבת ראש")
+  );
+}
+
+async function getSourceLinks(entityType: string, entityId: string) {
+  return db.sourceLink.findMany({
+    where: { entity_type: entityType, entity_id: entityId },
+  });
+}
+
+function mapSourceLinks(links: Awaited<ReturnType<typeof getSourceLinks>>) {
+  return links.map((sl) => ({
+    label: sl.label,
+    url: sl.url,
+    external_source: sl.external_source,
+    external_id: sl.external_id ?? undefined,
+  }));
+}
+
+export async function listCommittees(opts: {
+  search?: string;
+  knesset_number?: number;
+  is_active?: boolean;
+  page: number;
+  limit: number;
+}): Promise<{ data: CommitteeListItem[]; total: number }> {
+  const { search, knesset_number, is_active, page, limit } = opts;
+  const skip = (page - 1) * limit;
+
+  const where: NonNullable<Parameters<typeof db.committee.findMany>[0]>["where"] = {};
+
+  if (search) {
+    where.OR = [
+      { name_he: { contains: search } },
+      { name_en: { contains: search, mode: "insensitive" } },
+    ];
+  }
+
+  if (knesset_number !== undefined) {
+    where.knesset_number = knesset_number;
+  }
+
+  if (is_active !== undefined) {
+    where.is_active = is_active;
+  }
+
+  const [committees, total] = await Promise.all([
+    db.committee.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: [{ is_active: "desc" }, { knesset_number: "desc" }, { name_he: "asc" }],
+      include: {
+        _count: { select: { memberships: { where: { is_current: true } } } },
+      },
+    }),
+    db.committee.count({ where }),
+  ]);
+
+  const committeesWithSources = await Promise.all(
+    committees.map(async (c) => ({
+      ...c,
+      sources: mapSourceLinks(await getSourceLinks("committee", c.id)),
+    })),
+  );
+
+  return {
+    data: committeesWithSources.map((c) => ({
+      id: c.id,
+      external_id: c.external_id,
+      external_source: c.external_source,
+      name_he: c.name_he,
+      name_en: c.name_en,
+      knesset_number: c.knesset_number,
+      is_active: c.is_active,
+      source_url: c.source_url,
+      current_member_count: c._count.memberships,
+      sources: c.sources,
+    })),
+    total,
+  };
+}
+
+export async function getCommitteeById(id: string): Promise<CommitteeDetail | null> {
+  const committee = await db.committee.findFirst({
+    where: {
+      OR: [{ id }, { external_id: id }],
+    },
+    include: {
+      memberships: {
+        orderBy: [{ is_current: "desc" }, { start_date: "desc" }],
+        include: {
+          mk: {
+            select: {
+              id: true,
+              name_he: true,
+              memberships: {
+                orderBy: [{ is_current: "desc" }, { start_date: "desc" }],
+                take: 1,
+                select: { party: { select: { name_he: true } } },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!committee) return null;
+
+  const inCommittee = { stage_history: { some: { committee_id: committee.id } } };
+  const [sourceLinks, committeeBills, billCount] = await Promise.all([
+    getSourceLinks("committee", committee.id),
+    db.bill.findMany({
+      where: inCommittee,
+      orderBy: [{ last_status_date: { sort: "desc", nulls: "last" } }, { id: "asc" }],
+      take: COMMITTEE_BILLS_LIMIT,
+      select: {
+        id: true,
+        title_he: true,
+        status: true,
+        source_url: true,
+        stage_history: {
+          where: { committee_id: committee.id },
+          orderBy: { stage_date: { sort: "desc", nulls: "last" } },
+          take: 1,
+          select: { stage_name_he: true, stage_date: true },
+        },
+      },
+    }),
+    db.bill.count({ where: inCommittee }),
+  ]);
+
+  const members: CommitteeMember[] = committee.memberships.map((m) => ({
+    mk_id: m.mk.id,
+    mk_name_he: m.mk.name_he,
+    party_name_he: m.mk.memberships[0]?.party.name_he ?? null,
+    role: m.role,
+    is_chair: isChairRole(m.role),
+    start_date: m.start_date?.toISOString() ?? null,
+    end_date: m.end_date?.toISOString() ?? null,
+    is_current: m.is_current,
+  }));
+
+  // Each bill has at least one stage here — the filter requires one in this committee
+  const bills: CommitteeBill[] = committeeBills.flatMap((bill) => {
+    const stage = bill.stage_history[0];
+    if (!stage) return [];
+    return [
+      {
+        id: bill.id,
+        title_he: bill.title_he,
+        status: bill.status,
+        last_stage_name_he: stage.stage_name_he,
+        last_stage_date: stage.stage_date?.toISOString() ?? null,
+        source_url: bill.source_url,
+      },
+    ];
+  });
+
+  return {
+    id: committee.id,
+    external_id: committee.external_id,
+    external_source: committee.external_source,
+    name_he: committee.name_he,
+    name_en: committee.name_en,
+    knesset_number: committee.knesset_number,
+    is_active: committee.is_active,
+    source_url: committee.source_url,
+    last_seen_at: committee.last_seen_at?.toISOString() ?? null,
+    chairs: members.filter((m) => m.is_chair),
+    current_members: members.filter((m) => m.is_current),
+    past_members: members.filter((m) => !m.is_current),
+    bills,
+    bill_count: billCount,
+    sources: mapSourceLinks(sourceLinks),
+  };
+}
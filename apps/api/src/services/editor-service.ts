@@ -0,0 +1,115 @@
+/**
+ * Editor service — per-editor API keys for the editorial API.
+ *
+ * Keys are generated here and stored only as a hash; the plain key is
+ * returned once, from createEditor. A lost key is replaced with rotateKey.
+ */
+
+import crypto from "crypto";
+import { db } from "@knesset-vote/db";
+import type { Editor, EditorRole } from "@knesset-vote/shared";
+import { diffChanges, recordAudit } from "./audit-service.js";
+import { hashApiKey, type EditorIdentity } from "../plugins/editor-auth.js";
+
+type EditorRow = NonNullable<Awaited<ReturnType<typeof db.editor.findFirst>>>;
+
+const KEY_PREFIX_LENGTH = 8;
+
+function toEditor(e: EditorRow): Editor {
+  return {
+    id: e.id,
+    name: e.name,
+    email: e.email,
+    role: e.role as EditorRole,
+    key_prefix: e.key_prefix,
+    is_active: e.is_active,
+    last_used_at: e.last_used_at?.toISOString() ?? null,
+    created_at: e.created_at.toISOString(),
+  };
+}
+
+function generateKey() {
+  const key = `kv_${crypto.randomBytes(24).toString("hex")}`;
+  return { key, key_hash: hashApiKey(key), key_prefix: key.slice(0, KEY_PREFIX_LENGTH) };
+}
+
+// Audited editor fields — never the key hash
+function auditFields(e: EditorRow) {
+  return { name: e.name, email: e.email, role: e.role, is_active: e.is_active };
+}
+
+export async function listEditors(): Promise<Editor[]> {
+  const editors = await db.editor.findMany({ orderBy: { created_at: "asc" } });
+  return editors.map(toEditor);
+}
+
+export async function createEditor(
+  input: { name: string; email?: string; role: EditorRole },
+  actor: EditorIdentity,
+): Promise<{ data: Editor; api_key: string } | { error: "email_taken" }> {
+  if (input.email && (await db.editor.findFirst({ where: { email: input.email } }))) {
+    return { error: "email_taken" };
+  }
+
+  const { key, ...stored } = generateKey();
+  const editor = await db.$transaction(async (tx) => {
+    const row = await tx.editor.create({
+      data: { name: input.name, email: input.email ?? null, role: input.role, ...stored },
+    });
+    await recordAudit(tx, actor, {
+      action: "create",
+      entity_type: "editor",
+      entity_id: row.id,
+      changes: diffChanges(null, auditFields(row)),
+    });
+    return row;
+  });
+  return { data: toEditor(editor), api_key: key };
+}
+
+/** Change role / name or deactivate. Editors are never deleted — the audit log refers to them. */
+export async function updateEditor(
+  id: string,
+  patch: { name?: string; role?: EditorRole; is_active?: boolean },
+  actor: EditorIdentity,
+): Promise<{ data: Editor } | { error: "not_found" }> {
+  const before = await db.editor.findFirst({ where: { id } });
+  if (!before) return { error: "not_found" };
+
+  const editor = await db.$transaction(async (tx) => {
+    const row = await tx.editor.update({ where: { id }, data: patch });
+    const changes = diffChanges(auditFields(before), auditFields(row));
+    if (Object.keys(changes).length > 0) {
+      await recordAudit(tx, actor, {
+        action: "update",
+        entity_type: "editor",
+        entity_id: id,
+        changes,
+      });
+    }
+    return row;
+  });
+  return { data: toEditor(editor) };
+}
+
+/** Issue a new key; the old one stops working immediately */
+export async function rotateKey(
+  id: string,
+  actor: EditorIdentity,
+): Promise<{ data: Editor; api_key: string } | { error: "not_found" }> {
+  const before = await db.editor.findFirst({ where: { id } });
+  if (!before) return { error: "not_found" };
+
+  const { key, ...stored } = generateKey();
+  const editor = await db.$transaction(async (tx) => {
+    const row = await tx.editor.update({ where: { id }, data: stored });
+    await recordAudit(tx, actor, {
+      action: "update",
+      entity_type: "editor",
+      entity_id: id,
+      changes: { key_prefix: { from: before.key_prefix, to: row.key_prefix } },
+    });
+    return row;
+  });
+  return { data: toEditor(editor), api_key: key };
+}
@@ -0,0 +1,62 @@
+/**
+ * Export service — streaming CSV / JSON Lines exports of whole tables.
+ *
+ * Rows are read in id-ordered cursor batches and serialized as they arrive, so
+ * memory stays flat even for vote_records. CSV starts with a UTF-8 BOM so Excel
+ * detects the encoding and renders Hebrew correctly.
+ */
+
+import { Readable } from "stream";
+import { db } from "@knesset-vote/db";
+import { EXPORT_COLUMNS, EXPORT_MODELS, UTF8_BOM, csvLine } from "@knesset-vote/shared";
+import type { ExportEntity, ExportFormat } from "@knesset-vote/shared";
+
+const EXPORT_BATCH_SIZE = 2000;
+
+type Row = Record<string, unknown>;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  jsonl: "application/x-ndjson; charset=utf-8",
+};
+
+async function* exportRows(entity: ExportEntity): AsyncGenerator<Row[]> {
+  const select = Object.fromEntries(EXPORT_COLUMNS[entity].map((c) => [c, true]));
+  // Every exported model has a string id and the selected scalar columns
+  const delegate = db[EXPORT_MODELS[entity]] as unknown as {
+    findMany(args: object): Promise<Row[]>;
+  };
+
+  let cursor: string | undefined;
+  for (;;) {
+    const batch = await delegate.findMany({
+      select,
+      orderBy: { id: "asc" },
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+    if (batch.length === 0) return;
+    yield batch;
+    cursor = batch[batch.length - 1]!["id"] as string;
+    if (batch.length < EXPORT_BATCH_SIZE) return;
+  }
+}
+
+async function* serialize(entity: ExportEntity, format: ExportFormat): AsyncGenerator<string> {
+  const columns = EXPORT_COLUMNS[entity];
+  if (format === "csv") yield UTF8_BOM + csvLine([...columns]);
+
+  for await (const batch of exportRows(entity)) {
+    yield batch
+      .map((row) =>
+        format === "csv"
+          ? csvLine(columns.map((c) => row[c]))
+          : JSON.stringify(Object.fromEntries(columns.map((c) => [c, row[c] ?? null]))) + "\n",
+      )
+      .join("");
+  }
+}
+
+export function streamExport(entity: ExportEntity, format: ExportFormat): Readable {
+  return Readable.from(serialize(entity, format));
+}
@@ -0,0 +1,275 @@
+/**
+ * Feed service — Atom 1.0 and JSON Feed 1.1 renderings of bills, votes and
+ * per-MK / per-party activity.
+ *
+ * Item ids are URNs built from internal entity ids, so they stay stable when a
+ * bill changes status or a title is corrected. Each item links to its page on
+ * the web app and, when known, to the source record on knesset.gov.il.
+ * Content is wrapped in a dir="rtl" container so Hebrew renders correctly in
+ * readers that ignore xml:lang.
+ */
+
+import { db } from "@knesset-vote/db";
+import { BILL_STATUS_LABELS_HE } from "@knesset-vote/shared";
+import type { Bill, Vote } from "@knesset-vote/shared";
+import { listBills } from "./bill-service.js";
+import { listVotes } from "./vote-service.js";
+
+export const FEED_ITEM_LIMIT = 50;
+
+const POSITION_LABELS_HE: Record<string, string> = {
+  yes: "בעד",
+  no: "נגד",
+  abstain: "נמנע/ת",
+  present: "נוכח/ת ולא הצביע/ה",
+  absent: "לא נכח/ה",
+  did_not_vote: "לא ידוע",
+};
+
+const RESULT_LABELS_HE: Record<string, string> = {
+  passed: "התקבלה",
+  rejected: "נדחתה",
+  unknown: "תוצאה לא ידועה",
+};
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  url: string;
+  external_url: string | null;
+  content_text: string;
+  // ISO strings: feeds pass through the JSON cache
+  date_published: string | null;
+  date_modified: string | null;
+  tags: string[];
+}
+
+export interface Feed {
+  id: string;
+  title: string;
+  description: string;
+  home_page_url: string;
+  items: FeedItem[];
+  updated: string;
+}
+
+function webUrl(path: string): string {
+  return `${process.env["WEB_URL"] ?? "http://localhost:3000"}${path}`;
+}
+
+export function feedGuid(entityType: string, id: string): string {
+  return `urn:knesset-vote:${entityType}:${id}`;
+}
+
+function latestDate(items: FeedItem[]): string {
+  const dates = items
+    .map((i) => i.date_modified ?? i.date_published)
+    .filter((d): d is string => d !== null)
+    .sort();
+  return dates[dates.length - 1] ?? new Date(0).toISOString();
+}
+
+function billItem(bill: Bill): FeedItem {
+  const status = BILL_STATUS_LABELS_HE[bill.status] ?? bill.status;
+  const lines = [`סטטוס: ${status}`];
+  if (bill.knesset_number !== null) lines.push(`כנסת ${bill.knesset_number}`);
+  if (bill.description_he) lines.push(bill.description_he);
+  return {
+    id: feedGuid("bill", bill.id),
+    title: bill.title_he,
+    url: webUrl(`/bills/${bill.id}`),
+    external_url: bill.source_url,
+    content_text: lines.join("\n"),
+    date_published: bill.submitted_date,
+    date_modified: bill.last_status_date ?? bill.submitted_date,
+    tags: ["bill", bill.status, ...(bill.topic ? [bill.topic] : [])],
+  };
+}
+
+function voteItem(vote: Vote, position?: string): FeedItem {
+  const lines: string[] = [];
+  if (position) lines.push(`הצבעה: ${POSITION_LABELS_HE[position] ?? position}`);
+  if (vote.result) lines.push(`תוצאה: ${RESULT_LABELS_HE[vote.result] ?? vote.result}`);
+  if (vote.yes_count !== null || vote.no_count !== null) {
+    lines.push(
+      `בעד ${vote.yes_count ?? "—"} · נגד ${vote.no_count ?? "—"} · נמנעים ${vote.abstain_count ?? "—"}`,
+    );
+  }
+  return {
+    id: feedGuid("vote", vote.id),
+    title: vote.title_he,
+    url: webUrl(`/votes/${vote.id}`),
+    external_url: vote.source_url,
+    content_text: lines.join("\n"),
+    date_published: vote.vote_date,
+    date_modified: vote.vote_date,
+    tags: ["vote", ...(vote.result ? [vote.result] : [])],
+  };
+}
+
+function byDateDesc(a: FeedItem, b: FeedItem): number {
+  return (b.date_modified ?? "").localeCompare(a.date_modified ?? "");
+}
+
+// ─── Feed builders ───
+
+export async function getBillsFeed(): Promise<Feed> {
+  const { data } = await listBills({ page: 1, limit: FEED_ITEM_LIMIT });
+  const items = data.map(billItem);
+  return {
+    id: feedGuid("feed", "bills"),
+    title: "הצעות חוק — עדכונים אחרונים",
+    description: "הצעות חוק שהוגשו או שהסטטוס שלהן עודכן לאחרונה, מנתוני Knesset OData",
+    home_page_url: webUrl("/bills"),
+    items,
+    updated: latestDate(items),
+  };
+}
+
+export async function getVotesFeed(): Promise<Feed> {
+  const { data } = await listVotes({ page: 1, limit: FEED_ITEM_LIMIT });
+  const items = data.map((v) => voteItem(v));
+  return {
+    id: feedGuid("feed", "votes"),
+    title: "הצבעות מליאה אחרונות",
+    description: "הצבעות במליאת הכנסת, מנתוני Knesset OData",
+    home_page_url: webUrl("/votes"),
+    items,
+    updated: latestDate(items),
+  };
+}
+
+export async function getMKFeed(id: string): Promise<Feed | null> {
+  const mk = await db.mK.findFirst({
+    where: { OR: [{ id }, { external_id: id }] },
+    select: { id: true, name_he: true },
+  });
+  if (!mk) return null;
+
+  const [bills, votes] = await Promise.all([
+    listBills({ mk_id: mk.id, page: 1, limit: FEED_ITEM_LIMIT }),
+    listVotes({ mk_id: mk.id, page: 1, limit: FEED_ITEM_LIMIT }),
+  ]);
+  const records = await db.voteRecord.findMany({
+    where: { mk_id: mk.id, vote_id: { in: votes.data.map((v) => v.id) } },
+    select: { vote_id: true, position: true },
+  });
+  const positions = new Map(records.map((r) => [r.vote_id, r.position]));
+
+  const items = [
+    ...bills.data.map(billItem),
+    ...votes.data.map((v) => voteItem(v, positions.get(v.id))),
+  ]
+    .sort(byDateDesc)
+    .slice(0, FEED_ITEM_LIMIT);
+
+  return {
+    id: feedGuid("feed", `mk:${mk.id}`),
+    title: `${mk.name_he} — פעילות פרלמנטרית`,
+    description: `הצעות חוק בחתימת ${mk.name_he} והצבעות מליאה בהשתתפותו/ה`,
+    home_page_url: webUrl(`/mks/${mk.id}`),
+    items,
+    updated: latestDate(items),
+  };
+}
+
+export async function getPartyFeed(id: string): Promise<Feed | null> {
+  const party = await db.party.findFirst({
+    where: { OR: [{ id }, { external_id: id }] },
+    select: { id: true, name_he: true },
+  });
+  if (!party) return null;
+
+  const { data } = await listBills({ party_id: party.id, page: 1, limit: FEED_ITEM_LIMIT });
+  const items = data.map(billItem);
+  return {
+    id: feedGuid("feed", `party:${party.id}`),
+    title: `${party.name_he} — הצעות חוק`,
+    description: `הצעות חוק בחתימת חברי כנסת שכיהנו בסיעת ${party.name_he} בעת הגשתן`,
+    home_page_url: webUrl(`/parties/${party.id}`),
+    items,
+    updated: latestDate(items),
+  };
+}
+
+// ─── Renderers ───
+
+export function escapeXml(value: string): string {
+  return (
+    value
+      // Characters not allowed in XML 1.0 (control chars other than tab / newline / CR)
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;")
+  );
+}
+
+function paragraphs(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => `<p>${escapeXml(line)}</p>`)
+    .join("");
+}
+
+export function renderAtom(feed: Feed, selfUrl: string): string {
+  const entries = feed.items.map((item) => {
+    const updated = item.date_modified ?? item.date_published ?? feed.updated;
+    return [
+      "  <entry>",
+      `    <id>${escapeXml(item.id)}</id>`,
+      `    <title type="text">${escapeXml(item.title)}</title>`,
+      `    <updated>${updated}</updated>`,
+      ...(item.date_published ? [`    <published>${item.date_published}</published>`] : []),
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+      ...(item.external_url
+        ? [`    <link rel="via" type="text/html" href="${escapeXml(item.external_url)}"/>`]
+        : []),
+      ...item.tags.map((t) => `    <category term="${escapeXml(t)}"/>`),
+      `    <content type="xhtml"><div xmlns="http://www.w3.org/1999/xhtml" dir="rtl" lang="he">${paragraphs(item.content_text)}</div></content>`,
+      "  </entry>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="he">',
+    `  <id>${escapeXml(feed.id)}</id>`,
+    `  <title type="text">${escapeXml(feed.title)}</title>`,
+    `  <subtitle type="text">${escapeXml(feed.description)}</subtitle>`,
+    `  <updated>${feed.updated}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(selfUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.home_page_url)}"/>`,
+    "  <author><name>Knesset Vote</name></author>",
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+export function renderJsonFeed(feed: Feed, selfUrl: string): Record<string, unknown> {
+  return {
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.home_page_url,
+    feed_url: selfUrl,
+    language: "he",
+    authors: [{ name: "Knesset Vote" }],
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      ...(item.external_url ? { external_url: item.external_url } : {}),
+      title: item.title,
+      content_text: item.content_text,
+      content_html: `<div dir="rtl" lang="he">${paragraphs(item.content_text)}</div>`,
+      ...(item.date_published ? { date_published: item.date_published } : {}),
+      ...(item.date_modified ? { date_modified: item.date_modified } : {}),
+      tags: item.tags,
+      language: "he",
+    })),
+  };
+}
@@ -100,18 +100,22 @@ function mapRole(r: {
   };
 }
 
-/** List all current ministers, sorted: PM first, then alphabetically by ministry */
-export async function listMinisters(): Promise<{
+/**
+ * List ministers, sorted: PM first, then alphabetically by ministry. Without a
+ * Knesset term these are the current ministers; with one, every role held
+ * during that term, with the faction the MK sat in at the time.
+ */
+export async function listMinisters(knesset?: number): Promise<{
   data: GovernmentMinister[];
   total: number;
 }> {
   const roles = await db.governmentRole.findMany({
-    where: { is_current: true },
+    where: knesset ? { knesset_num: knesset } : { is_current: true },
     include: {
       mk: {
         include: {
           memberships: {
-            where: { is_current: true },
+            where: knesset ? { knesset_number: knesset } : { is_current: true },
             include: {
               party: { select: { id: true, name_he: true, name_en: true, external_id: true } },
             },
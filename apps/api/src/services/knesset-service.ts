@@ -0,0 +1,135 @@
+/**
+ * Knesset term service — lists terms with their dates, seat distribution and
+ * governments, derived from synced data (the OData sync has no term table).
+ *
+ * A term runs from its earliest membership start to the next term's start
+ * (knessetTermRanges, shared with the vote sync); the highest term in the data
+ * is treated as the current one, as is the highest government number (both
+ * have a null end date).
+ */
+
+import { db } from "@knesset-vote/db";
+import { knessetTermAt, knessetTermRanges } from "@knesset-vote/shared";
+import type { KnessetGovernment, KnessetSeat, KnessetTerm } from "@knesset-vote/shared";
+
+function countsByKnesset(rows: { knesset_number: number | null; _count: { _all: number } }[]) {
+  return new Map(rows.map((r) => [r.knesset_number, r._count._all]));
+}
+
+function termRanges(rows: { knesset_number: number | null; _min: { start_date: Date | null } }[]) {
+  return knessetTermRanges(
+    rows.flatMap((r) =>
+      r.knesset_number !== null && r._min.start_date
+        ? [{ knesset_number: r.knesset_number, start_date: r._min.start_date }]
+        : [],
+    ),
+  );
+}
+
+/** The term in session on `at`, by the same ranges the vote sync assigns; null before the first */
+export async function knessetNumberAt(at: Date): Promise<number | null> {
+  const starts = await db.partyMembership.groupBy({
+    by: ["knesset_number"],
+    where: { knesset_number: { not: null }, start_date: { not: null } },
+    _min: { start_date: true },
+  });
+  return knessetTermAt(termRanges(starts), at);
+}
+
+export async function listKnessets(): Promise<{ data: KnessetTerm[]; total: number }> {
+  const [parties, memberships, mkTerms, roles, bills, votes] = await Promise.all([
+    db.party.findMany({
+      where: { knesset_number: { not: null } },
+      select: { id: true, name_he: true, name_en: true, knesset_number: true, seat_count: true },
+      orderBy: [{ seat_count: { sort: "desc", nulls: "last" } }, { name_he: "asc" }],
+    }),
+    db.partyMembership.groupBy({
+      by: ["knesset_number"],
+      where: { knesset_number: { not: null } },
+      _min: { start_date: true },
+    }),
+    db.partyMembership.groupBy({
+      by: ["knesset_number", "mk_id"],
+      where: { knesset_number: { not: null } },
+    }),
+    db.governmentRole.groupBy({
+      by: ["knesset_num", "government_num"],
+      where: { knesset_num: { not: null }, government_num: { not: null } },
+      _min: { start_date: true },
+      _max: { end_date: true },
+      _count: { _all: true },
+    }),
+    db.bill.groupBy({
+      by: ["knesset_number"],
+      where: { knesset_number: { not: null } },
+      _count: { _all: true },
+    }),
+    db.vote.groupBy({
+      by: ["knesset_number"],
+      where: { knesset_number: { not: null } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const numbers = new Set<number>();
+  for (const row of [...parties, ...memberships]) {
+    if (row.knesset_number !== null) numbers.add(row.knesset_number);
+  }
+  const currentNumber = Math.max(...numbers);
+  const currentGovernment = Math.max(...roles.map((r) => r.government_num ?? 0));
+
+  const mkCounts = new Map<number | null, number>();
+  for (const row of mkTerms) {
+    mkCounts.set(row.knesset_number, (mkCounts.get(row.knesset_number) ?? 0) + 1);
+  }
+  const ranges = termRanges(memberships);
+  const billCounts = countsByKnesset(bills);
+  const voteCounts = countsByKnesset(votes);
+
+  const data = [...numbers]
+    .sort((a, b) => b - a)
+    .map((knessetNumber): KnessetTerm => {
+      const dates = ranges.find((r) => r.knesset_number === knessetNumber);
+      const isCurrent = knessetNumber === currentNumber;
+
+      const seats: KnessetSeat[] = parties
+        .filter((p) => p.knesset_number === knessetNumber)
+        .map((p) => ({
+          party_id: p.id,
+          name_he: p.name_he,
+          name_en: p.name_en,
+          seat_count: p.seat_count,
+        }));
+
+      const governments: KnessetGovernment[] = roles
+        .flatMap((r) =>
+          r.knesset_num === knessetNumber && r.government_num !== null
+            ? [{ ...r, government_num: r.government_num }]
+            : [],
+        )
+        .sort((a, b) => a.government_num - b.government_num)
+        .map((r) => ({
+          government_num: r.government_num,
+          start_date: r._min.start_date?.toISOString() ?? null,
+          end_date:
+            r.government_num === currentGovernment
+              ? null
+              : (r._max.end_date?.toISOString() ?? null),
+          role_count: r._count._all,
+        }));
+
+      return {
+        knesset_number: knessetNumber,
+        start_date: dates?.from.toISOString() ?? null,
+        end_date: isCurrent ? null : (dates?.to?.toISOString() ?? null),
+        is_current: isCurrent,
+        mk_count: mkCounts.get(knessetNumber) ?? 0,
+        bill_count: billCounts.get(knessetNumber) ?? 0,
+        vote_count: voteCounts.get(knessetNumber) ?? 0,
+        seats,
+        governments,
+      };
+    });
+
+  return { data, total: data.length };
+}
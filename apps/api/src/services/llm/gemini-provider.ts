@@ -0,0 +1,126 @@
+/**
+ * Gemini adapter — Google GenAI SDK chats with function calling.
+ *
+ * GEMINI_API_KEY is read on first use, so the API boots without it and only
+ * the AI routes fail when it is missing.
+ */
+
+import {
+  GoogleGenAI,
+  Type,
+  type Chat,
+  type FunctionDeclaration,
+  type GenerateContentResponse,
+  type Part,
+  type Schema,
+} from "@google/genai";
+import type {
+  LLMChat,
+  LLMChatOptions,
+  LLMInput,
+  LLMJsonSchema,
+  LLMProvider,
+  LLMStreamDelta,
+  LLMToolCall,
+  LLMTurn,
+} from "./types.js";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+const TYPE_MAP: Record<LLMJsonSchema["type"], Type> = {
+  object: Type.OBJECT,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+};
+
+function toGeminiSchema(schema: LLMJsonSchema): Schema {
+  return {
+    type: TYPE_MAP[schema.type],
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.enum ? { enum: schema.enum } : {}),
+    ...(schema.required ? { required: schema.required } : {}),
+    ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+    ...(schema.properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)]),
+          ),
+        }
+      : {}),
+  };
+}
+
+function toGeminiMessage(input: LLMInput): string | Part[] {
+  if (typeof input === "string") return input;
+  return input.map(({ call, result }) => ({
+    functionResponse: {
+      ...(call.id ? { id: call.id } : {}),
+      name: call.name,
+      response: { result },
+    },
+  }));
+}
+
+function toolCallsOf(response: GenerateContentResponse): LLMToolCall[] {
+  return (response.functionCalls ?? []).map((c) => ({
+    ...(c.id ? { id: c.id } : {}),
+    name: c.name ?? "unknown",
+    args: (c.args ?? {}) as Record<string, unknown>,
+  }));
+}
+
+class GeminiChat implements LLMChat {
+  constructor(private readonly chat: Chat) {}
+
+  async send(input: LLMInput): Promise<LLMTurn> {
+    const response = await this.chat.sendMessage({ message: toGeminiMessage(input) });
+    return { text: response.text ?? "", toolCalls: toolCallsOf(response) };
+  }
+
+  async *stream(input: LLMInput): AsyncGenerator<LLMStreamDelta> {
+    const chunks = await this.chat.sendMessageStream({ message: toGeminiMessage(input) });
+    for await (const chunk of chunks) {
+      for (const call of toolCallsOf(chunk)) yield { type: "tool_call", call };
+      if (chunk.text) yield { type: "text", text: chunk.text };
+    }
+  }
+}
+
+export function createGeminiProvider(opts: { apiKey?: string; model?: string }): LLMProvider {
+  const model = opts.model ?? DEFAULT_GEMINI_MODEL;
+  let client: GoogleGenAI | null = null;
+
+  return {
+    name: "gemini",
+    model,
+    startChat({ systemInstruction, tools, history = [] }: LLMChatOptions): LLMChat {
+      if (!client) {
+        if (!opts.apiKey) {
+          throw new Error(
+            "GEMINI_API_KEY environment variable is not set. " +
+              "Add it to Railway (API service) environment variables.",
+          );
+        }
+        client = new GoogleGenAI({ apiKey: opts.apiKey });
+      }
+      const functionDeclarations: FunctionDeclaration[] = tools.map((t) => ({
+        name: t.name,
+        description: t.description,
+        parameters: toGeminiSchema(t.parameters),
+      }));
+      return new GeminiChat(
+        client.chats.create({
+          model,
+          config: { systemInstruction, tools: [{ functionDeclarations }] },
+          history: history.map((m) => ({
+            role: m.role === "assistant" ? "model" : "user",
+            parts: [{ text: m.text }],
+          })),
+        }),
+      );
+    },
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Language model selection for the AI assistant.
+ *
+ *   AI_PROVIDER=gemini    (default) GEMINI_API_KEY
+ *   AI_PROVIDER=openai    OPENAI_BASE_URL (default api.openai.com), OPENAI_API_KEY
+ *   AI_PROVIDER=scripted  offline echo, no key — for local runs without a model
+ *
+ * AI_MODEL overrides the backend's default model.
+ */
+
+import { createGeminiProvider } from "./gemini-provider.js";
+import { createOpenAIProvider } from "./openai-provider.js";
+import { createScriptedProvider } from "./scripted-provider.js";
+import type { LLMProvider } from "./types.js";
+
+export type * from "./types.js";
+export { createScriptedProvider, type ScriptedTurn } from "./scripted-provider.js";
+
+let _provider: LLMProvider | null = null;
+
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const name = env["AI_PROVIDER"] ?? "gemini";
+  const model = env["AI_MODEL"] || undefined;
+
+  switch (name) {
+    case "gemini":
+      return createGeminiProvider({ apiKey: env["GEMINI_API_KEY"], model });
+    case "openai":
+      return createOpenAIProvider({
+        baseUrl: env["OPENAI_BASE_URL"] || undefined,
+        apiKey: env["OPENAI_API_KEY"] || undefined,
+        model,
+      });
+    case "scripted":
+      return createScriptedProvider(undefined, model);
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${name}" (expected gemini, openai or scripted)`);
+  }
+}
+
+export function getLLMProvider(): LLMProvider {
+  return (_provider ??= createLLMProvider());
+}
+
+/** Replace the configured provider (tests); null goes back to the environment's */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  _provider = provider;
+}
@@ -0,0 +1,208 @@
+/**
+ * OpenAI-compatible adapter — POST {baseUrl}/chat/completions with tools.
+ *
+ * Works against OpenAI itself and local servers that speak the same API
+ * (llama.cpp `llama-server`, Ollama's /v1, vLLM). The conversation history is
+ * kept here, since the endpoint is stateless. Local servers usually need no
+ * key; when one is set it is sent as a Bearer token and never logged.
+ */
+
+import type {
+  LLMChat,
+  LLMChatOptions,
+  LLMInput,
+  LLMProvider,
+  LLMStreamDelta,
+  LLMToolCall,
+  LLMTurn,
+} from "./types.js";
+
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+export const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+
+// Local models on CPU can take a while for the final answer
+const REQUEST_TIMEOUT_MS = 120_000;
+
+interface WireToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+type WireMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: WireToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface CompletionResponse {
+  choices?: { message?: { content?: string | null; tool_calls?: WireToolCall[] } }[];
+}
+
+interface CompletionChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: {
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }[];
+    };
+  }[];
+}
+
+// Small local models sometimes emit malformed argument JSON — run the tool with none
+function parseArgs(raw: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(raw || "{}");
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function fromWireCall(call: WireToolCall): LLMToolCall {
+  return { id: call.id, name: call.function.name, args: parseArgs(call.function.arguments) };
+}
+
+/** `data:` payloads of a server-sent event stream, up to `[DONE]` */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const bytes of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(bytes, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.startsWith("data:")) continue;
+      const data = line.slice(5).trim();
+      if (data === "[DONE]") return;
+      if (data) yield data;
+    }
+  }
+}
+
+class OpenAIChat implements LLMChat {
+  private readonly messages: WireMessage[];
+
+  constructor(
+    private readonly opts: { baseUrl: string; apiKey?: string; model: string },
+    private readonly chatOpts: LLMChatOptions,
+  ) {
+    this.messages = [
+      { role: "system", content: chatOpts.systemInstruction },
+      ...(chatOpts.history ?? []).map((m) => ({ role: m.role, content: m.text })),
+    ];
+  }
+
+  private append(input: LLMInput): void {
+    if (typeof input === "string") {
+      this.messages.push({ role: "user", content: input });
+      return;
+    }
+    for (const { call, result } of input) {
+      this.messages.push({
+        role: "tool",
+        tool_call_id: call.id ?? call.name,
+        content: JSON.stringify(result),
+      });
+    }
+  }
+
+  private async post(stream: boolean): Promise<Response> {
+    const res = await fetch(`${this.opts.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.opts.apiKey ? { Authorization: `Bearer ${this.opts.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.opts.model,
+        messages: this.messages,
+        tools: this.chatOpts.tools.map((t) => ({
+          type: "function",
+          function: { name: t.name, description: t.description, parameters: t.parameters },
+        })),
+        stream,
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      const detail = await res.text().catch(() => "");
+      throw new Error(`OpenAI-compatible endpoint returned ${res.status}: ${detail.slice(0, 200)}`);
+    }
+    return res;
+  }
+
+  async send(input: LLMInput): Promise<LLMTurn> {
+    this.append(input);
+    const res = await this.post(false);
+    const message = ((await res.json()) as CompletionResponse).choices?.[0]?.message;
+    const toolCalls = message?.tool_calls ?? [];
+    this.messages.push({
+      role: "assistant",
+      content: message?.content ?? null,
+      ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+    });
+    return { text: message?.content ?? "", toolCalls: toolCalls.map(fromWireCall) };
+  }
+
+  async *stream(input: LLMInput): AsyncGenerator<LLMStreamDelta> {
+    this.append(input);
+    const res = await this.post(true);
+    if (!res.body) throw new Error("OpenAI-compatible endpoint returned an empty stream");
+
+    let text = "";
+    // Tool call fragments arrive keyed by index; the id and name come first
+    const partial: WireToolCall[] = [];
+    for await (const data of readSseData(res.body)) {
+      const delta = (JSON.parse(data) as CompletionChunk).choices?.[0]?.delta;
+      if (delta?.content) {
+        text += delta.content;
+        yield { type: "text", text: delta.content };
+      }
+      for (const piece of delta?.tool_calls ?? []) {
+        const call = (partial[piece.index] ??= {
+          id: piece.id ?? `call_${piece.index}`,
+          type: "function",
+          function: { name: "", arguments: "" },
+        });
+        if (piece.id) call.id = piece.id;
+        call.function.name += piece.function?.name ?? "";
+        call.function.arguments += piece.function?.arguments ?? "";
+      }
+    }
+
+    const toolCalls = partial.filter(Boolean);
+    this.messages.push({
+      role: "assistant",
+      content: text || null,
+      ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+    });
+    for (const call of toolCalls) yield { type: "tool_call", call: fromWireCall(call) };
+  }
+}
+
+export function createOpenAIProvider(opts: {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+}): LLMProvider {
+  const baseUrl = opts.baseUrl ?? DEFAULT_OPENAI_BASE_URL;
+  const model = opts.model ?? DEFAULT_OPENAI_MODEL;
+
+  return {
+    name: "openai",
+    model,
+    startChat(chatOpts: LLMChatOptions): LLMChat {
+      // A key is only mandatory for the hosted API; local servers accept anything
+      if (!opts.apiKey && baseUrl === DEFAULT_OPENAI_BASE_URL) {
+        throw new Error(
+          "OPENAI_API_KEY environment variable is not set. " +
+            "Set it, or point OPENAI_BASE_URL at a local OpenAI-compatible server.",
+        );
+      }
+      return new OpenAIChat({ baseUrl, apiKey: opts.apiKey, model }, chatOpts);
+    },
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Scripted adapter — deterministic, offline stand-in for a model.
+ *
+ * Plays back a fixed list of turns (or asks a responder function for each
+ * one), so tests and local runs exercise the real tool loop, DB tools and
+ * citation building without a network or API key. Every input the "model"
+ * receives is recorded on `received`, and each chat's options on `chats`.
+ */
+
+import type {
+  LLMChat,
+  LLMChatOptions,
+  LLMInput,
+  LLMProvider,
+  LLMStreamDelta,
+  LLMToolCall,
+  LLMTurn,
+} from "./types.js";
+
+export interface ScriptedTurn {
+  text?: string;
+  toolCalls?: LLMToolCall[];
+}
+
+/** Picks the next turn from the latest input and the turn number in this chat */
+export type ScriptedResponder = (input: LLMInput, turn: number) => ScriptedTurn;
+
+export interface ScriptedProvider extends LLMProvider {
+  received: LLMInput[];
+  chats: LLMChatOptions[];
+}
+
+/** Default when AI_PROVIDER=scripted: no tools, the question echoed back */
+export const echoResponder: ScriptedResponder = (input) => ({
+  text:
+    typeof input === "string"
+      ? `תשובה מתוסרטת (ללא מודל) לשאלה: ${input}`
+      : `התקבלו ${input.length} תוצאות כלים.`,
+});
+
+export function createScriptedProvider(
+  script: ScriptedTurn[] | ScriptedResponder = echoResponder,
+  model = "scripted",
+): ScriptedProvider {
+  const received: LLMInput[] = [];
+  const chats: LLMChatOptions[] = [];
+
+  const next = (input: LLMInput, turn: number): LLMTurn => {
+    received.push(input);
+    const step = typeof script === "function" ? script(input, turn) : script[turn];
+    if (!step) throw new Error(`Scripted provider: no turn ${turn + 1} in the script`);
+    return { text: step.text ?? "", toolCalls: step.toolCalls ?? [] };
+  };
+
+  return {
+    name: "scripted",
+    model,
+    received,
+    chats,
+    startChat(opts: LLMChatOptions): LLMChat {
+      chats.push(opts);
+      let turn = 0;
+      return {
+        async send(input) {
+          return next(input, turn++);
+        },
+        async *stream(input): AsyncGenerator<LLMStreamDelta> {
+          const { text, toolCalls } = next(input, turn++);
+          for (const call of toolCalls) yield { type: "tool_call", call };
+          // Word-sized pieces, like a streaming backend
+          for (const piece of text.match(/\S+\s*|\s+/g) ?? []) yield { type: "text", text: piece };
+        },
+      };
+    },
+  };
+}
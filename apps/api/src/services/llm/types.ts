@@ -0,0 +1,73 @@
+/**
+ * Provider-neutral shapes for the AI assistant's language model.
+ *
+ * ai-service.ts only talks to these types; each adapter translates them to
+ * its backend's wire format (Gemini SDK, OpenAI chat completions, scripted).
+ */
+
+/** JSON Schema subset used for tool parameters */
+export interface LLMJsonSchema {
+  type: "object" | "string" | "number" | "integer" | "boolean" | "array";
+  description?: string;
+  properties?: Record<string, LLMJsonSchema>;
+  required?: string[];
+  items?: LLMJsonSchema;
+  enum?: string[];
+}
+
+export interface LLMToolDeclaration {
+  name: string;
+  description: string;
+  parameters: LLMJsonSchema;
+}
+
+export interface LLMToolCall {
+  /** Backend-assigned call id, echoed back with the result when present */
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LLMToolResult {
+  call: LLMToolCall;
+  result: unknown;
+}
+
+/** A user question, or the results of the tool calls the model just asked for */
+export type LLMInput = string | LLMToolResult[];
+
+/** One complete model turn: either tool calls to run or the answer text */
+export interface LLMTurn {
+  text: string;
+  toolCalls: LLMToolCall[];
+}
+
+/** Streaming piece of a turn; a turn's tool calls arrive whole */
+export type LLMStreamDelta =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; call: LLMToolCall };
+
+export interface LLMChat {
+  send(input: LLMInput): Promise<LLMTurn>;
+  stream(input: LLMInput): AsyncGenerator<LLMStreamDelta>;
+}
+
+/** An earlier message of the conversation, replayed before the new question */
+export interface LLMHistoryMessage {
+  role: "user" | "assistant";
+  text: string;
+}
+
+export interface LLMChatOptions {
+  systemInstruction: string;
+  tools: LLMToolDeclaration[];
+  history?: LLMHistoryMessage[];
+}
+
+export interface LLMProvider {
+  /** Backend id: "gemini" | "openai" | "scripted" */
+  name: string;
+  /** Model reported in AiAnswer.model */
+  model: string;
+  startChat(opts: LLMChatOptions): LLMChat;
+}
@@ -1,29 +1,15 @@
 import { db } from "@knesset-vote/db";
-import type { MK, MKDetail, MKSpecialRole } from "@knesset-vote/shared";
-import { BILL_TOPIC_LABELS_HE } from "@knesset-vote/shared";
-
-// כנסת 25 — קואליציה/אופוזיציה לפי external_id של הסיעה
-const KNESSET_25_COALITION = new Set(["1096", "1105", "1102", "1104", "1108", "1106", "1107"]);
-const KNESSET_25_OPPOSITION = new Set([
-  "1097",
-  "1099",
-  "1101",
-  "1100",
-  "1103",
-  "1109",
-  "1110",
-  "1098",
-]);
-
-function getMKCoalitionStatus(
-  partyExternalId: string | null,
-  knessetNumber: number | null,
-): "coalition" | "opposition" | null {
-  if (knessetNumber !== 25 || !partyExternalId) return null;
-  if (KNESSET_25_COALITION.has(partyExternalId)) return "coalition";
-  if (KNESSET_25_OPPOSITION.has(partyExternalId)) return "opposition";
-  return null;
-}
+import type {
+  MK,
+  MKDetail,
+  MKParticipation,
+  MKParticipationPeriod,
+  MKSimilarity,
+  MKSimilarityItem,
+  MKSpecialRole,
+} from "@knesset-vote/shared";
+import { BILL_TOPIC_LABELS_HE, MIN_SIMILARITY_OVERLAP } from "@knesset-vote/shared";
+import { coalitionStatusAt, periodActiveAt } from "./coalition-service.js";
 
 const SPECIAL_POSITION_LABELS: Record<number, string> = {
   39: "שר",
@@ -99,6 +85,38 @@ function mapSourceLinks(links: Awaited<ReturnType<typeof getSourceLinks>>) {
   }));
 }
 
+type ParticipationRow = Awaited<ReturnType<typeof db.mKParticipation.findMany>>[number];
+
+function pctOf(part: number, total: number): number | null {
+  if (total === 0) return null;
+  return Math.round((part / total) * 1000) / 10;
+}
+
+/** Rates are shares of all recorded votes in the period (see /methodology#participation) */
+function mapParticipation(row: ParticipationRow): MKParticipationPeriod {
+  const cast = row.yes_count + row.no_count + row.abstain_count;
+  return {
+    period: row.period,
+    total_votes: row.total_votes,
+    yes_count: row.yes_count,
+    no_count: row.no_count,
+    abstain_count: row.abstain_count,
+    present_count: row.present_count,
+    absent_count: row.absent_count,
+    unknown_count: row.unknown_count,
+    participation_pct: pctOf(cast, row.total_votes),
+    absence_pct: pctOf(row.absent_count, row.total_votes),
+    abstention_pct: pctOf(row.abstain_count, row.total_votes),
+  };
+}
+
+async function getOverallParticipation(mkIds: string[]): Promise<Map<string, number | null>> {
+  const rows = await db.mKParticipation.findMany({
+    where: { scope: "overall", period: "all", mk_id: { in: mkIds } },
+  });
+  return new Map(rows.map((r) => [r.mk_id, mapParticipation(r).participation_pct]));
+}
+
 // Minister / deputy minister position IDs (current roles only)
 const MINISTER_POSITION_IDS_SET = new Set([39, 57, 45, 31, 50, 40, 59, 51, 285079]);
 
@@ -114,9 +132,20 @@ export async function listMKs(opts: {
   page: number;
   limit: number;
 }): Promise<{ data: MK[]; total: number }> {
-  const { search, party_id, is_current, knesset_number, coalition, gender, role, page, limit } =
-    opts;
+  const {
+    search,
+    party_id,
+    is_current,
+    knesset_number,
+    coalition,
+    gender,
+    role,
+    sort,
+    page,
+    limit,
+  } = opts;
   const skip = (page - 1) * limit;
+  const now = new Date();
 
   const where: NonNullable<Parameters<typeof db.mK.findMany>[0]>["where"] = {};
 
@@ -137,36 +166,25 @@ export async function listMKs(opts: {
     where.gender = gender;
   }
 
-  // Filter by coalition/opposition — resolved via party external_id sets
-  if (coalition === "coalition") {
-    where.memberships = {
-      some: {
-        is_current: true,
-        party: { external_id: { in: [...KNESSET_25_COALITION] } },
-      },
-    };
-  } else if (coalition === "opposition") {
-    where.memberships = {
-      some: {
-        is_current: true,
-        party: { external_id: { in: [...KNESSET_25_OPPOSITION] } },
-      },
-    };
-  } else if (knesset_number) {
-    where.memberships = {
-      some: { knesset_number },
-    };
-  }
-
+  // Membership filters apply to one membership row. Within a Knesset term,
+  // party_id matches the MK's faction in that term rather than the current one;
+  // coalition/opposition is always resolved by today's CoalitionPeriod rows.
+  const membership: NonNullable<
+    NonNullable<Parameters<typeof db.partyMembership.findMany>[0]>["where"]
+  > = {};
+  const party: NonNullable<Parameters<typeof db.party.findMany>[0]>["where"] = {};
+  if (knesset_number) membership.knesset_number = knesset_number;
   if (party_id) {
-    where.memberships = {
-      some: {
-        is_current: true,
-        party: {
-          OR: [{ id: party_id }, { external_id: party_id }],
-        },
-      },
-    };
+    party.OR = [{ id: party_id }, { external_id: party_id }];
+    if (!knesset_number) membership.is_current = true;
+  }
+  if (coalition) {
+    party.coalition_periods = { some: { status: coalition, ...periodActiveAt(now) } };
+    membership.is_current = true;
+  }
+  if (party_id || coalition) membership.party = party;
+  if (Object.keys(membership).length > 0) {
+    where.memberships = { some: membership };
   }
 
   // Filter by role: minister or committee chair — using GovernmentRole / CommitteeMembership
@@ -186,17 +204,34 @@ export async function listMKs(opts: {
     };
   }
 
+  // Participation lives in MKParticipation, which Prisma can't order MK by —
+  // rank all matching MKs in memory (highest first, no data last), then page.
+  let pageIds: string[] | null = null;
+  if (sort === "participation") {
+    const matching = await db.mK.findMany({ where, select: { id: true, name_he: true } });
+    const rates = await getOverallParticipation(matching.map((m) => m.id));
+    pageIds = matching
+      .sort(
+        (a, b) =>
+          (rates.get(b.id) ?? -1) - (rates.get(a.id) ?? -1) ||
+          a.name_he.localeCompare(b.name_he, "he"),
+      )
+      .slice(skip, skip + limit)
+      .map((m) => m.id);
+  }
+
   const [mks, total] = await Promise.all([
     db.mK.findMany({
-      where,
-      skip,
-      take: limit,
+      where: pageIds ? { id: { in: pageIds } } : where,
+      ...(pageIds ? {} : { skip, take: limit }),
       orderBy: [{ name_last_he: "asc" }, { name_he: "asc" }],
       include: {
         memberships: {
           // Fetch most recent membership regardless of is_current flag,
           // because some active MKs (e.g. ministers) may have is_current=false
-          // in the membership table due to OData quirks.
+          // in the membership table due to OData quirks. Within a Knesset term,
+          // the faction shown is the one from that term.
+          ...(knesset_number ? { where: { knesset_number } } : {}),
           orderBy: [{ is_current: "desc" }, { start_date: "desc" }],
           include: {
             party: {
@@ -206,6 +241,7 @@ export async function listMKs(opts: {
                 name_en: true,
                 external_id: true,
                 knesset_number: true,
+                coalition_periods: { where: periodActiveAt(now) },
               },
             },
           },
@@ -228,12 +264,20 @@ export async function listMKs(opts: {
     db.mK.count({ where }),
   ]);
 
-  const mksWithSources = await Promise.all(
-    mks.map(async (mk) => ({
-      ...mk,
-      sources: mapSourceLinks(await getSourceLinks("mk", mk.id)),
-    })),
-  );
+  if (pageIds) {
+    const order = new Map(pageIds.map((id, i) => [id, i]));
+    mks.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+  }
+
+  const [mksWithSources, participation] = await Promise.all([
+    Promise.all(
+      mks.map(async (mk) => ({
+        ...mk,
+        sources: mapSourceLinks(await getSourceLinks("mk", mk.id)),
+      })),
+    ),
+    getOverallParticipation(mks.map((mk) => mk.id)),
+  ]);
 
   return {
     data: mksWithSources.map((mk) => {
@@ -268,11 +312,9 @@ export async function listMKs(opts: {
         is_current: mk.is_current,
         current_party_id: currentMembership?.party.id ?? null,
         current_party_name: currentMembership?.party.name_he ?? null,
-        coalition_status: getMKCoalitionStatus(
-          currentMembership?.party.external_id ?? null,
-          currentMembership?.party.knesset_number ?? null,
-        ),
+        coalition_status: coalitionStatusAt(currentMembership?.party.coalition_periods, now),
         role_badges,
+        participation_pct: participation.get(mk.id) ?? null,
         source_url: mk.source_url,
         image_url: mk.image_url,
         last_seen_at: mk.last_seen_at?.toISOString() ?? null,
@@ -465,3 +507,91 @@ export async function getMKById(id: string): Promise<MKDetail | null> {
     special_roles: specialRoles,
   };
 }
+
+/**
+ * Most / least aligned MKs by voting record, from the MKVoteSimilarity table
+ * (written by `pnpm etl:aggregate-similarity`). Returns null for unknown MKs;
+ * an MK with no stored pairs gets empty lists.
+ */
+export async function getSimilarMKs(id: string, limit: number): Promise<MKSimilarity | null> {
+  const mk = await db.mK.findFirst({
+    where: { OR: [{ id }, { external_id: id }] },
+    select: { id: true },
+  });
+  if (!mk) return null;
+
+  const most = await db.mKVoteSimilarity.findMany({
+    where: { mk_id: mk.id },
+    orderBy: [{ agreement_rate: "desc" }, { overlap: "desc" }],
+    take: limit,
+  });
+  // With few pairs the two ends meet; an MK is listed only among the most similar
+  const least = await db.mKVoteSimilarity.findMany({
+    where: { mk_id: mk.id, other_mk_id: { notIn: most.map((r) => r.other_mk_id) } },
+    orderBy: [{ agreement_rate: "asc" }, { overlap: "desc" }],
+    take: limit,
+  });
+
+  const others = await db.mK.findMany({
+    where: { id: { in: [...most, ...least].map((r) => r.other_mk_id) } },
+    select: {
+      id: true,
+      name_he: true,
+      memberships: {
+        orderBy: [{ is_current: "desc" }, { start_date: "desc" }],
+        take: 1,
+        select: { party: { select: { name_he: true } } },
+      },
+    },
+  });
+  const othersById = new Map(others.map((o) => [o.id, o]));
+
+  const toItem = (row: (typeof most)[number]): MKSimilarityItem => {
+    const other = othersById.get(row.other_mk_id);
+    return {
+      mk_id: row.other_mk_id,
+      name_he: other?.name_he ?? "",
+      party_name_he: other?.memberships[0]?.party.name_he ?? null,
+      overlap: row.overlap,
+      agreements: row.agreements,
+      agreement_pct: Math.round(row.agreement_rate * 1000) / 10,
+    };
+  };
+
+  return {
+    mk_id: mk.id,
+    min_overlap: MIN_SIMILARITY_OVERLAP,
+    most_similar: most.map(toItem),
+    least_similar: least.map(toItem),
+    computed_at: most[0]?.computed_at.toISOString() ?? null,
+  };
+}
+
+/**
+ * Participation counts and rates for an MK — overall, per Knesset term and per
+ * month — from MKParticipation (written by `pnpm etl:aggregate-participation`).
+ */
+export async function getMKParticipation(id: string): Promise<MKParticipation | null> {
+  const mk = await db.mK.findFirst({
+    where: { OR: [{ id }, { external_id: id }] },
+    select: { id: true },
+  });
+  if (!mk) return null;
+
+  const rows = await db.mKParticipation.findMany({
+    where: { mk_id: mk.id },
+    orderBy: { period: "asc" },
+  });
+
+  const overall = rows.find((r) => r.scope === "overall");
+  return {
+    mk_id: mk.id,
+    overall: overall ? mapParticipation(overall) : null,
+    by_term: rows
+      .filter((r) => r.scope === "term")
+      .sort((a, b) => Number(a.period) - Number(b.period))
+      .map(mapParticipation),
+    by_month: rows.filter((r) => r.scope === "month").map(mapParticipation),
+    computed_at: rows[0]?.computed_at.toISOString() ?? null,
+  };
+}
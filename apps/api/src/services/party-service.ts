@@ -1,38 +1,6 @@
 import { db } from "@knesset-vote/db";
 import type { Party, PartyDetail } from "@knesset-vote/shared";
-
-// כנסת 25 — קואליציה/אופוזיציה לפי external_id (KNS_Faction ID)
-// מקור: הכרזות ממשלה רשמיות
-const KNESSET_25_COALITION = new Set([
-  "1096", // הליכוד
-  "1105", // ש"ס
-  "1102", // יהדות התורה
-  "1104", // הציונות הדתית
-  "1108", // הימין הממלכתי
-  "1106", // עוצמה יהודית
-  "1107", // נועם
-]);
-
-const KNESSET_25_OPPOSITION = new Set([
-  "1097", // יש עתיד
-  "1099", // המחנה הממלכתי
-  "1101", // העבודה
-  "1100", // ישראל ביתנו
-  "1103", // חד"ש-תע"ל
-  "1109", // רע"ם
-  "1110", // מרצ
-  "1098", // הציונות הדתית (אופוזיציה)
-]);
-
-function getCoalitionStatus(
-  externalId: string | null,
-  knessetNumber: number | null,
-): "coalition" | "opposition" | null {
-  if (knessetNumber !== 25 || !externalId) return null;
-  if (KNESSET_25_COALITION.has(externalId)) return "coalition";
-  if (KNESSET_25_OPPOSITION.has(externalId)) return "opposition";
-  return null;
-}
+import { coalitionStatusAt, periodActiveAt } from "./coalition-service.js";
 
 async function getSourceLinks(entityType: string, entityId: string) {
   return db.sourceLink.findMany({
@@ -51,21 +19,23 @@ function mapSourceLinks(links: Awaited<ReturnType<typeof getSourceLinks>>) {
 
 export async function listParties(opts: {
   search?: string;
+  knesset?: number;
   page: number;
   limit: number;
 }): Promise<{ data: Party[]; total: number }> {
-  const { search, page, limit } = opts;
+  const { search, knesset, page, limit } = opts;
   const skip = (page - 1) * limit;
-
-  const where = search
-    ? {
-        OR: [
-          { name_he: { contains: search } },
-          { name_en: { contains: search, mode: "insensitive" as const } },
-          { abbreviation: { contains: search, mode: "insensitive" as const } },
-        ],
-      }
-    : {};
+  const now = new Date();
+
+  const where: NonNullable<Parameters<typeof db.party.findMany>[0]>["where"] = {};
+  if (knesset) where.knesset_number = knesset;
+  if (search) {
+    where.OR = [
+      { name_he: { contains: search } },
+      { name_en: { contains: search, mode: "insensitive" } },
+      { abbreviation: { contains: search, mode: "insensitive" } },
+    ];
+  }
 
   const [parties, total] = await Promise.all([
     db.party.findMany({
@@ -73,6 +43,7 @@ export async function listParties(opts: {
       skip,
       take: limit,
       orderBy: [{ is_active: "desc" }, { seat_count: "desc" }, { name_he: "asc" }],
+      include: { coalition_periods: { where: periodActiveAt(now) } },
     }),
     db.party.count({ where }),
   ]);
@@ -95,7 +66,7 @@ export async function listParties(opts: {
       knesset_number: p.knesset_number,
       seat_count: p.seat_count,
       is_active: p.is_active,
-      coalition_status: getCoalitionStatus(p.external_id, p.knesset_number),
+      coalition_status: coalitionStatusAt(p.coalition_periods, now),
       source_url: p.source_url,
       is_demo: p.is_demo,
       last_seen_at: p.last_seen_at?.toISOString() ?? null,
@@ -116,7 +87,7 @@ export async function getPartyById(id: string): Promise<PartyDetail | null> {
         where: { is_current: true },
         include: { mk: true },
       },
-      promises: { take: 5, orderBy: { created_at: "desc" } },
+      promises: { where: { status: "published" }, take: 5, orderBy: { created_at: "desc" } },
     },
   });
 
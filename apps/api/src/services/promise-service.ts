@@ -0,0 +1,524 @@
+/**
+ * Promise service — statements / commitments, their matches to bills and
+ * votes, and the editorial workflow around them.
+ *
+ * Statements added through the editorial API start as drafts; only published
+ * statements and accepted matches are public. An editor's change to a
+ * published statement returns it to draft, so it is reviewed again. Auto-suggested matches (written
+ * by the ETL job etl:match-promises) wait in a review queue as review_status
+ * "pending"; rejected ones are kept so the matcher does not propose them again.
+ *
+ * Every editorial write records an AuditLog entry in the same transaction.
+ */
+
+import { db } from "@knesset-vote/db";
+import {
+  DATA_STATUS_LABELS,
+  type PromiseMatchReviewStatus,
+  type PromiseStatus,
+} from "@knesset-vote/shared";
+import { diffChanges, recordAudit } from "./audit-service.js";
+import type { EditorIdentity } from "../plugins/editor-auth.js";
+import { hasRole } from "../plugins/editor-auth.js";
+
+type PromiseRow = NonNullable<Awaited<ReturnType<typeof db.promise.findFirst>>>;
+type MatchRow = NonNullable<Awaited<ReturnType<typeof db.promiseMatch.findFirst>>>;
+
+// Fields tracked in the audit log
+const PROMISE_FIELDS = [
+  "text",
+  "category",
+  "topic",
+  "mk_id",
+  "party_id",
+  "stated_on",
+  "source_url",
+  "source_label",
+  "status",
+  "published_at",
+] as const;
+const MATCH_FIELDS = [
+  "promise_id",
+  "bill_id",
+  "vote_id",
+  "match_type",
+  "confidence",
+  "status",
+  "status_date",
+  "notes",
+  "review_status",
+] as const;
+
+function pick<T extends object, K extends keyof T>(row: T, keys: readonly K[]) {
+  return Object.fromEntries(keys.map((k) => [k, row[k]])) as Record<string, unknown>;
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Public listing
+// ──────────────────────────────────────────────────────────────────
+
+export async function listPromises(opts: {
+  person?: string;
+  party?: string;
+  topic?: string;
+  status: PromiseStatus;
+  page: number;
+  limit: number;
+}) {
+  const { person, party, topic, status, page, limit } = opts;
+  const where: NonNullable<Parameters<typeof db.promise.findMany>[0]>["where"] = { status };
+  if (topic) where.topic = topic;
+  if (person) where.mk_id = person;
+  if (party) where.party_id = party;
+
+  const [promises, total] = await Promise.all([
+    db.promise.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { stated_on: "desc" },
+      include: {
+        mk: { select: { id: true, name_he: true } },
+        party: { select: { id: true, name_he: true } },
+        // Auto-suggested matches stay hidden until an editor accepts them
+        matches: {
+          where: { review_status: "accepted" },
+          include: {
+            bill: { select: { id: true, title_he: true, status: true } },
+            vote: { select: { id: true, title_he: true, vote_date: true } },
+          },
+        },
+      },
+    }),
+    db.promise.count({ where }),
+  ]);
+
+  return {
+    data: promises.map((p) => ({
+      id: p.id,
+      // Use "statement" terminology per legal guardrails
+      type: p.category,
+      text: p.text,
+      topic: p.topic,
+      mk: p.mk ? { id: p.mk.id, name: p.mk.name_he } : null,
+      party: p.party ? { id: p.party.id, name: p.party.name_he } : null,
+      stated_on: p.stated_on?.toISOString() ?? null,
+      source: { url: p.source_url, label: p.source_label },
+      is_demo: p.is_demo,
+      matches: p.matches.map((m) => ({
+        id: m.id,
+        match_type: m.match_type,
+        confidence: m.confidence,
+        // Use neutral status language per principle 3
+        status: m.status,
+        status_label:
+          DATA_STATUS_LABELS[m.status as keyof typeof DATA_STATUS_LABELS] ??
+          "Not available from source",
+        status_date: m.status_date?.toISOString() ?? null,
+        bill: m.bill ? { id: m.bill.id, title: m.bill.title_he, status: m.bill.status } : null,
+        vote: m.vote
+          ? {
+              id: m.vote.id,
+              title: m.vote.title_he,
+              date: m.vote.vote_date?.toISOString() ?? null,
+            }
+          : null,
+      })),
+    })),
+    total,
+  };
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Editorial writes — statements
+// ──────────────────────────────────────────────────────────────────
+
+function toEditorialPromise(p: PromiseRow) {
+  return {
+    id: p.id,
+    text: p.text,
+    category: p.category,
+    topic: p.topic,
+    mk_id: p.mk_id,
+    party_id: p.party_id,
+    stated_on: p.stated_on?.toISOString() ?? null,
+    source_url: p.source_url,
+    source_label: p.source_label,
+    status: p.status as PromiseStatus,
+    published_at: p.published_at?.toISOString() ?? null,
+    created_by_id: p.created_by_id,
+    last_edited_by_id: p.last_edited_by_id,
+    created_at: p.created_at.toISOString(),
+    updated_at: p.updated_at.toISOString(),
+  };
+}
+
+export interface PromiseInput {
+  text: string;
+  category: "statement" | "commitment" | "pledge";
+  topic?: string | null;
+  mk_id?: string | null;
+  party_id?: string | null;
+  stated_on?: string | null;
+  source_url: string;
+  source_label: string;
+}
+
+type PromiseRefError = { error: "mk_not_found" | "party_not_found" };
+type EditorialPromise = ReturnType<typeof toEditorialPromise>;
+
+async function checkRefs(input: Partial<PromiseInput>): Promise<PromiseRefError | null> {
+  if (input.mk_id && !(await db.mK.findFirst({ where: { id: input.mk_id } }))) {
+    return { error: "mk_not_found" };
+  }
+  if (input.party_id && !(await db.party.findFirst({ where: { id: input.party_id } }))) {
+    return { error: "party_not_found" };
+  }
+  return null;
+}
+
+function promiseData<T extends Partial<PromiseInput>>({ stated_on, ...rest }: T) {
+  return {
+    ...rest,
+    ...(stated_on !== undefined ? { stated_on: stated_on ? new Date(stated_on) : null } : {}),
+  };
+}
+
+/** New statements are drafts until published */
+export async function createPromise(
+  input: PromiseInput,
+  actor: EditorIdentity,
+): Promise<{ data: EditorialPromise } | PromiseRefError> {
+  const refError = await checkRefs(input);
+  if (refError) return refError;
+
+  const promise = await db.$transaction(async (tx) => {
+    const row = await tx.promise.create({
+      data: {
+        ...promiseData(input),
+        status: "draft",
+        added_by: "api",
+        created_by_id: actor.id,
+        last_edited_by_id: actor.id,
+      },
+    });
+    await recordAudit(tx, actor, {
+      action: "create",
+      entity_type: "promise",
+      entity_id: row.id,
+      changes: diffChanges(null, pick(row, PROMISE_FIELDS)),
+    });
+    return row;
+  });
+  return { data: toEditorialPromise(promise) };
+}
+
+/**
+ * Edits a statement and records the editor as its last editor. When an
+ * editor (not an admin) changes a published statement it goes back to draft.
+ */
+export async function updatePromise(
+  id: string,
+  patch: Partial<PromiseInput>,
+  actor: EditorIdentity,
+): Promise<{ data: EditorialPromise } | PromiseRefError | { error: "not_found" }> {
+  const before = await db.promise.findFirst({ where: { id } });
+  if (!before) return { error: "not_found" as const };
+  const refError = await checkRefs(patch);
+  if (refError) return refError;
+
+  const promise = await db.$transaction(async (tx) => {
+    const data = promiseData(patch);
+    const changed = Object.keys(
+      diffChanges(pick(before, PROMISE_FIELDS), { ...pick(before, PROMISE_FIELDS), ...data }),
+    );
+    const unpublish =
+      changed.length > 0 && before.status === "published" && !hasRole(actor.role, "admin");
+    const row = await tx.promise.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(changed.length > 0 ? { last_edited_by_id: actor.id } : {}),
+        ...(unpublish ? { status: "draft", published_at: null } : {}),
+      },
+    });
+    const changes = diffChanges(pick(before, PROMISE_FIELDS), pick(row, PROMISE_FIELDS));
+    if (Object.keys(changes).length > 0) {
+      await recordAudit(tx, actor, {
+        action: "update",
+        entity_type: "promise",
+        entity_id: id,
+        changes,
+      });
+    }
+    return row;
+  });
+  return { data: toEditorialPromise(promise) };
+}
+
+/**
+ * Publish a draft. Editors cannot publish drafts they wrote or last edited — a
+ * second person reviews every version; admins can publish any draft.
+ */
+export async function publishPromise(id: string, actor: EditorIdentity) {
+  const before = await db.promise.findFirst({ where: { id } });
+  if (!before) return { error: "not_found" as const };
+  if (before.status === "published") return { error: "already_published" as const };
+  if (
+    !hasRole(actor.role, "admin") &&
+    (before.created_by_id === actor.id || before.last_edited_by_id === actor.id)
+  ) {
+    return { error: "own_draft" as const };
+  }
+
+  const promise = await db.$transaction(async (tx) => {
+    const row = await tx.promise.update({
+      where: { id },
+      data: { status: "published", published_at: new Date() },
+    });
+    await recordAudit(tx, actor, {
+      action: "publish",
+      entity_type: "promise",
+      entity_id: id,
+      changes: diffChanges(pick(before, PROMISE_FIELDS), pick(row, PROMISE_FIELDS)),
+    });
+    return row;
+  });
+  return { data: toEditorialPromise(promise) };
+}
+
+/** Deletes the statement and its matches (cascade); the audit entry keeps a copy */
+export async function deletePromise(id: string, actor: EditorIdentity): Promise<boolean> {
+  const before = await db.promise.findFirst({ where: { id } });
+  if (!before) return false;
+
+  await db.$transaction(async (tx) => {
+    await tx.promise.delete({ where: { id } });
+    await recordAudit(tx, actor, {
+      action: "delete",
+      entity_type: "promise",
+      entity_id: id,
+      changes: diffChanges(pick(before, PROMISE_FIELDS), null),
+    });
+  });
+  return true;
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Editorial writes — matches
+// ──────────────────────────────────────────────────────────────────
+
+function toEditorialMatch(m: MatchRow) {
+  return {
+    id: m.id,
+    promise_id: m.promise_id,
+    bill_id: m.bill_id,
+    vote_id: m.vote_id,
+    match_type: m.match_type,
+    confidence: m.confidence,
+    status: m.status,
+    status_date: m.status_date?.toISOString() ?? null,
+    notes: m.notes,
+    score: m.score,
+    review_status: m.review_status as PromiseMatchReviewStatus,
+    reviewed_at: m.reviewed_at?.toISOString() ?? null,
+  };
+}
+
+export interface MatchInput {
+  confidence: "high" | "medium" | "low" | "unavailable";
+  status: "matched" | "partial_match" | "no_match" | "unavailable";
+  status_date?: string | null;
+  notes?: string | null;
+}
+
+function matchData<T extends Partial<MatchInput>>({ status_date, ...rest }: T) {
+  return {
+    ...rest,
+    ...(status_date !== undefined
+      ? { status_date: status_date ? new Date(status_date) : null }
+      : {}),
+  };
+}
+
+/** Manual link from a statement to a bill or a vote — accepted as created */
+export async function createMatch(
+  promiseId: string,
+  input: MatchInput & { bill_id?: string; vote_id?: string },
+  actor: EditorIdentity,
+): Promise<
+  | { data: ReturnType<typeof toEditorialMatch> }
+  | { error: "not_found" | "bill_not_found" | "vote_not_found" }
+> {
+  if (!(await db.promise.findFirst({ where: { id: promiseId } }))) {
+    return { error: "not_found" };
+  }
+  if (input.bill_id && !(await db.bill.findFirst({ where: { id: input.bill_id } }))) {
+    return { error: "bill_not_found" };
+  }
+  if (input.vote_id && !(await db.vote.findFirst({ where: { id: input.vote_id } }))) {
+    return { error: "vote_not_found" };
+  }
+
+  const { bill_id, vote_id, ...fields } = input;
+  const match = await db.$transaction(async (tx) => {
+    const row = await tx.promiseMatch.create({
+      data: {
+        ...matchData(fields),
+        promise_id: promiseId,
+        bill_id: bill_id ?? null,
+        vote_id: vote_id ?? null,
+        match_type: "manual",
+        review_status: "accepted",
+        reviewed_at: new Date(),
+      },
+    });
+    await recordAudit(tx, actor, {
+      action: "create",
+      entity_type: "promise_match",
+      entity_id: row.id,
+      changes: diffChanges(null, pick(row, MATCH_FIELDS)),
+    });
+    return row;
+  });
+  return { data: toEditorialMatch(match) };
+}
+
+export async function updateMatch(id: string, patch: Partial<MatchInput>, actor: EditorIdentity) {
+  const before = await db.promiseMatch.findFirst({ where: { id } });
+  if (!before) return { error: "not_found" as const };
+
+  const match = await db.$transaction(async (tx) => {
+    const row = await tx.promiseMatch.update({ where: { id }, data: matchData(patch) });
+    const changes = diffChanges(pick(before, MATCH_FIELDS), pick(row, MATCH_FIELDS));
+    if (Object.keys(changes).length > 0) {
+      await recordAudit(tx, actor, {
+        action: "update",
+        entity_type: "promise_match",
+        entity_id: id,
+        changes,
+      });
+    }
+    return row;
+  });
+  return { data: toEditorialMatch(match) };
+}
+
+export async function deleteMatch(id: string, actor: EditorIdentity): Promise<boolean> {
+  const before = await db.promiseMatch.findFirst({ where: { id } });
+  if (!before) return false;
+
+  await db.$transaction(async (tx) => {
+    await tx.promiseMatch.delete({ where: { id } });
+    await recordAudit(tx, actor, {
+      action: "delete",
+      entity_type: "promise_match",
+      entity_id: id,
+      changes: diffChanges(pick(before, MATCH_FIELDS), null),
+    });
+  });
+  return true;
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Review queue — auto-suggested matches
+// ──────────────────────────────────────────────────────────────────
+
+export async function listMatchReviewQueue(opts: {
+  status: PromiseMatchReviewStatus;
+  page: number;
+  limit: number;
+}) {
+  const { status, page, limit } = opts;
+  const where = { review_status: status, match_type: { not: "manual" } };
+
+  const [matches, total] = await Promise.all([
+    db.promiseMatch.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: [{ score: "desc" }, { created_at: "desc" }],
+      include: {
+        promise: {
+          select: {
+            id: true,
+            text: true,
+            topic: true,
+            stated_on: true,
+            mk: { select: { id: true, name_he: true } },
+            party: { select: { id: true, name_he: true } },
+          },
+        },
+        bill: { select: { id: true, title_he: true, status: true } },
+        vote: { select: { id: true, title_he: true, vote_date: true, result: true } },
+      },
+    }),
+    db.promiseMatch.count({ where }),
+  ]);
+
+  return {
+    data: matches.map((m) => ({
+      id: m.id,
+      match_type: m.match_type,
+      confidence: m.confidence,
+      score: m.score,
+      status: m.status,
+      review_status: m.review_status,
+      reviewed_at: m.reviewed_at?.toISOString() ?? null,
+      notes: m.notes,
+      promise: {
+        id: m.promise.id,
+        text: m.promise.text,
+        topic: m.promise.topic,
+        stated_on: m.promise.stated_on?.toISOString() ?? null,
+        mk: m.promise.mk ? { id: m.promise.mk.id, name: m.promise.mk.name_he } : null,
+        party: m.promise.party ? { id: m.promise.party.id, name: m.promise.party.name_he } : null,
+      },
+      bill: m.bill ? { id: m.bill.id, title: m.bill.title_he, status: m.bill.status } : null,
+      vote: m.vote
+        ? {
+            id: m.vote.id,
+            title: m.vote.title_he,
+            date: m.vote.vote_date?.toISOString() ?? null,
+            result: m.vote.result,
+          }
+        : null,
+    })),
+    total,
+  };
+}
+
+export type MatchReviewOutcome = "reviewed" | "not_found" | "manual";
+
+/**
+ * Accept or reject a suggestion. Decisions can be revised (a rejected
+ * suggestion can later be accepted); manual matches are not reviewable.
+ */
+export async function reviewMatch(
+  id: string,
+  decision: "accept" | "reject",
+  notes: string | undefined,
+  actor: EditorIdentity,
+): Promise<MatchReviewOutcome> {
+  const before = await db.promiseMatch.findFirst({ where: { id } });
+  if (!before) return "not_found";
+  if (before.match_type === "manual") return "manual";
+
+  await db.$transaction(async (tx) => {
+    const row = await tx.promiseMatch.update({
+      where: { id },
+      data: {
+        review_status: decision === "accept" ? "accepted" : "rejected",
+        reviewed_at: new Date(),
+        ...(notes !== undefined ? { notes } : {}),
+      },
+    });
+    await recordAudit(tx, actor, {
+      action: "review",
+      entity_type: "promise_match",
+      entity_id: id,
+      changes: diffChanges(pick(before, MATCH_FIELDS), pick(row, MATCH_FIELDS)),
+    });
+  });
+  return "reviewed";
+}
@@ -207,13 +207,15 @@ async function getHighlights(
   const mkIds = memberships.map((m) => m.mk_id);
   if (mkIds.length === 0) return [];
 
-  // Find bills initiated by party MKs in relevant topics, ordered by status score
+  // Find bills initiated by party MKs in relevant topics, ordered by status score.
+  // Government bills are not the MK's initiative (see aggregate-party-topics).
   const billRoles = await db.mKBillRole.findMany({
     where: {
       mk_id: { in: mkIds },
       role: "initiator",
       bill: {
         topic: { in: topicKeys },
+        OR: [{ bill_type: null }, { bill_type: { not: "government" } }],
       },
     },
     include: {
@@ -290,9 +292,10 @@ export async function getRecommendations(
     return null;
   }
 
-  // 2. Load PartyTopicAgg rows for relevant topics
+  // 2. Load PartyTopicAgg rows for relevant topics. Rows with only a
+  //    government_score carry no MK activity and would drag every topic's min to 0.
   const aggRows = await db.partyTopicAgg.findMany({
-    where: { topic: { in: allTopicKeys } },
+    where: { topic: { in: allTopicKeys }, raw_score: { gt: 0 } },
   });
 
   if (aggRows.length === 0) {
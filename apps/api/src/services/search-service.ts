@@ -0,0 +1,448 @@
+/**
+ * Search service — ranked full-text search over MKs, parties, bills, votes and
+ * committees.
+ *
+ * Each table has a generated `search_vector` (migration add_search_index) built
+ * from Hebrew-normalised text plus prefix-stripped word forms, and trigram
+ * indexes on its names / title. A row matches when its vector matches every
+ * query word (as a prefix, in any form) or one of its names is trigram-similar
+ * to the query, which catches misspellings ("נתנייהו"). Latin queries are also
+ * transliterated to Hebrew and matched against MK names ("Smotrich").
+ * Score = ts_rank_cd + the best trigram similarity.
+ */
+
+import { db, Prisma } from "@knesset-vote/db";
+import {
+  SearchEntityTypeSchema,
+  type SearchEntityType,
+  type SearchFacets,
+  type SearchHighlight,
+  type SearchResult,
+} from "@knesset-vote/shared";
+
+const HEBREW_PREFIXES = "הובלמש";
+const NIQQUD_AND_QUOTES = /[\u0591-\u05C7"'\u05F3\u05F4`]/g;
+const MAX_QUERY_WORDS = 8;
+
+// Private-use characters delimit matches in ts_headline output; parseHeadline
+// turns them into segments so the client never renders markup from the API.
+const MARK_START = "\uE000";
+const MARK_END = "\uE001";
+const HEADLINE_OPTIONS = `StartSel=${MARK_START}, StopSel=${MARK_END}, MaxWords=20, MinWords=8, ShortWord=1, MaxFragments=1`;
+
+/**
+ * Hebrew letter ↔ Latin spellings used in MK names. Read right-to-left to
+ * transliterate Latin queries. The vowels a / e mostly have no letter of
+ * their own (see transliterateWord).
+ */
+const TRANSLITERATION: [string, string[]][] = [
+  ["א", ["a", "e"]],
+  ["ב", ["b", "v"]],
+  ["ג", ["g"]],
+  ["ג'", ["j", "dj"]],
+  ["ד", ["d"]],
+  ["ה", ["h"]],
+  ["ו", ["o", "u", "w", "oo", "ou"]],
+  ["ז", ["z"]],
+  ["ז'", ["zh"]],
+  ["ח", ["ch", "kh"]],
+  ["ט", ["t"]],
+  ["י", ["i", "y", "ee", "ie", "ei", "ey", "ai", "ay"]],
+  ["ל", ["l"]],
+  ["מ", ["m"]],
+  ["נ", ["n"]],
+  ["ס", ["s"]],
+  ["פ", ["p", "f", "ph"]],
+  ["צ", ["tz", "ts"]],
+  ["צ'", ["tch"]],
+  ["ק", ["k", "c", "q", "ck"]],
+  ["קס", ["x"]],
+  ["ר", ["r"]],
+  ["ש", ["sh"]],
+  ["ת", ["th"]],
+];
+
+const LATIN_TO_HEBREW = new Map(
+  TRANSLITERATION.flatMap(([he, latin]) => latin.map((l) => [l, he] as const)),
+);
+const LONGEST_LATIN = Math.max(...[...LATIN_TO_HEBREW.keys()].map((l) => l.length));
+const FINAL_FORMS: Record<string, string> = { כ: "ך", מ: "ם", נ: "ן", פ: "ף", צ: "ץ" };
+
+// ──────────────────────────────────────────────────────────────────
+// Pure functions — exported for unit tests
+// ──────────────────────────────────────────────────────────────────
+
+/** Lower-case and drop niqqud, geresh / gershayim and quotes — mirrors search_text_he */
+export function normalizeSearchText(text: string): string {
+  return text.toLowerCase().replace(NIQQUD_AND_QUOTES, "");
+}
+
+/**
+ * The word plus its forms without one or two leading prefix letters
+ * (ה ו ב ל מ ש), keeping at least three letters — the same forms
+ * search_text_he adds to the index. "והכנסת" → והכנסת, הכנסת, כנסת.
+ */
+export function prefixVariants(word: string): string[] {
+  const variants = [word];
+  for (let n = 1; n <= 2; n++) {
+    const prefix = [...word.slice(0, n)];
+    const rest = word.slice(n);
+    if (
+      prefix.length === n &&
+      prefix.every((c) => HEBREW_PREFIXES.includes(c)) &&
+      /^[א-ת]{3}/.test(rest)
+    ) {
+      variants.push(rest);
+    }
+  }
+  return variants;
+}
+
+/**
+ * Query for to_tsquery('simple', …): every word must match as a prefix, in any
+ * of its prefix forms. Null when the query has no searchable words.
+ */
+export function buildTsQuery(q: string): string | null {
+  const words = normalizeSearchText(q)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, MAX_QUERY_WORDS);
+  if (words.length === 0) return null;
+  return words
+    .map(
+      (w) =>
+        `(${prefixVariants(w)
+          .map((v) => `${v}:*`)
+          .join(" | ")})`,
+    )
+    .join(" & ");
+}
+
+/**
+ * Best-guess Hebrew spelling of a Latin query ("Smotrich" → "סמוטריץ'"), or
+ * null when the query has no Latin letters. It only needs to be close: the
+ * result is matched against MK names by trigram similarity.
+ */
+export function transliterateToHebrew(q: string): string | null {
+  const words = q.toLowerCase().match(/[a-z]+/g);
+  if (!words) return null;
+  return words.map(transliterateWord).join(" ");
+}
+
+function transliterateWord(word: string): string {
+  // Doubled consonants are one letter in Hebrew (Bennett → בנט); Slavic -ich is יץ'
+  const latin = word.replace(/([b-df-hj-np-tv-z])\1+/g, "$1");
+  const ich = latin.length > 4 && latin.endsWith("ich");
+  const body = ich ? latin.slice(0, -3) : latin;
+
+  let out = "";
+  for (let i = 0; i < body.length; ) {
+    let len = Math.min(LONGEST_LATIN, body.length - i);
+    while (len > 1 && !LATIN_TO_HEBREW.has(body.slice(i, i + len))) len--;
+    const chunk = body.slice(i, i + len);
+    const he = LATIN_TO_HEBREW.get(chunk) ?? "";
+    const initial = i === 0;
+    i += len;
+    if (he === "א") {
+      // a / e: alef at the start, he for a final a (Ohana → אוהנה), else nothing
+      if (initial) out += he;
+      else if (chunk === "a" && i === body.length) out += "ה";
+    } else {
+      out += initial && /^[aeiou]/.test(chunk) ? `א${he}` : he;
+    }
+  }
+
+  if (ich) return `${out}יץ'`;
+  const last = out.at(-1);
+  return last && FINAL_FORMS[last] ? out.slice(0, -1) + FINAL_FORMS[last] : out;
+}
+
+/** Split ts_headline output into plain and matched segments */
+export function parseHeadline(headline: string | null): SearchHighlight {
+  if (!headline) return [];
+  const segments: SearchHighlight = [];
+  const push = (text: string, match: boolean) => {
+    if (text) segments.push({ text, match });
+  };
+  const [lead = "", ...marked] = headline.split(MARK_START);
+  push(lead, false);
+  for (const part of marked) {
+    const end = part.indexOf(MARK_END);
+    if (end === -1) {
+      push(part, false);
+      continue;
+    }
+    push(part.slice(0, end), true);
+    push(part.slice(end + MARK_END.length), false);
+  }
+  return segments;
+}
+
+export interface FacetRow {
+  facet: keyof SearchFacets;
+  value: string;
+  count: number;
+}
+
+/** Group facet rows into buckets, largest first (Knesset terms newest first) */
+export function toFacets(rows: FacetRow[]): SearchFacets {
+  const bucket = (facet: keyof SearchFacets) =>
+    rows
+      .filter((r) => r.facet === facet)
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  return {
+    type: bucket("type").map((r) => ({ value: r.value as SearchEntityType, count: r.count })),
+    topic: bucket("topic").map(({ value, count }) => ({ value, count })),
+    status: bucket("status").map(({ value, count }) => ({ value, count })),
+    knesset: bucket("knesset")
+      .map((r) => ({ value: Number(r.value), count: r.count }))
+      .sort((a, b) => b.value - a.value),
+  };
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Queries
+// ──────────────────────────────────────────────────────────────────
+
+/**
+ * Per-type SQL fragments. Fixed strings only — user input is always passed as
+ * a bound parameter. `doc` is the text the highlight is taken from, `names` the
+ * trigram-indexed columns matched fuzzily, and topic / status / knesset feed
+ * the facets (NULL where the type has none).
+ */
+const SEARCH_SOURCES: Record<
+  SearchEntityType,
+  {
+    table: string;
+    title: string;
+    subtitle: string;
+    doc: string;
+    url: string;
+    names: string[];
+    topic: string;
+    status: string;
+    knesset: string;
+  }
+> = {
+  mk: {
+    table: `"MK"`,
+    title: "t.name_he",
+    subtitle: `(SELECT p.name_he FROM "PartyMembership" pm JOIN "Party" p ON p.id = pm.party_id
+      WHERE pm.mk_id = t.id AND pm.is_current ORDER BY pm.knesset_number DESC NULLS LAST LIMIT 1)`,
+    doc: "concat_ws(' ', t.name_he, t.name_en)",
+    url: "/mks",
+    names: ["t.name_he", "t.name_en", "t.name_last_he"],
+    topic: "NULL",
+    status: "NULL",
+    knesset: `(SELECT MAX(pm.knesset_number) FROM "PartyMembership" pm WHERE pm.mk_id = t.id)`,
+  },
+  party: {
+    table: `"Party"`,
+    title: "t.name_he",
+    subtitle: "t.name_en",
+    doc: "concat_ws(' ', t.name_he, t.abbreviation, t.name_en)",
+    url: "/parties",
+    names: ["t.name_he", "t.name_en"],
+    topic: "NULL",
+    status: "NULL",
+    knesset: "t.knesset_number",
+  },
+  bill: {
+    table: `"Bill"`,
+    title: "t.title_he",
+    subtitle: "t.title_en",
+    doc: "concat_ws(' ', t.title_he, t.description_he)",
+    url: "/bills",
+    names: ["t.title_he"],
+    topic: "t.topic",
+    status: "t.status",
+    knesset: "t.knesset_number",
+  },
+  vote: {
+    table: `"Vote"`,
+    title: "t.title_he",
+    subtitle: "to_char(t.vote_date, 'DD/MM/YYYY')",
+    doc: "t.title_he",
+    url: "/votes",
+    names: ["t.title_he"],
+    topic: "t.topic",
+    status: "t.result",
+    knesset: "t.knesset_number",
+  },
+  committee: {
+    table: `"Committee"`,
+    title: "t.name_he",
+    subtitle: "t.name_en",
+    doc: "t.name_he",
+    url: "/committees",
+    names: ["t.name_he", "t.name_en"],
+    topic: "NULL",
+    status: "NULL",
+    knesset: "t.knesset_number",
+  },
+};
+
+export interface SearchFilters {
+  topic?: string;
+  status?: string;
+  knesset?: number;
+}
+
+interface SearchRow {
+  type: SearchEntityType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  source_url: string | null;
+  headline: string | null;
+  score: number;
+  total: number;
+}
+
+/**
+ * A name matches a query form when the two are similar as whole strings
+ * (pg_trgm `%`, e.g. a misspelt last name) or the form is similar to some
+ * part of the name (`<%`, e.g. a last name within a full name).
+ */
+function hitsFor(type: SearchEntityType, forms: string[]): Prisma.Sql {
+  const src = SEARCH_SOURCES[type];
+  const pairs = src.names.flatMap((name) => forms.map((form) => [Prisma.raw(name), form] as const));
+  const fuzzy = Prisma.join(
+    pairs.map(([name, form]) => Prisma.sql`${name} % ${form} OR ${form} <% ${name}`),
+    " OR ",
+  );
+  const similarity = Prisma.join(
+    pairs.map(
+      ([name, form]) =>
+        Prisma.sql`GREATEST(similarity(${name}, ${form}), word_similarity(${form}, ${name}))`,
+    ),
+    ", ",
+  );
+  return Prisma.sql`
+    SELECT ${type}::text AS type, t.id, ${Prisma.raw(src.title)} AS title,
+      ${Prisma.raw(src.subtitle)} AS subtitle, t.source_url, ${Prisma.raw(src.doc)} AS doc,
+      ${Prisma.raw(src.topic)} AS topic, ${Prisma.raw(src.status)} AS status,
+      ${Prisma.raw(src.knesset)} AS knesset,
+      ts_rank_cd(t.search_vector, q.query) + COALESCE(GREATEST(${similarity}), 0) AS score
+    FROM ${Prisma.raw(src.table)} t, q
+    WHERE t.search_vector @@ q.query OR ${fuzzy}
+  `;
+}
+
+/**
+ * The shared head of the page and facet queries: `q` (the tsquery) and
+ * `matched` — hits of `types` that pass the topic / status / Knesset filters.
+ */
+function matchedCte(
+  tsQuery: string,
+  q: string,
+  types: readonly SearchEntityType[],
+  filters: SearchFilters,
+): Prisma.Sql {
+  const text = normalizeSearchText(q.trim());
+  const hebrew = transliterateToHebrew(q);
+  const hits = Prisma.join(
+    types.map((type) => hitsFor(type, type === "mk" && hebrew ? [text, hebrew] : [text])),
+    " UNION ALL ",
+  );
+  return Prisma.sql`
+    WITH q AS (SELECT to_tsquery('simple', ${tsQuery}) AS query),
+    hits AS (${hits}),
+    matched AS (
+      SELECT * FROM hits
+      WHERE (${filters.topic ?? null}::text IS NULL OR topic = ${filters.topic ?? null})
+        AND (${filters.status ?? null}::text IS NULL OR status = ${filters.status ?? null})
+        AND (${filters.knesset ?? null}::int IS NULL OR knesset = ${filters.knesset ?? null})
+    )
+  `;
+}
+
+const EMPTY_FACETS: SearchFacets = { type: [], topic: [], status: [], knesset: [] };
+
+export async function searchAll(opts: {
+  q: string;
+  types: SearchEntityType[];
+  page: number;
+  limit: number;
+  filters?: SearchFilters;
+  /** Skip the facet query (AI tools only need the ranked ids) */
+  facets?: boolean;
+}): Promise<{ data: SearchResult[]; total: number; facets: SearchFacets }> {
+  const { q, types, page, limit, filters = {}, facets = true } = opts;
+  const tsQuery = buildTsQuery(q);
+  if (!tsQuery || types.length === 0) return { data: [], total: 0, facets: EMPTY_FACETS };
+
+  // Type counts cover every type, so all of them are searched when facets are wanted
+  const head = matchedCte(tsQuery, q, facets ? SearchEntityTypeSchema.options : types, filters);
+  const [rows, facetRows] = await Promise.all([
+    db.$queryRaw<SearchRow[]>`
+      ${head},
+      ranked AS (
+        SELECT *, COUNT(*) OVER () AS total
+        FROM matched
+        WHERE type = ANY(${types}::text[])
+        ORDER BY score DESC, title, id
+        LIMIT ${limit} OFFSET ${(page - 1) * limit}
+      )
+      SELECT r.type, r.id, r.title, r.subtitle, r.source_url,
+        ts_headline('simple', r.doc, q.query, ${HEADLINE_OPTIONS}) AS headline,
+        r.score::float AS score, r.total::int AS total
+      FROM ranked r, q
+      ORDER BY r.score DESC, r.title, r.id
+    `,
+    facets
+      ? db.$queryRaw<FacetRow[]>`
+      ${head},
+      filtered AS (SELECT * FROM matched WHERE type = ANY(${types}::text[]))
+      SELECT 'type' AS facet, type AS value, COUNT(*)::int AS count FROM matched GROUP BY type
+      UNION ALL
+      SELECT 'topic', topic, COUNT(*)::int FROM filtered WHERE topic IS NOT NULL GROUP BY topic
+      UNION ALL
+      SELECT 'status', status, COUNT(*)::int FROM filtered WHERE status IS NOT NULL GROUP BY status
+      UNION ALL
+      SELECT 'knesset', knesset::text, COUNT(*)::int FROM filtered WHERE knesset IS NOT NULL GROUP BY knesset
+    `
+      : Promise.resolve([]),
+  ]);
+
+  // The page's rows carry the total, but a page past the end has no rows; the
+  // type facets count the same matches, otherwise count them separately
+  const facetsOut = toFacets(facetRows);
+  let total = rows[0]?.total ?? 0;
+  if (rows.length === 0 && page > 1) {
+    if (facets) {
+      total = facetsOut.type.reduce((sum, f) => sum + (types.includes(f.value) ? f.count : 0), 0);
+    } else {
+      const [count] = await db.$queryRaw<{ total: number }[]>`
+        ${head}
+        SELECT COUNT(*)::int AS total FROM matched WHERE type = ANY(${types}::text[])
+      `;
+      total = count?.total ?? 0;
+    }
+  }
+
+  return {
+    data: rows.map((r) => ({
+      type: r.type,
+      id: r.id,
+      title: r.title,
+      subtitle: r.subtitle,
+      url: `${SEARCH_SOURCES[r.type].url}/${r.id}`,
+      source_url: r.source_url,
+      score: Math.round(r.score * 1000) / 1000,
+      highlight: parseHeadline(r.headline),
+    })),
+    total,
+    facets: facetsOut,
+  };
+}
+
+/** Ids of the best matches of one type, most relevant first — used by the AI tools */
+export async function searchIds(
+  type: SearchEntityType,
+  q: string,
+  limit: number,
+): Promise<string[]> {
+  const { data } = await searchAll({ q, types: [type], page: 1, limit, facets: false });
+  return data.map((r) => r.id);
+}
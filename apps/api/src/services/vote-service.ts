@@ -1,5 +1,13 @@
 import { db } from "@knesset-vote/db";
-import type { Vote, VoteRecord } from "@knesset-vote/shared";
+import type {
+  Vote,
+  VoteBreakdown,
+  VotePartyBreakdown,
+  VotePositionCounts,
+  VoteRecord,
+} from "@knesset-vote/shared";
+import { getMKFactionsAt, type FactionAt } from "./coalition-service.js";
+import { knessetNumberAt } from "./knesset-service.js";
 
 export async function listVotes(opts: {
   mk_id?: string;
@@ -52,6 +60,8 @@ export async function listVotes(opts: {
       vote_date: v.vote_date?.toISOString() ?? null,
       knesset_number: v.knesset_number,
       bill_id: v.bill_id,
+      bill_reading: v.bill_reading as Vote["bill_reading"],
+      bill_link_confidence: v.bill_link_confidence as Vote["bill_link_confidence"],
       topic: v.topic,
       yes_count: v.yes_count,
       no_count: v.no_count,
@@ -63,9 +73,69 @@ export async function listVotes(opts: {
   };
 }
 
+function emptyCounts(): VotePositionCounts {
+  return { yes: 0, no: 0, abstain: 0, present: 0, absent: 0 };
+}
+
+function countKey(position: string | null): keyof VotePositionCounts {
+  return position === "yes" || position === "no" || position === "abstain" || position === "present"
+    ? position
+    : "absent";
+}
+
+const BLOC_ORDER = { coalition: 0, opposition: 1 } as const;
+
+/**
+ * Per-faction and coalition / opposition counts for one vote. `factions` maps
+ * MKs to their faction on the vote date; an MK there without a record counts
+ * as absent, a record without a faction goes to the unaffiliated row.
+ */
+export function buildVoteBreakdown(
+  records: { mk_id: string; position: string }[],
+  factions: Map<string, FactionAt>,
+): VoteBreakdown {
+  const positions = new Map<string, string | null>(
+    [...factions.keys()].map((mkId) => [mkId, null]),
+  );
+  for (const r of records) positions.set(r.mk_id, r.position);
+
+  const parties = new Map<string | null, VotePartyBreakdown>();
+  const blocs = { coalition: emptyCounts(), opposition: emptyCounts(), unknown: emptyCounts() };
+
+  for (const [mkId, position] of positions) {
+    const faction = factions.get(mkId) ?? null;
+    const partyId = faction?.party_id ?? null;
+    let row = parties.get(partyId);
+    if (!row) {
+      row = {
+        party_id: partyId,
+        party_name_he: faction?.party_name_he ?? null,
+        abbreviation: faction?.abbreviation ?? null,
+        coalition_status: faction?.coalition_status ?? null,
+        seats: 0,
+        ...emptyCounts(),
+      };
+      parties.set(partyId, row);
+    }
+    const key = countKey(position);
+    row.seats += 1;
+    row[key] += 1;
+    blocs[faction?.coalition_status ?? "unknown"][key] += 1;
+  }
+
+  const rank = (p: VotePartyBreakdown) =>
+    p.party_id === null ? 3 : p.coalition_status ? BLOC_ORDER[p.coalition_status] : 2;
+  return {
+    parties: [...parties.values()].sort((a, b) => rank(a) - rank(b) || b.seats - a.seats),
+    blocs,
+  };
+}
+
 export async function getVoteById(id: string): Promise<{
   vote: Vote;
   records: VoteRecord[];
+  breakdown: VoteBreakdown;
+  bill: { id: string; title_he: string } | null;
 } | null> {
   const vote = await db.vote.findFirst({
     where: {
@@ -78,11 +148,25 @@ export async function getVoteById(id: string): Promise<{
         },
         orderBy: { position: "asc" },
       },
+      bill: { select: { id: true, title_he: true } },
     },
   });
 
   if (!vote) return null;
 
+  // Factions as of the vote date, so historical votes reflect the government of the day.
+  // With a known Knesset the whole plenum is loaded, so MKs missing from the records show as absent;
+  // votes synced without a Knesset number get the term in session on their date.
+  const knessetNumber =
+    vote.knesset_number ?? (vote.vote_date ? await knessetNumberAt(vote.vote_date) : null);
+  const factions = vote.vote_date
+    ? await getMKFactionsAt(
+        knessetNumber !== null ? null : vote.records.map((r) => r.mk_id),
+        vote.vote_date,
+        knessetNumber,
+      )
+    : new Map<string, FactionAt>();
+
   return {
     vote: {
       id: vote.id,
@@ -93,6 +177,8 @@ export async function getVoteById(id: string): Promise<{
       vote_date: vote.vote_date?.toISOString() ?? null,
       knesset_number: vote.knesset_number,
       bill_id: vote.bill_id,
+      bill_reading: vote.bill_reading as Vote["bill_reading"],
+      bill_link_confidence: vote.bill_link_confidence as Vote["bill_link_confidence"],
       topic: vote.topic,
       yes_count: vote.yes_count,
       no_count: vote.no_count,
@@ -106,8 +192,11 @@ export async function getVoteById(id: string): Promise<{
       vote_id: r.vote_id,
       mk_id: r.mk_id,
       mk_name_he: r.mk?.name_he ?? "Unknown",
-      position: r.position as "yes" | "no" | "abstain" | "absent" | "did_not_vote",
+      position: r.position as VoteRecord["position"],
+      coalition_status: factions.get(r.mk_id)?.coalition_status ?? null,
       sources: [],
     })),
+    breakdown: buildVoteBreakdown(vote.records, factions),
+    bill: vote.bill,
   };
 }
@@ -0,0 +1,146 @@
+/**
+ * Webhook service — subscription management and the delivery log.
+ *
+ * Deliveries are enqueued and sent by the ETL (packages/etl/src/sync/webhooks.ts).
+ * The signing secret is generated here and returned only once, on create.
+ * Target hosts must resolve to public addresses; the ETL checks them again on
+ * every delivery, since DNS can change after registration.
+ */
+
+import crypto from "crypto";
+import { promises as dns } from "dns";
+import { db } from "@knesset-vote/db";
+import { isPublicIpAddress } from "@knesset-vote/shared";
+import type { BillTopic, WebhookDelivery, WebhookSubscription } from "@knesset-vote/shared";
+
+type SubscriptionRow = NonNullable<Awaited<ReturnType<typeof db.webhookSubscription.findFirst>>>;
+type DeliveryRow = NonNullable<Awaited<ReturnType<typeof db.webhookDelivery.findFirst>>>;
+
+function toSubscription(s: SubscriptionRow): WebhookSubscription {
+  return {
+    id: s.id,
+    url: s.url,
+    description: s.description,
+    bill_id: s.bill_id,
+    topic: s.topic as BillTopic | null,
+    mk_id: s.mk_id,
+    is_active: s.is_active,
+    created_at: s.created_at.toISOString(),
+  };
+}
+
+function toDelivery(d: DeliveryRow): WebhookDelivery {
+  return {
+    id: d.id,
+    subscription_id: d.subscription_id,
+    event_type: d.event_type as WebhookDelivery["event_type"],
+    bill_id: d.bill_id,
+    status: d.status as WebhookDelivery["status"],
+    attempts: d.attempts,
+    last_status_code: d.last_status_code,
+    last_error: d.last_error,
+    next_attempt_at: d.next_attempt_at.toISOString(),
+    delivered_at: d.delivered_at?.toISOString() ?? null,
+    created_at: d.created_at.toISOString(),
+  };
+}
+
+export type CreateWebhookResult =
+  | { data: WebhookSubscription & { secret: string } }
+  | { error: "url_not_allowed" | "bill_not_found" | "mk_not_found" };
+
+/** False for hosts that do not resolve, or resolve to any non-public address */
+async function isPublicHost(url: string): Promise<boolean> {
+  // Local receivers for testing, never in production
+  if (
+    process.env["NODE_ENV"] !== "production" &&
+    process.env["WEBHOOK_ALLOW_PRIVATE_HOSTS"] === "true"
+  ) {
+    return true;
+  }
+  try {
+    const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+    const addresses = await dns.lookup(host, { all: true, verbatim: true });
+    return addresses.every((a) => isPublicIpAddress(a.address));
+  } catch {
+    return false;
+  }
+}
+
+export async function createWebhook(input: {
+  url: string;
+  description?: string;
+  bill_id?: string;
+  topic?: BillTopic;
+  mk_id?: string;
+}): Promise<CreateWebhookResult> {
+  if (!(await isPublicHost(input.url))) return { error: "url_not_allowed" };
+
+  // Filters accept internal or Knesset ids; store the internal id
+  let billId: string | null = null;
+  if (input.bill_id) {
+    const bill = await db.bill.findFirst({
+      where: { OR: [{ id: input.bill_id }, { external_id: input.bill_id }] },
+      select: { id: true },
+    });
+    if (!bill) return { error: "bill_not_found" };
+    billId = bill.id;
+  }
+
+  let mkId: string | null = null;
+  if (input.mk_id) {
+    const mk = await db.mK.findFirst({
+      where: { OR: [{ id: input.mk_id }, { external_id: input.mk_id }] },
+      select: { id: true },
+    });
+    if (!mk) return { error: "mk_not_found" };
+    mkId = mk.id;
+  }
+
+  const secret = crypto.randomBytes(32).toString("hex");
+  const sub = await db.webhookSubscription.create({
+    data: {
+      url: input.url,
+      secret,
+      description: input.description ?? null,
+      bill_id: billId,
+      topic: input.topic ?? null,
+      mk_id: mkId,
+    },
+  });
+  return { data: { ...toSubscription(sub), secret } };
+}
+
+export async function listWebhooks(): Promise<WebhookSubscription[]> {
+  const subs = await db.webhookSubscription.findMany({ orderBy: { created_at: "desc" } });
+  return subs.map(toSubscription);
+}
+
+/** Returns false when the subscription does not exist. Deliveries cascade. */
+export async function deleteWebhook(id: string): Promise<boolean> {
+  const { count } = await db.webhookSubscription.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+export async function listWebhookDeliveries(
+  subscriptionId: string,
+  opts: { page: number; limit: number },
+): Promise<{ data: WebhookDelivery[]; total: number } | null> {
+  const sub = await db.webhookSubscription.findFirst({
+    where: { id: subscriptionId },
+    select: { id: true },
+  });
+  if (!sub) return null;
+
+  const where = { subscription_id: sub.id };
+  const [deliveries, total] = await Promise.all([
+    db.webhookDelivery.findMany({
+      where,
+      skip: (opts.page - 1) * opts.limit,
+      take: opts.limit,
+      orderBy: { created_at: "desc" },
+    }),
+    db.webhookDelivery.count({ where }),
+  ]);
+  return { data: deliveries.map(toDelivery), total };
+}
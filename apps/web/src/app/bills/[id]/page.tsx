@@ -9,8 +9,8 @@ import { BillStatusBadge } from "@/components/shared/BillStatusBadge";
 import { OfficialLinksCard } from "@/components/shared/OfficialLinksCard";
 import { Breadcrumbs } from "@/components/layout/Breadcrumbs";
 import { formatDate, formatDateShort } from "@/lib/utils";
-import { BILL_TOPIC_LABELS } from "@knesset-vote/shared";
-import type { BillDetail } from "@knesset-vote/shared";
+import { BILL_TOPIC_LABELS, VOTE_READING_LABELS_HE } from "@knesset-vote/shared";
+import type { BillDetail, BillTimeline } from "@knesset-vote/shared";
 import { AskAiButton } from "@/components/shared/AskAiButton";
 
 interface BillDetailResponse {
@@ -27,6 +27,15 @@ async function getBill(id: string): Promise<(BillDetail & { is_demo?: boolean })
   }
 }
 
+async function getTimeline(id: string): Promise<BillTimeline | null> {
+  try {
+    const res = await apiFetch<{ data: BillTimeline }>(`/api/bills/${id}/timeline`);
+    return res.data;
+  } catch {
+    return null;
+  }
+}
+
 export async function generateMetadata({ params }: { params: { id: string } }): Promise<Metadata> {
   const bill = await getBill(params.id);
   if (!bill) return { title: "הצעת חוק לא נמצאה" };
@@ -48,7 +57,7 @@ const STAGE_ORDER = [
 ];
 
 export default async function BillPage({ params }: { params: { id: string } }) {
-  const bill = await getBill(params.id);
+  const [bill, timeline] = await Promise.all([getBill(params.id), getTimeline(params.id)]);
   if (!bill) notFound();
 
   return (
@@ -67,7 +76,7 @@ export default async function BillPage({ params }: { params: { id: string } }) {
       <div className="mb-8">
         <div className="flex flex-wrap items-start justify-between gap-4">
           <h1 className="text-2xl font-bold text-neutral-900">{bill.title_he}</h1>
-          <BillStatusBadge status={bill.status ?? "unknown"} />
+          <BillStatusBadge status={bill.status ?? "unknown"} billType={bill.bill_type} />
         </div>
 
         {bill.title_en && <p className="mt-2 text-neutral-500">{bill.title_en}</p>}
@@ -156,6 +165,12 @@ export default async function BillPage({ params }: { params: { id: string } }) {
           <h2 id="sponsors-heading" className="mb-3 text-xl font-semibold text-neutral-900">
             מגישים
           </h2>
+          {bill.bill_type === "government" && (
+            <p className="mb-3 text-sm text-neutral-500">
+              הצעת חוק ממשלתית — נוסחה והוגשה על ידי הממשלה. חברי הכנסת הרשומים כאן אינם יוזמי
+              ההצעה.
+            </p>
+          )}
           <div className="flex flex-wrap gap-2">
             {bill.sponsors.map((s) => (
               <Link
@@ -174,6 +189,102 @@ export default async function BillPage({ params }: { params: { id: string } }) {
         </section>
       )}
 
+      {/* Reconstructed time in each stage */}
+      {timeline && timeline.stages.length > 0 && (
+        <section className="mb-8" aria-labelledby="time-in-stage-heading">
+          <h2 id="time-in-stage-heading" className="mb-3 text-xl font-semibold text-neutral-900">
+            זמן בכל שלב
+          </h2>
+          <div className="card divide-y divide-neutral-100">
+            {timeline.stages.map((stage) => (
+              <div
+                key={`${stage.status}-${stage.started_at}`}
+                className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 text-sm"
+              >
+                <div className="flex items-center gap-2">
+                  <BillStatusBadge status={stage.status} />
+                  {stage.committee && (
+                    <Link
+                      href={`/committees/${stage.committee.id}`}
+                      className="text-neutral-600 hover:underline"
+                    >
+                      {stage.committee.name_he}
+                    </Link>
+                  )}
+                </div>
+                <div className="text-neutral-600">
+                  {formatDateShort(stage.started_at)}
+                  {stage.days !== null && (
+                    <span className="mr-2 font-medium text-neutral-900">
+                      {stage.days} ימים{stage.ended_at ? "" : " (עד כה)"}
+                    </span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-neutral-400">
+            משוחזר משינויי סטטוס בין סנכרונים — תאריכים משוערים •{" "}
+            <Link href="/methodology#bill-timeline" className="underline">
+              מתודולוגיה
+            </Link>
+          </p>
+        </section>
+      )}
+
+      {/* Plenum votes linked to this bill */}
+      {bill.votes.length > 0 && (
+        <section className="mb-8" aria-labelledby="votes-heading">
+          <h2 id="votes-heading" className="mb-3 text-xl font-semibold text-neutral-900">
+            הצבעות במליאה
+          </h2>
+          <ul className="space-y-2">
+            {bill.votes.map((vote) => (
+              <li key={vote.id}>
+                <Link
+                  href={`/votes/${vote.id}`}
+                  className="card flex flex-wrap items-center justify-between gap-3 p-3 transition-shadow hover:shadow-md"
+                >
+                  <div>
+                    <p className="font-medium text-neutral-900">
+                      {vote.reading ? VOTE_READING_LABELS_HE[vote.reading] : vote.title_he}
+                    </p>
+                    <p className="mt-0.5 text-xs text-neutral-500">
+                      {vote.vote_date ? formatDateShort(vote.vote_date) : "תאריך לא ידוע"}
+                      {vote.yes_count != null && vote.no_count != null && (
+                        <>
+                          {" "}
+                          • {vote.yes_count} בעד, {vote.no_count} נגד
+                          {vote.abstain_count ? `, ${vote.abstain_count} נמנעים` : ""}
+                        </>
+                      )}
+                    </p>
+                    {(vote.link_confidence === "medium" || vote.link_confidence === "low") && (
+                      <p className="mt-0.5 text-xs text-amber-700">
+                        שויך לפי כותרת ההצבעה — ייתכן שמדובר בהצעה זהה אחרת
+                      </p>
+                    )}
+                  </div>
+                  {vote.result === "passed" ? (
+                    <span className="badge badge-passed">עבר</span>
+                  ) : vote.result === "rejected" ? (
+                    <span className="badge badge-rejected">נדחה</span>
+                  ) : (
+                    <span className="badge bg-neutral-100 text-neutral-600">לא ידוע</span>
+                  )}
+                </Link>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-2 text-xs text-neutral-400">
+            מקור: Knesset OData — הצבעות שויכו אוטומטית •{" "}
+            <Link href="/methodology#vote-bill-links" className="underline">
+              מתודולוגיה
+            </Link>
+          </p>
+        </section>
+      )}
+
       {/* Stage history timeline */}
       {bill.stage_history.length > 0 && (
         <section aria-labelledby="stages-heading">
@@ -1,17 +1,18 @@
 import type { Metadata } from "next";
 import Link from "next/link";
-import { apiFetch } from "@/lib/api";
+import { apiFetch, feedAlternates } from "@/lib/api";
 import { BillStatusBadge } from "@/components/shared/BillStatusBadge";
 import { SourceBadge } from "@/components/shared/SourceBadge";
 import { DemoBanner } from "@/components/shared/DemoBanner";
 import { AdSlot } from "@/components/shared/AdSlot";
 import { formatDateShort } from "@/lib/utils";
-import { BILL_TOPIC_LABELS, BILL_TOPIC_LABELS_HE } from "@knesset-vote/shared";
+import { BILL_TOPIC_LABELS, BILL_TOPIC_LABELS_HE, BILL_TYPE_LABELS_HE } from "@knesset-vote/shared";
 import type { Bill } from "@knesset-vote/shared";
 
 export const metadata: Metadata = {
   title: "הצעות חוק",
   description: "הצעות חוק בכנסת ישראל עם נתוני מצב ומגישים",
+  alternates: { types: feedAlternates("bills", "הצעות חוק — עדכונים אחרונים") },
 };
 
 interface BillsResponse {
@@ -26,6 +27,8 @@ async function getBills(opts: {
   search?: string;
   topic?: string;
   status?: string;
+  bill_type?: string;
+  knesset?: string;
   page?: number;
 }): Promise<BillsResponse | null> {
   try {
@@ -33,6 +36,8 @@ async function getBills(opts: {
     if (opts.search) params.set("search", opts.search);
     if (opts.topic) params.set("topic", opts.topic);
     if (opts.status) params.set("status", opts.status);
+    if (opts.bill_type) params.set("bill_type", opts.bill_type);
+    if (opts.knesset) params.set("knesset", opts.knesset);
     params.set("limit", "30");
     params.set("sort", "submitted_date");
     params.set("order", "desc");
@@ -46,11 +51,18 @@ async function getBills(opts: {
 export default async function BillsPage({
   searchParams,
 }: {
-  searchParams: { search?: string; topic?: string; status?: string; page?: string };
+  searchParams: {
+    search?: string;
+    topic?: string;
+    status?: string;
+    bill_type?: string;
+    knesset?: string;
+    page?: string;
+  };
 }) {
-  const { search, topic, status, page } = searchParams;
+  const { search, topic, status, bill_type, knesset, page } = searchParams;
   const currentPage = Number(page ?? 1);
-  const response = await getBills({ search, topic, status, page: currentPage });
+  const response = await getBills({ search, topic, status, bill_type, knesset, page: currentPage });
   const bills = response?.data ?? [];
   const hasDemo = bills.some((b) => (b as Bill & { is_demo?: boolean }).is_demo);
 
@@ -59,7 +71,8 @@ export default async function BillsPage({
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-neutral-900">הצעות חוק</h1>
         <p className="mt-2 text-neutral-600">
-          {response?.total ?? 0} הצעות חוק • נתונים מ-Knesset OData
+          {response?.total ?? 0} הצעות חוק{knesset ? ` • כנסת ${knesset}` : ""} • נתונים מ-Knesset
+          OData
         </p>
       </div>
 
@@ -67,6 +80,7 @@ export default async function BillsPage({
 
       {/* Filters */}
       <form className="mb-6 flex flex-wrap gap-2" method="get">
+        {knesset && <input type="hidden" name="knesset" value={knesset} />}
         <input
           type="text"
           name="search"
@@ -106,15 +120,28 @@ export default async function BillsPage({
               </option>
             ))}
         </select>
+        <select
+          name="bill_type"
+          defaultValue={bill_type ?? ""}
+          className="rounded-lg border border-neutral-300 px-3 py-2 text-sm focus:outline-none"
+          aria-label="בחר סוג הצעה"
+        >
+          <option value="">כל הסוגים</option>
+          {Object.entries(BILL_TYPE_LABELS_HE).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
         <button
           type="submit"
           className="bg-brand-600 hover:bg-brand-700 rounded-lg px-4 py-2 text-sm font-medium text-white"
         >
           סנן
         </button>
-        {(search || topic || status) && (
+        {(search || topic || status || bill_type) && (
           <Link
-            href="/bills"
+            href={knesset ? `/bills?knesset=${knesset}` : "/bills"}
             className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
           >
             נקה
@@ -149,7 +176,10 @@ export default async function BillsPage({
                       <p className="mt-0.5 text-sm text-neutral-500">{bill.title_en}</p>
                     )}
                     <div className="mt-2 flex flex-wrap items-center gap-2">
-                      <BillStatusBadge status={bill.status ?? "unknown"} />
+                      <BillStatusBadge
+                        status={bill.status ?? "unknown"}
+                        billType={bill.bill_type}
+                      />
                       {bill.topic && bill.topic in BILL_TOPIC_LABELS && (
                         <span className="badge bg-blue-50 text-blue-700">
                           {BILL_TOPIC_LABELS[bill.topic as keyof typeof BILL_TOPIC_LABELS]}
@@ -178,7 +208,7 @@ export default async function BillsPage({
             <div className="mt-6 flex items-center justify-center gap-3">
               {currentPage > 1 && (
                 <Link
-                  href={`/bills?${new URLSearchParams({ ...(search ? { search } : {}), ...(topic ? { topic } : {}), ...(status ? { status } : {}), page: String(currentPage - 1) })}`}
+                  href={`/bills?${new URLSearchParams({ ...(search ? { search } : {}), ...(topic ? { topic } : {}), ...(status ? { status } : {}), ...(bill_type ? { bill_type } : {}), ...(knesset ? { knesset } : {}), page: String(currentPage - 1) })}`}
                   className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
                 >
                   ← הקודם
@@ -189,7 +219,7 @@ export default async function BillsPage({
               </span>
               {currentPage < response.pages && (
                 <Link
-                  href={`/bills?${new URLSearchParams({ ...(search ? { search } : {}), ...(topic ? { topic } : {}), ...(status ? { status } : {}), page: String(currentPage + 1) })}`}
+                  href={`/bills?${new URLSearchParams({ ...(search ? { search } : {}), ...(topic ? { topic } : {}), ...(status ? { status } : {}), ...(bill_type ? { bill_type } : {}), ...(knesset ? { knesset } : {}), page: String(currentPage + 1) })}`}
                   className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
                 >
                   הבא →
@@ -0,0 +1,238 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { apiFetch } from "@/lib/api";
+import { BILL_STATUS_LABELS, formatDate } from "@/lib/utils";
+import type { ChangeEvent } from "@knesset-vote/shared";
+
+export const metadata: Metadata = {
+  title: "השבוע בכנסת",
+  description: "שינויים בנתוני הכנסת: הצעות חוק שהתקדמו, מעברי סיעה, מינויים והצבעות חדשות",
+};
+
+interface ChangesResponse {
+  data: ChangeEvent[];
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+}
+
+const PERIOD_OPTIONS = [
+  { days: "7", label: "7 ימים אחרונים" },
+  { days: "30", label: "30 ימים אחרונים" },
+];
+
+const ENTITY_OPTIONS: { value: string; label: string }[] = [
+  { value: "", label: "הכל" },
+  { value: "bill", label: "הצעות חוק" },
+  { value: "vote", label: "הצבעות" },
+  { value: "mk", label: "חברי כנסת" },
+  { value: "government_role", label: "ממשלה" },
+  { value: "party", label: "סיעות" },
+  { value: "committee", label: "ועדות" },
+];
+
+async function getChanges(opts: {
+  since: string;
+  entity_type?: string;
+  page?: number;
+}): Promise<ChangesResponse | null> {
+  try {
+    const params = new URLSearchParams({ since: opts.since, limit: "50" });
+    if (opts.entity_type) params.set("entity_type", opts.entity_type);
+    if (opts.page && opts.page > 1) params.set("page", String(opts.page));
+    return await apiFetch<ChangesResponse>(`/api/changes?${params.toString()}`);
+  } catch {
+    return null;
+  }
+}
+
+function entityHref(event: ChangeEvent): string {
+  switch (event.entity_type) {
+    case "bill":
+      return `/bills/${event.entity_id}`;
+    case "mk":
+      return `/mks/${event.entity_id}`;
+    case "party":
+      return `/parties/${event.entity_id}`;
+    case "committee":
+      return `/committees/${event.entity_id}`;
+    case "vote":
+      return `/votes/${event.entity_id}`;
+    case "government_role":
+      return "/government";
+  }
+}
+
+function describeChange(event: ChangeEvent): string {
+  const status = (value: string | null) => (value ? (BILL_STATUS_LABELS[value] ?? value) : "—");
+  switch (event.change_type) {
+    case "status_changed":
+      return `סטטוס עודכן: ${status(event.old_value)} ← ${status(event.new_value)}`;
+    case "party_changed":
+      return `מעבר סיעה: ${event.old_value ?? "—"} ← ${event.new_value ?? "—"}`;
+    case "role_started":
+      return "מינוי לתפקיד בממשלה";
+    case "role_ended":
+      return "סיום תפקיד בממשלה";
+    case "vote_added":
+      return "הצבעה חדשה במליאה";
+    case "created":
+      return {
+        bill: "הצעת חוק חדשה",
+        mk: "חבר/ת כנסת חדש/ה במאגר",
+        party: "סיעה חדשה במאגר",
+        committee: "ועדה חדשה במאגר",
+        government_role: "תפקיד חדש בממשלה",
+        vote: "הצבעה חדשה במליאה",
+      }[event.entity_type];
+  }
+}
+
+export default async function ChangesPage({
+  searchParams,
+}: {
+  searchParams: { days?: string; entity_type?: string; page?: string };
+}) {
+  const days = PERIOD_OPTIONS.some((o) => o.days === searchParams.days) ? searchParams.days! : "7";
+  const entity_type = searchParams.entity_type || undefined;
+  const currentPage = Number(searchParams.page ?? 1);
+
+  // Day granularity keeps the API cache key stable within a day
+  const since = new Date(Date.now() - Number(days) * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+  const response = await getChanges({ since, entity_type, page: currentPage });
+  const events = response?.data ?? [];
+
+  // Group by detection day (events arrive newest first)
+  const groups: { day: string; events: ChangeEvent[] }[] = [];
+  for (const event of events) {
+    const day = event.detected_at.slice(0, 10);
+    const last = groups[groups.length - 1];
+    if (last?.day === day) last.events.push(event);
+    else groups.push({ day, events: [event] });
+  }
+
+  const filterHref = (params: { days?: string; page?: number }) =>
+    `/changes?${new URLSearchParams({
+      days: params.days ?? days,
+      ...(entity_type ? { entity_type } : {}),
+      ...(params.page && params.page > 1 ? { page: String(params.page) } : {}),
+    })}`;
+
+  return (
+    <div className="mx-auto max-w-4xl px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-neutral-900">השבוע בכנסת</h1>
+        <p className="mt-2 text-neutral-600">
+          {response?.total ?? 0} שינויים שזוהו בנתוני הכנסת • נתונים מ-Knesset OData
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="mb-6 flex flex-wrap gap-2">
+        {PERIOD_OPTIONS.map((o) => (
+          <Link
+            key={o.days}
+            href={filterHref({ days: o.days })}
+            className={`rounded-full border px-3 py-1 text-sm ${
+              o.days === days
+                ? "border-brand-600 bg-brand-50 text-brand-700"
+                : "border-neutral-300 text-neutral-600 hover:bg-neutral-50"
+            }`}
+          >
+            {o.label}
+          </Link>
+        ))}
+        <span className="mx-1 border-l border-neutral-200" aria-hidden />
+        {ENTITY_OPTIONS.map((o) => (
+          <Link
+            key={o.value}
+            href={`/changes?${new URLSearchParams({ days, ...(o.value ? { entity_type: o.value } : {}) })}`}
+            className={`rounded-full border px-3 py-1 text-sm ${
+              o.value === (entity_type ?? "")
+                ? "border-brand-600 bg-brand-50 text-brand-700"
+                : "border-neutral-300 text-neutral-600 hover:bg-neutral-50"
+            }`}
+          >
+            {o.label}
+          </Link>
+        ))}
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="card p-12 text-center">
+          <p className="text-neutral-500">לא זוהו שינויים בתקופה זו.</p>
+          <p className="mt-2 text-sm text-neutral-400">
+            שינויים מזוהים בכל הרצה של <code className="font-mono">pnpm etl:sync</code> מול ההרצה
+            הקודמת
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {groups.map((group) => (
+            <section key={group.day}>
+              <h2 className="mb-2 text-sm font-semibold text-neutral-500">
+                {formatDate(group.day)}
+              </h2>
+              <ul className="card divide-y divide-neutral-100">
+                {group.events.map((event) => (
+                  <li key={event.id} className="px-4 py-3 text-sm">
+                    <Link
+                      href={entityHref(event)}
+                      className="hover:text-brand-700 font-medium text-neutral-900"
+                    >
+                      {event.label_he}
+                    </Link>
+                    <div className="mt-0.5 text-neutral-600">
+                      {describeChange(event)}
+                      {event.occurred_at && (
+                        <span className="mr-2 text-xs text-neutral-400">
+                          {formatDate(event.occurred_at)}
+                        </span>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+
+          {/* Pagination */}
+          {response && response.pages > 1 && (
+            <div className="flex items-center justify-center gap-3">
+              {currentPage > 1 && (
+                <Link
+                  href={filterHref({ page: currentPage - 1 })}
+                  className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
+                >
+                  ← הקודם
+                </Link>
+              )}
+              <span className="text-sm text-neutral-500">
+                עמוד {currentPage} מתוך {response.pages}
+              </span>
+              {currentPage < response.pages && (
+                <Link
+                  href={filterHref({ page: currentPage + 1 })}
+                  className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
+                >
+                  הבא →
+                </Link>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <p className="mt-8 text-xs text-neutral-400">
+        השינויים מזוהים בהשוואת נתוני המקור בין הרצות עדכון עוקבות; התאריך בכותרת הוא מועד הזיהוי •
+        ראו{" "}
+        <Link href="/methodology#changes" className="underline">
+          מתודולוגיה
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { apiFetch } from "@/lib/api";
+import { SourceBadge } from "@/components/shared/SourceBadge";
+import { MetricCard } from "@/components/shared/MetricCard";
+import { BillStatusBadge } from "@/components/shared/BillStatusBadge";
+import { Breadcrumbs } from "@/components/layout/Breadcrumbs";
+import { roleLabel } from "@/components/mk/CommitteeList";
+import { formatDateShort } from "@/lib/utils";
+import type { CommitteeDetail, CommitteeMember } from "@knesset-vote/shared";
+
+interface CommitteeDetailResponse {
+  data: CommitteeDetail;
+}
+
+async function getCommittee(id: string): Promise<CommitteeDetail | null> {
+  try {
+    const res = await apiFetch<CommitteeDetailResponse>(`/api/committees/${id}`);
+    return res.data;
+  } catch {
+    return null;
+  }
+}
+
+export async function generateMetadata({ params }: { params: { id: string } }): Promise<Metadata> {
+  const committee = await getCommittee(params.id);
+  if (!committee) return { title: "ועדה לא נמצאה" };
+  return {
+    title: committee.name_he,
+    description: `חברי ${committee.name_he} והצעות החוק שנדונו בה`,
+  };
+}
+
+function MemberRow({ member }: { member: CommitteeMember }) {
+  return (
+    <li className="flex items-center justify-between gap-3 px-4 py-3">
+      <div className="min-w-0 flex-1">
+        <Link
+          href={`/mks/${member.mk_id}`}
+          className="hover:text-brand-700 text-sm font-medium text-neutral-800"
+        >
+          {member.mk_name_he}
+        </Link>
+        {member.party_name_he && (
+          <span className="mr-2 text-xs text-neutral-400">{member.party_name_he}</span>
+        )}
+      </div>
+      <div className="flex shrink-0 items-center gap-2">
+        {!member.is_current && (member.start_date || member.end_date) && (
+          <span className="text-xs text-neutral-400">
+            {formatDateShort(member.start_date)} – {formatDateShort(member.end_date)}
+          </span>
+        )}
+        <span
+          className={
+            member.is_chair
+              ? "badge bg-brand-100 text-brand-800 text-xs"
+              : "badge bg-neutral-100 text-xs text-neutral-600"
+          }
+        >
+          {roleLabel(member.role)}
+        </span>
+      </div>
+    </li>
+  );
+}
+
+export default async function CommitteePage({ params }: { params: { id: string } }) {
+  const committee = await getCommittee(params.id);
+  if (!committee) notFound();
+
+  const currentChairs = committee.chairs.filter((c) => c.is_current);
+
+  return (
+    <div className="mx-auto max-w-5xl px-4 py-8 sm:px-6 lg:px-8">
+      <Breadcrumbs
+        items={[
+          { label: "ראשי", href: "/" },
+          { label: "ועדות", href: "/committees" },
+          { label: committee.name_he },
+        ]}
+      />
+
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-neutral-900">{committee.name_he}</h1>
+            {committee.name_en && (
+              <p className="mt-1 text-lg text-neutral-500">{committee.name_en}</p>
+            )}
+          </div>
+          {committee.is_active ? (
+            <span className="badge bg-green-100 px-3 py-1 text-sm text-green-800">פעילה</span>
+          ) : (
+            <span className="badge badge-unknown px-3 py-1 text-sm">לא פעילה</span>
+          )}
+        </div>
+
+        {committee.knesset_number && (
+          <p className="mt-2 text-sm text-neutral-600">כנסת ה-{committee.knesset_number}</p>
+        )}
+
+        {currentChairs.length > 0 && (
+          <p className="mt-2 text-sm text-neutral-700">
+            <span className="text-neutral-500">יו&quot;ר: </span>
+            {currentChairs.map((chair, i) => (
+              <span key={chair.mk_id}>
+                {i > 0 && ", "}
+                <Link href={`/mks/${chair.mk_id}`} className="hover:text-brand-700 font-medium">
+                  {chair.mk_name_he}
+                </Link>
+              </span>
+            ))}
+          </p>
+        )}
+
+        <div className="mt-4">
+          <span className="mr-2 text-xs font-medium text-neutral-500">מקורות:</span>
+          <SourceBadge sources={committee.sources} />
+        </div>
+      </div>
+
+      {/* Metrics */}
+      <section className="mb-8" aria-labelledby="metrics-heading">
+        <h2 id="metrics-heading" className="mb-4 text-xl font-semibold text-neutral-900">
+          סיכום
+        </h2>
+        <div className="grid gap-4 sm:grid-cols-3">
+          <MetricCard
+            label="חברים נוכחיים"
+            value={committee.current_members.length}
+            tooltip="חברויות פעילות בוועדה לפי KNS_PersonToPosition ב-Knesset OData"
+            confidence="high"
+          />
+          <MetricCard
+            label="חברים לשעבר"
+            value={committee.past_members.length}
+            tooltip="חברויות שהסתיימו לפי Knesset OData"
+            confidence="high"
+          />
+          <MetricCard
+            label="הצעות חוק שנדונו"
+            value={committee.bill_count}
+            tooltip="הצעות חוק שלפחות שלב אחד בהיסטוריית השלבים שלהן משויך לוועדה"
+            confidence={committee.bill_count > 0 ? "medium" : "low"}
+          />
+        </div>
+        <p className="mt-3 text-xs text-neutral-400">
+          * נתונים מ-Knesset OData. ראו{" "}
+          <Link href="/methodology#committees" className="underline">
+            מתודולוגיה
+          </Link>{" "}
+          לפירוט ומגבלות.
+        </p>
+      </section>
+
+      {/* Members */}
+      <section className="mb-8" aria-labelledby="members-heading">
+        <h2 id="members-heading" className="mb-4 text-xl font-semibold text-neutral-900">
+          חברי הוועדה
+        </h2>
+        {committee.current_members.length === 0 ? (
+          <p className="text-sm text-neutral-500">לא נמצאו חברים נוכחיים במקור הנתונים</p>
+        ) : (
+          <ul className="divide-y divide-neutral-100 rounded-lg border border-neutral-200 bg-white">
+            {committee.current_members.map((m) => (
+              <MemberRow key={m.mk_id} member={m} />
+            ))}
+          </ul>
+        )}
+
+        {committee.past_members.length > 0 && (
+          <details className="group mt-4">
+            <summary className="cursor-pointer select-none text-xs font-medium text-neutral-500 hover:text-neutral-700">
+              ▸ חברים לשעבר ({committee.past_members.length})
+            </summary>
+            <ul className="mt-2 divide-y divide-neutral-100 rounded-lg border border-neutral-200 bg-white">
+              {committee.past_members.map((m) => (
+                <MemberRow key={`${m.mk_id}-past`} member={m} />
+              ))}
+            </ul>
+          </details>
+        )}
+      </section>
+
+      {/* Bills */}
+      <section aria-labelledby="bills-heading">
+        <h2 id="bills-heading" className="mb-4 text-xl font-semibold text-neutral-900">
+          הצעות חוק שנדונו בוועדה
+        </h2>
+        {committee.bills.length === 0 ? (
+          <p className="text-sm text-neutral-500">
+            לא נמצאו הצעות חוק המשויכות לוועדה בהיסטוריית השלבים
+          </p>
+        ) : (
+          <>
+            <ul className="space-y-2">
+              {committee.bills.map((bill) => (
+                <li key={bill.id}>
+                  <Link
+                    href={`/bills/${bill.id}`}
+                    className="card group flex items-start justify-between gap-4 p-4 transition-shadow hover:shadow-md"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="group-hover:text-brand-700 text-sm font-medium text-neutral-900">
+                        {bill.title_he}
+                      </p>
+                      <p className="mt-1 text-xs text-neutral-500">
+                        {bill.last_stage_name_he}
+                        {bill.last_stage_date && ` • ${formatDateShort(bill.last_stage_date)}`}
+                      </p>
+                    </div>
+                    <BillStatusBadge status={bill.status} />
+                  </Link>
+                </li>
+              ))}
+            </ul>
+            {committee.bill_count > committee.bills.length && (
+              <p className="mt-3 text-xs text-neutral-400">
+                מוצגות {committee.bills.length} הצעות החוק האחרונות מתוך {committee.bill_count}
+              </p>
+            )}
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { apiFetch } from "@/lib/api";
+import { SourceBadge } from "@/components/shared/SourceBadge";
+import { CURRENT_KNESSET_NUMBER } from "@knesset-vote/shared";
+import type { CommitteeListItem } from "@knesset-vote/shared";
+
+export const metadata: Metadata = {
+  title: "ועדות הכנסת",
+  description: "ועדות הכנסת, חבריהן והצעות החוק שנדונו בהן",
+};
+
+interface CommitteesResponse {
+  data: CommitteeListItem[];
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+}
+
+async function getCommittees(opts: {
+  search?: string;
+  knesset?: string;
+  is_active?: string;
+  page?: number;
+}): Promise<CommitteesResponse | null> {
+  try {
+    const params = new URLSearchParams();
+    if (opts.search) params.set("search", opts.search);
+    if (opts.knesset) params.set("knesset", opts.knesset);
+    if (opts.is_active) params.set("is_active", opts.is_active);
+    params.set("limit", "50");
+    if (opts.page && opts.page > 1) params.set("page", String(opts.page));
+    return await apiFetch<CommitteesResponse>(`/api/committees?${params.toString()}`);
+  } catch {
+    return null;
+  }
+}
+
+export default async function CommitteesPage({
+  searchParams,
+}: {
+  searchParams: { search?: string; knesset?: string; is_active?: string; page?: string };
+}) {
+  const { search, is_active, page } = searchParams;
+  // Default to the current Knesset; "all" clears the filter
+  const knessetParam = searchParams.knesset ?? String(CURRENT_KNESSET_NUMBER);
+  const knesset = knessetParam === "all" ? undefined : knessetParam;
+  const currentPage = Number(page ?? 1);
+  const response = await getCommittees({ search, knesset, is_active, page: currentPage });
+  const committees = response?.data ?? [];
+
+  const knessetOptions = Array.from({ length: 6 }, (_, i) => CURRENT_KNESSET_NUMBER - i);
+
+  const pageHref = (p: number) =>
+    `/committees?${new URLSearchParams({
+      ...(search ? { search } : {}),
+      knesset: knessetParam,
+      ...(is_active ? { is_active } : {}),
+      page: String(p),
+    })}`;
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-neutral-900">ועדות הכנסת</h1>
+        <p className="mt-2 text-neutral-600">
+          {response?.total ?? 0} ועדות • נתונים מ-Knesset OData
+        </p>
+      </div>
+
+      {/* Filters */}
+      <form className="mb-6 flex flex-wrap gap-2" method="get">
+        <input
+          type="text"
+          name="search"
+          defaultValue={search}
+          placeholder="חפש ועדה..."
+          className="focus:border-brand-500 min-w-48 flex-1 rounded-lg border border-neutral-300 px-4 py-2 text-sm focus:outline-none"
+          aria-label="חיפוש ועדה"
+        />
+        <select
+          name="knesset"
+          defaultValue={knessetParam}
+          className="rounded-lg border border-neutral-300 px-3 py-2 text-sm focus:outline-none"
+          aria-label="בחר כנסת"
+        >
+          {knessetOptions.map((n) => (
+            <option key={n} value={String(n)}>
+              כנסת {n}
+            </option>
+          ))}
+          <option value="all">כל הכנסות</option>
+        </select>
+        <select
+          name="is_active"
+          defaultValue={is_active ?? ""}
+          className="rounded-lg border border-neutral-300 px-3 py-2 text-sm focus:outline-none"
+          aria-label="בחר מצב ועדה"
+        >
+          <option value="">פעילות ולא פעילות</option>
+          <option value="true">פעילות</option>
+          <option value="false">לא פעילות</option>
+        </select>
+        <button
+          type="submit"
+          className="bg-brand-600 hover:bg-brand-700 rounded-lg px-4 py-2 text-sm font-medium text-white"
+        >
+          סנן
+        </button>
+        {(search || is_active || searchParams.knesset) && (
+          <Link
+            href="/committees"
+            className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
+          >
+            נקה
+          </Link>
+        )}
+      </form>
+
+      {committees.length === 0 ? (
+        <div className="card p-12 text-center">
+          <p className="text-neutral-500">
+            {search ? `לא נמצאו ועדות עבור "${search}"` : "לא נמצאו ועדות במסד הנתונים."}
+          </p>
+          <p className="mt-2 text-sm text-neutral-400">
+            הפעל <code className="font-mono">pnpm etl:sync</code> לטעינת נתוני הכנסת
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {committees.map((committee) => (
+              <div
+                key={committee.id}
+                className={`card p-5 ${committee.is_active ? "" : "opacity-75"}`}
+              >
+                <div className="mb-3 flex items-start justify-between gap-2">
+                  <Link
+                    href={`/committees/${committee.id}`}
+                    className="hover:text-brand-700 min-w-0 flex-1 text-lg font-semibold leading-tight text-neutral-900"
+                  >
+                    {committee.name_he}
+                  </Link>
+                  {committee.is_active ? (
+                    <span className="badge shrink-0 bg-green-100 text-green-800">פעילה</span>
+                  ) : (
+                    <span className="badge-unknown badge shrink-0">לא פעילה</span>
+                  )}
+                </div>
+                <div className="space-y-1 text-sm text-neutral-600">
+                  {committee.knesset_number !== null && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-neutral-400">כנסת:</span>
+                      <span>{committee.knesset_number}</span>
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <span className="text-neutral-400">חברים נוכחיים:</span>
+                    <strong>{committee.current_member_count}</strong>
+                  </div>
+                </div>
+                <div className="mt-3">
+                  <SourceBadge sources={committee.sources} compact />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Pagination */}
+          {response && response.pages > 1 && (
+            <div className="mt-6 flex items-center justify-center gap-3">
+              {currentPage > 1 && (
+                <Link
+                  href={pageHref(currentPage - 1)}
+                  className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
+                >
+                  ← הקודם
+                </Link>
+              )}
+              <span className="text-sm text-neutral-500">
+                עמוד {currentPage} מתוך {response.pages}
+              </span>
+              {currentPage < response.pages && (
+                <Link
+                  href={pageHref(currentPage + 1)}
+                  className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
+                >
+                  הבא →
+                </Link>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
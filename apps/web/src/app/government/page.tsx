@@ -16,17 +16,27 @@ interface GovernmentResponse {
   methodology_url: string;
 }
 
-async function getMinisters(): Promise<GovernmentResponse | null> {
+async function getMinisters(knesset?: string): Promise<GovernmentResponse | null> {
   try {
-    return await apiFetch<GovernmentResponse>("/api/government");
+    return await apiFetch<GovernmentResponse>(
+      knesset ? `/api/government?knesset=${encodeURIComponent(knesset)}` : "/api/government",
+    );
   } catch {
     return null;
   }
 }
 
-export default async function GovernmentPage() {
-  const response = await getMinisters();
+export default async function GovernmentPage({
+  searchParams,
+}: {
+  searchParams: { knesset?: string };
+}) {
+  const { knesset } = searchParams;
+  const response = await getMinisters(knesset);
   const ministers = response?.data ?? [];
+  const governments = [
+    ...new Set(ministers.flatMap((m) => (m.role.government_num ? [m.role.government_num] : []))),
+  ].sort((a, b) => a - b);
 
   return (
     <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
@@ -35,7 +45,9 @@ export default async function GovernmentPage() {
         <h1 className="text-3xl font-bold text-neutral-900">הממשלה</h1>
         <p className="mt-2 text-neutral-600">
           {ministers.length > 0
-            ? `${ministers.length} שרים ומשנים · ממשלה 37 · כנסת 25 · נתונים מ-Knesset OData`
+            ? knesset
+              ? `${ministers.length} תפקידים · ${governments.length === 1 ? "ממשלה" : "ממשלות"} ${governments.join(", ")} · כנסת ${knesset} · נתונים מ-Knesset OData`
+              : `${ministers.length} שרים ומשנים · ממשלה 37 · כנסת 25 · נתונים מ-Knesset OData`
             : "טוען נתונים…"}
         </p>
         <div className="mt-3 flex flex-wrap items-center gap-3 text-sm">
@@ -69,7 +81,7 @@ export default async function GovernmentPage() {
           <AdSlot slot={process.env.NEXT_PUBLIC_ADSENSE_SLOT_LIST} className="mb-4" />
           <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
             {ministers.map((minister) => (
-              <MinisterCard key={minister.mk.id} minister={minister} />
+              <MinisterCard key={minister.role.id} minister={minister} />
             ))}
           </div>
           {/* Methodology disclaimer */}
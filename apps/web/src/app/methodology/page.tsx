@@ -1,7 +1,7 @@
 import type { Metadata } from "next";
 import Link from "next/link";
 import { apiFetch } from "@/lib/api";
-import type { MetaResponse } from "@knesset-vote/shared";
+import { MIN_SIMILARITY_OVERLAP, type MetaResponse } from "@knesset-vote/shared";
 
 export const metadata: Metadata = {
   title: "מתודולוגיה ומגבלות",
@@ -39,10 +39,18 @@ export default async function MethodologyPage() {
             { href: "#overview", label: "סקירה כללית" },
             { href: "#principles", label: "עקרונות יסוד" },
             { href: "#data-sources", label: "מקורות נתונים" },
+            { href: "#knesset-terms", label: "כנסות קודמות" },
             { href: "#parties", label: "נתוני סיעות" },
             { href: "#mks", label: "נתוני חברי כנסת" },
+            { href: "#committees", label: "נתוני ועדות" },
+            { href: "#cohesion", label: "לכידות סיעתית והצבעות חריגות" },
+            { href: "#similarity", label: "דמיון בהצבעות בין חברי כנסת" },
+            { href: "#participation", label: "השתתפות בהצבעות מליאה" },
+            { href: "#changes", label: "השבוע בכנסת — זיהוי שינויים" },
             { href: "#government-roles", label: "נתוני ממשלה ושרים" },
             { href: "#bills", label: "נתוני הצעות חוק" },
+            { href: "#bill-timeline", label: "ציר זמן ומשך שלבי חקיקה" },
+            { href: "#vote-bill-links", label: "שיוך הצבעות להצעות חוק" },
             { href: "#topic-classification", label: "סיווג נושאים" },
             { href: "#statements", label: "הצהרות ומחויבויות" },
             { href: "#confidence", label: "רמות ביטחון" },
@@ -180,6 +188,33 @@ export default async function MethodologyPage() {
           </div>
         </section>
 
+        {/* Knesset terms */}
+        <section id="knesset-terms" aria-labelledby="knesset-terms-heading">
+          <h2 id="knesset-terms-heading" className="text-2xl font-bold text-neutral-900">
+            כנסות קודמות
+          </h2>
+          <div className="card mt-4 space-y-3 p-5 text-sm text-neutral-700">
+            <div>
+              <strong>בחירת כנסת:</strong> בורר הכנסת בכותרת האתר מוסיף לכתובת את הפרמטר knesset=N,
+              והוא נשמר במעבר בין דפי הסיעות, חברי הכנסת, הממשלה, הוועדות, הצעות החוק וההצבעות. ללא
+              בחירה מוצגת הכנסת הנוכחית.
+            </div>
+            <div>
+              <strong>תאריכי כהונה:</strong> נגזרים מתאריכי החברות בסיעות באותה כנסת — תחילת החברות
+              המוקדמת ביותר וסיום החברות המאוחר ביותר. אלה קירוב לתאריכי הכנסת הרשמיים.
+            </div>
+            <div>
+              <strong>חלוקת מנדטים וממשלות:</strong> המנדטים לפי ישות Faction של אותה כנסת, והממשלות
+              לפי מספרי הממשלה בתפקידי השרים (KNS_PersonToPosition) שכיהנו בה.
+            </div>
+            <div>
+              <strong>מגבלה:</strong> בכנסות קודמות מוצגים כל מי שכיהנו בהן, גם אם עברו סיעה או פרשו
+              במהלך הכהונה. סטטוס קואליציה / אופוזיציה מחושב נכון להיום ולכן אינו מוצג לכנסות
+              קודמות.
+            </div>
+          </div>
+        </section>
+
         {/* Parties */}
         <section id="parties" aria-labelledby="parties-heading">
           <h2 id="parties-heading" className="text-2xl font-bold text-neutral-900">
@@ -198,6 +233,14 @@ export default async function MethodologyPage() {
               <strong>חוקים שעברו:</strong> סינון על הצעות חוק עם status=passed. מגבלה: נתוני מצב
               חוק עשויים להיות חלקיים בכנסות קודמות.
             </div>
+            <div>
+              <strong>קואליציה / אופוזיציה:</strong> נתוני OData אינם כוללים שיוך קואליציוני, ולכן
+              הוא מתוחזק ידנית כתקופות לכל סיעה (ממשלה, תאריך התחלה ותאריך סיום) לפי הכרזות ממשלה
+              רשמיות. הסטטוס נקבע לפי התאריך: בדפי סיעות וחברי כנסת — נכון להיום, ובהצבעות — נכון
+              למועד ההצבעה. סיעה שאין לה תקופה מתועדת בתאריך הנדון מוצגת ללא סטטוס. מתועדות ממשלות
+              35–37 (כנסות 23–25), כולל שינויי הרכב במהלך כהונת ממשלה 37 עד 19.3.2025; שינויים
+              מאוחרים יותר טרם הוזנו.
+            </div>
           </div>
         </section>
 
@@ -226,6 +269,153 @@ export default async function MethodologyPage() {
           </div>
         </section>
 
+        {/* Committees */}
+        <section id="committees" aria-labelledby="committees-heading">
+          <h2 id="committees-heading" className="text-2xl font-bold text-neutral-900">
+            נתוני ועדות
+          </h2>
+          <div className="card mt-4 space-y-3 p-5 text-sm text-neutral-700">
+            <div>
+              <strong>רשימת ועדות:</strong> לפי ישות KNS_Committee ב-OData, כולל מספר כנסת
+              ו-IsCurrent לסימון ועדה פעילה.
+            </div>
+            <div>
+              <strong>חברי ועדה ותפקידים:</strong> לפי ישות KNS_PersonToPosition עם CommitteeID,
+              כולל תאריכי התחלה/סיום. התפקיד מוצג כפי שפורסם במקור.
+            </div>
+            <div>
+              <strong>יו&quot;ר ועדה:</strong> חברים שתפקידם יו&quot;ר. סגני יו&quot;ר אינם נספרים
+              כיו&quot;ר.
+            </div>
+            <div>
+              <strong>הצעות חוק שנדונו:</strong> הצעות חוק שלפחות שלב אחד בהיסטוריית השלבים שלהן
+              (KNS_BillHistory) משויך לוועדה לפי CommitteeID. מגבלה: שלבים ללא CommitteeID במקור לא
+              ישויכו לאף ועדה.
+            </div>
+          </div>
+        </section>
+
+        {/* Party cohesion */}
+        <section id="cohesion" aria-labelledby="cohesion-heading">
+          <h2 id="cohesion-heading" className="text-2xl font-bold text-neutral-900">
+            לכידות סיעתית והצבעות חריגות
+          </h2>
+          <div className="card mt-4 space-y-3 p-5 text-sm text-neutral-700">
+            <div>
+              <strong>שיוך לסיעה:</strong> כל הצבעה אישית (VoteRecord) משויכת לסיעה שבה היה חבר
+              הכנסת ביום ההצבעה, לפי תאריכי PartyMembership. אם אין תאריכים — לפי מספר הכנסת, ורק
+              כאשר חבר הכנסת היה בסיעה אחת בלבד באותה כנסת.
+            </div>
+            <div>
+              <strong>עמדת רוב הסיעה:</strong> העמדה הנפוצה ביותר (בעד / נגד / נמנע) בקרב חברי הסיעה
+              שנכחו בהצבעה. במקרה של תיקו — אין עמדת רוב וההצבעה אינה נספרת. נעדרים אינם נספרים.
+            </div>
+            <div>
+              <strong>מדד רייס (Rice):</strong> |בעד − נגד| / (בעד + נגד) לכל סיעה בכל הצבעה. 1 =
+              הסיעה הצביעה פה אחד, 0 = פיצול שווה. נמנעים אינם נכללים במדד.
+            </div>
+            <div>
+              <strong>הצבעה עם הסיעה:</strong> שיעור ההצבעות שבהן עמדת חבר הכנסת זהה לעמדת רוב
+              סיעתו. סיעות שבהן נכח חבר אחד בלבד אינן נספרות.
+            </div>
+            <div>
+              <strong>הצבעות חריגות בולטות:</strong> הצבעה נגד רוב הסיעה כאשר הסיעה הייתה מלוכדת
+              (מדד רייס 0.5 ומעלה, כלומר לפחות 75% מהמצביעים בעד או נגד הצביעו יחד).
+            </div>
+            <div>
+              <strong>פילוג הצבעה לפי סיעות:</strong> בעמוד כל הצבעה — ספירת בעד / נגד / נמנע / לא
+              נוכח לכל סיעה ולקואליציה ולאופוזיציה, לפי החברות בסיעה ומעמד הסיעה ביום ההצבעה. כשמספר
+              הכנסת ידוע, חברי כנסת שכיהנו באותו יום ואין להם רשומת הצבעה נספרים כלא נוכחים. מפת
+              המושבים מציגה נקודה לכל חבר כנסת, מקובצים לפי סיעה — הקואליציה מימין.
+            </div>
+            <div>
+              <strong>מגבלה:</strong> החישוב מבוסס רק על הצבעות שיש להן רשומות אישיות ב-OData
+              (KNS_PlenumVoteResult). יש להריץ pnpm etl:backfill-votes לטעינתן; הצבעות ללא רשומות
+              אישיות אינן נספרות.
+            </div>
+          </div>
+        </section>
+
+        {/* MK voting similarity */}
+        <section id="similarity" aria-labelledby="similarity-heading">
+          <h2 id="similarity-heading" className="text-2xl font-bold text-neutral-900">
+            דמיון בהצבעות בין חברי כנסת
+          </h2>
+          <div className="card mt-4 space-y-3 p-5 text-sm text-neutral-700">
+            <div>
+              <strong>הצבעות משותפות:</strong> הצבעות מליאה שבהן שני חברי הכנסת נכחו והצביעו בעד,
+              נגד או נמנעו. היעדרות אינה נספרת.
+            </div>
+            <div>
+              <strong>שיעור הסכמה:</strong> אחוז ההצבעות המשותפות שבהן שניהם נקטו אותה עמדה. חבר
+              כנסת מופיע ברשימה אחת בלבד — כשיש מעט זוגות, ברשימת הדומים ביותר.
+            </div>
+            <div>
+              <strong>מגבלות:</strong> החישוב כולל רק חברי כנסת מכהנים, ורק זוגות עם{" "}
+              {MIN_SIMILARITY_OVERLAP} הצבעות משותפות לפחות. הנתון מתאר דפוס הצבעה בלבד ואינו מעיד
+              על קשר פוליטי.
+            </div>
+          </div>
+        </section>
+
+        {/* Plenum participation */}
+        <section id="participation" aria-labelledby="participation-heading">
+          <h2 id="participation-heading" className="text-2xl font-bold text-neutral-900">
+            השתתפות בהצבעות מליאה
+          </h2>
+          <div className="card mt-4 space-y-3 p-5 text-sm text-neutral-700">
+            <div>
+              <strong>מקור:</strong> רשומות אישיות מ-KNS_PlenumVoteResult. קוד 7/11 = בעד, 8 = נגד,
+              9 = נמנע, 6 = נוכח ולא הצביע, 10 = לא נכח. קודים אחרים נספרים כ&quot;לא מסווג&quot;.
+            </div>
+            <div>
+              <strong>שיעור השתתפות:</strong> אחוז ההצבעות המתועדות של חבר/ת הכנסת שבהן הצביע/ה בעד,
+              נגד או נמנע/ה.
+            </div>
+            <div>
+              <strong>שיעור היעדרות ושיעור הימנעות:</strong> אחוז ההצבעות המתועדות שסומנו כ&quot;לא
+              נכח&quot; או כ&quot;נמנע&quot;, בהתאמה. המכנה זהה בשלושת המדדים.
+            </div>
+            <div>
+              <strong>חלוקה לכנסות ולחודשים:</strong> הכנסת נקבעת לפי חברות הסיעה של חבר/ת הכנסת
+              ביום ההצבעה; החודש לפי תאריך ההצבעה.
+            </div>
+            <div>
+              <strong>שפה ניטרלית:</strong> הנתונים מוצגים כשיעורים בלבד, ללא דירוג או תיוג. המקור
+              אינו מתעד סיבות להיעדרות — למשל תפקיד בממשלה, הסכם קיזוז, מחלה או חופשה — ולכן אין
+              להסיק מהם מסקנות על תפקוד.
+            </div>
+          </div>
+        </section>
+
+        {/* Change feed */}
+        <section id="changes" aria-labelledby="changes-heading">
+          <h2 id="changes-heading" className="text-2xl font-bold text-neutral-900">
+            השבוע בכנסת — זיהוי שינויים
+          </h2>
+          <div className="card mt-4 space-y-3 p-5 text-sm text-neutral-700">
+            <div>
+              <strong>מקור:</strong> בכל הרצת עדכון נשמר עותק גולמי (RawSnapshot) של כל רשומה
+              שהתקבלה מ-Knesset OData. כל עותק חדש מושווה לעותק הקודם של אותה רשומה; עותקים זהים
+              מדולגים.
+            </div>
+            <div>
+              <strong>סוגי שינויים:</strong> מעבר סטטוס של הצעת חוק (למשל מדיון בוועדה לקריאה
+              ראשונה), כניסה לתפקיד בממשלה או סיום תפקיד, הצעות חוק, חברי כנסת, סיעות וועדות חדשים
+              במאגר, הצבעות מליאה חדשות, ומעבר סיעה — רשומת חברות חדשה בסיעה שונה מהסיעה הקודמת של
+              חבר/ת הכנסת.
+            </div>
+            <div>
+              <strong>תאריכים:</strong> כל שינוי מתוארך למועד שבו זוהה בהרצת העדכון. כשהמקור מספק
+              תאריך (תאריך הצבעה, תחילת כהונה, עדכון סטטוס) הוא מוצג לצידו.
+            </div>
+            <div>
+              <strong>מגבלות:</strong> שינויים שהתרחשו והתבטלו בין שתי הרצות אינם נראים. ההרצה
+              הראשונה משמשת כבסיס להשוואה ואינה מייצרת שינויים.
+            </div>
+          </div>
+        </section>
+
         {/* Government Roles */}
         <section id="government-roles" aria-labelledby="government-roles-heading">
           <h2 id="government-roles-heading" className="text-2xl font-bold text-neutral-900">
@@ -301,8 +491,9 @@ export default async function MethodologyPage() {
           </p>
           <div className="card mt-4 space-y-3 p-5 text-sm text-neutral-700">
             <div>
-              <strong>מנוע AI:</strong> Gemini 2.0 Flash של Google — דגם מהיר התומך ב-function
-              calling.
+              <strong>מנוע AI:</strong> ברירת המחדל היא Gemini 2.5 Flash של Google. השרת יכול לעבוד
+              גם מול כל שרת התואם ל-API של OpenAI, כולל מודל מקומי (llama.cpp, Ollama). הכלים ולולאת
+              ה-function calling זהים בכל מנוע, ושם המודל שענה מוצג בכל תשובה.
             </div>
             <div>
               <strong>Function Calling — כלים זמינים:</strong>
@@ -331,21 +522,57 @@ export default async function MethodologyPage() {
                   <code className="rounded bg-neutral-100 px-1 font-mono">search_votes</code> —
                   חיפוש הצבעות פרלמנטריות
                 </li>
+                <li>
+                  <code className="rounded bg-neutral-100 px-1 font-mono">search_committees</code> —
+                  ועדות הכנסת וחבריהן
+                </li>
+                <li>
+                  <code className="rounded bg-neutral-100 px-1 font-mono">get_mk_votes</code> — איך
+                  הצביע/ה ח&quot;כ בהצבעות המליאה
+                </li>
+                <li>
+                  <code className="rounded bg-neutral-100 px-1 font-mono">get_bill_detail</code> —
+                  מגישי הצעת חוק, שלביה והצבעות המליאה עליה
+                </li>
+                <li>
+                  <code className="rounded bg-neutral-100 px-1 font-mono">search_statements</code> —
+                  הצהרות פומביות שפורסמו, עם מקור
+                </li>
+                <li>
+                  <code className="rounded bg-neutral-100 px-1 font-mono">
+                    get_party_topic_scores
+                  </code>{" "}
+                  — פעילות החקיקה של סיעה לפי נושא
+                </li>
               </ul>
             </div>
             <div>
-              <strong>שמירת מפתח API:</strong> מפתח ה-Gemini API נשמר בשרת בלבד (Railway) ולעולם
-              אינו נחשף לדפדפן, לתוצאות ה-API, או לקוד הצד-לקוח.
+              <strong>שמירת מפתח API:</strong> מפתח ה-API של ספק המודל נשמר בשרת בלבד (Railway)
+              ולעולם אינו נחשף לדפדפן, לתוצאות ה-API, או לקוד הצד-לקוח.
             </div>
             <div>
               <strong>אי-המצאה:</strong> ה-AI מחויב בהנחיית מערכת להישען אך ורק על תוצאות tool calls
               ממסד הנתונים. אם אין נתונים — התשובה מציינת זאת במפורש.
             </div>
+            <div>
+              <strong>בדיקת טענות:</strong> אחרי שהתשובה נוצרה, כל מספר, תאריך ושם שמופיעים בה (כולל
+              שמות הצעות חוק) נבדקים מול התוצאות שהכלים החזירו באותה שאלה. טענה שלא נמצאה בנתונים
+              אינה נמחקת, אלא המשפט שבו היא מופיעה מסומן בקו מקווקו ובאזהרה. הבדיקה היא התאמה
+              טקסטואלית: היא תופסת מספרים ושמות שהמודל המציא, אך לא פרשנות שגויה של נתון נכון.
+            </div>
+            <div>
+              <strong>שאלות המשך:</strong> בתוך שיחה, השאלות והתשובות הקודמות נשלחות שוב למודל
+              כהקשר, יחד עם רשימת חברי הכנסת, הסיעות והצעות החוק שכבר הוצגו — כך ששאלה כמו
+              &quot;ובאילו ועדות הוא חבר?&quot; מתייחסת לאותו ח&quot;כ. נשמרות רק התשובות האחרונות
+              (עד כ-2,000 טוקנים), והשיחה נמחקת 30 דקות אחרי השאלה האחרונה. &quot;שיחה חדשה&quot;
+              מתחילה ללא הקשר.
+            </div>
             <div className="rounded-md bg-amber-50 p-3 text-amber-800">
               <strong>⚠ מגבלות חשובות:</strong>
               <ul className="mt-1 list-inside list-disc space-y-1">
                 <li>
-                  <strong>פרטיות:</strong> שאלות נשלחות ל-Google Gemini לעיבוד ואינן נשמרות בשרתינו.
+                  <strong>פרטיות:</strong> שאלות נשלחות לספק המודל המוגדר (ברירת מחדל: Google
+                  Gemini) לעיבוד. היסטוריית השיחה נשמרת בשרתינו ל-30 דקות בלבד, ללא פרטים מזהים.
                 </li>
                 <li>
                   <strong>מגבלת קצב:</strong> 10 שאלות לדקה לכתובת IP.
@@ -377,6 +604,11 @@ export default async function MethodologyPage() {
               committee_review, first_reading, second_reading, third_reading, passed, rejected,
               withdrawn, expired, unknown.
             </div>
+            <div>
+              <strong>סוג הצעת חוק:</strong> ממשלתית, פרטית או של ועדה — לפי השדות IsGovernmentBill
+              ו-SubTypeDesc ב-KNS_Bill. הצעת חוק ממשלתית מנוסחת במשרדי הממשלה; חברי הכנסת הרשומים
+              עליה אינם יוזמיה, ולכן היא אינה נזקפת לזכותם בניקוד הסיעות.
+            </div>
             <div>
               <strong>היסטוריית שלבים:</strong> לפי ישות BillHistoryByStage עם StageDate.
             </div>
@@ -386,6 +618,70 @@ export default async function MethodologyPage() {
           </div>
         </section>
 
+        {/* Bill timeline */}
+        <section id="bill-timeline" aria-labelledby="bill-timeline-heading">
+          <h2 id="bill-timeline-heading" className="text-2xl font-bold text-neutral-900">
+            ציר זמן ומשך שלבי חקיקה
+          </h2>
+          <div className="card mt-4 space-y-3 p-5 text-sm text-neutral-700">
+            <div>
+              <strong>שחזור:</strong> ה-OData אינו חושף היסטוריית קריאות, ולכן ציר הזמן של כל הצעת
+              חוק משוחזר משלושה מקורות: תאריך ההגשה, שינויי הסטטוס בין תמונות מצב (snapshots) של
+              KNS_Bill בסנכרונים עוקבים — מתוארכים לפי LastUpdatedDate — ושורות היסטוריית שלבים,
+              כשהן קיימות.
+            </div>
+            <div>
+              <strong>משך שלב:</strong> מספר הימים השלמים מתחילת השלב ועד תחילת השלב הבא. בשלב
+              הנוכחי — עד יום החישוב. בשלב סופי (אושרה, נדחתה, הוסרה) אין ספירת ימים.
+            </div>
+            <div>
+              <strong>סטטיסטיקות:</strong> חציון הימים מהגשה לקריאה ראשונה ומהגשה לאישור, לפי סוג
+              הצעת החוק (ממשלתית, פרטית, ועדה) ולפי הוועדה המטפלת — הוועדה האחרונה שמופיעה
+              בהיסטוריית השלבים. הצעות שטרם הגיעו לאבן הדרך אינן נכללות בחציון שלה; משך שלב מחושב רק
+              לשלבים שהסתיימו.
+            </div>
+            <div>
+              <strong>מגבלות:</strong> שלבים שהצעת חוק עברה בין שני סנכרונים אינם נראים, ותאריכי
+              תחילת שלב משוערים. היסטוריה קיימת רק מהסנכרון הראשון ואילך.
+            </div>
+          </div>
+        </section>
+
+        <section id="vote-bill-links" aria-labelledby="vote-bill-links-heading">
+          <h2 id="vote-bill-links-heading" className="text-2xl font-bold text-neutral-900">
+            שיוך הצבעות להצעות חוק
+          </h2>
+          <div className="card mt-4 space-y-3 p-5 text-sm text-neutral-700">
+            <div>
+              נתוני ההצבעות במליאה (KNS_PlenumVote) אינם כוללים מזהה הצעת חוק, ולכן השיוך נעשה
+              אוטומטית אחרי כל סנכרון הצבעות:
+            </div>
+            <ul className="list-disc space-y-1 pr-5">
+              <li>
+                <strong>ביטחון גבוה</strong> — מזהה נושא סדר היום של ההצבעה (ItemID) זהה למזהה הצעת
+                החוק, וכותרת ההצבעה עוסקת בחוק.
+              </li>
+              <li>
+                <strong>ביטחון בינוני</strong> — אין התאמת מזהה, אך כותרת ההצבעה, לאחר נרמול (הסרת
+                ניקוד, פיסוק וציון הקריאה), זהה לכותרת של הצעת חוק אחת בלבד.
+              </li>
+              <li>
+                <strong>ביטחון נמוך</strong> — כמה הצעות חוק נושאות אותה כותרת (נפוץ בהצעות פרטיות
+                זהות); נבחרת האחרונה שהוגשה עד יום ההצבעה.
+              </li>
+            </ul>
+            <div>
+              <strong>קריאה:</strong> סוג הקריאה (טרומית, ראשונה, שנייה ושלישית) מזוהה מנוסח כותרת
+              ההצבעה. כשהנוסח אינו מציין קריאה, מוצגת כותרת ההצבעה המלאה.
+            </div>
+            <div>
+              <strong>מגבלות:</strong> הצבעות על הסתייגויות ועל סעיפים בודדים עשויות לא להיות
+              משויכות. שיוך בביטחון בינוני או נמוך מסומן בדף הצעת החוק ויש לאמת אותו מול פרוטוקול
+              המליאה.
+            </div>
+          </div>
+        </section>
+
         {/* Topic Classification */}
         <section id="topic-classification" aria-labelledby="topic-heading">
           <h2 id="topic-heading" className="text-2xl font-bold text-neutral-900">
@@ -424,6 +720,20 @@ export default async function MethodologyPage() {
               <strong>קישור לפעילות:</strong> ניתן לקשר הצהרה להצעת חוק ספציפית עם שדה match_type
               (manual/auto_keyword) ורמת ביטחון.
             </p>
+            <p>
+              <strong>הצעות אוטומטיות:</strong> תהליך התאמה מציע הצעות חוק שהגישו חבר הכנסת או חברי
+              סיעתו, והצבעות שבהן השתתפו באותו נושא, לאחר מועד ההצהרה. רמת הביטחון נקבעת לפי התאמת
+              הנושא ושיעור המילים מההצהרה שמופיעות בטקסט: גבוהה — אותו נושא ולפחות 30% מהמילים;
+              בינונית — אותו נושא ו-15%, או 30% ללא התאמת נושא (הצעות חוק בלבד); נמוכה — אותו נושא
+              בלבד. הצעות אוטומטיות אינן מוצגות לציבור עד שעורך מאשר אותן, והתאמות ידניות אינן
+              משתנות לעולם.
+            </p>
+            <p>
+              <strong>תהליך עריכה:</strong> כל עורך מתנדב מקבל מפתח API אישי עם הרשאה (צפייה, עריכה
+              או ניהול). הצהרה חדשה נשמרת כטיוטה ומתפרסמת רק לאחר שעורך אחר בדק ופרסם אותה. כל
+              יצירה, עריכה, פרסום, מחיקה ואישור התאמה נרשמים ביומן ביקורת שאינו ניתן לשינוי או
+              למחיקה.
+            </p>
           </div>
         </section>
 
@@ -544,6 +854,10 @@ export default async function MethodologyPage() {
               <strong>ציון גולמי per סיעה/נושא:</strong>{" "}
               <code className="font-mono">Σ ניקוד_סטטוס × מכפיל_תפקיד</code> עבור כל הצ"ח.
             </p>
+            <p>
+              <strong>הצעות חוק ממשלתיות:</strong> אינן נכללות בציון הגולמי של חברי הכנסת. הניקוד
+              שלהן נזקף בנפרד לכל סיעות הקואליציה ביום הגשתן, ואינו משמש לדירוג.
+            </p>
             <p>
               <strong>נרמול Min-Max per נושא:</strong> כל ציון מנורמל ל-0–1 יחסית לכל הסיעות
               הפעילות. סיעה עם ציון מקסימלי מקבלת 1.0.
@@ -1,7 +1,7 @@
 import type { Metadata } from "next";
 import Link from "next/link";
 import { notFound } from "next/navigation";
-import { apiFetch } from "@/lib/api";
+import { apiFetch, feedAlternates } from "@/lib/api";
 import { SourceBadge } from "@/components/shared/SourceBadge";
 import { ConfidenceBadge } from "@/components/shared/ConfidenceBadge";
 import { DemoBanner } from "@/components/shared/DemoBanner";
@@ -12,8 +12,9 @@ import { TopicBreakdownChart } from "@/components/mk/TopicBreakdownChart";
 import { CommitteeList } from "@/components/mk/CommitteeList";
 import { AgendaCard } from "@/components/mk/AgendaCard";
 import { RecentBillsList } from "@/components/mk/RecentBillsList";
+import { SimilarMKsCard } from "@/components/mk/SimilarMKsCard";
 import { formatDate, formatDateShort } from "@/lib/utils";
-import type { MKDetail } from "@knesset-vote/shared";
+import type { MKDetail, MKParticipation, MKSimilarity } from "@knesset-vote/shared";
 import { AskAiButton } from "@/components/shared/AskAiButton";
 
 interface MKDetailResponse {
@@ -30,17 +31,44 @@ async function getMK(id: string): Promise<(MKDetail & { is_demo?: boolean }) | n
   }
 }
 
+async function getSimilarMKs(id: string): Promise<MKSimilarity | null> {
+  try {
+    const res = await apiFetch<{ data: MKSimilarity }>(`/api/mks/${id}/similar?limit=5`);
+    return res.data;
+  } catch {
+    return null;
+  }
+}
+
+async function getParticipation(id: string): Promise<MKParticipation | null> {
+  try {
+    const res = await apiFetch<{ data: MKParticipation }>(`/api/mks/${id}/participation`);
+    return res.data;
+  } catch {
+    return null;
+  }
+}
+
+function formatPct(value: number | null | undefined): string | null {
+  return value === null || value === undefined ? null : `${value}%`;
+}
+
 export async function generateMetadata({ params }: { params: { id: string } }): Promise<Metadata> {
   const mk = await getMK(params.id);
   if (!mk) return { title: "חבר כנסת לא נמצא" };
   return {
     title: mk.name_he,
     description: `פרופיל ${mk.name_he} — ${mk.current_party_name ?? 'ח"כ'}`,
+    alternates: { types: feedAlternates(`mks/${mk.id}`, `${mk.name_he} — פעילות פרלמנטרית`) },
   };
 }
 
 export default async function MKPage({ params }: { params: { id: string } }) {
-  const mk = await getMK(params.id);
+  const [mk, similarity, participation] = await Promise.all([
+    getMK(params.id),
+    getSimilarMKs(params.id),
+    getParticipation(params.id),
+  ]);
   if (!mk) notFound();
 
   const metrics = mk.activity_metrics;
@@ -202,6 +230,98 @@ export default async function MKPage({ params }: { params: { id: string } }) {
         )}
       </section>
 
+      {/* Plenum participation */}
+      <section className="mb-8" aria-labelledby="participation-heading">
+        <h2 id="participation-heading" className="mb-4 text-xl font-semibold text-neutral-900">
+          השתתפות בהצבעות מליאה
+        </h2>
+        <div className="grid gap-4 sm:grid-cols-3">
+          <MetricCard
+            label="שיעור השתתפות"
+            value={formatPct(participation?.overall?.participation_pct)}
+            tooltip="אחוז ההצבעות המתועדות שבהן חבר/ת הכנסת הצביע/ה בעד, נגד או נמנע/ה — לפי KNS_PlenumVoteResult"
+            confidence={participation?.overall ? "medium" : "unavailable"}
+          />
+          <MetricCard
+            label="שיעור היעדרות"
+            value={formatPct(participation?.overall?.absence_pct)}
+            tooltip="אחוז ההצבעות המתועדות שבהן חבר/ת הכנסת סומנ/ה כלא נוכח/ת. המקור אינו מציין סיבות היעדרות."
+            confidence={participation?.overall ? "medium" : "unavailable"}
+          />
+          <MetricCard
+            label="שיעור הימנעות"
+            value={formatPct(participation?.overall?.abstention_pct)}
+            tooltip="אחוז ההצבעות המתועדות שבהן חבר/ת הכנסת הצביע/ה נמנע/ת"
+            confidence={participation?.overall ? "medium" : "unavailable"}
+          />
+        </div>
+
+        {participation && participation.by_term.length > 0 && (
+          <div className="card mt-4 overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-neutral-50 text-left">
+                <tr>
+                  <th className="px-4 py-3 font-medium text-neutral-700">כנסת</th>
+                  <th className="px-4 py-3 font-medium text-neutral-700">הצבעות מתועדות</th>
+                  <th className="px-4 py-3 font-medium text-neutral-700">השתתפות</th>
+                  <th className="px-4 py-3 font-medium text-neutral-700">היעדרות</th>
+                  <th className="px-4 py-3 font-medium text-neutral-700">הימנעות</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-100">
+                {participation.by_term.map((t) => (
+                  <tr key={t.period}>
+                    <td className="px-4 py-3 font-medium text-neutral-800">{t.period}</td>
+                    <td className="px-4 py-3 text-neutral-500">{t.total_votes}</td>
+                    <td className="px-4 py-3 text-neutral-500">
+                      {formatPct(t.participation_pct) ?? "—"}
+                    </td>
+                    <td className="px-4 py-3 text-neutral-500">
+                      {formatPct(t.absence_pct) ?? "—"}
+                    </td>
+                    <td className="px-4 py-3 text-neutral-500">
+                      {formatPct(t.abstention_pct) ?? "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {participation && participation.by_month.length > 0 && (
+          <details className="group mt-3">
+            <summary className="cursor-pointer select-none text-xs font-medium text-neutral-500 hover:text-neutral-700">
+              ▸ פירוט חודשי (12 החודשים האחרונים עם הצבעות)
+            </summary>
+            <ul className="mt-2 grid gap-1 text-xs text-neutral-600 sm:grid-cols-2">
+              {participation.by_month
+                .slice(-12)
+                .reverse()
+                .map((m) => (
+                  <li
+                    key={m.period}
+                    className="flex justify-between rounded bg-neutral-50 px-3 py-1.5"
+                  >
+                    <span className="font-medium">{m.period}</span>
+                    <span>
+                      השתתפות {formatPct(m.participation_pct) ?? "—"} · היעדרות{" "}
+                      {formatPct(m.absence_pct) ?? "—"} · {m.total_votes} הצבעות
+                    </span>
+                  </li>
+                ))}
+            </ul>
+          </details>
+        )}
+
+        <p className="mt-2 text-xs text-neutral-400">
+          היעדרות עשויה לנבוע מתפקיד שר/ה, הסכם קיזוז או חופשה — המקור אינו מתעד סיבות • ראו{" "}
+          <Link href="/methodology#participation" className="underline">
+            מתודולוגיה
+          </Link>
+        </p>
+      </section>
+
       {/* Faction history */}
       {mk.memberships.length > 0 && (
         <section className="mb-8" aria-labelledby="memberships-heading">
@@ -332,6 +452,16 @@ export default async function MKPage({ params }: { params: { id: string } }) {
         </section>
       )}
 
+      {/* Voting similarity */}
+      {similarity && similarity.most_similar.length > 0 && (
+        <section className="mb-8" aria-labelledby="similarity-heading">
+          <h2 id="similarity-heading" className="mb-4 text-xl font-semibold text-neutral-900">
+            דמיון בהצבעות
+          </h2>
+          <SimilarMKsCard similarity={similarity} />
+        </section>
+      )}
+
       {/* Recent bills */}
       <RecentBillsList bills={mk.recent_bills} mkId={mk.id} />
     </div>
@@ -4,6 +4,7 @@ import { apiFetch } from "@/lib/api";
 import { SourceBadge } from "@/components/shared/SourceBadge";
 import { DemoBanner } from "@/components/shared/DemoBanner";
 import { AdSlot } from "@/components/shared/AdSlot";
+import { CURRENT_KNESSET_NUMBER } from "@knesset-vote/shared";
 import type { MK } from "@knesset-vote/shared";
 
 export const metadata: Metadata = {
@@ -32,6 +33,8 @@ async function getMKs(opts: {
   coalition?: string;
   gender?: string;
   role?: string;
+  sort?: string;
+  knesset?: string;
 }): Promise<MKsResponse | null> {
   try {
     const params = new URLSearchParams();
@@ -40,9 +43,15 @@ async function getMKs(opts: {
     if (opts.coalition) params.set("coalition", opts.coalition);
     if (opts.gender) params.set("gender", opts.gender);
     if (opts.role) params.set("role", opts.role);
+    if (opts.sort) params.set("sort", opts.sort);
     params.set("limit", "200");
-    params.set("is_current", "true");
-    params.set("knesset_number", "25");
+    // A past term lists everyone who served in it; the current one only sitting MKs
+    if (opts.knesset) {
+      params.set("knesset", opts.knesset);
+    } else {
+      params.set("is_current", "true");
+      params.set("knesset", String(CURRENT_KNESSET_NUMBER));
+    }
     return await apiFetch<MKsResponse>(`/api/mks?${params.toString()}`);
   } catch {
     return null;
@@ -90,14 +99,18 @@ export default async function MKsPage({
     coalition?: string;
     gender?: string;
     role?: string;
+    sort?: string;
+    knesset?: string;
   };
 }) {
-  const { search, party_id, coalition, gender, role } = searchParams;
-  const response = await getMKs({ search, party_id, coalition, gender, role });
+  const { search, party_id, coalition, gender, role, sort, knesset } = searchParams;
+  const response = await getMKs({ search, party_id, coalition, gender, role, sort, knesset });
   const mks = response?.data ?? [];
   const hasDemo = mks.some((m) => m.is_demo);
 
   const hasFilters = !!(search || party_id || coalition || gender || role);
+  // Coalition status is resolved for today, so it only applies to the current term
+  const isPastTerm = !!knesset && Number(knesset) !== CURRENT_KNESSET_NUMBER;
 
   // Build a URLSearchParams from current filters (excluding search — handled by form)
   const filterParams = new URLSearchParams();
@@ -106,14 +119,17 @@ export default async function MKsPage({
   if (coalition) filterParams.set("coalition", coalition);
   if (gender) filterParams.set("gender", gender);
   if (role) filterParams.set("role", role);
+  if (sort) filterParams.set("sort", sort);
+  if (knesset) filterParams.set("knesset", knesset);
 
   return (
     <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
       <div className="mb-6">
         <h1 className="text-3xl font-bold text-neutral-900">חברי הכנסת</h1>
         <p className="mt-2 text-neutral-600">
-          {mks.length} חברי כנסת{hasFilters ? " (מסוננים)" : " נוכחיים"} • כנסת 25 • נתונים
-          מ-Knesset OData
+          {mks.length} חברי כנסת
+          {hasFilters ? " (מסוננים)" : isPastTerm ? " שכיהנו" : " נוכחיים"} • כנסת{" "}
+          {knesset ?? CURRENT_KNESSET_NUMBER} • נתונים מ-Knesset OData
         </p>
       </div>
 
@@ -126,6 +142,8 @@ export default async function MKsPage({
         {gender && <input type="hidden" name="gender" value={gender} />}
         {role && <input type="hidden" name="role" value={role} />}
         {party_id && <input type="hidden" name="party_id" value={party_id} />}
+        {sort && <input type="hidden" name="sort" value={sort} />}
+        {knesset && <input type="hidden" name="knesset" value={knesset} />}
 
         <label htmlFor="mk-search" className="sr-only">
           חיפוש חבר כנסת
@@ -146,7 +164,7 @@ export default async function MKsPage({
         </button>
         {hasFilters && (
           <Link
-            href="/mks"
+            href={knesset ? `/mks?knesset=${knesset}` : "/mks"}
             className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
           >
             נקה הכל
@@ -161,22 +179,26 @@ export default async function MKsPage({
         </span>
 
         {/* Coalition */}
-        <FilterChip
-          label="🔵 קואליציה"
-          param="coalition"
-          value="coalition"
-          current={coalition}
-          baseHref="/mks"
-          currentParams={filterParams}
-        />
-        <FilterChip
-          label="🟠 אופוזיציה"
-          param="coalition"
-          value="opposition"
-          current={coalition}
-          baseHref="/mks"
-          currentParams={filterParams}
-        />
+        {!isPastTerm && (
+          <>
+            <FilterChip
+              label="🔵 קואליציה"
+              param="coalition"
+              value="coalition"
+              current={coalition}
+              baseHref="/mks"
+              currentParams={filterParams}
+            />
+            <FilterChip
+              label="🟠 אופוזיציה"
+              param="coalition"
+              value="opposition"
+              current={coalition}
+              baseHref="/mks"
+              currentParams={filterParams}
+            />
+          </>
+        )}
 
         {/* Gender */}
         <FilterChip
@@ -213,6 +235,19 @@ export default async function MKsPage({
           baseHref="/mks"
           currentParams={filterParams}
         />
+
+        {/* Sort */}
+        <span className="py-1 pr-2 text-xs font-semibold uppercase tracking-wide text-neutral-400">
+          מיון:
+        </span>
+        <FilterChip
+          label="שיעור השתתפות בהצבעות"
+          param="sort"
+          value="participation"
+          current={sort}
+          baseHref="/mks"
+          currentParams={filterParams}
+        />
       </div>
 
       {mks.length === 0 ? (
@@ -290,6 +325,17 @@ export default async function MKsPage({
                     )}
                     <SourceBadge sources={mk.sources} compact />
                   </div>
+
+                  {sort === "participation" && (
+                    <p className="mt-1 text-xs text-neutral-500">
+                      השתתפות בהצבעות:{" "}
+                      <strong className="text-neutral-700">
+                        {mk.participation_pct != null
+                          ? `${mk.participation_pct}%`
+                          : "לא זמין ממקור"}
+                      </strong>
+                    </p>
+                  )}
                 </div>
               </Link>
             ))}
@@ -1,7 +1,7 @@
 import type { Metadata } from "next";
 import Link from "next/link";
 import { notFound } from "next/navigation";
-import { apiFetch } from "@/lib/api";
+import { apiFetch, feedAlternates } from "@/lib/api";
 import { SourceBadge } from "@/components/shared/SourceBadge";
 import { DemoBanner } from "@/components/shared/DemoBanner";
 import { MetricCard } from "@/components/shared/MetricCard";
@@ -29,6 +29,7 @@ export async function generateMetadata({ params }: { params: { id: string } }):
   return {
     title: party.name_he,
     description: `פרופיל סיעת ${party.name_he} בכנסת ישראל`,
+    alternates: { types: feedAlternates(`parties/${party.id}`, `${party.name_he} — הצעות חוק`) },
   };
 }
 
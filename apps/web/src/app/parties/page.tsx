@@ -3,6 +3,7 @@ import Link from "next/link";
 import { apiFetch } from "@/lib/api";
 import { SourceBadge } from "@/components/shared/SourceBadge";
 import { DemoBanner } from "@/components/shared/DemoBanner";
+import { CURRENT_KNESSET_NUMBER } from "@knesset-vote/shared";
 import type { Party } from "@knesset-vote/shared";
 
 export const metadata: Metadata = {
@@ -31,10 +32,11 @@ interface FactionGroup {
   all: PartyWithCoalition[]; // sorted desc by knesset_number
 }
 
-async function getParties(search?: string): Promise<PartiesResponse | null> {
+async function getParties(search?: string, knesset?: string): Promise<PartiesResponse | null> {
   try {
     const params = new URLSearchParams();
     if (search) params.set("search", search);
+    if (knesset) params.set("knesset", knesset);
     params.set("limit", "100");
 
     const first = await apiFetch<PartiesResponse>(`/api/parties?${params.toString()}`);
@@ -100,10 +102,12 @@ function groupByFaction(parties: PartyWithCoalition[]): FactionGroup[] {
 export default async function PartiesPage({
   searchParams,
 }: {
-  searchParams: { search?: string; bloc?: string };
+  searchParams: { search?: string; bloc?: string; knesset?: string };
 }) {
-  const { search, bloc } = searchParams;
-  const response = await getParties(search);
+  const { search, bloc, knesset } = searchParams;
+  const response = await getParties(search, knesset);
+  const term = knesset ? Number(knesset) : CURRENT_KNESSET_NUMBER;
+  const isCurrentTerm = term === CURRENT_KNESSET_NUMBER;
   const allParties = (response?.data ?? []) as PartyWithCoalition[];
 
   const hasDemo = allParties.some((p) => p.is_demo);
@@ -116,18 +120,17 @@ export default async function PartiesPage({
     groups = groups.filter((g) => g.coalition_status === "opposition");
   }
 
-  // Separate factions that appear in Knesset 25 from purely historical ones
-  const currentGroups = groups.filter(
-    (g) => g.current?.knesset_number === 25 || (g.current?.knesset_number ?? 0) >= 25,
-  );
-  const historicalGroups = groups.filter((g) => (g.current?.knesset_number ?? 0) < 25);
+  // Separate factions that appear in the selected term from purely historical ones
+  const currentGroups = groups.filter((g) => (g.current?.knesset_number ?? 0) >= term);
+  const historicalGroups = groups.filter((g) => (g.current?.knesset_number ?? 0) < term);
 
   return (
     <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-neutral-900">סיעות הכנסת</h1>
         <p className="mt-2 text-neutral-600">
-          {currentGroups.length} סיעות פעילות בכנסת 25 • נתונים מ-Knesset OData
+          {currentGroups.length} סיעות{isCurrentTerm ? " פעילות" : ""} בכנסת {term} • נתונים
+          מ-Knesset OData
         </p>
       </div>
 
@@ -135,6 +138,7 @@ export default async function PartiesPage({
 
       {/* Search + bloc filter */}
       <form className="mb-6 flex flex-wrap gap-2" method="get">
+        {knesset && <input type="hidden" name="knesset" value={knesset} />}
         <label htmlFor="party-search" className="sr-only">
           חיפוש סיעה
         </label>
@@ -163,7 +167,7 @@ export default async function PartiesPage({
         </button>
         {(search || bloc) && (
           <Link
-            href="/parties"
+            href={knesset ? `/parties?knesset=${knesset}` : "/parties"}
             className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
           >
             נקה
@@ -183,7 +187,7 @@ export default async function PartiesPage({
         </div>
       ) : (
         <>
-          {/* Current Knesset 25 factions */}
+          {/* Factions of the selected term */}
           <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
             {currentGroups.map((group) => (
               <FactionCard key={group.name_he} group={group} />
@@ -198,7 +202,7 @@ export default async function PartiesPage({
                   <span className="text-sm font-medium text-neutral-600">
                     סיעות היסטוריות ({historicalGroups.length})
                   </span>
-                  <span className="text-xs text-neutral-400">— לא מיוצגות בכנסת 25</span>
+                  <span className="text-xs text-neutral-400">— לא מיוצגות בכנסת {term}</span>
                   <span className="mr-auto text-neutral-400 transition-transform group-open:rotate-180">
                     ▼
                   </span>
@@ -1,44 +1,123 @@
 import type { Metadata } from "next";
 import Link from "next/link";
 import { Search } from "lucide-react";
-import { apiFetch } from "@/lib/api";
-import { BillStatusBadge } from "@/components/shared/BillStatusBadge";
+import { apiFetch, buildApiUrl } from "@/lib/api";
 import { AdSlot } from "@/components/shared/AdSlot";
-import type { MK, Bill, Party } from "@knesset-vote/shared";
+import { HighlightSnippet } from "@/components/shared/HighlightSnippet";
+import { cn } from "@/lib/utils";
+import {
+  BILL_STATUS_LABELS_HE,
+  BILL_TOPIC_LABELS_HE,
+  type SearchEntityType,
+  type SearchFacets,
+  type SearchResult,
+} from "@knesset-vote/shared";
 
 export const metadata: Metadata = {
   title: "חיפוש",
-  description: "חפשו חברי כנסת, סיעות והצעות חוק",
+  description: "חפשו חברי כנסת, סיעות, הצעות חוק, הצבעות וועדות",
 };
 
-interface SearchResults {
-  mks: MK[];
-  parties: Party[];
-  bills: Bill[];
+interface SearchResponse {
+  data: SearchResult[];
+  total: number;
+  facets: SearchFacets;
+  page: number;
+  pages: number;
 }
 
-async function search(q: string): Promise<SearchResults> {
-  if (!q || q.trim().length < 2) return { mks: [], parties: [], bills: [] };
+type SearchParams = {
+  q?: string;
+  type?: string;
+  topic?: string;
+  status?: string;
+  knesset?: string;
+  page?: string;
+};
+
+const TYPE_LABELS: Record<SearchEntityType, string> = {
+  mk: "חברי כנסת",
+  party: "סיעות",
+  bill: "הצעות חוק",
+  vote: "הצבעות",
+  committee: "ועדות",
+};
+
+const TYPE_BADGES: Record<SearchEntityType, string> = {
+  mk: 'ח"כ',
+  party: "סיעה",
+  bill: "הצעת חוק",
+  vote: "הצבעה",
+  committee: "ועדה",
+};
+
+async function search(params: SearchParams): Promise<SearchResponse | null> {
+  try {
+    return await apiFetch<SearchResponse>(
+      buildApiUrl("/api/search", { ...params, q: params.q?.trim(), limit: 20 }),
+    );
+  } catch {
+    return null;
+  }
+}
 
-  const [mksRes, partiesRes, billsRes] = await Promise.allSettled([
-    apiFetch<{ data: MK[] }>(`/api/mks?search=${encodeURIComponent(q)}&limit=5`),
-    apiFetch<{ data: Party[] }>(`/api/parties?search=${encodeURIComponent(q)}&limit=5`),
-    apiFetch<{ data: Bill[] }>(`/api/bills?search=${encodeURIComponent(q)}&limit=5`),
-  ]);
+/** Link to the search page with `changes` applied; filter changes go back to page 1 */
+function searchHref(params: SearchParams, changes: Partial<SearchParams>): string {
+  const next: SearchParams = { ...params, page: undefined, ...changes };
+  return buildApiUrl("/search", next);
+}
 
-  return {
-    mks: mksRes.status === "fulfilled" ? (mksRes.value.data ?? []) : [],
-    parties: partiesRes.status === "fulfilled" ? (partiesRes.value.data ?? []) : [],
-    bills: billsRes.status === "fulfilled" ? (billsRes.value.data ?? []) : [],
-  };
+function FacetChips({
+  label,
+  buckets,
+  selected,
+  hrefFor,
+  format,
+}: {
+  label: string;
+  buckets: { value: string | number; count: number }[];
+  selected: string | undefined;
+  hrefFor: (value: string | undefined) => string;
+  format: (value: string) => string;
+}) {
+  if (buckets.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium text-neutral-500">{label}:</span>
+      {buckets.map(({ value, count }) => {
+        const v = String(value);
+        const active = selected === v;
+        return (
+          <Link
+            key={v}
+            href={hrefFor(active ? undefined : v)}
+            className={cn(
+              "rounded-full border px-3 py-1 text-sm transition-colors",
+              active
+                ? "border-brand-600 bg-brand-600 text-white"
+                : "border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-50",
+            )}
+            aria-pressed={active}
+          >
+            {format(v)}{" "}
+            <span className={active ? "text-white/80" : "text-neutral-400"}>{count}</span>
+          </Link>
+        );
+      })}
+    </div>
+  );
 }
 
-export default async function SearchPage({ searchParams }: { searchParams: { q?: string } }) {
+export default async function SearchPage({ searchParams }: { searchParams: SearchParams }) {
   const q = searchParams.q?.trim() ?? "";
-  const results = await search(q);
-  const hasResults =
-    results.mks.length > 0 || results.parties.length > 0 || results.bills.length > 0;
   const searched = q.length >= 2;
+  const currentPage = Number(searchParams.page ?? 1);
+  const response = searched ? await search(searchParams) : null;
+  const results = response?.data ?? [];
+  const facets = response?.facets;
+  const filtered = Boolean(
+    searchParams.type || searchParams.topic || searchParams.status || searchParams.knesset,
+  );
 
   return (
     <div className="mx-auto max-w-3xl px-4 py-8 sm:px-6 lg:px-8">
@@ -71,121 +150,115 @@ export default async function SearchPage({ searchParams }: { searchParams: { q?:
         </form>
       </div>
 
+      {/* Facet chips */}
+      {facets && (
+        <div className="mb-6 space-y-2">
+          <FacetChips
+            label="סוג"
+            buckets={facets.type}
+            selected={searchParams.type}
+            hrefFor={(type) => searchHref(searchParams, { type })}
+            format={(v) => TYPE_LABELS[v as SearchEntityType] ?? v}
+          />
+          <FacetChips
+            label="נושא"
+            buckets={facets.topic}
+            selected={searchParams.topic}
+            hrefFor={(topic) => searchHref(searchParams, { topic })}
+            format={(v) => BILL_TOPIC_LABELS_HE[v] ?? v}
+          />
+          <FacetChips
+            label="מצב"
+            buckets={facets.status}
+            selected={searchParams.status}
+            hrefFor={(status) => searchHref(searchParams, { status })}
+            format={(v) => BILL_STATUS_LABELS_HE[v as keyof typeof BILL_STATUS_LABELS_HE] ?? v}
+          />
+          <FacetChips
+            label="כנסת"
+            buckets={facets.knesset}
+            selected={searchParams.knesset}
+            hrefFor={(knesset) => searchHref(searchParams, { knesset })}
+            format={(v) => `כנסת ${v}`}
+          />
+          {filtered && (
+            <Link
+              href={searchHref({ q }, {})}
+              className="text-brand-600 inline-block text-sm hover:underline"
+            >
+              נקה סינון
+            </Link>
+          )}
+        </div>
+      )}
+
       {/* Ad above results */}
-      {searched && hasResults && (
+      {results.length > 0 && (
         <AdSlot slot={process.env.NEXT_PUBLIC_ADSENSE_SLOT_SEARCH} className="mb-2" />
       )}
 
       {/* Results */}
       {!searched ? (
         <p className="text-center text-neutral-500">הכניסו לפחות 2 תווים לחיפוש</p>
-      ) : !hasResults ? (
+      ) : results.length === 0 ? (
         <div className="card p-12 text-center">
           <p className="text-lg text-neutral-500">לא נמצאו תוצאות עבור &ldquo;{q}&rdquo;</p>
           <p className="mt-2 text-sm text-neutral-400">נסו מילת חיפוש אחרת</p>
         </div>
       ) : (
-        <div className="space-y-8">
-          {/* MKs */}
-          {results.mks.length > 0 && (
-            <section>
-              <h2 className="mb-3 text-lg font-semibold text-neutral-900">
-                חברי כנסת ({results.mks.length})
-              </h2>
-              <div className="space-y-2">
-                {results.mks.map((mk) => (
-                  <Link
-                    key={mk.id}
-                    href={`/mks/${mk.id}`}
-                    className="card flex items-center gap-3 p-4 transition-shadow hover:shadow-md"
-                  >
-                    <div className="bg-brand-100 text-brand-700 flex h-10 w-10 shrink-0 items-center justify-center rounded-full text-sm font-semibold">
-                      {mk.name_he.charAt(0)}
-                    </div>
-                    <div>
-                      <p className="font-medium text-neutral-900">{mk.name_he}</p>
-                      {mk.current_party_name && (
-                        <p className="text-sm text-neutral-500">{mk.current_party_name}</p>
-                      )}
-                    </div>
-                  </Link>
-                ))}
-              </div>
-              <Link
-                href={`/mks?search=${encodeURIComponent(q)}`}
-                className="text-brand-600 mt-2 inline-block text-sm hover:underline"
-              >
-                כל התוצאות ב-חברי כנסת ←
-              </Link>
-            </section>
-          )}
-
-          {/* Parties */}
-          {results.parties.length > 0 && (
-            <section>
-              <h2 className="mb-3 text-lg font-semibold text-neutral-900">
-                סיעות ({results.parties.length})
-              </h2>
-              <div className="space-y-2">
-                {results.parties.map((party) => (
-                  <Link
-                    key={party.id}
-                    href={`/parties/${party.id}`}
-                    className="card flex items-center gap-3 p-4 transition-shadow hover:shadow-md"
-                  >
-                    <div className="bg-brand-100 text-brand-700 flex h-10 w-10 shrink-0 items-center justify-center rounded-full text-lg">
-                      🏛
-                    </div>
-                    <div>
-                      <p className="font-medium text-neutral-900">{party.name_he}</p>
-                      {party.knesset_number && (
-                        <p className="text-sm text-neutral-500">כנסת {party.knesset_number}</p>
-                      )}
-                    </div>
-                  </Link>
-                ))}
-              </div>
+        <>
+          <p className="mb-3 text-sm text-neutral-500">{response?.total ?? 0} תוצאות</p>
+          <div className="space-y-2">
+            {results.map((result) => (
               <Link
-                href={`/parties?search=${encodeURIComponent(q)}`}
-                className="text-brand-600 mt-2 inline-block text-sm hover:underline"
+                key={`${result.type}-${result.id}`}
+                href={result.url}
+                className="card block p-4 transition-shadow hover:shadow-md"
               >
-                כל התוצאות ב-סיעות ←
+                <div className="flex items-center gap-2">
+                  <span className="badge bg-neutral-100 text-neutral-600">
+                    {TYPE_BADGES[result.type]}
+                  </span>
+                  <p className="font-medium text-neutral-900">{result.title}</p>
+                </div>
+                {result.subtitle && (
+                  <p className="mt-1 text-sm text-neutral-500">{result.subtitle}</p>
+                )}
+                {result.highlight.some((seg) => seg.match) && (
+                  <HighlightSnippet
+                    segments={result.highlight}
+                    className="mt-1 line-clamp-2 text-sm"
+                  />
+                )}
               </Link>
-            </section>
-          )}
+            ))}
+          </div>
 
-          {/* Bills */}
-          {results.bills.length > 0 && (
-            <section>
-              <h2 className="mb-3 text-lg font-semibold text-neutral-900">
-                הצעות חוק ({results.bills.length})
-              </h2>
-              <div className="space-y-2">
-                {results.bills.map((bill) => (
-                  <Link
-                    key={bill.id}
-                    href={`/bills/${bill.id}`}
-                    className="card block p-4 transition-shadow hover:shadow-md"
-                  >
-                    <p className="font-medium text-neutral-900">{bill.title_he}</p>
-                    <div className="mt-1 flex items-center gap-2">
-                      <BillStatusBadge status={bill.status ?? "unknown"} />
-                      {bill.knesset_number && (
-                        <span className="text-xs text-neutral-400">כנסת {bill.knesset_number}</span>
-                      )}
-                    </div>
-                  </Link>
-                ))}
-              </div>
-              <Link
-                href={`/bills?search=${encodeURIComponent(q)}`}
-                className="text-brand-600 mt-2 inline-block text-sm hover:underline"
-              >
-                כל התוצאות ב-הצעות חוק ←
-              </Link>
-            </section>
+          {/* Pagination */}
+          {response && response.pages > 1 && (
+            <div className="mt-6 flex items-center justify-center gap-3">
+              {currentPage > 1 && (
+                <Link
+                  href={searchHref(searchParams, { page: String(currentPage - 1) })}
+                  className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
+                >
+                  ← הקודם
+                </Link>
+              )}
+              <span className="text-sm text-neutral-500">
+                עמוד {currentPage} מתוך {response.pages}
+              </span>
+              {currentPage < response.pages && (
+                <Link
+                  href={searchHref(searchParams, { page: String(currentPage + 1) })}
+                  className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
+                >
+                  הבא →
+                </Link>
+              )}
+            </div>
           )}
-        </div>
+        </>
       )}
     </div>
   );
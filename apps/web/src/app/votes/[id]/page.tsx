@@ -4,16 +4,22 @@ import { notFound } from "next/navigation";
 import { ExternalLink } from "lucide-react";
 import { apiFetch } from "@/lib/api";
 import { formatDate } from "@/lib/utils";
-import type { Vote, VoteRecord } from "@knesset-vote/shared";
+import { SeatChart } from "@/components/vote/SeatChart";
+import { VOTE_READING_LABELS_HE } from "@knesset-vote/shared";
+import type { Vote, VoteBreakdown, VotePositionCounts, VoteRecord } from "@knesset-vote/shared";
+
+interface VoteDetail {
+  vote: Vote;
+  records: VoteRecord[];
+  breakdown: VoteBreakdown;
+  bill: { id: string; title_he: string } | null;
+}
 
 interface VoteDetailResponse {
-  data: {
-    vote: Vote;
-    records: VoteRecord[];
-  };
+  data: VoteDetail;
 }
 
-async function getVote(id: string): Promise<{ vote: Vote; records: VoteRecord[] } | null> {
+async function getVote(id: string): Promise<VoteDetail | null> {
   try {
     const res = await apiFetch<VoteDetailResponse>(`/api/votes/${id}`);
     return res.data;
@@ -51,6 +57,10 @@ function PositionBadge({ position }: { position: string }) {
       return <span className="badge bg-red-100 text-xs text-red-700">נגד</span>;
     case "abstain":
       return <span className="badge bg-neutral-100 text-xs text-neutral-600">נמנע</span>;
+    case "present":
+      return <span className="badge bg-neutral-50 text-xs text-neutral-500">נוכח, לא הצביע</span>;
+    case "absent":
+      return <span className="badge bg-neutral-50 text-xs text-neutral-400">לא נכח</span>;
     default:
       return <span className="badge bg-neutral-50 text-xs text-neutral-400">לא הצביע</span>;
   }
@@ -114,11 +124,95 @@ function groupByPosition(records: VoteRecord[]) {
   };
 }
 
+// Coalition / opposition split of a position group, as of the vote date
+function BlocSplit({ records }: { records: VoteRecord[] }) {
+  const coalition = records.filter((r) => r.coalition_status === "coalition").length;
+  const opposition = records.filter((r) => r.coalition_status === "opposition").length;
+  if (coalition + opposition === 0) return null;
+  return (
+    <span className="text-xs font-normal text-neutral-500">
+      (קואליציה {coalition} · אופוזיציה {opposition})
+    </span>
+  );
+}
+
+const BLOC_LABELS = { coalition: "קואליציה", opposition: "אופוזיציה" } as const;
+
+function CountsCells({ counts }: { counts: VotePositionCounts }) {
+  return (
+    <>
+      <td className="px-3 py-2 text-green-700">{counts.yes}</td>
+      <td className="px-3 py-2 text-red-700">{counts.no}</td>
+      <td className="px-3 py-2 text-neutral-600">{counts.abstain}</td>
+      <td className="px-3 py-2 text-neutral-400">{counts.present + counts.absent}</td>
+    </>
+  );
+}
+
+// Seat chart plus per-faction table, as of the vote date
+function PartyBreakdown({ breakdown }: { breakdown: VoteBreakdown }) {
+  if (breakdown.parties.length === 0) return null;
+
+  return (
+    <section className="card mb-8 p-5" aria-labelledby="parties-heading">
+      <h2 id="parties-heading" className="mb-4 text-lg font-semibold text-neutral-900">
+        הצבעה לפי סיעות
+      </h2>
+      <SeatChart parties={breakdown.parties} />
+
+      <div className="mt-6 overflow-x-auto">
+        <table className="w-full text-right text-sm">
+          <thead className="border-b border-neutral-200 text-xs text-neutral-500">
+            <tr>
+              <th className="px-3 py-2 font-medium">סיעה</th>
+              <th className="px-3 py-2 font-medium">בעד</th>
+              <th className="px-3 py-2 font-medium">נגד</th>
+              <th className="px-3 py-2 font-medium">נמנע</th>
+              <th className="px-3 py-2 font-medium">לא הצביע</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-neutral-100">
+            {(["coalition", "opposition"] as const).map((bloc) => (
+              <tr key={bloc} className="bg-neutral-50 font-semibold">
+                <td className="px-3 py-2">{BLOC_LABELS[bloc]}</td>
+                <CountsCells counts={breakdown.blocs[bloc]} />
+              </tr>
+            ))}
+            {breakdown.parties.map((p) => (
+              <tr key={p.party_id ?? "none"}>
+                <td className="px-3 py-2">
+                  {p.party_id ? (
+                    <Link href={`/parties/${p.party_id}`} className="hover:underline">
+                      {p.party_name_he}
+                    </Link>
+                  ) : (
+                    <span className="text-neutral-500">ללא שיוך סיעתי</span>
+                  )}
+                  {p.coalition_status && (
+                    <span className="mr-2 text-xs text-neutral-400">
+                      {BLOC_LABELS[p.coalition_status]}
+                    </span>
+                  )}
+                </td>
+                <CountsCells counts={p} />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-3 text-xs text-neutral-400">
+        שיוך סיעתי לפי החברות בסיעה ביום ההצבעה. חברי כנסת שכיהנו באותו יום ואין להם רישום הצבעה
+        נספרים כלא נוכחים.
+      </p>
+    </section>
+  );
+}
+
 export default async function VotePage({ params }: { params: { id: string } }) {
   const data = await getVote(params.id);
   if (!data) notFound();
 
-  const { vote, records } = data;
+  const { vote, records, breakdown, bill } = data;
   const grouped = groupByPosition(records);
   const hasRecords = records.length > 0;
 
@@ -145,6 +239,15 @@ export default async function VotePage({ params }: { params: { id: string } }) {
           {vote.topic && <span className="badge bg-blue-50 text-blue-700">{vote.topic}</span>}
         </div>
 
+        {bill && (
+          <p className="mt-3 text-sm text-neutral-600">
+            {vote.bill_reading ? `${VOTE_READING_LABELS_HE[vote.bill_reading]} של ` : "הצבעה על "}
+            <Link href={`/bills/${bill.id}`} className="text-brand-600 hover:underline">
+              {bill.title_he}
+            </Link>
+          </p>
+        )}
+
         {vote.source_url && (
           <a
             href={vote.source_url}
@@ -168,6 +271,8 @@ export default async function VotePage({ params }: { params: { id: string } }) {
         </section>
       )}
 
+      <PartyBreakdown breakdown={breakdown} />
+
       {/* MK breakdown */}
       {hasRecords ? (
         <section aria-labelledby="breakdown-heading">
@@ -188,6 +293,7 @@ export default async function VotePage({ params }: { params: { id: string } }) {
                     aria-hidden="true"
                   />
                   בעד — {grouped.yes.length} ח"כים
+                  <BlocSplit records={grouped.yes} />
                 </h3>
                 <div className="flex flex-wrap gap-2">
                   {grouped.yes.map((r) => (
@@ -213,6 +319,7 @@ export default async function VotePage({ params }: { params: { id: string } }) {
                     aria-hidden="true"
                   />
                   נגד — {grouped.no.length} ח"כים
+                  <BlocSplit records={grouped.no} />
                 </h3>
                 <div className="flex flex-wrap gap-2">
                   {grouped.no.map((r) => (
@@ -238,6 +345,7 @@ export default async function VotePage({ params }: { params: { id: string } }) {
                     aria-hidden="true"
                   />
                   נמנע — {grouped.abstain.length} ח"כים
+                  <BlocSplit records={grouped.abstain} />
                 </h3>
                 <div className="flex flex-wrap gap-2">
                   {grouped.abstain.map((r) => (
@@ -272,6 +380,7 @@ export default async function VotePage({ params }: { params: { id: string } }) {
                       className="card inline-flex items-center gap-1.5 px-3 py-1.5 text-xs text-neutral-500 hover:shadow-md"
                     >
                       {r.mk_name_he}
+                      <PositionBadge position={r.position} />
                     </Link>
                   ))}
                 </div>
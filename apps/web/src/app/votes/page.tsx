@@ -1,12 +1,13 @@
 import type { Metadata } from "next";
 import Link from "next/link";
-import { apiFetch } from "@/lib/api";
+import { apiFetch, feedAlternates } from "@/lib/api";
 import { formatDateShort } from "@/lib/utils";
 import type { Vote } from "@knesset-vote/shared";
 
 export const metadata: Metadata = {
   title: "הצבעות במליאה",
   description: "הצבעות במליאת הכנסת — תוצאות ועמדות חברי הכנסת",
+  alternates: { types: feedAlternates("votes", "הצבעות מליאה אחרונות") },
 };
 
 interface VotesResponse {
@@ -19,14 +20,14 @@ interface VotesResponse {
 
 async function getVotes(opts: {
   result?: string;
-  knesset_number?: string;
+  knesset?: string;
   search?: string;
   page?: string;
 }): Promise<VotesResponse | null> {
   try {
     const params = new URLSearchParams();
     if (opts.result) params.set("result", opts.result);
-    if (opts.knesset_number) params.set("knesset_number", opts.knesset_number);
+    if (opts.knesset) params.set("knesset", opts.knesset);
     if (opts.page) params.set("page", opts.page);
     params.set("limit", "30");
     return await apiFetch<VotesResponse>(`/api/votes?${params.toString()}`);
@@ -78,12 +79,12 @@ const KNESSET_NUMBERS = Array.from({ length: 25 }, (_, i) => 25 - i);
 export default async function VotesPage({
   searchParams,
 }: {
-  searchParams: { result?: string; knesset_number?: string; page?: string };
+  searchParams: { result?: string; knesset?: string; page?: string };
 }) {
-  const { result, knesset_number, page } = searchParams;
-  const response = await getVotes({ result, knesset_number, page });
+  const { result, knesset, page } = searchParams;
+  const response = await getVotes({ result, knesset, page });
   const votes = response?.data ?? [];
-  const hasFilters = !!(result || knesset_number);
+  const hasFilters = !!(result || knesset);
 
   return (
     <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
@@ -110,8 +111,8 @@ export default async function VotesPage({
         </select>
 
         <select
-          name="knesset_number"
-          defaultValue={knesset_number ?? ""}
+          name="knesset"
+          defaultValue={knesset ?? ""}
           className="rounded-lg border border-neutral-300 px-3 py-2 text-sm focus:outline-none"
           aria-label="סנן לפי כנסת"
         >
@@ -212,7 +213,7 @@ export default async function VotesPage({
             <div className="mt-8 flex items-center justify-center gap-2">
               {(response.page ?? 1) > 1 && (
                 <Link
-                  href={`/votes?${new URLSearchParams({ ...(result ? { result } : {}), ...(knesset_number ? { knesset_number } : {}), page: String((response.page ?? 1) - 1) }).toString()}`}
+                  href={`/votes?${new URLSearchParams({ ...(result ? { result } : {}), ...(knesset ? { knesset } : {}), page: String((response.page ?? 1) - 1) }).toString()}`}
                   className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium hover:bg-neutral-50"
                 >
                   הקודם
@@ -223,7 +224,7 @@ export default async function VotesPage({
               </span>
               {(response.page ?? 1) < response.pages && (
                 <Link
-                  href={`/votes?${new URLSearchParams({ ...(result ? { result } : {}), ...(knesset_number ? { knesset_number } : {}), page: String((response.page ?? 1) + 1) }).toString()}`}
+                  href={`/votes?${new URLSearchParams({ ...(result ? { result } : {}), ...(knesset ? { knesset } : {}), page: String((response.page ?? 1) + 1) }).toString()}`}
                   className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium hover:bg-neutral-50"
                 >
                   הבא
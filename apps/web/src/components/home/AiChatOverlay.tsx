@@ -10,9 +10,13 @@
  *  - Desktop → slides in from the right / centered modal
  *
  * Features:
- *  - Multi-turn conversation (messages array)
+ *  - Multi-turn conversation — follow-ups send the conversation_id from the
+ *    previous answer, so the server replays earlier turns and entities
+ *  - "New conversation" button to drop that context
  *  - Streams answers via GET /api/ai/stream (SSE)
  *  - "Verified by data" badge when tool calls were made
+ *  - Sentences with numbers, dates or names the data does not support are
+ *    marked with a warning style (claims from the server's verification pass)
  *  - Entity cards (MK / party / bill quick links)
  *  - Collapsible sources / citations
  *  - Follow-up input at the bottom
@@ -33,8 +37,10 @@ import {
   ChevronUp,
   ShieldCheck,
   Send,
+  RotateCcw,
+  AlertTriangle,
 } from "lucide-react";
-import type { AiAnswer, EntityCard, Citation } from "@knesset-vote/shared";
+import type { AiAnswer, AiClaim, EntityCard, Citation } from "@knesset-vote/shared";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -69,6 +75,8 @@ const ENTITY_CARD_COLORS: Record<string, string> = {
   party: "bg-blue-50 border-blue-200 text-blue-800",
   bill: "bg-green-50 border-green-200 text-green-800",
   minister: "bg-purple-50 border-purple-200 text-purple-800",
+  committee: "bg-purple-50 border-purple-200 text-purple-800",
+  vote: "bg-amber-50 border-amber-200 text-amber-800",
 };
 
 // ─── Sub-components ───────────────────────────────────────────────────────────
@@ -85,6 +93,61 @@ function VerifiedBadge({ toolCalls }: { toolCalls: string[] }) {
   );
 }
 
+function UnverifiedNotice({ claims }: { claims: AiClaim[] }) {
+  const count = claims.filter((c) => !c.verified).length;
+  if (count === 0) return null;
+  return (
+    <div className="mt-2 flex items-start gap-1.5 rounded-md bg-amber-50 px-2.5 py-1.5">
+      <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-amber-600" aria-hidden="true" />
+      <span className="text-[11px] font-medium text-amber-800">
+        {count === 1 ? "פרט אחד" : `${count} פרטים`} בתשובה לא נמצאו בנתונים שנשלפו ומסומנים בקו
+        מקווקו — כדאי לבדוק אותם במקור.
+      </span>
+    </div>
+  );
+}
+
+/** A line of the answer, with the sentences holding unverified claims highlighted */
+function AnswerLine({ line, claims }: { line: string; claims: AiClaim[] }) {
+  const unverified = new Map<string, string[]>();
+  for (const claim of claims) {
+    if (claim.verified) continue;
+    unverified.set(claim.sentence, [...(unverified.get(claim.sentence) ?? []), claim.text]);
+  }
+
+  const parts: { text: string; missing?: string[] }[] = [];
+  let pos = 0;
+  const ranges = [...unverified.entries()]
+    .map(([sentence, texts]) => ({ start: line.indexOf(sentence), sentence, texts }))
+    .filter((r) => r.start >= 0)
+    .sort((a, b) => a.start - b.start);
+  for (const { start, sentence, texts } of ranges) {
+    if (start < pos) continue;
+    if (start > pos) parts.push({ text: line.slice(pos, start) });
+    parts.push({ text: sentence, missing: texts });
+    pos = start + sentence.length;
+  }
+  parts.push({ text: line.slice(pos) });
+
+  return (
+    <p className="mb-1.5 last:mb-0">
+      {parts.map((part, i) =>
+        part.missing ? (
+          <span
+            key={i}
+            title={`לא אומת מול נתוני הכנסת: ${part.missing.join(", ")}`}
+            className="rounded bg-amber-50 underline decoration-amber-400 decoration-dotted underline-offset-4"
+          >
+            {part.text}
+          </span>
+        ) : (
+          part.text
+        ),
+      )}
+    </p>
+  );
+}
+
 function EntityCards({ cards }: { cards: EntityCard[] }) {
   if (cards.length === 0) return null;
   return (
@@ -176,13 +239,13 @@ function AssistantBubble({
         {(message.streaming || message.answer) && (
           <div className="rounded-2xl rounded-tr-sm bg-neutral-100 px-4 py-3">
             <div className="text-sm leading-relaxed text-neutral-800" dir="rtl">
-              {(message.answer?.answer_md ?? message.streaming ?? "").split("\n").map((line, i) =>
-                line.trim() ? (
-                  <p key={i} className="mb-1.5 last:mb-0">
-                    {line}
-                  </p>
-                ) : null,
-              )}
+              {(message.answer?.answer_md ?? message.streaming ?? "")
+                .split("\n")
+                .map((line, i) =>
+                  line.trim() ? (
+                    <AnswerLine key={i} line={line} claims={message.answer?.claims ?? []} />
+                  ) : null,
+                )}
               {/* Typing cursor while streaming */}
               {message.loading && (
                 <span className="ml-0.5 inline-block h-3.5 w-0.5 animate-pulse bg-neutral-400" />
@@ -193,6 +256,7 @@ function AssistantBubble({
             {message.answer && (
               <>
                 <VerifiedBadge toolCalls={message.answer.tool_calls_made} />
+                <UnverifiedNotice claims={message.answer.claims} />
                 <EntityCards cards={message.answer.entity_cards} />
                 <Citations citations={message.answer.citations} />
 
@@ -241,6 +305,8 @@ export function AiChatOverlay({ open, onClose, initialQuestion = "" }: AiChatOve
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState(initialQuestion);
   const abortRef = useRef<AbortController | null>(null);
+  /** Set from the first answer's metadata; sent with every follow-up */
+  const conversationIdRef = useRef<string | null>(null);
   const bottomRef = useRef<HTMLDivElement | null>(null);
   const inputRef = useRef<HTMLTextAreaElement | null>(null);
   const overlayRef = useRef<HTMLDivElement | null>(null);
@@ -321,7 +387,9 @@ export function AiChatOverlay({ open, onClose, initialQuestion = "" }: AiChatOve
 
       try {
         const apiBase = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:3001";
-        const res = await fetch(`${apiBase}/api/ai/stream?q=${encodeURIComponent(text)}`, {
+        const params = new URLSearchParams({ q: text });
+        if (conversationIdRef.current) params.set("conversation_id", conversationIdRef.current);
+        const res = await fetch(`${apiBase}/api/ai/stream?${params.toString()}`, {
           signal: ctrl.signal,
         });
 
@@ -393,6 +461,7 @@ export function AiChatOverlay({ open, onClose, initialQuestion = "" }: AiChatOve
 
                 case "done":
                   if (event.meta) {
+                    conversationIdRef.current = event.meta.conversation_id;
                     const finalAnswer: AiAnswer = { ...event.meta, answer_md: accumulated };
                     setMessages((m) =>
                       m.map((msg) =>
@@ -457,11 +526,20 @@ export function AiChatOverlay({ open, onClose, initialQuestion = "" }: AiChatOve
 
   const handleClose = () => {
     abortRef.current?.abort();
+    conversationIdRef.current = null;
     onClose();
     // Slight delay before clearing so close animation plays
     setTimeout(() => setMessages([]), 300);
   };
 
+  const startNewConversation = () => {
+    abortRef.current?.abort();
+    conversationIdRef.current = null;
+    setMessages([]);
+    setInput("");
+    inputRef.current?.focus();
+  };
+
   if (!open) return null;
 
   return (
@@ -493,13 +571,24 @@ export function AiChatOverlay({ open, onClose, initialQuestion = "" }: AiChatOve
               Gemini 2.0 Flash
             </span>
           </div>
-          <button
-            onClick={handleClose}
-            aria-label="סגור"
-            className="rounded-full p-1.5 text-white/70 transition-colors hover:bg-white/20 hover:text-white"
-          >
-            <X className="h-4 w-4" />
-          </button>
+          <div className="flex items-center gap-1">
+            {messages.length > 0 && (
+              <button
+                onClick={startNewConversation}
+                className="inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-xs text-white/80 transition-colors hover:bg-white/20 hover:text-white"
+              >
+                <RotateCcw className="h-3.5 w-3.5" aria-hidden="true" />
+                שיחה חדשה
+              </button>
+            )}
+            <button
+              onClick={handleClose}
+              aria-label="סגור"
+              className="rounded-full p-1.5 text-white/70 transition-colors hover:bg-white/20 hover:text-white"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
         </div>
 
         {/* Messages */}
@@ -2,8 +2,9 @@
 
 import Link from "next/link";
 import { Search, Menu, X } from "lucide-react";
-import { useState } from "react";
+import { Suspense, useState } from "react";
 import { GlobalSearch } from "@/components/shared/GlobalSearch";
+import { KnessetSwitcher, TermNavLinks } from "@/components/layout/KnessetSwitcher";
 
 export function Header() {
   const [menuOpen, setMenuOpen] = useState(false);
@@ -13,12 +14,32 @@ export function Header() {
     { href: "/parties", label: "סיעות" },
     { href: "/mks", label: "חברי כנסת" },
     { href: "/government", label: "ממשלה" },
+    { href: "/committees", label: "ועדות" },
     { href: "/bills", label: "הצעות חוק" },
     { href: "/votes", label: "הצבעות" },
+    { href: "/changes", label: "השבוע בכנסת" },
     { href: "/my-election", label: "הבחירות שלי", bold: true },
     { href: "/methodology", label: "מתודולוגיה" },
   ];
 
+  const desktopLinkClass = (bold: boolean | undefined) =>
+    bold
+      ? "text-brand-700 hover:text-brand-900 text-sm font-semibold"
+      : "hover:text-brand-700 text-sm font-medium text-neutral-600";
+  const mobileLinkClass = (bold: boolean | undefined) =>
+    `rounded-lg px-3 py-3 text-sm font-medium ${
+      bold ? "text-brand-700 font-semibold" : "text-neutral-700 hover:bg-neutral-50"
+    }`;
+
+  // Nav links read the selected term from the URL; until the search params are
+  // available (static render) they fall back to plain links.
+  const plainLinks = (className: (bold: boolean | undefined) => string, onClick?: () => void) =>
+    navLinks.map(({ href, label, bold }) => (
+      <Link key={href} href={href} className={className(bold)} onClick={onClick}>
+        {label}
+      </Link>
+    ));
+
   return (
     <header className="sticky top-0 z-40 border-b border-neutral-200 bg-white/95 backdrop-blur-sm">
       <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
@@ -34,22 +55,17 @@ export function Header() {
 
           {/* Desktop Navigation */}
           <nav aria-label="Navigation" className="hidden gap-5 xl:flex">
-            {navLinks.map(({ href, label, bold }) => (
-              <Link
-                key={href}
-                href={href}
-                className={
-                  bold
-                    ? "text-brand-700 hover:text-brand-900 text-sm font-semibold"
-                    : "hover:text-brand-700 text-sm font-medium text-neutral-600"
-                }
-              >
-                {label}
-              </Link>
-            ))}
+            <Suspense fallback={plainLinks(desktopLinkClass)}>
+              <TermNavLinks links={navLinks} linkClassName={desktopLinkClass} />
+            </Suspense>
           </nav>
 
           <div className="flex items-center gap-2">
+            {/* Knesset term switcher — desktop (md+) */}
+            <Suspense fallback={null}>
+              <KnessetSwitcher className="hidden md:block" />
+            </Suspense>
+
             {/* GlobalSearch — desktop (md+) */}
             <div className="hidden w-56 md:block lg:w-72">
               <GlobalSearch />
@@ -94,18 +110,16 @@ export function Header() {
       {menuOpen && (
         <div className="border-t border-neutral-200 bg-white md:hidden">
           <nav className="flex flex-col px-4 py-3" aria-label="תפריט ניווט">
-            {navLinks.map(({ href, label, bold }) => (
-              <Link
-                key={href}
-                href={href}
-                className={`rounded-lg px-3 py-3 text-sm font-medium ${
-                  bold ? "text-brand-700 font-semibold" : "text-neutral-700 hover:bg-neutral-50"
-                }`}
-                onClick={() => setMenuOpen(false)}
-              >
-                {label}
-              </Link>
-            ))}
+            <Suspense fallback={null}>
+              <KnessetSwitcher className="mx-3 mb-2" />
+            </Suspense>
+            <Suspense fallback={plainLinks(mobileLinkClass, () => setMenuOpen(false))}>
+              <TermNavLinks
+                links={navLinks}
+                linkClassName={mobileLinkClass}
+                onNavigate={() => setMenuOpen(false)}
+              />
+            </Suspense>
           </nav>
         </div>
       )}
@@ -0,0 +1,94 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useEffect, useState } from "react";
+import type { KnessetTerm } from "@knesset-vote/shared";
+
+/** List pages that honour ?knesset=N — nav links to them carry the selected term */
+const TERM_PAGES = new Set(["/parties", "/mks", "/government", "/committees", "/bills", "/votes"]);
+
+export function termHref(href: string, knesset: string | null): string {
+  return knesset && TERM_PAGES.has(href) ? `${href}?knesset=${knesset}` : href;
+}
+
+/**
+ * Term selector — writes the chosen Knesset to the URL (?knesset=N), so the
+ * selection survives reloads and shared links. Choosing the current term
+ * removes the param.
+ */
+export function KnessetSwitcher({ className }: { className?: string }) {
+  const [terms, setTerms] = useState<KnessetTerm[]>([]);
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const knesset = searchParams.get("knesset");
+
+  useEffect(() => {
+    const apiBase = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:3001";
+    fetch(`${apiBase}/api/knessets`)
+      .then((res) => (res.ok ? (res.json() as Promise<{ data: KnessetTerm[] }>) : null))
+      .then((body) => setTerms(body?.data ?? []))
+      .catch(() => setTerms([]));
+  }, []);
+
+  if (terms.length === 0) return null;
+
+  const current = terms.find((t) => t.is_current);
+  const selected = !knesset || Number(knesset) === current?.knesset_number ? "" : knesset;
+
+  const onChange = (value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (!value) {
+      params.delete("knesset");
+    } else {
+      params.set("knesset", value);
+    }
+    params.delete("page");
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname);
+  };
+
+  return (
+    <select
+      value={selected}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label="בחירת כנסת"
+      className={`rounded-lg border border-neutral-300 bg-white px-2 py-1.5 text-sm text-neutral-700 focus:outline-none ${className ?? ""}`}
+    >
+      {terms.map((t) => (
+        <option key={t.knesset_number} value={t.is_current ? "" : t.knesset_number}>
+          כנסת {t.knesset_number}
+          {t.is_current ? " (נוכחית)" : ""}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/** Nav links that keep the selected term when moving between list pages */
+export function TermNavLinks({
+  links,
+  linkClassName,
+  onNavigate,
+}: {
+  links: { href: string; label: string; bold?: boolean }[];
+  linkClassName: (bold: boolean | undefined) => string;
+  onNavigate?: () => void;
+}) {
+  const knesset = useSearchParams().get("knesset");
+  return (
+    <>
+      {links.map(({ href, label, bold }) => (
+        <Link
+          key={href}
+          href={termHref(href, knesset)}
+          className={linkClassName(bold)}
+          onClick={onNavigate}
+        >
+          {label}
+        </Link>
+      ))}
+    </>
+  );
+}
@@ -1,3 +1,4 @@
+import Link from "next/link";
 import type { MKCommitteeListItem } from "@knesset-vote/shared";
 
 interface Props {
@@ -12,7 +13,7 @@ const ROLE_LABELS: Record<string, string> = {
   substitute: "ממלא/ת מקום",
 };
 
-function roleLabel(role: string | null): string {
+export function roleLabel(role: string | null): string {
   if (!role) return "חבר/ת";
   return ROLE_LABELS[role.toLowerCase()] ?? role;
 }
@@ -39,7 +40,12 @@ export function CommitteeList({ committees }: Props) {
                 className="flex items-center justify-between gap-3 px-4 py-3"
               >
                 <div className="flex-1">
-                  <span className="text-sm font-medium text-neutral-800">{c.name_he}</span>
+                  <Link
+                    href={`/committees/${c.committee_id}`}
+                    className="hover:text-brand-700 text-sm font-medium text-neutral-800"
+                  >
+                    {c.name_he}
+                  </Link>
                   {c.knesset_number && (
                     <span className="mr-2 text-xs text-neutral-400">כנסת {c.knesset_number}</span>
                   )}
@@ -68,7 +74,12 @@ export function CommitteeList({ committees }: Props) {
                 className="flex items-center justify-between gap-3 px-4 py-3"
               >
                 <div className="flex-1">
-                  <span className="text-sm text-neutral-700">{c.name_he}</span>
+                  <Link
+                    href={`/committees/${c.committee_id}`}
+                    className="hover:text-brand-700 text-sm text-neutral-700"
+                  >
+                    {c.name_he}
+                  </Link>
                   {c.knesset_number && (
                     <span className="mr-2 text-xs text-neutral-400">כנסת {c.knesset_number}</span>
                   )}
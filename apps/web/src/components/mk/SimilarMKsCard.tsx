@@ -0,0 +1,58 @@
+import Link from "next/link";
+import type { MKSimilarity, MKSimilarityItem } from "@knesset-vote/shared";
+
+interface Props {
+  similarity: MKSimilarity;
+}
+
+function SimilarityList({ title, items }: { title: string; items: MKSimilarityItem[] }) {
+  return (
+    <div>
+      <h3 className="mb-2 text-sm font-semibold text-neutral-700">{title}</h3>
+      <ul className="space-y-2">
+        {items.map((item) => (
+          <li key={item.mk_id} className="flex items-center justify-between gap-3 text-sm">
+            <div className="min-w-0 flex-1">
+              <Link
+                href={`/mks/${item.mk_id}`}
+                className="hover:text-brand-700 font-medium text-neutral-800"
+              >
+                {item.name_he}
+              </Link>
+              {item.party_name_he && (
+                <span className="mr-2 text-xs text-neutral-400">{item.party_name_he}</span>
+              )}
+            </div>
+            <span
+              className="shrink-0 text-xs text-neutral-500"
+              title={`${item.agreements} מתוך ${item.overlap} הצבעות משותפות`}
+            >
+              <strong className="text-neutral-800">{item.agreement_pct}%</strong> · {item.overlap}{" "}
+              הצבעות
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function SimilarMKsCard({ similarity }: Props) {
+  if (similarity.most_similar.length === 0) return null;
+
+  return (
+    <div className="card p-5">
+      <div className="grid gap-6 sm:grid-cols-2">
+        <SimilarityList title="מצביעים הכי דומה לו/ה" items={similarity.most_similar} />
+        <SimilarityList title="מצביעים הכי שונה ממנו/ה" items={similarity.least_similar} />
+      </div>
+      <p className="mt-4 border-t border-neutral-100 pt-2 text-xs text-neutral-400">
+        שיעור ההסכמה מחושב רק על הצבעות שבהן שני חברי הכנסת נכחו, ולפחות {similarity.min_overlap}{" "}
+        הצבעות משותפות • ראו{" "}
+        <Link href="/methodology#similarity" className="underline">
+          מתודולוגיה
+        </Link>
+      </p>
+    </div>
+  );
+}
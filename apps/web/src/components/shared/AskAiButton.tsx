@@ -27,6 +27,8 @@ const ENTITY_CARD_COLORS: Record<string, string> = {
   party: "bg-blue-50 border-blue-200 text-blue-800",
   bill: "bg-green-50 border-green-200 text-green-800",
   minister: "bg-purple-50 border-purple-200 text-purple-800",
+  committee: "bg-purple-50 border-purple-200 text-purple-800",
+  vote: "bg-amber-50 border-amber-200 text-amber-800",
 };
 
 export function AskAiButton({ defaultQuestion, suggestions = [] }: AskAiButtonProps) {
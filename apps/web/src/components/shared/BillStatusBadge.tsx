@@ -1,7 +1,10 @@
+import { BILL_TYPE_LABELS_HE, type BillType } from "@knesset-vote/shared";
 import { cn } from "@/lib/utils";
 
 interface BillStatusBadgeProps {
   status: string;
+  /** Shown next to the status so government bills are not read as MK initiative */
+  billType?: BillType | null;
 }
 
 const STATUS_LABELS: Record<string, string> = {
@@ -28,9 +31,25 @@ const STATUS_CLASSES: Record<string, string> = {
   submitted: "badge-submitted",
 };
 
-export function BillStatusBadge({ status }: BillStatusBadgeProps) {
+const TYPE_CLASSES: Record<BillType, string> = {
+  government: "bg-purple-100 text-purple-800",
+  private: "bg-neutral-100 text-neutral-700",
+  committee: "bg-teal-100 text-teal-800",
+};
+
+export function BillStatusBadge({ status, billType }: BillStatusBadgeProps) {
   const label = STATUS_LABELS[status] ?? status;
   const className = STATUS_CLASSES[status] ?? "badge-unknown";
+  const badge = <span className={cn("badge", className)}>{label}</span>;
+
+  if (!billType) return badge;
 
-  return <span className={cn("badge", className)}>{label}</span>;
+  return (
+    <span className="inline-flex items-center gap-1.5">
+      {badge}
+      <span className={cn("badge", TYPE_CLASSES[billType])} title="סוג הצעת החוק">
+        {BILL_TYPE_LABELS_HE[billType]}
+      </span>
+    </span>
+  );
 }
@@ -4,18 +4,11 @@ import { useState, useRef, useEffect, useCallback } from "react";
 import Link from "next/link";
 import { useRouter, usePathname } from "next/navigation";
 import { Search, X, Loader2, Sparkles, Clock, ThumbsUp, ThumbsDown } from "lucide-react";
-import type { AiAnswer, EntityCard } from "@knesset-vote/shared";
+import type { AiAnswer, EntityCard, SearchResult } from "@knesset-vote/shared";
+import { HighlightSnippet } from "@/components/shared/HighlightSnippet";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
-interface SearchResult {
-  type: "mk" | "party" | "bill";
-  id: string;
-  title: string;
-  subtitle: string | null;
-  url: string;
-}
-
 interface SearchResponse {
   data: SearchResult[];
   query: string;
@@ -33,12 +26,16 @@ const TYPE_LABELS: Record<string, string> = {
   mk: 'ח"כ',
   party: "סיעה",
   bill: "הצעת חוק",
+  vote: "הצבעה",
+  committee: "ועדה",
 };
 
 const TYPE_COLORS: Record<string, string> = {
   mk: "bg-brand-100 text-brand-700",
   party: "bg-blue-100 text-blue-700",
   bill: "bg-green-100 text-green-700",
+  vote: "bg-amber-100 text-amber-700",
+  committee: "bg-purple-100 text-purple-700",
 };
 
 const ENTITY_CARD_COLORS: Record<string, string> = {
@@ -46,6 +43,8 @@ const ENTITY_CARD_COLORS: Record<string, string> = {
   party: "bg-blue-50 border-blue-200 text-blue-800",
   bill: "bg-green-50 border-green-200 text-green-800",
   minister: "bg-purple-50 border-purple-200 text-purple-800",
+  committee: "bg-purple-50 border-purple-200 text-purple-800",
+  vote: "bg-amber-50 border-amber-200 text-amber-800",
 };
 
 const HISTORY_KEY = "kv_ai_history";
@@ -312,12 +311,15 @@ export function GlobalSearch() {
     setLoading(true);
     try {
       const apiBase = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:3001";
-      const res = await fetch(`${apiBase}/api/search?q=${encodeURIComponent(q)}&type=all`, {
-        headers: { "Content-Type": "application/json" },
-      });
+      const res = await fetch(
+        `${apiBase}/api/search?q=${encodeURIComponent(q)}&type=all&limit=12`,
+        {
+          headers: { "Content-Type": "application/json" },
+        },
+      );
       if (!res.ok) throw new Error("search failed");
       const data: SearchResponse = await res.json();
-      setResults(data.data.slice(0, 12));
+      setResults(data.data);
       setOpen(true);
       setActiveIdx(-1);
     } catch {
@@ -829,6 +831,9 @@ export function GlobalSearch() {
                           {result.subtitle && (
                             <p className="truncate text-xs text-neutral-500">{result.subtitle}</p>
                           )}
+                          {result.highlight.some((seg) => seg.match) && (
+                            <HighlightSnippet segments={result.highlight} />
+                          )}
                         </div>
                       </Link>
                     );
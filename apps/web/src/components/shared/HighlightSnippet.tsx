@@ -0,0 +1,25 @@
+import type { SearchHighlight } from "@knesset-vote/shared";
+import { cn } from "@/lib/utils";
+
+/** Matched snippet from the search API — matches are wrapped in <mark> */
+export function HighlightSnippet({
+  segments,
+  className,
+}: {
+  segments: SearchHighlight;
+  className?: string;
+}) {
+  return (
+    <p className={cn("text-xs text-neutral-600", className ?? "truncate")}>
+      {segments.map((seg, i) =>
+        seg.match ? (
+          <mark key={i} className="rounded-sm bg-yellow-100 px-0.5 text-neutral-900">
+            {seg.text}
+          </mark>
+        ) : (
+          <span key={i}>{seg.text}</span>
+        ),
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,73 @@
+import type { VotePartyBreakdown, VotePositionCounts } from "@knesset-vote/shared";
+import { hemicycleLayout } from "@/lib/hemicycle";
+
+interface Props {
+  parties: VotePartyBreakdown[];
+}
+
+const POSITIONS: { key: keyof VotePositionCounts; label: string; fill: string }[] = [
+  { key: "yes", label: "בעד", fill: "#22c55e" },
+  { key: "no", label: "נגד", fill: "#ef4444" },
+  { key: "abstain", label: "נמנע", fill: "#a3a3a3" },
+  { key: "present", label: "נוכח, לא הצביע", fill: "#d4d4d4" },
+  { key: "absent", label: "לא נכח", fill: "#f5f5f5" },
+];
+
+const WIDTH = 400;
+const HEIGHT = 210;
+
+/**
+ * Hemicycle of the plenum on the vote date: one dot per seat, factions as
+ * wedges (coalition from the right), coloured by how each MK voted.
+ */
+export function SeatChart({ parties }: Props) {
+  const seats = parties.flatMap((p) =>
+    POSITIONS.flatMap(({ key, label, fill }) =>
+      Array.from({ length: p[key] }, () => ({
+        fill,
+        title: `${p.party_name_he ?? "ללא שיוך סיעתי"} — ${label}`,
+      })),
+    ),
+  );
+  if (seats.length === 0) return null;
+
+  const { seats: layout, seatRadius } = hemicycleLayout(seats.length);
+  const scale = WIDTH / 2 - 10;
+
+  return (
+    <figure>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="mx-auto w-full max-w-md"
+        role="img"
+        aria-label={`מפת מושבים: ${seats.length} חברי כנסת לפי סיעה ועמדה`}
+      >
+        {layout.map((pos, i) => (
+          <circle
+            key={i}
+            cx={WIDTH / 2 + pos.x * scale}
+            cy={HEIGHT - 5 - pos.y * scale}
+            r={seatRadius * scale}
+            fill={seats[i]!.fill}
+            stroke="#a3a3a3"
+            strokeWidth={0.5}
+          >
+            <title>{seats[i]!.title}</title>
+          </circle>
+        ))}
+      </svg>
+      <figcaption className="mt-3 flex flex-wrap justify-center gap-3 text-xs text-neutral-600">
+        {POSITIONS.map(({ key, label, fill }) => (
+          <span key={key} className="inline-flex items-center gap-1">
+            <span
+              className="inline-block h-3 w-3 rounded-full border border-neutral-300"
+              style={{ backgroundColor: fill }}
+              aria-hidden="true"
+            />
+            {label}
+          </span>
+        ))}
+      </figcaption>
+    </figure>
+  );
+}
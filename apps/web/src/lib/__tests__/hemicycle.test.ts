@@ -0,0 +1,35 @@
+/**
+ * Unit tests for the hemicycle seat layout.
+ * Pure functions — no DOM, no network.
+ */
+import { describe, it, expect } from "vitest";
+import { hemicycleLayout } from "../hemicycle.js";
+
+describe("hemicycleLayout", () => {
+  it("places exactly one seat per member", () => {
+    for (const total of [1, 7, 61, 120]) {
+      expect(hemicycleLayout(total).seats).toHaveLength(total);
+    }
+  });
+
+  it("keeps every seat inside the unit half-circle", () => {
+    const { seats, seatRadius } = hemicycleLayout(120);
+    expect(seatRadius).toBeGreaterThan(0);
+    for (const { x, y } of seats) {
+      expect(y).toBeGreaterThanOrEqual(-1e-9);
+      expect(Math.hypot(x, y)).toBeLessThanOrEqual(1 + 1e-9);
+    }
+  });
+
+  it("orders seats from the right end to the left end", () => {
+    const { seats } = hemicycleLayout(120);
+    const angles = seats.map(({ x, y }) => Math.atan2(y, x));
+    angles.slice(1).forEach((a, i) => expect(a).toBeGreaterThanOrEqual(angles[i]! - 1e-9));
+    expect(seats[0]!.x).toBeGreaterThan(0);
+    expect(seats[seats.length - 1]!.x).toBeLessThan(0);
+  });
+
+  it("returns nothing for an empty plenum", () => {
+    expect(hemicycleLayout(0)).toEqual({ seats: [], seatRadius: 0 });
+  });
+});
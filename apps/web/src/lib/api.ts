@@ -1,3 +1,5 @@
+import type { Metadata } from "next";
+
 const API_BASE = process.env["NEXT_PUBLIC_API_URL"] ?? "http://localhost:3001";
 
 export async function apiFetch<T>(path: string, options?: RequestInit): Promise<T> {
@@ -32,3 +34,14 @@ export function buildApiUrl(
   const paramStr = searchParams.toString();
   return paramStr ? `${path}?${paramStr}` : path;
 }
+
+/** `<link rel="alternate">` entries for the API's Atom and JSON feeds, e.g. feedAlternates("bills", ...) */
+export function feedAlternates(
+  feedPath: string,
+  title: string,
+): NonNullable<NonNullable<Metadata["alternates"]>["types"]> {
+  return {
+    "application/atom+xml": [{ url: `${API_BASE}/feeds/${feedPath}.atom`, title }],
+    "application/feed+json": [{ url: `${API_BASE}/feeds/${feedPath}.json`, title }],
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Seat positions for a hemicycle (parliament) chart.
+ *
+ * Seats sit on concentric half-rings; each ring gets seats in proportion to
+ * its length so spacing looks even. Coordinates are in a unit half-circle:
+ * x in [-1, 1], y in [0, 1] with y pointing up.
+ */
+
+export interface HemicycleSeat {
+  x: number;
+  y: number;
+}
+
+export interface HemicycleLayout {
+  seats: HemicycleSeat[];
+  /** Radius that keeps neighbouring seats from touching */
+  seatRadius: number;
+}
+
+const INNER_RADIUS = 0.4;
+
+function rowCount(total: number): number {
+  return Math.max(1, Math.min(8, Math.ceil(Math.sqrt(total / 4))));
+}
+
+/**
+ * Lays out `total` seats. Seats are ordered by angle starting at the right
+ * end, so consecutive seats form wedges — assign seats to parties in order.
+ */
+export function hemicycleLayout(total: number): HemicycleLayout {
+  if (total <= 0) return { seats: [], seatRadius: 0 };
+
+  const rows = rowCount(total);
+  const radii = Array.from({ length: rows }, (_, i) =>
+    rows === 1 ? 1 : INNER_RADIUS + ((1 - INNER_RADIUS) * i) / (rows - 1),
+  );
+  const radiusSum = radii.reduce((a, b) => a + b, 0);
+
+  // Proportional split; the outer ring absorbs the rounding
+  const perRow = radii.map((r) => Math.max(1, Math.round((total * r) / radiusSum)));
+  perRow[rows - 1] = Math.max(1, total - perRow.slice(0, -1).reduce((a, b) => a + b, 0));
+
+  const placed: (HemicycleSeat & { angle: number; r: number })[] = [];
+  radii.forEach((r, i) => {
+    const n = perRow[i]!;
+    for (let j = 0; j < n; j++) {
+      const angle = n === 1 ? Math.PI / 2 : (Math.PI * j) / (n - 1);
+      placed.push({ x: r * Math.cos(angle), y: r * Math.sin(angle), angle, r });
+    }
+  });
+  placed.sort((a, b) => a.angle - b.angle || b.r - a.r);
+
+  const rowGap = rows === 1 ? 1 : (1 - INNER_RADIUS) / (rows - 1);
+  const innerSeats = perRow[0]!;
+  const arcGap = innerSeats > 1 ? (Math.PI * radii[0]!) / (innerSeats - 1) : 1;
+
+  return {
+    seats: placed.slice(0, total).map(({ x, y }) => ({ x, y })),
+    seatRadius: 0.45 * Math.min(rowGap, arcGap),
+  };
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { BILL_STATUS_LABELS_HE } from "@knesset-vote/shared";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -31,19 +32,7 @@ export function formatDateShort(dateStr: string | null | undefined): string {
   }
 }
 
-export const BILL_STATUS_LABELS: Record<string, string> = {
-  draft: "טיוטה",
-  submitted: "הוגשה",
-  committee_review: "בדיון בוועדה",
-  first_reading: "קריאה ראשונה",
-  second_reading: "קריאה שנייה",
-  third_reading: "קריאה שלישית",
-  passed: "אושרה",
-  rejected: "נדחתה",
-  withdrawn: "הוסרה",
-  expired: "פגת תוקף",
-  unknown: "לא ידוע",
-};
+export const BILL_STATUS_LABELS: Record<string, string> = BILL_STATUS_LABELS_HE;
 
 export const CONFIDENCE_LABELS: Record<string, string> = {
   high: "High confidence",
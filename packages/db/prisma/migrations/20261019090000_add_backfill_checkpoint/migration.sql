@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "BackfillCheckpoint" (
+    "id" TEXT NOT NULL,
+    "job" TEXT NOT NULL,
+    "entity_set" TEXT NOT NULL,
+    "last_id" INTEGER,
+    "skip" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "etl_run_id" TEXT,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BackfillCheckpoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BackfillCheckpoint_job_key" ON "BackfillCheckpoint"("job");
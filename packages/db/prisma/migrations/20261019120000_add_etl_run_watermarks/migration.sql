@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ETLRun" ADD COLUMN     "watermarks_json" JSONB;
@@ -0,0 +1,70 @@
+-- CreateTable
+CREATE TABLE "PartyVoteCohesion" (
+    "id" TEXT NOT NULL,
+    "party_id" TEXT NOT NULL,
+    "vote_id" TEXT NOT NULL,
+    "vote_date" TIMESTAMP(3),
+    "majority_position" TEXT,
+    "yes_count" INTEGER NOT NULL,
+    "no_count" INTEGER NOT NULL,
+    "abstain_count" INTEGER NOT NULL,
+    "rice_index" DOUBLE PRECISION,
+    "computed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PartyVoteCohesion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MKPartyCohesion" (
+    "id" TEXT NOT NULL,
+    "mk_id" TEXT NOT NULL,
+    "party_id" TEXT NOT NULL,
+    "votes_counted" INTEGER NOT NULL,
+    "votes_with" INTEGER NOT NULL,
+    "votes_against" INTEGER NOT NULL,
+    "computed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MKPartyCohesion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VoteDefection" (
+    "id" TEXT NOT NULL,
+    "mk_id" TEXT NOT NULL,
+    "party_id" TEXT NOT NULL,
+    "vote_id" TEXT NOT NULL,
+    "vote_date" TIMESTAMP(3),
+    "position" TEXT NOT NULL,
+    "party_position" TEXT NOT NULL,
+    "party_rice_index" DOUBLE PRECISION,
+    "computed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VoteDefection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PartyVoteCohesion_party_id_vote_date_idx" ON "PartyVoteCohesion"("party_id", "vote_date");
+
+-- CreateIndex
+CREATE INDEX "PartyVoteCohesion_vote_id_idx" ON "PartyVoteCohesion"("vote_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PartyVoteCohesion_party_id_vote_id_key" ON "PartyVoteCohesion"("party_id", "vote_id");
+
+-- CreateIndex
+CREATE INDEX "MKPartyCohesion_mk_id_idx" ON "MKPartyCohesion"("mk_id");
+
+-- CreateIndex
+CREATE INDEX "MKPartyCohesion_party_id_idx" ON "MKPartyCohesion"("party_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MKPartyCohesion_mk_id_party_id_key" ON "MKPartyCohesion"("mk_id", "party_id");
+
+-- CreateIndex
+CREATE INDEX "VoteDefection_mk_id_vote_date_idx" ON "VoteDefection"("mk_id", "vote_date");
+
+-- CreateIndex
+CREATE INDEX "VoteDefection_party_id_vote_date_idx" ON "VoteDefection"("party_id", "vote_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VoteDefection_vote_id_mk_id_key" ON "VoteDefection"("vote_id", "mk_id");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "MKVoteSimilarity" (
+    "id" TEXT NOT NULL,
+    "mk_id" TEXT NOT NULL,
+    "other_mk_id" TEXT NOT NULL,
+    "overlap" INTEGER NOT NULL,
+    "agreements" INTEGER NOT NULL,
+    "agreement_rate" DOUBLE PRECISION NOT NULL,
+    "computed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MKVoteSimilarity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MKVoteSimilarity_mk_id_agreement_rate_idx" ON "MKVoteSimilarity"("mk_id", "agreement_rate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MKVoteSimilarity_mk_id_other_mk_id_key" ON "MKVoteSimilarity"("mk_id", "other_mk_id");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "MKParticipation" (
+    "id" TEXT NOT NULL,
+    "mk_id" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "total_votes" INTEGER NOT NULL,
+    "yes_count" INTEGER NOT NULL,
+    "no_count" INTEGER NOT NULL,
+    "abstain_count" INTEGER NOT NULL,
+    "present_count" INTEGER NOT NULL,
+    "absent_count" INTEGER NOT NULL,
+    "unknown_count" INTEGER NOT NULL,
+    "computed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MKParticipation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MKParticipation_scope_period_idx" ON "MKParticipation"("scope", "period");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MKParticipation_mk_id_scope_period_key" ON "MKParticipation"("mk_id", "scope", "period");
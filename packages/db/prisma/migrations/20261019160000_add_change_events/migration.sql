@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "ChangeEvent" (
+    "id" TEXT NOT NULL,
+    "entity_type" TEXT NOT NULL,
+    "entity_id" TEXT NOT NULL,
+    "external_id" TEXT,
+    "change_type" TEXT NOT NULL,
+    "field" TEXT,
+    "old_value" TEXT,
+    "new_value" TEXT,
+    "label_he" TEXT NOT NULL,
+    "occurred_at" TIMESTAMP(3),
+    "etl_run_id" TEXT NOT NULL,
+    "detected_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChangeEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChangeEvent_detected_at_idx" ON "ChangeEvent"("detected_at");
+
+-- CreateIndex
+CREATE INDEX "ChangeEvent_entity_type_detected_at_idx" ON "ChangeEvent"("entity_type", "detected_at");
+
+-- CreateIndex
+CREATE INDEX "ChangeEvent_etl_run_id_idx" ON "ChangeEvent"("etl_run_id");
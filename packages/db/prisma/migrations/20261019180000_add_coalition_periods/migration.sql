@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "CoalitionPeriod" (
+    "id" TEXT NOT NULL,
+    "party_id" TEXT NOT NULL,
+    "knesset_number" INTEGER NOT NULL,
+    "government_num" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3),
+    "source_url" TEXT,
+    "source_label" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CoalitionPeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CoalitionPeriod_party_id_start_date_idx" ON "CoalitionPeriod"("party_id", "start_date");
+
+-- CreateIndex
+CREATE INDEX "CoalitionPeriod_knesset_number_idx" ON "CoalitionPeriod"("knesset_number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CoalitionPeriod_party_id_government_num_start_date_key" ON "CoalitionPeriod"("party_id", "government_num", "start_date");
+
+-- AddForeignKey
+ALTER TABLE "CoalitionPeriod" ADD CONSTRAINT "CoalitionPeriod_party_id_fkey" FOREIGN KEY ("party_id") REFERENCES "Party"("id") ON DELETE CASCADE ON UPDATE CASCADE;
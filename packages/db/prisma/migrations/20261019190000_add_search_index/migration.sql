@@ -0,0 +1,80 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateFunction
+-- Search text for Hebrew: strips niqqud, geresh / gershayim and quotes, then
+-- appends copies of the text with one and two leading prefix letters
+-- (ה ו ב ל מ ש) removed from every word that keeps at least three letters, so
+-- "והכנסת" is indexed as "והכנסת", "הכנסת" and "כנסת". Mirrored on the query
+-- side by apps/api/src/services/search-service.ts (prefixVariants).
+CREATE FUNCTION "search_text_he"(input TEXT) RETURNS TEXT
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT base
+    || ' ' || regexp_replace(base, '(^|[^א-ת])[הובלמש](?=[א-ת]{3})', '\1', 'g')
+    || ' ' || regexp_replace(base, '(^|[^א-ת])[הובלמש]{2}(?=[א-ת]{3})', '\1', 'g')
+  FROM (
+    SELECT regexp_replace(lower(coalesce(input, '')), '[\u0591-\u05C7"''\u05F3\u05F4`]', '', 'g') AS base
+  ) s
+$$;
+
+-- AlterTable
+ALTER TABLE "Party" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', "search_text_he"("name_he")), 'A') ||
+  setweight(to_tsvector('simple', "search_text_he"("abbreviation")), 'A') ||
+  setweight(to_tsvector('simple', "search_text_he"("name_en")), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "MK" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', "search_text_he"("name_he")), 'A') ||
+  setweight(to_tsvector('simple', "search_text_he"("name_en")), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Bill" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', "search_text_he"("title_he")), 'A') ||
+  setweight(to_tsvector('simple', "search_text_he"("title_en")), 'B') ||
+  setweight(to_tsvector('simple', "search_text_he"("description_he")), 'C')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Committee" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', "search_text_he"("name_he")), 'A') ||
+  setweight(to_tsvector('simple', "search_text_he"("name_en")), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Vote" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', "search_text_he"("title_he")), 'A') ||
+  setweight(to_tsvector('simple', "search_text_he"("title_en")), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Party_search_vector_idx" ON "Party" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "Party_name_he_trgm_idx" ON "Party" USING GIN ("name_he" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "MK_search_vector_idx" ON "MK" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "MK_name_he_trgm_idx" ON "MK" USING GIN ("name_he" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Bill_search_vector_idx" ON "Bill" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "Bill_title_he_trgm_idx" ON "Bill" USING GIN ("title_he" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Committee_search_vector_idx" ON "Committee" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "Committee_name_he_trgm_idx" ON "Committee" USING GIN ("name_he" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Vote_search_vector_idx" ON "Vote" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "Vote_title_he_trgm_idx" ON "Vote" USING GIN ("title_he" gin_trgm_ops);
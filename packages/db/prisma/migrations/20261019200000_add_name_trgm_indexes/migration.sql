@@ -0,0 +1,11 @@
+-- CreateIndex
+CREATE INDEX "MK_name_en_trgm_idx" ON "MK" USING GIN ("name_en" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "MK_name_last_he_trgm_idx" ON "MK" USING GIN ("name_last_he" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Party_name_en_trgm_idx" ON "Party" USING GIN ("name_en" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Committee_name_en_trgm_idx" ON "Committee" USING GIN ("name_en" gin_trgm_ops);
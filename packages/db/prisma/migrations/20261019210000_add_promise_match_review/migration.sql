@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "PromiseMatch" ADD COLUMN "score" DOUBLE PRECISION,
+ADD COLUMN "review_status" TEXT NOT NULL DEFAULT 'accepted',
+ADD COLUMN "reviewed_at" TIMESTAMP(3);
+
+-- Matches that point at a vote that no longer exists cannot get the foreign key
+UPDATE "PromiseMatch" SET "vote_id" = NULL
+WHERE "vote_id" IS NOT NULL AND "vote_id" NOT IN (SELECT "id" FROM "Vote");
+
+-- CreateIndex
+CREATE INDEX "PromiseMatch_vote_id_idx" ON "PromiseMatch"("vote_id");
+
+-- CreateIndex
+CREATE INDEX "PromiseMatch_review_status_idx" ON "PromiseMatch"("review_status");
+
+-- AddForeignKey
+ALTER TABLE "PromiseMatch" ADD CONSTRAINT "PromiseMatch_vote_id_fkey" FOREIGN KEY ("vote_id") REFERENCES "Vote"("id") ON DELETE SET NULL ON UPDATE CASCADE;
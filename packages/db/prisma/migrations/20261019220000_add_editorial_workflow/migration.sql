@@ -0,0 +1,77 @@
+-- AlterTable
+ALTER TABLE "Promise" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'published',
+ADD COLUMN "published_at" TIMESTAMP(3),
+ADD COLUMN "created_by_id" TEXT;
+
+-- Existing statements were public already
+UPDATE "Promise" SET "published_at" = "created_at";
+
+-- CreateTable
+CREATE TABLE "Editor" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT,
+    "role" TEXT NOT NULL DEFAULT 'editor',
+    "key_hash" TEXT NOT NULL,
+    "key_prefix" TEXT NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Editor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AuditLog" (
+    "id" TEXT NOT NULL,
+    "editor_id" TEXT,
+    "actor" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "entity_type" TEXT NOT NULL,
+    "entity_id" TEXT NOT NULL,
+    "changes" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Promise_status_idx" ON "Promise"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Editor_email_key" ON "Editor"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Editor_key_hash_key" ON "Editor"("key_hash");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_entity_type_entity_id_idx" ON "AuditLog"("entity_type", "entity_id");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_editor_id_idx" ON "AuditLog"("editor_id");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_created_at_idx" ON "AuditLog"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "Promise" ADD CONSTRAINT "Promise_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "Editor"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AuditLog" ADD CONSTRAINT "AuditLog_editor_id_fkey" FOREIGN KEY ("editor_id") REFERENCES "Editor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- The audit log is append-only
+CREATE FUNCTION "audit_log_immutable"() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  RAISE EXCEPTION 'AuditLog rows cannot be modified or deleted';
+END;
+$$;
+
+CREATE TRIGGER "AuditLog_immutable"
+BEFORE UPDATE OR DELETE ON "AuditLog"
+FOR EACH ROW EXECUTE FUNCTION "audit_log_immutable"();
+
+CREATE TRIGGER "AuditLog_no_truncate"
+BEFORE TRUNCATE ON "AuditLog"
+FOR EACH STATEMENT EXECUTE FUNCTION "audit_log_immutable"();
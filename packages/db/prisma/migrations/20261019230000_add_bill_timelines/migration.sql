@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "BillStageSpan" (
+    "id" TEXT NOT NULL,
+    "bill_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3),
+    "days" INTEGER,
+    "source" TEXT NOT NULL,
+    "committee_id" TEXT,
+    "computed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BillStageSpan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BillTimeline" (
+    "bill_id" TEXT NOT NULL,
+    "bill_type" TEXT,
+    "committee_id" TEXT,
+    "submitted_at" TIMESTAMP(3),
+    "first_reading_at" TIMESTAMP(3),
+    "passed_at" TIMESTAMP(3),
+    "days_to_first_reading" INTEGER,
+    "days_to_passed" INTEGER,
+    "computed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BillTimeline_pkey" PRIMARY KEY ("bill_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BillStageSpan_bill_id_position_key" ON "BillStageSpan"("bill_id", "position");
+
+-- CreateIndex
+CREATE INDEX "BillStageSpan_status_idx" ON "BillStageSpan"("status");
+
+-- CreateIndex
+CREATE INDEX "BillTimeline_bill_type_idx" ON "BillTimeline"("bill_type");
+
+-- CreateIndex
+CREATE INDEX "BillTimeline_committee_id_idx" ON "BillTimeline"("committee_id");
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Bill" ADD COLUMN "bill_type" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Bill_bill_type_idx" ON "Bill"("bill_type");
+
+-- Carry over the type the timeline aggregate already derived; the next bill sync fills the rest
+UPDATE "Bill" b SET "bill_type" = t."bill_type"
+FROM "BillTimeline" t
+WHERE t."bill_id" = b."id" AND t."bill_type" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "BillTimeline_bill_type_idx";
+
+-- AlterTable
+ALTER TABLE "BillTimeline" DROP COLUMN "bill_type";
+
+-- AlterTable
+ALTER TABLE "PartyTopicAgg" ADD COLUMN "government_score" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "government_bill_count" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Vote" ADD COLUMN "item_id" TEXT,
+ADD COLUMN "bill_link_confidence" TEXT,
+ADD COLUMN "bill_reading" TEXT;
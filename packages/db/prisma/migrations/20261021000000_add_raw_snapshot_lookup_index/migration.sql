@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "RawSnapshot_entity_type_external_source_external_id_fetched_at_idx" ON "RawSnapshot"("entity_type", "external_source", "external_id", "fetched_at");
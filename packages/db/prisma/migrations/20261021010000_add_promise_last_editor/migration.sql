@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Promise" ADD COLUMN "last_edited_by_id" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Promise" ADD CONSTRAINT "Promise_last_edited_by_id_fkey" FOREIGN KEY ("last_edited_by_id") REFERENCES "Editor"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -223,6 +223,7 @@ async function main() {
       title_he: "חוק התקציב לשנת 2023 (הצעה לדוגמה)",
       title_en: "Budget Law 2023 (Demo)",
       status: "passed",
+      bill_type: "government",
       topic: "economy",
       knesset_number: 25,
       submitted_date: new Date("2023-01-15"),
@@ -233,6 +234,7 @@ async function main() {
       title_he: "הצעת חוק בריאות הציבור (לדוגמה)",
       title_en: "Public Health Bill (Demo)",
       status: "committee_review",
+      bill_type: "private",
       topic: "healthcare",
       knesset_number: 25,
       submitted_date: new Date("2023-03-20"),
@@ -243,6 +245,7 @@ async function main() {
       title_he: "הצעת חוק חינוך לכולם (לדוגמה)",
       title_en: "Education for All Bill (Demo)",
       status: "first_reading",
+      bill_type: "private",
       topic: "education",
       knesset_number: 25,
       submitted_date: new Date("2023-05-10"),
@@ -269,6 +272,7 @@ async function main() {
         description_en:
           "Demo description only. This data is not from an official source and is intended only for UI demonstration.",
         status: b.status,
+        bill_type: b.bill_type,
         topic: b.topic,
         knesset_number: b.knesset_number,
         submitted_date: b.submitted_date,
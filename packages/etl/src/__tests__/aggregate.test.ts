@@ -7,6 +7,7 @@ import {
   computeBillPoints,
   applyRoleMultiplier,
   normalizePartyScores,
+  mergeAggRows,
   type RawAggRow,
 } from "../aggregate/aggregate-party-topics.js";
 
@@ -118,3 +119,37 @@ describe("normalizePartyScores", () => {
     expect(result.get("p2")?.get("housing")).toBeCloseTo(1.0); // max
   });
 });
+
+// ──────────────────────────────────────────────────────────────────
+// mergeAggRows
+// ──────────────────────────────────────────────────────────────────
+
+describe("mergeAggRows", () => {
+  it("keeps MK initiative and government scores side by side", () => {
+    const merged = mergeAggRows(
+      [{ party_id: "p1", topic: "economy", raw_score: 4, bill_count: 2 }],
+      [
+        { party_id: "p1", topic: "economy", government_score: 5, government_bill_count: 1 },
+        { party_id: "p2", topic: "economy", government_score: 5, government_bill_count: 1 },
+      ],
+    );
+    expect(merged).toEqual([
+      {
+        party_id: "p1",
+        topic: "economy",
+        raw_score: 4,
+        bill_count: 2,
+        government_score: 5,
+        government_bill_count: 1,
+      },
+      {
+        party_id: "p2",
+        topic: "economy",
+        raw_score: 0,
+        bill_count: 0,
+        government_score: 5,
+        government_bill_count: 1,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Tests for the resumable VoteRecord backfill against a local fixture OData server.
+ * The database is an in-memory stand-in; HTTP goes through the real safeFetch path.
+ */
+
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import type { RawVoteRecord } from "../mappers/vote-mapper.js";
+
+// ──────────────────────────────────────────────────────────────────
+// In-memory db
+// ──────────────────────────────────────────────────────────────────
+
+interface Checkpoint {
+  job: string;
+  entity_set: string;
+  last_id: number | null;
+  skip: number;
+  status: string;
+  etl_run_id: string | null;
+}
+
+const state = vi.hoisted(() => ({
+  checkpoints: new Map<string, Checkpoint>(),
+  voteRecords: new Map<string, { vote_id: string; mk_id: string; position: string }>(),
+  etlRuns: new Map<string, Record<string, unknown>>(),
+  runSeq: 0,
+  failUpsertForMk: null as string | null,
+}));
+
+vi.mock("@knesset-vote/db", () => ({
+  db: {
+    eTLRun: {
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => {
+        const id = `run-${++state.runSeq}`;
+        state.etlRuns.set(id, { id, ...data });
+        return { id };
+      }),
+      update: vi.fn(
+        async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+          const run = { ...state.etlRuns.get(where.id), ...data };
+          state.etlRuns.set(where.id, run);
+          return run;
+        },
+      ),
+    },
+    backfillCheckpoint: {
+      deleteMany: vi.fn(async ({ where }: { where: { job: string } }) => {
+        state.checkpoints.delete(where.job);
+      }),
+      upsert: vi.fn(
+        async ({
+          where,
+          create,
+          update,
+        }: {
+          where: { job: string };
+          create: Omit<Checkpoint, "last_id" | "skip" | "status">;
+          update: Partial<Checkpoint>;
+        }) => {
+          const existing = state.checkpoints.get(where.job);
+          const row: Checkpoint = existing
+            ? { ...existing, ...update }
+            : { last_id: null, skip: 0, status: "running", ...create };
+          state.checkpoints.set(where.job, row);
+          return { ...row };
+        },
+      ),
+      update: vi.fn(
+        async ({ where, data }: { where: { job: string }; data: Partial<Checkpoint> }) => {
+          const row = { ...state.checkpoints.get(where.job)!, ...data };
+          state.checkpoints.set(where.job, row);
+          return { ...row };
+        },
+      ),
+    },
+    vote: {
+      findMany: vi.fn(async () => [
+        { id: "vote-a", external_id: "100" },
+        { id: "vote-b", external_id: "101" },
+      ]),
+    },
+    mK: {
+      findMany: vi.fn(async () => [
+        { id: "mk-1", external_id: "1" },
+        { id: "mk-2", external_id: "2" },
+        { id: "mk-3", external_id: "3" },
+      ]),
+    },
+    voteRecord: {
+      upsert: vi.fn(
+        async ({
+          where,
+          create,
+          update,
+        }: {
+          where: { vote_id_mk_id: { vote_id: string; mk_id: string } };
+          create: { vote_id: string; mk_id: string; position: string };
+          update: { position: string };
+        }) => {
+          const { vote_id, mk_id } = where.vote_id_mk_id;
+          if (mk_id === state.failUpsertForMk) throw new Error("simulated write failure");
+          const key = `${vote_id}:${mk_id}`;
+          const existing = state.voteRecords.get(key);
+          const row = existing ? { ...existing, ...update } : { ...create };
+          state.voteRecords.set(key, row);
+          return row;
+        },
+      ),
+    },
+  },
+}));
+
+import {
+  runVoteRecordBackfill,
+  buildVoteRecordPageUrl,
+  VOTE_RECORD_BACKFILL_JOB,
+} from "../backfill/backfill-vote-records.js";
+
+// ──────────────────────────────────────────────────────────────────
+// Fixture OData server
+// ──────────────────────────────────────────────────────────────────
+
+// 7 records: MkId 99 is unknown (skipped); VoteID 555 is unknown (skipped)
+const FIXTURE_RECORDS: RawVoteRecord[] = [
+  { Id: 1, VoteID: 100, MkId: 1, ResultCode: 7 },
+  { Id: 2, VoteID: 100, MkId: 2, ResultCode: 8 },
+  { Id: 3, VoteID: 100, MkId: 3, ResultCode: 9 },
+  { Id: 5, VoteID: 101, MkId: 1, ResultCode: 11 },
+  { Id: 6, VoteID: 101, MkId: 99, ResultCode: 7 },
+  { Id: 8, VoteID: 555, MkId: 2, ResultCode: 8 },
+  { Id: 9, VoteID: 101, MkId: 3, ResultCode: 10 },
+];
+
+let server: Server;
+let baseUrl: string;
+const requestedFilters: (string | null)[] = [];
+// Rows the server returns per page at most, whatever $top asks for
+let serverPageCap = Infinity;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://127.0.0.1");
+    if (url.pathname !== "/KNS_PlenumVoteResult") {
+      res.writeHead(404).end();
+      return;
+    }
+    const filter = url.searchParams.get("$filter");
+    requestedFilters.push(filter);
+    const after = filter ? Number(/Id gt (\d+)/.exec(filter)?.[1]) : 0;
+    const top = Number(url.searchParams.get("$top") ?? "50");
+    const value = FIXTURE_RECORDS.filter((r) => (r.Id ?? 0) > after).slice(
+      0,
+      Math.min(top, serverPageCap),
+    );
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ value }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env["ALLOWED_FETCH_DOMAINS"] = "127.0.0.1";
+});
+
+afterAll(async () => {
+  delete process.env["ALLOWED_FETCH_DOMAINS"];
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  state.checkpoints.clear();
+  state.voteRecords.clear();
+  state.etlRuns.clear();
+  state.failUpsertForMk = null;
+  requestedFilters.length = 0;
+  serverPageCap = Infinity;
+});
+
+// ──────────────────────────────────────────────────────────────────
+// buildVoteRecordPageUrl
+// ──────────────────────────────────────────────────────────────────
+
+describe("buildVoteRecordPageUrl", () => {
+  it("omits the filter on the first page", () => {
+    const url = new URL(buildVoteRecordPageUrl("https://knesset.gov.il/OdataV4/x", null, 500));
+    expect(url.pathname).toBe("/OdataV4/x/KNS_PlenumVoteResult");
+    expect(url.searchParams.get("$filter")).toBeNull();
+    expect(url.searchParams.get("$orderby")).toBe("Id asc");
+    expect(url.searchParams.get("$top")).toBe("500");
+  });
+
+  it("uses a keyset filter after the last persisted Id", () => {
+    const url = new URL(buildVoteRecordPageUrl("https://knesset.gov.il/OdataV4/x", 1234, 500));
+    expect(url.searchParams.get("$filter")).toBe("Id gt 1234");
+  });
+});
+
+// ──────────────────────────────────────────────────────────────────
+// runVoteRecordBackfill
+// ──────────────────────────────────────────────────────────────────
+
+describe("runVoteRecordBackfill", () => {
+  it("loads all records in one run and marks the checkpoint completed", async () => {
+    const result = await runVoteRecordBackfill({ baseUrl, pageSize: 3, delayMs: 0 });
+
+    expect(result.status).toBe("completed");
+    expect(result.records_fetched).toBe(7);
+    expect(result.records_upserted).toBe(5);
+    expect(result.records_skipped).toBe(2);
+    expect(result.last_id).toBe(9);
+
+    expect(state.voteRecords.get("vote-a:mk-1")?.position).toBe("yes");
+    expect(state.voteRecords.get("vote-a:mk-2")?.position).toBe("no");
+    expect(state.voteRecords.get("vote-a:mk-3")?.position).toBe("abstain");
+    expect(state.voteRecords.get("vote-b:mk-1")?.position).toBe("yes");
+    expect(state.voteRecords.get("vote-b:mk-3")?.position).toBe("absent");
+
+    const checkpoint = state.checkpoints.get(VOTE_RECORD_BACKFILL_JOB)!;
+    expect(checkpoint).toMatchObject({ last_id: 9, skip: 7, status: "completed" });
+  });
+
+  it("resumes from the stored cursor after being stopped", async () => {
+    const first = await runVoteRecordBackfill({ baseUrl, pageSize: 3, maxPages: 1, delayMs: 0 });
+    expect(first.status).toBe("partial");
+    expect(first.last_id).toBe(3);
+    expect(state.checkpoints.get(VOTE_RECORD_BACKFILL_JOB)).toMatchObject({
+      last_id: 3,
+      skip: 3,
+      status: "running",
+    });
+
+    requestedFilters.length = 0;
+    const second = await runVoteRecordBackfill({ baseUrl, pageSize: 3, delayMs: 0 });
+
+    expect(second.resumed_from).toBe(3);
+    expect(requestedFilters[0]).toBe("Id gt 3");
+    expect(second.records_fetched).toBe(4);
+    expect(second.status).toBe("completed");
+    expect(state.voteRecords.size).toBe(5);
+    expect(state.checkpoints.get(VOTE_RECORD_BACKFILL_JOB)).toMatchObject({
+      last_id: 9,
+      skip: 7,
+    });
+  });
+
+  it("flushes counts to the ETLRun after each page", async () => {
+    const result = await runVoteRecordBackfill({ baseUrl, pageSize: 3, maxPages: 2, delayMs: 0 });
+    const run = state.etlRuns.get(result.run_id)!;
+    expect(run["source"]).toBe("backfill:vote_records");
+    expect(run["status"]).toBe("partial");
+    expect(run["counts_json"]).toEqual({
+      vote_record: { fetched: 6, created: 4, updated: 0, failed: 0 },
+    });
+  });
+
+  it("starts over when reset is requested", async () => {
+    await runVoteRecordBackfill({ baseUrl, pageSize: 3, delayMs: 0 });
+    requestedFilters.length = 0;
+
+    const result = await runVoteRecordBackfill({ baseUrl, pageSize: 3, delayMs: 0, reset: true });
+
+    expect(result.resumed_from).toBeNull();
+    expect(requestedFilters[0]).toBeNull();
+    expect(result.records_fetched).toBe(7);
+  });
+
+  it("keeps paging when the server caps pages below the requested size", async () => {
+    serverPageCap = 2;
+    const result = await runVoteRecordBackfill({ baseUrl, pageSize: 1000, delayMs: 0 });
+
+    expect(result.status).toBe("completed");
+    expect(result.records_fetched).toBe(7);
+    expect(result.last_id).toBe(9);
+    expect(requestedFilters.at(-1)).toBe("Id gt 9");
+  });
+
+  it("holds the cursor before a failed write and ends partial so a rerun retries it", async () => {
+    state.failUpsertForMk = "mk-2";
+    const result = await runVoteRecordBackfill({ baseUrl, pageSize: 10, delayMs: 0 });
+    expect(result.status).toBe("partial");
+    expect(result.errors).toBe(1);
+    expect(result.records_upserted).toBe(4);
+    expect(result.last_id).toBe(1);
+    expect(state.checkpoints.get(VOTE_RECORD_BACKFILL_JOB)).toMatchObject({
+      last_id: 1,
+      skip: 1,
+      status: "running",
+    });
+
+    state.failUpsertForMk = null;
+    requestedFilters.length = 0;
+    const retry = await runVoteRecordBackfill({ baseUrl, pageSize: 10, delayMs: 0 });
+
+    expect(requestedFilters[0]).toBe("Id gt 1");
+    expect(retry.status).toBe("completed");
+    expect(state.voteRecords.get("vote-a:mk-2")?.position).toBe("no");
+    expect(state.voteRecords.size).toBe(5);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for bill timeline reconstruction
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@knesset-vote/db", () => ({ db: {} }));
+
+import {
+  buildStageSpans,
+  snapshotObservations,
+  summarizeTimeline,
+  type StatusObservation,
+} from "../aggregate/aggregate-bill-timelines.js";
+import { mapBillToBill, mapBillType } from "../mappers/bill-mapper.js";
+
+const d = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+function obs(status: string, at: string, overrides: Partial<StatusObservation> = {}) {
+  return { status, at: d(at), source: "snapshot" as const, committee_id: null, ...overrides };
+}
+
+describe("snapshotObservations", () => {
+  it("keeps status changes only, dated by LastUpdatedDate", () => {
+    const observations = snapshotObservations([
+      { fetched_at: d("2025-01-10"), payload: { StatusID: 104, LastUpdatedDate: "2025-01-05" } },
+      { fetched_at: d("2025-02-10"), payload: { StatusID: 150, LastUpdatedDate: "2025-02-01" } },
+      { fetched_at: d("2025-03-10"), payload: { StatusID: 141, LastUpdatedDate: "2025-03-02" } },
+    ]);
+    expect(observations.map((o) => [o.status, o.at])).toEqual([
+      ["submitted", d("2025-01-05")],
+      ["first_reading", d("2025-03-02")],
+    ]);
+  });
+
+  it("falls back to the fetch time when LastUpdatedDate did not move", () => {
+    const observations = snapshotObservations([
+      { fetched_at: d("2025-01-10"), payload: { StatusID: 104, LastUpdatedDate: "2025-01-05" } },
+      { fetched_at: d("2025-02-10"), payload: { StatusID: 118, LastUpdatedDate: "2025-01-05" } },
+    ]);
+    expect(observations[1]).toMatchObject({ status: "passed", at: d("2025-02-10") });
+  });
+});
+
+describe("buildStageSpans", () => {
+  const now = d("2025-06-01");
+
+  it("orders observations, merges repeats and counts days per stage", () => {
+    const spans = buildStageSpans(
+      [
+        obs("first_reading", "2025-03-01"),
+        obs("submitted", "2025-01-01", { source: "submission" }),
+        obs("committee_review", "2025-02-01", { source: "stage_history", committee_id: "c1" }),
+        obs("committee_review", "2025-02-15"),
+        obs("unknown", "2025-02-20"),
+      ],
+      now,
+    );
+    expect(spans.map((s) => [s.status, s.days, s.committee_id])).toEqual([
+      ["submitted", 31, null],
+      ["committee_review", 28, "c1"],
+      ["first_reading", 92, null],
+    ]);
+    expect(spans[2]?.ended_at).toBeNull();
+  });
+
+  it("does not count days in a final status", () => {
+    const spans = buildStageSpans(
+      [obs("submitted", "2025-01-01"), obs("passed", "2025-05-01")],
+      now,
+    );
+    expect(spans[1]).toMatchObject({ status: "passed", ended_at: null, days: null });
+  });
+});
+
+describe("summarizeTimeline", () => {
+  it("measures days from submission to first reading and passage", () => {
+    const spans = buildStageSpans(
+      [
+        obs("submitted", "2025-01-01"),
+        obs("first_reading", "2025-01-31"),
+        obs("passed", "2025-04-01"),
+      ],
+      d("2025-06-01"),
+    );
+    expect(summarizeTimeline(spans, null)).toEqual({
+      submitted_at: d("2025-01-01"),
+      first_reading_at: d("2025-01-31"),
+      passed_at: d("2025-04-01"),
+      days_to_first_reading: 30,
+      days_to_passed: 90,
+    });
+  });
+
+  it("leaves milestones the bill has not reached empty", () => {
+    const spans = buildStageSpans([obs("committee_review", "2025-02-01")], d("2025-06-01"));
+    expect(summarizeTimeline(spans, d("2025-01-01"))).toMatchObject({
+      submitted_at: d("2025-01-01"),
+      first_reading_at: null,
+      days_to_first_reading: null,
+    });
+  });
+});
+
+describe("mapBillType", () => {
+  it("reads IsGovernmentBill and SubTypeDesc", () => {
+    expect(mapBillType({ IsGovernmentBill: true })).toBe("government");
+    expect(mapBillType({ SubTypeDesc: "ממשלתית" })).toBe("government");
+    expect(mapBillType({ SubTypeDesc: "ועדה", IsGovernmentBill: false })).toBe("committee");
+    expect(mapBillType({ SubTypeDesc: "פרטית" })).toBe("private");
+    expect(mapBillType({})).toBeNull();
+  });
+
+  it("is persisted on the mapped bill", () => {
+    expect(mapBillToBill({ BillID: 1, Name: "x", IsGovernmentBill: true }).bill_type).toBe(
+      "government",
+    );
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Unit tests for snapshot diffing and party-switch detection
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@knesset-vote/db", () => ({ db: {} }));
+
+import { diffSnapshots, findPartySwitches } from "../sync/change-detection.js";
+
+const bill = (StatusID: number) => ({ BillID: 501, Name: "הצעת חוק לדוגמה", StatusID });
+
+const role = (IsCurrent: boolean) => ({
+  Id: 9001,
+  PersonID: 30,
+  PositionID: 39,
+  KnessetNum: 25,
+  StartDate: "2026-09-01T00:00:00",
+  FinishDate: IsCurrent ? null : "2026-10-01T00:00:00",
+  GovMinistryID: 7,
+  GovMinistryName: "משרד האוצר",
+  DutyDesc: "שר האוצר",
+  FactionID: null,
+  FactionName: null,
+  GovernmentNum: 37,
+  CommitteeID: null,
+  CommitteeName: null,
+  IsCurrent,
+  LastUpdatedDate: null,
+});
+
+describe("diffSnapshots", () => {
+  it("records a bill status transition with old and new values", () => {
+    expect(diffSnapshots("bill", bill(106), bill(108))).toMatchObject([
+      {
+        change_type: "status_changed",
+        field: "status",
+        old_value: "committee_review",
+        new_value: "first_reading",
+        label_he: "הצעת חוק לדוגמה",
+      },
+    ]);
+  });
+
+  it("ignores payload changes that leave the mapped status untouched", () => {
+    expect(diffSnapshots("bill", bill(108), { ...bill(111), SummaryLaw: "תקציר" })).toEqual([]);
+  });
+
+  it("records first-seen entities as created", () => {
+    expect(diffSnapshots("bill", null, bill(108))).toMatchObject([{ change_type: "created" }]);
+    expect(diffSnapshots("party", null, { FactionID: 1, FactionName: "סיעה חדשה" })).toMatchObject([
+      { change_type: "created", label_he: "סיעה חדשה" },
+    ]);
+  });
+
+  it("detects ministerial appointments and departures", () => {
+    expect(diffSnapshots("government_role", null, role(true))).toMatchObject([
+      { change_type: "role_started", label_he: "שר האוצר" },
+    ]);
+    expect(diffSnapshots("government_role", role(true), role(false))).toMatchObject([
+      { change_type: "role_ended" },
+    ]);
+    expect(diffSnapshots("government_role", role(true), role(true))).toEqual([]);
+  });
+
+  it("returns nothing for entity types it does not track", () => {
+    expect(diffSnapshots("unknown", null, {})).toEqual([]);
+  });
+});
+
+describe("findPartySwitches", () => {
+  const since = new Date("2026-10-01T00:00:00Z");
+  const before = new Date("2025-01-01T00:00:00Z");
+  const after = new Date("2026-10-02T00:00:00Z");
+
+  it("flags a new membership in a different party", () => {
+    const switches = findPartySwitches(
+      [
+        {
+          id: "m2",
+          mk_id: "mk1",
+          party_id: "p2",
+          party_name_he: "ב",
+          start_date: new Date("2026-09-30"),
+          created_at: after,
+        },
+        {
+          id: "m1",
+          mk_id: "mk1",
+          party_id: "p1",
+          party_name_he: "א",
+          start_date: new Date("2022-11-15"),
+          created_at: before,
+        },
+      ],
+      since,
+    );
+    expect(switches).toEqual([
+      {
+        membership_id: "m2",
+        mk_id: "mk1",
+        old_party_name_he: "א",
+        new_party_name_he: "ב",
+        start_date: new Date("2026-09-30"),
+      },
+    ]);
+  });
+
+  it("ignores first memberships, same-party terms and older rows", () => {
+    const switches = findPartySwitches(
+      [
+        {
+          id: "a",
+          mk_id: "mk1",
+          party_id: "p1",
+          party_name_he: "א",
+          start_date: new Date("2022-11-15"),
+          created_at: after,
+        },
+        {
+          id: "b",
+          mk_id: "mk2",
+          party_id: "p1",
+          party_name_he: "א",
+          start_date: new Date("2019-04-30"),
+          created_at: before,
+        },
+        {
+          id: "c",
+          mk_id: "mk2",
+          party_id: "p1",
+          party_name_he: "א",
+          start_date: new Date("2022-11-15"),
+          created_at: after,
+        },
+        {
+          id: "d",
+          mk_id: "mk3",
+          party_id: "p1",
+          party_name_he: "א",
+          start_date: new Date("2019-04-30"),
+          created_at: before,
+        },
+        {
+          id: "e",
+          mk_id: "mk3",
+          party_id: "p2",
+          party_name_he: "ב",
+          start_date: new Date("2021-04-06"),
+          created_at: before,
+        },
+      ],
+      since,
+    );
+    expect(switches).toEqual([]);
+  });
+
+  it("leaves memberships created after the run completed to the next run", () => {
+    const rows = [
+      {
+        id: "m2",
+        mk_id: "mk1",
+        party_id: "p2",
+        party_name_he: "ב",
+        start_date: new Date("2026-09-30"),
+        created_at: new Date("2026-10-03T00:00:00Z"),
+      },
+      {
+        id: "m1",
+        mk_id: "mk1",
+        party_id: "p1",
+        party_name_he: "א",
+        start_date: new Date("2022-11-15"),
+        created_at: before,
+      },
+    ];
+    expect(findPartySwitches(rows, since, after)).toEqual([]);
+    expect(findPartySwitches(rows, since, null)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Unit tests for the curated coalition periods file, its validation and
+ * faction matching
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@knesset-vote/db", () => ({ db: {} }));
+
+import {
+  loadCoalitionPeriods,
+  parseCoalitionPeriods,
+  type CuratedCoalitionPeriod,
+} from "../config/coalition-periods.js";
+import {
+  matchCuratedParty,
+  parseCuratedDate,
+  validateCoalitionPeriods,
+} from "../sync/sync-coalitions.js";
+
+function period(overrides: Partial<CuratedCoalitionPeriod>): CuratedCoalitionPeriod {
+  return {
+    party_external_id: "1",
+    party_name_he: "סיעה",
+    knesset_number: 25,
+    government_num: 37,
+    status: "coalition",
+    start_date: "2022-12-29",
+    end_date: null,
+    source_url: null,
+    source_label: "test",
+    ...overrides,
+  };
+}
+
+describe("validateCoalitionPeriods", () => {
+  it("accepts the curated list", () => {
+    const periods = loadCoalitionPeriods();
+    expect(new Set(periods.map((p) => p.government_num))).toEqual(new Set([35, 36, 37]));
+    expect(validateCoalitionPeriods(periods)).toEqual([]);
+    // Every faction the Knesset 25 sets covered before curation keeps a status
+    const knesset25 = new Set(
+      periods.filter((p) => p.government_num === 37).map((p) => p.party_external_id),
+    );
+    for (let id = 1096; id <= 1110; id++) {
+      expect(knesset25.has(String(id)), String(id)).toBe(true);
+    }
+  });
+
+  it("accepts consecutive periods when a faction switches sides", () => {
+    expect(
+      validateCoalitionPeriods([
+        period({ status: "opposition", end_date: "2023-10-12" }),
+        period({ start_date: "2023-10-12", end_date: "2024-06-10" }),
+        period({ status: "opposition", start_date: "2024-06-10" }),
+      ]),
+    ).toEqual([]);
+  });
+
+  it("reports overlapping and inverted periods", () => {
+    const problems = validateCoalitionPeriods([
+      period({}),
+      period({ start_date: "2023-01-01", end_date: "2022-01-01" }),
+    ]);
+    expect(problems).toHaveLength(2);
+    expect(problems.some((p) => p.includes("is not after"))).toBe(true);
+    expect(problems.some((p) => p.includes("overlaps"))).toBe(true);
+  });
+});
+
+describe("parseCoalitionPeriods", () => {
+  it("gives each period its government's dates unless it sets its own", () => {
+    const periods = parseCoalitionPeriods({
+      governments: [
+        {
+          government_num: 37,
+          knesset_number: 25,
+          start_date: "2022-12-29",
+          end_date: null,
+          source_url: null,
+          source_label: "test",
+          periods: [
+            { faction_id: "1096", name_he: "הליכוד", status: "coalition" },
+            {
+              name_he: "המחנה הממלכתי",
+              status: "coalition",
+              start_date: "2023-10-12",
+              end_date: "2024-06-10",
+            },
+          ],
+        },
+      ],
+    });
+    expect(periods).toEqual([
+      period({ party_external_id: "1096", party_name_he: "הליכוד" }),
+      period({
+        party_external_id: null,
+        party_name_he: "המחנה הממלכתי",
+        start_date: "2023-10-12",
+        end_date: "2024-06-10",
+      }),
+    ]);
+  });
+
+  it("rejects malformed dates and statuses", () => {
+    const gov = {
+      government_num: 1,
+      knesset_number: 1,
+      end_date: null,
+      source_url: null,
+      source_label: "x",
+    };
+    expect(() =>
+      parseCoalitionPeriods({ governments: [{ ...gov, start_date: "29/12/2022", periods: [] }] }),
+    ).toThrow();
+    expect(() =>
+      parseCoalitionPeriods({
+        governments: [
+          { ...gov, start_date: "2022-12-29", periods: [{ name_he: "א", status: "neutral" }] },
+        ],
+      }),
+    ).toThrow();
+  });
+});
+
+describe("matchCuratedParty", () => {
+  const parties = [
+    { id: "p1", external_id: "1096", name_he: "הליכוד", knesset_number: 25 },
+    { id: "p2", external_id: "1050", name_he: "הליכוד", knesset_number: 24 },
+    { id: "p3", external_id: "1051", name_he: "יש עתיד", knesset_number: 24 },
+    { id: "p4", external_id: "1052", name_he: "העבודה", knesset_number: 24 },
+    { id: "p5", external_id: "1053", name_he: "העבודה-מימד", knesset_number: 24 },
+  ];
+
+  it("matches by FactionID, or by name within the period's Knesset", () => {
+    expect(matchCuratedParty(period({ party_external_id: "1096" }), parties)?.id).toBe("p1");
+    expect(
+      matchCuratedParty(
+        period({ party_external_id: null, party_name_he: "הליכוד", knesset_number: 24 }),
+        parties,
+      )?.id,
+    ).toBe("p2");
+    // An exact name wins over names that contain it
+    expect(
+      matchCuratedParty(
+        period({ party_external_id: null, party_name_he: "העבודה", knesset_number: 24 }),
+        parties,
+      )?.id,
+    ).toBe("p4");
+  });
+
+  it("returns null for unknown and ambiguous names", () => {
+    expect(
+      matchCuratedParty(
+        period({ party_external_id: null, party_name_he: "מרצ", knesset_number: 24 }),
+        parties,
+      ),
+    ).toBeNull();
+    expect(
+      matchCuratedParty(
+        period({ party_external_id: null, party_name_he: "עבודה", knesset_number: 24 }),
+        parties,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("parseCuratedDate", () => {
+  it("parses calendar dates as UTC midnight and rejects other formats", () => {
+    expect(parseCuratedDate("2022-12-29").toISOString()).toBe("2022-12-29T00:00:00.000Z");
+    expect(() => parseCuratedDate("29/12/2022")).toThrow();
+  });
+});
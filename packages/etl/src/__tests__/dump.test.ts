@@ -0,0 +1,94 @@
+/**
+ * Unit tests for the full data dump (CSV / JSON Lines + manifest)
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect, vi, afterAll } from "vitest";
+
+const { empty } = vi.hoisted(() => ({
+  empty: () => ({ findMany: vi.fn().mockResolvedValue([]) }),
+}));
+
+vi.mock("@knesset-vote/db", () => ({
+  db: {
+    eTLRun: {
+      findFirst: vi.fn().mockResolvedValue({
+        id: "run1",
+        completed_at: new Date("2026-10-18T03:00:00Z"),
+      }),
+    },
+    party: {
+      findMany: vi.fn().mockResolvedValue([
+        { id: "p1", external_id: "1", name_he: "סיעה, א", is_active: true, is_demo: false },
+        { id: "p2", external_id: "2", name_he: 'סיעה "ב"', is_active: false, is_demo: false },
+      ]),
+    },
+    mK: empty(),
+    partyMembership: empty(),
+    bill: empty(),
+    mKBillRole: empty(),
+    vote: empty(),
+    voteRecord: empty(),
+  },
+}));
+
+import { db } from "@knesset-vote/db";
+import { csvValue } from "@knesset-vote/shared";
+import { formatRow, dumpDirName, runDump } from "../export/dump.js";
+
+describe("csvValue", () => {
+  it("quotes values containing separators, quotes or newlines", () => {
+    expect(csvValue(null)).toBe("");
+    expect(csvValue(false)).toBe("false");
+    expect(csvValue("שלום")).toBe("שלום");
+    expect(csvValue('תשפ"ו, ב')).toBe('"תשפ""ו, ב"');
+    expect(csvValue("a\nb")).toBe('"a\nb"');
+    expect(csvValue(new Date("2026-01-01T00:00:00Z"))).toBe("2026-01-01T00:00:00.000Z");
+  });
+});
+
+describe("formatRow", () => {
+  it("emits columns in order and nulls for missing JSONL keys", () => {
+    const row = { b: 2, a: "x" };
+    expect(formatRow(["a", "b", "c"], row, "csv")).toBe("x,2,\r\n");
+    expect(formatRow(["a", "b", "c"], row, "jsonl")).toBe('{"a":"x","b":2,"c":null}\n');
+  });
+});
+
+describe("runDump", () => {
+  const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "knesset-dump-"));
+
+  afterAll(() => {
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it("writes every entity in both formats with a verifiable manifest", async () => {
+    const { dir, manifest } = await runDump({ outDir });
+
+    expect(path.basename(dir)).toBe(dumpDirName(new Date(manifest.generated_at)));
+    expect(fs.existsSync(`${dir}.partial`)).toBe(false);
+    expect(manifest.etl_run_id).toBe("run1");
+    expect(db.eTLRun.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ source: "knesset_odata" }) }),
+    );
+    expect(manifest.files).toHaveLength(14);
+
+    const partiesCsv = fs.readFileSync(path.join(dir, "parties.csv"), "utf8");
+    expect(partiesCsv.startsWith("\uFEFFid,external_id,name_he,")).toBe(true);
+    expect(partiesCsv).toContain('p1,1,"סיעה, א",');
+
+    for (const file of manifest.files) {
+      const buf = fs.readFileSync(path.join(dir, file.path));
+      expect(file.bytes).toBe(buf.length);
+      expect(file.sha256).toBe(crypto.createHash("sha256").update(buf).digest("hex"));
+    }
+    const parties = manifest.files.find((f) => f.entity === "parties" && f.format === "jsonl");
+    expect(parties?.rows).toBe(2);
+
+    const onDisk = JSON.parse(fs.readFileSync(path.join(dir, "manifest.json"), "utf8"));
+    expect(onDisk).toEqual(manifest);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Unit tests for the MK voting-similarity accumulator
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@knesset-vote/db", () => ({ db: {} }));
+
+import { AgreementCounter } from "../aggregate/aggregate-mk-similarity.js";
+
+function vote(positions: Record<string, string>) {
+  return Object.entries(positions).map(([mk_id, position]) => ({ mk_id, position }));
+}
+
+describe("AgreementCounter", () => {
+  it("counts overlap and agreement for each pair in both directions", () => {
+    const counter = new AgreementCounter(["a", "b", "c"]);
+    counter.addVote(vote({ a: "yes", b: "yes", c: "no" }));
+    counter.addVote(vote({ a: "no", b: "yes", c: "no" }));
+    counter.addVote(vote({ a: "abstain", b: "abstain" }));
+
+    const pairs = counter.toPairs(1);
+    const ab = pairs.find((p) => p.mk_id === "a" && p.other_mk_id === "b");
+    const ba = pairs.find((p) => p.mk_id === "b" && p.other_mk_id === "a");
+    expect(ab).toEqual({
+      mk_id: "a",
+      other_mk_id: "b",
+      overlap: 3,
+      agreements: 2,
+      agreement_rate: 2 / 3,
+    });
+    expect(ba?.agreement_rate).toBe(ab?.agreement_rate);
+
+    const ac = pairs.find((p) => p.mk_id === "a" && p.other_mk_id === "c");
+    expect(ac).toMatchObject({ overlap: 2, agreements: 1 });
+  });
+
+  it("ignores absences and MKs outside the set", () => {
+    const counter = new AgreementCounter(["a", "b"]);
+    counter.addVote(vote({ a: "yes", b: "absent", outsider: "yes" }));
+    counter.addVote(vote({ a: "yes", b: "did_not_vote" }));
+    expect(counter.toPairs(1)).toEqual([]);
+  });
+
+  it("drops pairs below the minimum overlap", () => {
+    const counter = new AgreementCounter(["a", "b", "c"]);
+    counter.addVote(vote({ a: "yes", b: "yes", c: "yes" }));
+    counter.addVote(vote({ a: "yes", b: "no" }));
+
+    const pairs = counter.toPairs(2);
+    expect(pairs.map((p) => `${p.mk_id}-${p.other_mk_id}`).sort()).toEqual(["a-b", "b-a"]);
+  });
+});
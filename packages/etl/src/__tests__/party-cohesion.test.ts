@@ -0,0 +1,146 @@
+/**
+ * Unit tests for aggregate-party-cohesion pure functions
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@knesset-vote/db", () => ({ db: {} }));
+
+import {
+  majorityPosition,
+  riceIndex,
+  resolvePartyAt,
+  computeVoteCohesion,
+  type MembershipSpan,
+} from "../aggregate/aggregate-party-cohesion.js";
+
+// ──────────────────────────────────────────────────────────────────
+// majorityPosition / riceIndex
+// ──────────────────────────────────────────────────────────────────
+
+describe("majorityPosition", () => {
+  it("returns the most common present position", () => {
+    expect(majorityPosition({ yes: 5, no: 2, abstain: 1 })).toBe("yes");
+    expect(majorityPosition({ yes: 0, no: 0, abstain: 3 })).toBe("abstain");
+  });
+
+  it("returns null on a tie for first place", () => {
+    expect(majorityPosition({ yes: 3, no: 3, abstain: 1 })).toBeNull();
+  });
+
+  it("returns null when nobody was present", () => {
+    expect(majorityPosition({ yes: 0, no: 0, abstain: 0 })).toBeNull();
+  });
+});
+
+describe("riceIndex", () => {
+  it("is 1 for a unanimous faction", () => {
+    expect(riceIndex({ yes: 10, no: 0, abstain: 2 })).toBe(1);
+  });
+
+  it("is 0 for an evenly split faction", () => {
+    expect(riceIndex({ yes: 4, no: 4, abstain: 0 })).toBe(0);
+  });
+
+  it("is |yes − no| / (yes + no)", () => {
+    expect(riceIndex({ yes: 6, no: 2, abstain: 5 })).toBeCloseTo(0.5);
+  });
+
+  it("is null without yes/no votes", () => {
+    expect(riceIndex({ yes: 0, no: 0, abstain: 3 })).toBeNull();
+  });
+});
+
+// ──────────────────────────────────────────────────────────────────
+// resolvePartyAt
+// ──────────────────────────────────────────────────────────────────
+
+describe("resolvePartyAt", () => {
+  const switcher: MembershipSpan[] = [
+    {
+      party_id: "old",
+      knesset_number: 25,
+      start_date: new Date("2022-11-15"),
+      end_date: new Date("2024-03-01"),
+    },
+    { party_id: "new", knesset_number: 25, start_date: new Date("2024-03-02"), end_date: null },
+  ];
+
+  it("picks the membership covering the vote date", () => {
+    expect(resolvePartyAt(switcher, new Date("2023-06-01"), 25)).toBe("old");
+    expect(resolvePartyAt(switcher, new Date("2025-01-01"), 25)).toBe("new");
+  });
+
+  it("does not guess between two parties in the same term without dates", () => {
+    expect(resolvePartyAt(switcher, null, 25)).toBeNull();
+  });
+
+  it("falls back to the only party in the vote's Knesset term", () => {
+    const undated: MembershipSpan[] = [
+      { party_id: "p1", knesset_number: 24, start_date: null, end_date: null },
+      { party_id: "p2", knesset_number: 25, start_date: null, end_date: null },
+    ];
+    expect(resolvePartyAt(undated, new Date("2023-01-01"), 25)).toBe("p2");
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(resolvePartyAt([], new Date("2023-01-01"), 25)).toBeNull();
+  });
+});
+
+// ──────────────────────────────────────────────────────────────────
+// computeVoteCohesion
+// ──────────────────────────────────────────────────────────────────
+
+describe("computeVoteCohesion", () => {
+  const parties: Record<string, string> = {
+    a1: "A",
+    a2: "A",
+    a3: "A",
+    a4: "A",
+    b1: "B",
+    solo: "S",
+  };
+  const partyOf = (mkId: string) => parties[mkId] ?? null;
+
+  const records = [
+    { mk_id: "a1", position: "yes" },
+    { mk_id: "a2", position: "yes" },
+    { mk_id: "a3", position: "yes" },
+    { mk_id: "a4", position: "no" },
+    { mk_id: "b1", position: "absent" },
+    { mk_id: "solo", position: "no" },
+    { mk_id: "unknown", position: "yes" },
+  ];
+
+  it("tallies each faction and computes its majority and Rice index", () => {
+    const { parties: results } = computeVoteCohesion(records, partyOf);
+    const a = results.find((p) => p.party_id === "A");
+    expect(a?.tally).toEqual({ yes: 3, no: 1, abstain: 0 });
+    expect(a?.majority_position).toBe("yes");
+    expect(a?.rice_index).toBeCloseTo(0.5);
+    // Absent members and MKs without a resolvable party are left out
+    expect(results.map((p) => p.party_id).sort()).toEqual(["A", "S"]);
+  });
+
+  it("flags MKs who voted against their faction majority", () => {
+    const { alignments } = computeVoteCohesion(records, partyOf);
+    const rebels = alignments.filter((a) => !a.aligned);
+    expect(rebels).toEqual([
+      {
+        mk_id: "a4",
+        party_id: "A",
+        position: "no",
+        party_position: "yes",
+        party_rice_index: 0.5,
+        aligned: false,
+      },
+    ]);
+    expect(alignments.filter((a) => a.aligned)).toHaveLength(3);
+  });
+
+  it("does not count loyalty for single-member factions", () => {
+    const { alignments } = computeVoteCohesion(records, partyOf);
+    expect(alignments.some((a) => a.mk_id === "solo")).toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for statement ↔ bill / vote auto-matching
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@knesset-vote/db", () => ({ db: {} }));
+
+import {
+  planMatches,
+  pickSuggestions,
+  promiseTopic,
+  scoreCandidate,
+  textSimilarity,
+  tokenize,
+  type ExistingMatch,
+  type MatchSuggestion,
+} from "../aggregate/match-promises.js";
+
+function suggestion(overrides: Partial<MatchSuggestion>): MatchSuggestion {
+  return {
+    kind: "bill",
+    id: "b1",
+    confidence: "medium",
+    score: 0.2,
+    topic_match: true,
+    date: null,
+    ...overrides,
+  };
+}
+
+function existing(overrides: Partial<ExistingMatch>): ExistingMatch {
+  return {
+    id: "m1",
+    bill_id: "b1",
+    vote_id: null,
+    match_type: "auto_keyword",
+    review_status: "pending",
+    ...overrides,
+  };
+}
+
+describe("tokenize", () => {
+  it("drops stopwords and a single prefix letter", () => {
+    expect([...tokenize("הצעת חוק הדיור הציבורי")]).toEqual(["דיור", "ציבורי"]);
+    expect(tokenize("נפעל לבניית דירות").has("בניית")).toBe(true);
+  });
+
+  it("ignores niqqud and gershayim", () => {
+    expect(tokenize('ד\u05B4\u05BCי\u05BCו\u05BCר צה"ל')).toEqual(new Set(["דיור", "צהל"]));
+  });
+});
+
+describe("textSimilarity", () => {
+  it("is the share of statement words found in the candidate", () => {
+    expect(textSimilarity(new Set(["דיור", "ציבורי"]), new Set(["דיור", "מחירים"]))).toBe(0.5);
+    expect(textSimilarity(new Set(), new Set(["דיור"]))).toBe(0);
+  });
+});
+
+describe("promiseTopic", () => {
+  it("prefers the statement's own topic and never returns other", () => {
+    expect(promiseTopic({ text: "בלה בלה", topic: "housing" })).toBe("housing");
+    expect(promiseTopic({ text: "בלה בלה", topic: null })).toBeNull();
+  });
+});
+
+describe("scoreCandidate", () => {
+  const statement = { tokens: tokenize("נוריד את מחירי הדיור הציבורי"), topic: "housing" };
+
+  it("rates topic plus word overlap", () => {
+    const high = scoreCandidate(statement, {
+      kind: "bill",
+      id: "b1",
+      text: "הצעת חוק הדיור הציבורי",
+      topic: "housing",
+      date: null,
+    });
+    expect(high).toMatchObject({ confidence: "high", topic_match: true });
+
+    const low = scoreCandidate(statement, {
+      kind: "vote",
+      id: "v1",
+      text: "הצעת חוק המשכנתאות",
+      topic: "housing",
+      date: null,
+    });
+    expect(low).toMatchObject({ confidence: "low", score: 0 });
+  });
+
+  it("requires a topic match for votes but not for strong bill overlap", () => {
+    const candidate = {
+      id: "x",
+      text: "מחירי הדיור הציבורי",
+      topic: "economy",
+      date: null,
+    };
+    expect(scoreCandidate(statement, { ...candidate, kind: "vote" })).toBeNull();
+    expect(scoreCandidate(statement, { ...candidate, kind: "bill" })).toMatchObject({
+      confidence: "medium",
+      topic_match: false,
+    });
+  });
+});
+
+describe("pickSuggestions", () => {
+  it("keeps the best five per kind, highest confidence first", () => {
+    const bills = Array.from({ length: 7 }, (_, i) =>
+      suggestion({ id: `b${i}`, score: i / 10, confidence: i === 0 ? "high" : "medium" }),
+    );
+    const picked = pickSuggestions([...bills, suggestion({ kind: "vote", id: "v1" })]);
+    expect(picked.filter((s) => s.kind === "bill").map((s) => s.id)).toEqual([
+      "b0",
+      "b6",
+      "b5",
+      "b4",
+      "b3",
+    ]);
+    expect(picked.some((s) => s.id === "v1")).toBe(true);
+  });
+});
+
+describe("planMatches", () => {
+  it("never touches manual or reviewed matches", () => {
+    const plan = planMatches(
+      [
+        existing({ id: "manual", match_type: "manual", review_status: "accepted" }),
+        existing({ id: "rejected", bill_id: "b2", review_status: "rejected" }),
+      ],
+      [suggestion({ id: "b1" }), suggestion({ id: "b2" })],
+    );
+    expect(plan).toEqual({ create: [], update: [], remove: [] });
+  });
+
+  it("refreshes, creates and removes pending suggestions", () => {
+    const plan = planMatches(
+      [existing({ id: "keep" }), existing({ id: "stale", bill_id: null, vote_id: "v9" })],
+      [suggestion({ id: "b1", confidence: "high" }), suggestion({ kind: "vote", id: "v1" })],
+    );
+    expect(plan.update).toEqual([
+      { id: "keep", suggestion: expect.objectContaining({ id: "b1" }) },
+    ]);
+    expect(plan.create.map((s) => s.id)).toEqual(["v1"]);
+    expect(plan.remove).toEqual(["stale"]);
+  });
+});
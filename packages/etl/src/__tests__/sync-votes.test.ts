@@ -0,0 +1,61 @@
+/**
+ * Unit tests for assigning Knesset terms to votes by date
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@knesset-vote/db", () => ({
+  db: {
+    partyMembership: { groupBy: vi.fn() },
+    vote: { updateMany: vi.fn().mockResolvedValue({ count: 2 }) },
+  },
+}));
+
+import { db } from "@knesset-vote/db";
+import { knessetTermAt, knessetTermRanges } from "@knesset-vote/shared";
+import { assignVoteKnessetNumbers } from "../sync/sync-votes.js";
+
+const d = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe("knessetTermRanges", () => {
+  it("runs each term until the next one starts", () => {
+    expect(
+      knessetTermRanges([
+        { knesset_number: 25, start_date: d("2022-11-15") },
+        { knesset_number: 24, start_date: d("2021-04-06") },
+      ]),
+    ).toEqual([
+      { knesset_number: 24, from: d("2021-04-06"), to: d("2022-11-15") },
+      { knesset_number: 25, from: d("2022-11-15"), to: null },
+    ]);
+  });
+
+  it("places a date on a term boundary in the term that starts then", () => {
+    const ranges = knessetTermRanges([
+      { knesset_number: 24, start_date: d("2021-04-06") },
+      { knesset_number: 25, start_date: d("2022-11-15") },
+    ]);
+    expect(knessetTermAt(ranges, d("2021-01-01"))).toBeNull();
+    expect(knessetTermAt(ranges, d("2022-11-14"))).toBe(24);
+    expect(knessetTermAt(ranges, d("2022-11-15"))).toBe(25);
+  });
+});
+
+describe("assignVoteKnessetNumbers", () => {
+  it("fills only votes without a Knesset number, by term date range", async () => {
+    vi.mocked(db.partyMembership.groupBy).mockResolvedValue([
+      { knesset_number: 24, _min: { start_date: d("2021-04-06") } },
+      { knesset_number: 25, _min: { start_date: d("2022-11-15") } },
+    ] as never);
+
+    expect(await assignVoteKnessetNumbers()).toBe(4);
+    expect(db.vote.updateMany).toHaveBeenCalledWith({
+      where: { knesset_number: null, vote_date: { gte: d("2021-04-06"), lt: d("2022-11-15") } },
+      data: { knesset_number: 24 },
+    });
+    expect(db.vote.updateMany).toHaveBeenCalledWith({
+      where: { knesset_number: null, vote_date: { gte: d("2022-11-15") } },
+      data: { knesset_number: 25 },
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Unit tests for the vote → bill linker
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@knesset-vote/db", () => ({
+  db: {
+    bill: { findMany: vi.fn() },
+    vote: { findMany: vi.fn(), update: vi.fn((args: unknown) => args) },
+    $transaction: vi.fn(),
+  },
+}));
+
+import { db } from "@knesset-vote/db";
+import { logger } from "../logger.js";
+import {
+  buildBillIndex,
+  detectReading,
+  linkVotesToBills,
+  normalizeBillTitle,
+  resolveVoteBill,
+  type BillRef,
+} from "../sync/link-vote-bills.js";
+
+const bill = (id: string, title_he: string, submitted?: string): BillRef => ({
+  id,
+  external_id: id.replace("b", ""),
+  title_he,
+  submitted_date: submitted ? new Date(submitted) : null,
+});
+
+describe("detectReading", () => {
+  it("tells the readings apart, most specific first", () => {
+    expect(detectReading("חוק הגנת הצרכן - קריאה שנייה ושלישית")).toBe("second_third_reading");
+    expect(detectReading("חוק הגנת הצרכן - קריאה שניה-שלישית")).toBe("second_third_reading");
+    expect(detectReading("חוק הגנת הצרכן - קריאה שלישית")).toBe("third_reading");
+    expect(detectReading("הצעת חוק הגנת הצרכן - קריאה ראשונה")).toBe("first_reading");
+    expect(detectReading("הצעת חוק הגנת הצרכן - דיון מוקדם")).toBe("preliminary");
+    expect(detectReading("הצעה לסדר היום")).toBeNull();
+  });
+});
+
+describe("normalizeBillTitle", () => {
+  it("matches a vote title to its bill title", () => {
+    const billTitle = `הצעת חוק הגנת הצרכן (תיקון מס' 60), התשפ"ד-2024`;
+    const voteTitle = `חוק הגנת הצרכן (תיקון מס' 60), התשפ"ד-2024 - קריאה שנייה ושלישית`;
+    expect(normalizeBillTitle(voteTitle)).toBe(normalizeBillTitle(billTitle));
+    expect(normalizeBillTitle(billTitle)).toBe("חוק הגנת הצרכן תיקון מס 60 התשפד 2024");
+  });
+});
+
+describe("resolveVoteBill", () => {
+  const index = buildBillIndex([
+    bill("b100", "הצעת חוק הגנת הצרכן (תיקון מס' 60), התשפ\"ד-2024"),
+    bill("b200", 'הצעת חוק יום הזיכרון, התשפ"ד-2024', "2024-01-01"),
+    bill("b201", 'הצעת חוק יום הזיכרון, התשפ"ד-2024', "2024-03-01"),
+    bill("b202", 'הצעת חוק יום הזיכרון, התשפ"ד-2024', "2024-09-01"),
+  ]);
+
+  it("links by ItemID with high confidence", () => {
+    expect(
+      resolveVoteBill(
+        { item_id: "100", title_he: "הצעת חוק כלשהי - קריאה ראשונה", vote_date: null },
+        index,
+      ),
+    ).toEqual({ bill_id: "b100", confidence: "high", reading: "first_reading" });
+  });
+
+  it("ignores an ItemID on a vote that is not about a law", () => {
+    expect(
+      resolveVoteBill({ item_id: "100", title_he: "הצעה לסדר היום", vote_date: null }, index),
+    ).toBeNull();
+  });
+
+  it("falls back to a unique title with medium confidence", () => {
+    expect(
+      resolveVoteBill(
+        {
+          item_id: null,
+          title_he: `חוק הגנת הצרכן (תיקון מס' 60), התשפ"ד-2024 - קריאה שלישית`,
+          vote_date: null,
+        },
+        index,
+      ),
+    ).toMatchObject({ bill_id: "b100", confidence: "medium", reading: "third_reading" });
+  });
+
+  it("picks the latest bill tabled before the vote when titles repeat", () => {
+    expect(
+      resolveVoteBill(
+        {
+          item_id: null,
+          title_he: `הצעת חוק יום הזיכרון, התשפ"ד-2024 - דיון מוקדם`,
+          vote_date: new Date("2024-05-01"),
+        },
+        index,
+      ),
+    ).toEqual({ bill_id: "b201", confidence: "low", reading: "preliminary" });
+  });
+});
+
+describe("linkVotesToBills", () => {
+  it("checks only votes changed since the watermark or still unlinked", async () => {
+    const since = new Date("2025-01-01T00:00:00Z");
+    vi.mocked(db.bill.findMany).mockResolvedValue([]);
+    vi.mocked(db.vote.findMany).mockResolvedValue([]);
+
+    await linkVotesToBills({ changedSince: since });
+
+    const where = vi.mocked(db.vote.findMany).mock.calls[0]![0]!.where;
+    // No bill changed, so linked votes the sync did not touch are left alone
+    expect(where?.AND).toContainEqual({
+      OR: [{ bill_id: null }, { updated_at: { gte: since } }],
+    });
+  });
+
+  it("re-checks title links only when a matching bill changed since the watermark", async () => {
+    const since = new Date("2025-01-01T00:00:00Z");
+    const before = new Date("2024-12-01T00:00:00Z");
+    vi.mocked(db.vote.update).mockClear();
+    vi.mocked(db.bill.findMany).mockResolvedValue([
+      { ...bill("b2", "הצעת חוק הדיור"), updated_at: since },
+      { ...bill("b3", "הצעת חוק המים"), updated_at: before },
+    ] as never);
+    const vote = (id: string, title_he: string, bill_id: string) => ({
+      id,
+      item_id: null,
+      title_he,
+      vote_date: null,
+      bill_id,
+      bill_link_confidence: "low",
+      bill_reading: "first_reading",
+      updated_at: before,
+    });
+    vi.mocked(db.vote.findMany)
+      .mockResolvedValueOnce([
+        vote("v2", "חוק הדיור - קריאה ראשונה", "b1"),
+        vote("v3", "חוק אחר - קריאה ראשונה", "b9"),
+      ] as never)
+      .mockResolvedValueOnce([]);
+
+    const result = await linkVotesToBills({ changedSince: since });
+
+    expect(result).toMatchObject({ votes_checked: 1, links_written: 1, links_cleared: 0 });
+    expect(db.vote.update).toHaveBeenCalledTimes(1);
+    expect(db.vote.update).toHaveBeenCalledWith({
+      where: { id: "v2" },
+      data: { bill_id: "b2", bill_link_confidence: "medium", bill_reading: "first_reading" },
+    });
+  });
+
+  it("logs a link that no longer resolves before clearing it", async () => {
+    const warn = vi.spyOn(logger, "warn");
+    vi.mocked(db.bill.findMany).mockResolvedValue([]);
+    vi.mocked(db.vote.findMany)
+      .mockResolvedValueOnce([
+        {
+          id: "v1",
+          item_id: null,
+          title_he: "חוק שנמחק - קריאה ראשונה",
+          vote_date: null,
+          bill_id: "b1",
+          bill_link_confidence: "medium",
+          bill_reading: "first_reading",
+        },
+      ] as never)
+      .mockResolvedValueOnce([]);
+
+    const result = await linkVotesToBills();
+
+    expect(result).toMatchObject({ links_written: 1, links_cleared: 1 });
+    expect(warn).toHaveBeenCalledWith(
+      expect.objectContaining({ voteId: "v1", billId: "b1" }),
+      expect.stringContaining("clearing the link"),
+    );
+    expect(db.vote.update).toHaveBeenCalledWith({
+      where: { id: "v1" },
+      data: { bill_id: null, bill_link_confidence: null, bill_reading: null },
+    });
+  });
+});
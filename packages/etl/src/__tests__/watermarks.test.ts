@@ -0,0 +1,152 @@
+/**
+ * Unit tests for incremental-sync watermark helpers
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { ODataEntitySet } from "@knesset-vote/shared";
+
+vi.mock("@knesset-vote/db", () => ({ db: {}, Prisma: { DbNull: "DbNull" } }));
+
+import {
+  SyncWatermarks,
+  buildWatermarkFilter,
+  formatWatermarkLiteral,
+  maxWatermark,
+  watermarkKey,
+} from "../sync/watermarks.js";
+
+const BILL_SET: ODataEntitySet = {
+  name: "KNS_Bill",
+  entityType: "KNS_Bill",
+  url: "https://knesset.gov.il/OdataV4/ParliamentInfo/KNS_Bill",
+  properties: [
+    { name: "BillID", type: "Edm.Int32" },
+    { name: "LastUpdatedDate", type: "Edm.DateTimeOffset" },
+  ],
+};
+
+const STAGE_SET_NO_FIELD: ODataEntitySet = {
+  name: "KNS_BillHistory",
+  entityType: "KNS_BillHistory",
+  url: "https://knesset.gov.il/OdataV4/ParliamentInfo/KNS_BillHistory",
+  properties: [{ name: "BillID", type: "Edm.Int32" }],
+};
+
+// ──────────────────────────────────────────────────────────────────
+// Pure helpers
+// ──────────────────────────────────────────────────────────────────
+
+describe("formatWatermarkLiteral", () => {
+  it("subtracts a one-day overlap and emits a v4 DateTimeOffset", () => {
+    expect(formatWatermarkLiteral("2025-03-10T12:00:00Z")).toBe("2025-03-09T12:00:00.000Z");
+  });
+
+  it("uses the datetime'...' form for Edm.DateTime", () => {
+    expect(formatWatermarkLiteral("2025-03-10T12:00:00Z", "Edm.DateTime")).toBe(
+      "datetime'2025-03-09T12:00:00'",
+    );
+  });
+
+  it("returns null for unparseable values", () => {
+    expect(formatWatermarkLiteral("not a date")).toBeNull();
+  });
+});
+
+describe("buildWatermarkFilter", () => {
+  it("builds a LastUpdatedDate filter", () => {
+    expect(buildWatermarkFilter("2025-03-10T12:00:00Z")).toBe(
+      "LastUpdatedDate gt 2025-03-09T12:00:00.000Z",
+    );
+  });
+
+  it("ANDs with an existing base filter", () => {
+    expect(buildWatermarkFilter("2025-03-10T12:00:00Z", "CommitteeID ne null")).toBe(
+      "(CommitteeID ne null) and LastUpdatedDate gt 2025-03-09T12:00:00.000Z",
+    );
+  });
+
+  it("keeps the base filter when the watermark is invalid", () => {
+    expect(buildWatermarkFilter("garbage", "CommitteeID ne null")).toBe("CommitteeID ne null");
+  });
+});
+
+describe("maxWatermark", () => {
+  it("takes the later timestamp", () => {
+    expect(maxWatermark("2025-01-01T00:00:00", "2025-02-01T00:00:00")).toBe("2025-02-01T00:00:00");
+    expect(maxWatermark("2025-02-01T00:00:00", "2025-01-01T00:00:00")).toBe("2025-02-01T00:00:00");
+  });
+
+  it("ignores null, non-string and unparseable candidates", () => {
+    expect(maxWatermark("2025-01-01T00:00:00", null)).toBe("2025-01-01T00:00:00");
+    expect(maxWatermark(undefined, 12345)).toBeUndefined();
+    expect(maxWatermark(undefined, "soon")).toBeUndefined();
+  });
+});
+
+describe("watermarkKey", () => {
+  it("distinguishes reads of the same set with different base filters", () => {
+    expect(watermarkKey("KNS_PersonToPosition")).toBe("KNS_PersonToPosition");
+    expect(watermarkKey("KNS_PersonToPosition", "CommitteeID ne null")).toBe(
+      "KNS_PersonToPosition[CommitteeID ne null]",
+    );
+  });
+});
+
+// ──────────────────────────────────────────────────────────────────
+// SyncWatermarks
+// ──────────────────────────────────────────────────────────────────
+
+describe("SyncWatermarks", () => {
+  const previous = { KNS_Bill: "2025-03-10T12:00:00Z", KNS_PlenumVote: "2025-03-01T00:00:00Z" };
+
+  it("adds the watermark filter on incremental runs", () => {
+    const wm = new SyncWatermarks(previous, true);
+    expect(wm.queryOptions(BILL_SET)).toEqual({
+      $filter: "LastUpdatedDate gt 2025-03-09T12:00:00.000Z",
+    });
+  });
+
+  it("leaves options untouched on a full sync", () => {
+    const wm = new SyncWatermarks({}, false);
+    expect(wm.queryOptions(BILL_SET, { $top: 10 })).toEqual({ $top: 10 });
+    expect(wm.filterFor("KNS_PlenumVote")).toBeUndefined();
+  });
+
+  it("fetches the full set when it has no LastUpdatedDate property", () => {
+    const wm = new SyncWatermarks({ KNS_BillHistory: "2025-03-10T12:00:00Z" }, true);
+    expect(wm.queryOptions(STAGE_SET_NO_FIELD)).toEqual({});
+  });
+
+  it("fetches the full set when no previous mark exists for it", () => {
+    const wm = new SyncWatermarks(previous, true);
+    const committees = { ...BILL_SET, name: "KNS_Committee" };
+    expect(wm.queryOptions(committees)).toEqual({});
+  });
+
+  it("builds filters for sets fetched without metadata", () => {
+    const wm = new SyncWatermarks(previous, true);
+    expect(wm.filterFor("KNS_PlenumVote")).toBe("LastUpdatedDate gt 2025-02-28T00:00:00.000Z");
+  });
+
+  it("advances observed marks and carries forward untouched ones", () => {
+    const wm = new SyncWatermarks(previous, true);
+    wm.observe("KNS_Bill", [
+      { LastUpdatedDate: "2025-03-11T08:00:00Z" },
+      { LastUpdatedDate: "2025-03-12T09:30:00Z" },
+      { LastUpdatedDate: null },
+    ]);
+    wm.observe("KNS_Committee", [{ LastUpdatedDate: "2025-01-05T00:00:00Z" }]);
+
+    expect(wm.toJSON()).toEqual({
+      KNS_Bill: "2025-03-12T09:30:00Z",
+      KNS_PlenumVote: "2025-03-01T00:00:00Z",
+      KNS_Committee: "2025-01-05T00:00:00Z",
+    });
+  });
+
+  it("never moves a mark backwards", () => {
+    const wm = new SyncWatermarks(previous, true);
+    wm.observe("KNS_Bill", [{ LastUpdatedDate: "2024-12-31T00:00:00Z" }]);
+    expect(wm.toJSON()["KNS_Bill"]).toBe("2025-03-10T12:00:00Z");
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for webhook matching, signing, the SSRF host check, delivery
+ * claims and delivery against a local receiver
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+
+vi.mock("@knesset-vote/db", () => ({
+  db: {
+    webhookDelivery: {
+      findMany: vi.fn(),
+      findFirst: vi.fn().mockResolvedValue(null),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+import { db } from "@knesset-vote/db";
+import { assertWebhookUrl } from "../client/ssrf-guard.js";
+import {
+  deliverPendingWebhooks,
+  matchesSubscription,
+  nextAttemptDelayMs,
+  sendWebhook,
+  signPayload,
+} from "../sync/webhooks.js";
+
+describe("matchesSubscription", () => {
+  const bill = { id: "b1", topic: "housing", sponsor_mk_ids: ["mk1", "mk2"] };
+
+  it("matches when every set filter matches", () => {
+    expect(matchesSubscription({ bill_id: null, topic: null, mk_id: null }, bill)).toBe(true);
+    expect(matchesSubscription({ bill_id: "b1", topic: "housing", mk_id: "mk2" }, bill)).toBe(true);
+  });
+
+  it("rejects a mismatch on any filter", () => {
+    expect(matchesSubscription({ bill_id: "b2", topic: null, mk_id: null }, bill)).toBe(false);
+    expect(matchesSubscription({ bill_id: null, topic: "economy", mk_id: null }, bill)).toBe(false);
+    expect(matchesSubscription({ bill_id: "b1", topic: null, mk_id: "mk3" }, bill)).toBe(false);
+  });
+});
+
+describe("nextAttemptDelayMs", () => {
+  it("backs off and caps at the last step", () => {
+    expect(nextAttemptDelayMs(1)).toBe(30_000);
+    expect(nextAttemptDelayMs(2)).toBeGreaterThan(nextAttemptDelayMs(1));
+    expect(nextAttemptDelayMs(20)).toBe(nextAttemptDelayMs(5));
+  });
+});
+
+describe("assertWebhookUrl", () => {
+  it("rejects hosts that resolve to private, loopback or link-local addresses", async () => {
+    for (const url of [
+      "http://127.0.0.1:8080/hook",
+      "http://localhost/hook",
+      "http://10.0.0.5/hook",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::1]/hook",
+      "http://[::ffff:192.168.1.1]/hook",
+    ]) {
+      await expect(assertWebhookUrl(url), url).rejects.toThrow(/SSRF protection/);
+    }
+  });
+
+  it("accepts public addresses and rejects other schemes", async () => {
+    await expect(assertWebhookUrl("https://93.184.215.14/hook")).resolves.toBeUndefined();
+    await expect(assertWebhookUrl("ftp://93.184.215.14/hook")).rejects.toThrow(/http\(s\)/);
+  });
+});
+
+describe("deliverPendingWebhooks", () => {
+  it("skips a delivery that another pass claimed first", async () => {
+    vi.mocked(db.webhookDelivery.findMany)
+      .mockResolvedValueOnce([
+        {
+          id: "d1",
+          status: "pending",
+          attempts: 0,
+          next_attempt_at: new Date(0),
+          event_type: "bill.status_changed",
+          payload_json: {},
+          subscription: { url: "https://93.184.215.14/hook", secret: "s" },
+        },
+      ] as never)
+      .mockResolvedValueOnce([]);
+    vi.mocked(db.webhookDelivery.updateMany).mockResolvedValue({ count: 0 });
+
+    const result = await deliverPendingWebhooks();
+
+    expect(db.webhookDelivery.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: "d1", status: "pending", attempts: 0, next_attempt_at: new Date(0) },
+      }),
+    );
+    expect(db.webhookDelivery.update).not.toHaveBeenCalled();
+    expect(result).toEqual({ attempted: 0, delivered: 0, retrying: 0, failed: 0 });
+  });
+});
+
+describe("sendWebhook", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+
+  beforeAll(async () => {
+    // The receiver is on loopback, which deliveries reject unless allowed
+    process.env["WEBHOOK_ALLOW_PRIVATE_HOSTS"] = "true";
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = req.url === "/fail" ? 503 : 204;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env["WEBHOOK_ALLOW_PRIVATE_HOSTS"];
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("POSTs a payload whose signature verifies with the subscription secret", async () => {
+    const payload = { event: "bill.status_changed", bill: { title_he: "הצעת חוק" } };
+    const result = await sendWebhook({
+      url: `${baseUrl}/hook`,
+      secret: "s3cret",
+      deliveryId: "d1",
+      event: "bill.status_changed",
+      payload,
+    });
+    expect(result).toEqual({ ok: true, status_code: 204, error: null });
+
+    const req = received[received.length - 1]!;
+    expect(JSON.parse(req.body)).toEqual(payload);
+    expect(req.headers["x-knesset-vote-event"]).toBe("bill.status_changed");
+    expect(req.headers["x-knesset-vote-delivery"]).toBe("d1");
+    const timestamp = String(req.headers["x-knesset-vote-timestamp"]);
+    expect(req.headers["x-knesset-vote-signature"]).toBe(
+      `sha256=${signPayload("s3cret", timestamp, req.body)}`,
+    );
+  });
+
+  it("reports non-2xx responses and unreachable hosts without throwing", async () => {
+    const failed = await sendWebhook({
+      url: `${baseUrl}/fail`,
+      secret: "s3cret",
+      deliveryId: "d2",
+      event: "bill.stage_added",
+      payload: {},
+    });
+    expect(failed).toEqual({ ok: false, status_code: 503, error: "HTTP 503" });
+
+    const invalid = await sendWebhook({
+      url: "ftp://example.com/hook",
+      secret: "s3cret",
+      deliveryId: "d3",
+      event: "bill.stage_added",
+      payload: {},
+    });
+    expect(invalid.ok).toBe(false);
+    expect(invalid.status_code).toBeNull();
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * aggregate-bill-timelines.ts
+ *
+ * Rebuilds each bill's stage timeline. Knesset OData exposes no reading
+ * history (see BILL_STAGE_ENTITY_SET_CANDIDATES), so the timeline is pieced
+ * together from three sources:
+ *   - submission  Bill.submitted_date
+ *   - snapshot    every status change between consecutive KNS_Bill
+ *                 RawSnapshots, dated by the record's LastUpdatedDate
+ *   - stage       BillStage rows, where the source has them
+ *
+ * A snapshot only shows the status at sync time, so stages a bill passed
+ * through between two syncs are missing and stage starts are approximate.
+ *
+ * Materializes BillStageSpan (one row per stage, with days spent in it) and
+ * BillTimeline (milestones and handling committee per bill).
+ *
+ * Run with: pnpm etl:aggregate-bill-timelines
+ */
+
+import { db } from "@knesset-vote/db";
+import { logger } from "../logger.js";
+import { mapStatus, type RawBill } from "../mappers/bill-mapper.js";
+
+const BILL_BATCH_SIZE = 200;
+const WRITE_BATCH_SIZE = 1000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// A bill in one of these has left the pipeline; time "in" them is not counted
+const FINAL_STATUSES = new Set(["passed", "rejected", "withdrawn", "expired"]);
+
+// ──────────────────────────────────────────────────────────────────
+// Pure functions — exported for unit tests
+// ──────────────────────────────────────────────────────────────────
+
+export type StageSource = "submission" | "stage_history" | "snapshot";
+
+// On equal dates the more specific source comes first
+const SOURCE_ORDER: Record<StageSource, number> = { submission: 0, stage_history: 1, snapshot: 2 };
+
+export interface StatusObservation {
+  status: string;
+  at: Date;
+  source: StageSource;
+  committee_id: string | null;
+}
+
+export interface StageSpan {
+  position: number;
+  status: string;
+  started_at: Date;
+  ended_at: Date | null;
+  days: number | null;
+  source: StageSource;
+  committee_id: string | null;
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.max(0, Math.floor((to.getTime() - from.getTime()) / MS_PER_DAY));
+}
+
+/**
+ * One observation per status change across a bill's snapshots (oldest first).
+ * A change is dated by LastUpdatedDate when that is newer than the previous
+ * observation, else by the snapshot's fetch time.
+ */
+export function snapshotObservations(
+  snapshots: { fetched_at: Date; payload: RawBill }[],
+): StatusObservation[] {
+  const observations: StatusObservation[] = [];
+  for (const { fetched_at, payload } of snapshots) {
+    const status = mapStatus(payload.StatusID, payload.StatusDesc ?? payload.SubTypeDesc);
+    const prev = observations[observations.length - 1];
+    if (prev?.status === status) continue;
+
+    const updated = payload.LastUpdatedDate ? new Date(payload.LastUpdatedDate) : null;
+    const at = updated && (!prev || updated > prev.at) ? updated : fetched_at;
+    observations.push({ status, at, source: "snapshot", committee_id: null });
+  }
+  return observations;
+}
+
+/**
+ * Orders observations by date and merges repeats of the same status into one
+ * span. Each span ends where the next begins; the last one is open, and its
+ * days run to `now` unless the status is final.
+ */
+export function buildStageSpans(observations: StatusObservation[], now: Date): StageSpan[] {
+  const sorted = observations
+    .filter((o) => o.status !== "unknown")
+    .sort(
+      (a, b) => a.at.getTime() - b.at.getTime() || SOURCE_ORDER[a.source] - SOURCE_ORDER[b.source],
+    );
+
+  const merged: StatusObservation[] = [];
+  for (const o of sorted) {
+    const last = merged[merged.length - 1];
+    if (last?.status === o.status) {
+      last.committee_id ??= o.committee_id;
+      continue;
+    }
+    merged.push({ ...o });
+  }
+
+  return merged.map((o, i) => {
+    const next = merged[i + 1];
+    return {
+      position: i,
+      status: o.status,
+      started_at: o.at,
+      ended_at: next?.at ?? null,
+      days: next
+        ? daysBetween(o.at, next.at)
+        : FINAL_STATUSES.has(o.status)
+          ? null
+          : daysBetween(o.at, now),
+      source: o.source,
+      committee_id: o.committee_id,
+    };
+  });
+}
+
+export interface TimelineMilestones {
+  submitted_at: Date | null;
+  first_reading_at: Date | null;
+  passed_at: Date | null;
+  days_to_first_reading: number | null;
+  days_to_passed: number | null;
+}
+
+/** First reading and passage dates, and days to each from submission */
+export function summarizeTimeline(
+  spans: StageSpan[],
+  submittedDate: Date | null,
+): TimelineMilestones {
+  const first = (status: string) => spans.find((s) => s.status === status)?.started_at ?? null;
+  const submitted_at = submittedDate ?? first("submitted");
+  const first_reading_at = first("first_reading");
+  const passed_at = first("passed");
+  const since = (to: Date | null) =>
+    submitted_at && to && to >= submitted_at ? daysBetween(submitted_at, to) : null;
+
+  return {
+    submitted_at,
+    first_reading_at,
+    passed_at,
+    days_to_first_reading: since(first_reading_at),
+    days_to_passed: since(passed_at),
+  };
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Main entry point
+// ──────────────────────────────────────────────────────────────────
+
+export interface BillTimelineAggregateResult {
+  bills: number;
+  spans_written: number;
+  duration_ms: number;
+}
+
+type TimelineRow = TimelineMilestones & {
+  bill_id: string;
+  committee_id: string | null;
+};
+
+/** Snapshots whose payload differs from the bill's previous one, oldest first */
+async function loadChangedSnapshots(billIds: string[]) {
+  const hashes = await db.rawSnapshot.findMany({
+    where: { entity_type: "bill", entity_id: { in: billIds } },
+    orderBy: { fetched_at: "asc" },
+    select: { id: true, entity_id: true, payload_hash: true },
+  });
+  const lastHash = new Map<string, string>();
+  const changedIds: string[] = [];
+  for (const h of hashes) {
+    if (lastHash.get(h.entity_id) !== h.payload_hash) changedIds.push(h.id);
+    lastHash.set(h.entity_id, h.payload_hash);
+  }
+
+  const snapshots = await db.rawSnapshot.findMany({
+    where: { id: { in: changedIds } },
+    orderBy: { fetched_at: "asc" },
+    select: { entity_id: true, fetched_at: true, payload_json: true },
+  });
+  const byBill = new Map<string, { fetched_at: Date; payload: RawBill }[]>();
+  for (const s of snapshots) {
+    if (!s.payload_json) continue;
+    const list = byBill.get(s.entity_id) ?? [];
+    list.push({ fetched_at: s.fetched_at, payload: s.payload_json as RawBill });
+    byBill.set(s.entity_id, list);
+  }
+  return byBill;
+}
+
+export async function runBillTimelineAggregate(): Promise<BillTimelineAggregateResult> {
+  const startedAt = new Date();
+  const spans: (StageSpan & { bill_id: string })[] = [];
+  const timelines: TimelineRow[] = [];
+  let cursor: string | undefined;
+
+  for (;;) {
+    const bills = await db.bill.findMany({
+      orderBy: { id: "asc" },
+      take: BILL_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      select: { id: true, submitted_date: true },
+    });
+    const last = bills[bills.length - 1];
+    if (!last) break;
+    cursor = last.id;
+
+    const billIds = bills.map((b) => b.id);
+    const [snapshotsByBill, stages] = await Promise.all([
+      loadChangedSnapshots(billIds),
+      db.billStage.findMany({
+        where: { bill_id: { in: billIds }, stage_date: { not: null } },
+        orderBy: { stage_date: "asc" },
+        select: {
+          bill_id: true,
+          status: true,
+          stage_name_he: true,
+          stage_date: true,
+          committee_id: true,
+        },
+      }),
+    ]);
+
+    for (const bill of bills) {
+      const snapshots = snapshotsByBill.get(bill.id) ?? [];
+      const billStages = stages.filter((s) => s.bill_id === bill.id);
+      const observations: StatusObservation[] = [
+        ...(bill.submitted_date
+          ? [
+              {
+                status: "submitted",
+                at: bill.submitted_date,
+                source: "submission" as const,
+                committee_id: null,
+              },
+            ]
+          : []),
+        ...billStages.map((s) => ({
+          status: mapStatus(undefined, s.status ?? s.stage_name_he),
+          at: s.stage_date!,
+          source: "stage_history" as const,
+          committee_id: s.committee_id,
+        })),
+        ...snapshotObservations(snapshots),
+      ];
+
+      const billSpans = buildStageSpans(observations, startedAt);
+      if (billSpans.length === 0) continue;
+
+      spans.push(...billSpans.map((s) => ({ ...s, bill_id: bill.id })));
+      timelines.push({
+        bill_id: bill.id,
+        committee_id: [...billStages].reverse().find((s) => s.committee_id)?.committee_id ?? null,
+        ...summarizeTimeline(billSpans, bill.submitted_date),
+      });
+    }
+  }
+
+  logger.info({ bills: timelines.length, spans: spans.length }, "Bill timelines built");
+
+  // Full replace in one transaction so readers never see a half-written table
+  const writes = [db.billStageSpan.deleteMany({}), db.billTimeline.deleteMany({})];
+  for (let b = 0; b < spans.length; b += WRITE_BATCH_SIZE) {
+    writes.push(
+      db.billStageSpan.createMany({
+        data: spans.slice(b, b + WRITE_BATCH_SIZE).map((s) => ({ ...s, computed_at: startedAt })),
+      }),
+    );
+  }
+  for (let b = 0; b < timelines.length; b += WRITE_BATCH_SIZE) {
+    writes.push(
+      db.billTimeline.createMany({
+        data: timelines
+          .slice(b, b + WRITE_BATCH_SIZE)
+          .map((t) => ({ ...t, computed_at: startedAt })),
+      }),
+    );
+  }
+  await db.$transaction(writes);
+
+  const result: BillTimelineAggregateResult = {
+    bills: timelines.length,
+    spans_written: spans.length,
+    duration_ms: Date.now() - startedAt.getTime(),
+  };
+  logger.info(result, "Bill timeline aggregation finished");
+  return result;
+}
@@ -0,0 +1,166 @@
+/**
+ * aggregate-mk-similarity.ts
+ *
+ * Computes pairwise voting agreement between current MKs from VoteRecord and
+ * materializes it into MKVoteSimilarity.
+ *
+ * For each pair of MKs:
+ *   overlap        = votes where both were present (yes / no / abstain)
+ *   agreements     = votes in the overlap where both took the same position
+ *   agreement_rate = agreements / overlap
+ *
+ * Absent / did_not_vote records never count toward overlap. Pairs with fewer
+ * than MIN_SIMILARITY_OVERLAP shared votes are dropped — a handful of votes
+ * says nothing about alignment.
+ *
+ * Run with: pnpm etl:aggregate-similarity
+ */
+
+import { db } from "@knesset-vote/db";
+import { MIN_SIMILARITY_OVERLAP } from "@knesset-vote/shared";
+import { logger } from "../logger.js";
+import { isPresentPosition } from "./aggregate-party-cohesion.js";
+
+const VOTE_BATCH_SIZE = 200;
+const WRITE_BATCH_SIZE = 1000;
+
+// ──────────────────────────────────────────────────────────────────
+// Pure accumulator — exported for unit tests
+// ──────────────────────────────────────────────────────────────────
+
+export interface SimilarityPair {
+  mk_id: string;
+  other_mk_id: string;
+  overlap: number;
+  agreements: number;
+  agreement_rate: number;
+}
+
+/**
+ * Counts shared votes and agreements for every pair of a fixed MK set.
+ * Backed by flat n×n typed arrays, so ~120 MKs cost well under 1 MB.
+ */
+export class AgreementCounter {
+  private readonly index = new Map<string, number>();
+  private readonly overlap: Uint32Array;
+  private readonly agreements: Uint32Array;
+
+  constructor(private readonly mkIds: string[]) {
+    mkIds.forEach((id, i) => this.index.set(id, i));
+    this.overlap = new Uint32Array(mkIds.length * mkIds.length);
+    this.agreements = new Uint32Array(mkIds.length * mkIds.length);
+  }
+
+  /** Adds one vote's records; records for MKs outside the set are ignored */
+  addVote(records: { mk_id: string; position: string }[]): void {
+    const present: { i: number; position: string }[] = [];
+    for (const r of records) {
+      const i = this.index.get(r.mk_id);
+      if (i === undefined || !isPresentPosition(r.position)) continue;
+      present.push({ i, position: r.position });
+    }
+
+    const n = this.mkIds.length;
+    for (let a = 0; a < present.length; a++) {
+      for (let b = a + 1; b < present.length; b++) {
+        const x = present[a]!;
+        const y = present[b]!;
+        const lo = Math.min(x.i, y.i);
+        const hi = Math.max(x.i, y.i);
+        this.overlap[lo * n + hi]!++;
+        if (x.position === y.position) this.agreements[lo * n + hi]!++;
+      }
+    }
+  }
+
+  /** Pairs meeting the overlap threshold, emitted in both directions */
+  toPairs(minOverlap: number): SimilarityPair[] {
+    const n = this.mkIds.length;
+    const pairs: SimilarityPair[] = [];
+    for (let lo = 0; lo < n; lo++) {
+      for (let hi = lo + 1; hi < n; hi++) {
+        const overlap = this.overlap[lo * n + hi]!;
+        if (overlap < minOverlap || overlap === 0) continue;
+        const agreements = this.agreements[lo * n + hi]!;
+        const agreement_rate = agreements / overlap;
+        const a = this.mkIds[lo]!;
+        const b = this.mkIds[hi]!;
+        pairs.push({ mk_id: a, other_mk_id: b, overlap, agreements, agreement_rate });
+        pairs.push({ mk_id: b, other_mk_id: a, overlap, agreements, agreement_rate });
+      }
+    }
+    return pairs;
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Main entry point
+// ──────────────────────────────────────────────────────────────────
+
+export interface SimilarityAggregateResult {
+  mks: number;
+  votes_processed: number;
+  pairs_written: number;
+  duration_ms: number;
+}
+
+export async function runSimilarityAggregate(): Promise<SimilarityAggregateResult> {
+  const startedAt = new Date();
+
+  const mks = await db.mK.findMany({ where: { is_current: true }, select: { id: true } });
+  const mkIds = mks.map((m) => m.id);
+  const counter = new AgreementCounter(mkIds);
+  logger.info({ mks: mkIds.length }, "Computing voting similarity for current MKs");
+
+  let votes_processed = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const votes = await db.vote.findMany({
+      where: { records: { some: { mk_id: { in: mkIds } } } },
+      orderBy: { id: "asc" },
+      take: VOTE_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      select: {
+        id: true,
+        records: {
+          where: { mk_id: { in: mkIds } },
+          select: { mk_id: true, position: true },
+        },
+      },
+    });
+    const last = votes[votes.length - 1];
+    if (!last) break;
+    cursor = last.id;
+
+    for (const vote of votes) counter.addVote(vote.records);
+    votes_processed += votes.length;
+    logger.info({ votes_processed }, "Similarity aggregation progress");
+  }
+
+  const pairs = counter.toPairs(MIN_SIMILARITY_OVERLAP);
+
+  // Full replace — the MK set changes between terms, so stale pairs must go
+  const writes = [db.mKVoteSimilarity.deleteMany({})];
+  for (let b = 0; b < pairs.length; b += WRITE_BATCH_SIZE) {
+    writes.push(
+      db.mKVoteSimilarity.createMany({
+        data: pairs.slice(b, b + WRITE_BATCH_SIZE).map((p) => ({ ...p, computed_at: startedAt })),
+      }),
+    );
+  }
+  await db.$transaction(writes);
+
+  const result: SimilarityAggregateResult = {
+    mks: mkIds.length,
+    votes_processed,
+    pairs_written: pairs.length,
+    duration_ms: Date.now() - startedAt.getTime(),
+  };
+
+  if (votes_processed === 0) {
+    logger.warn("No vote records for current MKs — run `pnpm etl:backfill-votes` first");
+  }
+  logger.info(result, "Similarity aggregation finished");
+  return result;
+}
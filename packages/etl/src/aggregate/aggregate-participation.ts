@@ -0,0 +1,128 @@
+/**
+ * aggregate-participation.ts
+ *
+ * Counts VoteRecord positions per MK and materializes them into
+ * MKParticipation — overall, per Knesset term and per calendar month.
+ * Only raw counts are stored; the API derives participation, absence and
+ * abstention rates from them.
+ *
+ * Votes synced from OData v4 carry no knesset_number, so a record's term is
+ * taken from the MK's PartyMembership covering the vote date, falling back to
+ * Vote.knesset_number when set.
+ *
+ * Run with: pnpm etl:aggregate-participation
+ */
+
+import { db } from "@knesset-vote/db";
+import { logger } from "../logger.js";
+
+const WRITE_BATCH_SIZE = 1000;
+
+interface SqlParticipationRow {
+  mk_id: string;
+  scope: string;
+  period: string;
+  total_votes: number;
+  yes_count: number;
+  no_count: number;
+  abstain_count: number;
+  present_count: number;
+  absent_count: number;
+  unknown_count: number;
+}
+
+async function fetchParticipationRows(): Promise<SqlParticipationRow[]> {
+  return db.$queryRaw<SqlParticipationRow[]>`
+    WITH rec AS (
+      SELECT
+        vr.mk_id,
+        vr.position,
+        v.vote_date,
+        COALESCE(
+          v.knesset_number,
+          (
+            SELECT pm.knesset_number
+            FROM "PartyMembership" pm
+            WHERE pm.mk_id = vr.mk_id
+              AND pm.start_date <= v.vote_date
+              AND (pm.end_date IS NULL OR pm.end_date >= v.vote_date)
+            ORDER BY pm.start_date DESC
+            LIMIT 1
+          )
+        ) AS knesset_number
+      FROM "VoteRecord" vr
+      JOIN "Vote" v ON v.id = vr.vote_id
+    ),
+    scoped AS (
+      SELECT mk_id, position, 'overall' AS scope, 'all' AS period FROM rec
+      UNION ALL
+      SELECT mk_id, position, 'term', knesset_number::text FROM rec
+      WHERE knesset_number IS NOT NULL
+      UNION ALL
+      SELECT mk_id, position, 'month', to_char(vote_date, 'YYYY-MM') FROM rec
+      WHERE vote_date IS NOT NULL
+    )
+    SELECT
+      mk_id,
+      scope,
+      period,
+      COUNT(*)::int                                                   AS total_votes,
+      SUM(CASE WHEN position = 'yes'     THEN 1 ELSE 0 END)::int      AS yes_count,
+      SUM(CASE WHEN position = 'no'      THEN 1 ELSE 0 END)::int      AS no_count,
+      SUM(CASE WHEN position = 'abstain' THEN 1 ELSE 0 END)::int      AS abstain_count,
+      SUM(CASE WHEN position = 'present' THEN 1 ELSE 0 END)::int      AS present_count,
+      SUM(CASE WHEN position = 'absent'  THEN 1 ELSE 0 END)::int      AS absent_count,
+      SUM(CASE WHEN position NOT IN ('yes', 'no', 'abstain', 'present', 'absent')
+               THEN 1 ELSE 0 END)::int                                AS unknown_count
+    FROM scoped
+    GROUP BY mk_id, scope, period
+  `;
+}
+
+export interface ParticipationAggregateResult {
+  rows_written: number;
+  mks: number;
+  duration_ms: number;
+}
+
+export async function runParticipationAggregate(): Promise<ParticipationAggregateResult> {
+  const startedAt = new Date();
+
+  const rows = await fetchParticipationRows();
+  logger.info({ rows: rows.length }, "Participation aggregation query finished");
+
+  // Full replace in one transaction so readers never see a half-written table
+  const writes = [db.mKParticipation.deleteMany({})];
+  for (let b = 0; b < rows.length; b += WRITE_BATCH_SIZE) {
+    writes.push(
+      db.mKParticipation.createMany({
+        data: rows.slice(b, b + WRITE_BATCH_SIZE).map((r) => ({
+          mk_id: r.mk_id,
+          scope: r.scope,
+          period: r.period,
+          total_votes: Number(r.total_votes),
+          yes_count: Number(r.yes_count),
+          no_count: Number(r.no_count),
+          abstain_count: Number(r.abstain_count),
+          present_count: Number(r.present_count),
+          absent_count: Number(r.absent_count),
+          unknown_count: Number(r.unknown_count),
+          computed_at: startedAt,
+        })),
+      }),
+    );
+  }
+  await db.$transaction(writes);
+
+  const result: ParticipationAggregateResult = {
+    rows_written: rows.length,
+    mks: new Set(rows.map((r) => r.mk_id)).size,
+    duration_ms: Date.now() - startedAt.getTime(),
+  };
+
+  if (rows.length === 0) {
+    logger.warn("No vote records found — run `pnpm etl:backfill-votes` first");
+  }
+  logger.info(result, "Participation aggregation finished");
+  return result;
+}
@@ -0,0 +1,337 @@
+/**
+ * aggregate-party-cohesion.ts
+ *
+ * Computes faction voting cohesion from VoteRecord and PartyMembership and
+ * materializes it into PartyVoteCohesion, MKPartyCohesion and VoteDefection.
+ *
+ * For every vote, each present MK (yes / no / abstain) is attributed to the
+ * faction they belonged to on the vote date. Per faction we record:
+ *   majority_position = the most common present position (null on a tie)
+ *   rice_index        = |yes − no| / (yes + no)   (Rice cohesion index, 0–1)
+ *
+ * An MK "votes with the party" when their position equals the faction's
+ * majority position. Only factions with at least MIN_PARTY_VOTERS present
+ * members are counted, so single-member factions don't inflate loyalty.
+ * Absent / did_not_vote records are ignored throughout.
+ *
+ * The run is a full recompute: rows are replaced vote by vote, and rows left
+ * over from earlier runs (e.g. deleted votes) are removed at the end.
+ *
+ * Run with: pnpm etl:aggregate-cohesion
+ */
+
+import { db } from "@knesset-vote/db";
+import { logger } from "../logger.js";
+
+const VOTE_BATCH_SIZE = 200;
+const WRITE_BATCH_SIZE = 100;
+
+/** Minimum present members for a faction majority to count toward loyalty stats */
+export const MIN_PARTY_VOTERS = 2;
+
+export type PresentPosition = "yes" | "no" | "abstain";
+
+// ──────────────────────────────────────────────────────────────────
+// Pure functions — exported for unit tests
+// ──────────────────────────────────────────────────────────────────
+
+export interface PositionTally {
+  yes: number;
+  no: number;
+  abstain: number;
+}
+
+export function isPresentPosition(position: string): position is PresentPosition {
+  return position === "yes" || position === "no" || position === "abstain";
+}
+
+/** Most common present position; null when there are no votes or the top positions tie */
+export function majorityPosition(tally: PositionTally): PresentPosition | null {
+  const [first, second] = (["yes", "no", "abstain"] as const)
+    .map((position) => ({ position, count: tally[position] }))
+    .sort((a, b) => b.count - a.count);
+  if (!first || first.count === 0 || first.count === second?.count) return null;
+  return first.position;
+}
+
+/** Rice index |yes − no| / (yes + no); null when nobody voted yes or no */
+export function riceIndex(tally: PositionTally): number | null {
+  const total = tally.yes + tally.no;
+  if (total === 0) return null;
+  return Math.abs(tally.yes - tally.no) / total;
+}
+
+export interface MembershipSpan {
+  party_id: string;
+  knesset_number: number | null;
+  start_date: Date | null;
+  end_date: Date | null;
+}
+
+/**
+ * Resolves which faction an MK belonged to on a given vote.
+ *
+ * 1. A membership whose [start_date, end_date] range covers the vote date
+ *    (open-ended when end_date is null); the latest start wins on overlap.
+ * 2. Otherwise, memberships in the vote's Knesset term — only if they all
+ *    point to the same party, since a mid-term switch without dates is ambiguous.
+ */
+export function resolvePartyAt(
+  memberships: MembershipSpan[],
+  voteDate: Date | null,
+  knessetNumber: number | null,
+): string | null {
+  if (voteDate) {
+    const covering = memberships
+      .filter(
+        (m) =>
+          m.start_date !== null &&
+          m.start_date <= voteDate &&
+          (m.end_date === null || m.end_date >= voteDate),
+      )
+      .sort((a, b) => b.start_date!.getTime() - a.start_date!.getTime());
+    if (covering[0]) return covering[0].party_id;
+  }
+
+  if (knessetNumber !== null) {
+    const inTerm = new Set(
+      memberships.filter((m) => m.knesset_number === knessetNumber).map((m) => m.party_id),
+    );
+    if (inTerm.size === 1) return [...inTerm][0] ?? null;
+  }
+
+  return null;
+}
+
+export interface PartyVoteResult {
+  party_id: string;
+  tally: PositionTally;
+  majority_position: PresentPosition | null;
+  rice_index: number | null;
+}
+
+export interface MKAlignment {
+  mk_id: string;
+  party_id: string;
+  position: PresentPosition;
+  party_position: PresentPosition;
+  party_rice_index: number | null;
+  aligned: boolean;
+}
+
+/**
+ * Computes per-faction results for one vote and each counted MK's alignment
+ * with their faction. `partyOf` returns the MK's faction on this vote.
+ */
+export function computeVoteCohesion(
+  records: { mk_id: string; position: string }[],
+  partyOf: (mkId: string) => string | null,
+): { parties: PartyVoteResult[]; alignments: MKAlignment[] } {
+  const byParty = new Map<string, { mk_id: string; position: PresentPosition }[]>();
+  for (const record of records) {
+    if (!isPresentPosition(record.position)) continue;
+    const partyId = partyOf(record.mk_id);
+    if (!partyId) continue;
+    const list = byParty.get(partyId) ?? [];
+    list.push({ mk_id: record.mk_id, position: record.position });
+    byParty.set(partyId, list);
+  }
+
+  const parties: PartyVoteResult[] = [];
+  const alignments: MKAlignment[] = [];
+
+  for (const [party_id, members] of byParty) {
+    const tally: PositionTally = { yes: 0, no: 0, abstain: 0 };
+    for (const m of members) tally[m.position]++;
+
+    const majority = majorityPosition(tally);
+    const rice = riceIndex(tally);
+    parties.push({ party_id, tally, majority_position: majority, rice_index: rice });
+
+    if (!majority || members.length < MIN_PARTY_VOTERS) continue;
+    for (const m of members) {
+      alignments.push({
+        mk_id: m.mk_id,
+        party_id,
+        position: m.position,
+        party_position: majority,
+        party_rice_index: rice,
+        aligned: m.position === majority,
+      });
+    }
+  }
+
+  return { parties, alignments };
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Main entry point
+// ──────────────────────────────────────────────────────────────────
+
+export interface CohesionAggregateResult {
+  votes_processed: number;
+  party_votes_written: number;
+  mk_rows_written: number;
+  defections_written: number;
+  duration_ms: number;
+}
+
+async function loadMemberships(): Promise<Map<string, MembershipSpan[]>> {
+  const rows = await db.partyMembership.findMany({
+    select: {
+      mk_id: true,
+      party_id: true,
+      knesset_number: true,
+      start_date: true,
+      end_date: true,
+    },
+  });
+  const byMk = new Map<string, MembershipSpan[]>();
+  for (const { mk_id, ...span } of rows) {
+    const list = byMk.get(mk_id) ?? [];
+    list.push(span);
+    byMk.set(mk_id, list);
+  }
+  return byMk;
+}
+
+export async function runCohesionAggregate(): Promise<CohesionAggregateResult> {
+  const startedAt = new Date();
+
+  const membershipsByMk = await loadMemberships();
+  logger.info({ mks: membershipsByMk.size }, "Party memberships loaded");
+
+  const mkTotals = new Map<
+    string,
+    { mk_id: string; party_id: string; counted: number; with: number }
+  >();
+  let votes_processed = 0;
+  let party_votes_written = 0;
+  let defections_written = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const votes = await db.vote.findMany({
+      where: { records: { some: {} } },
+      orderBy: { id: "asc" },
+      take: VOTE_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      select: {
+        id: true,
+        vote_date: true,
+        knesset_number: true,
+        records: { select: { mk_id: true, position: true } },
+      },
+    });
+    const last = votes[votes.length - 1];
+    if (!last) break;
+    cursor = last.id;
+
+    const partyRows = [];
+    const defectionRows = [];
+
+    for (const vote of votes) {
+      const { parties, alignments } = computeVoteCohesion(vote.records, (mkId) =>
+        resolvePartyAt(membershipsByMk.get(mkId) ?? [], vote.vote_date, vote.knesset_number),
+      );
+
+      for (const p of parties) {
+        partyRows.push({
+          party_id: p.party_id,
+          vote_id: vote.id,
+          vote_date: vote.vote_date,
+          majority_position: p.majority_position,
+          yes_count: p.tally.yes,
+          no_count: p.tally.no,
+          abstain_count: p.tally.abstain,
+          rice_index: p.rice_index,
+          computed_at: startedAt,
+        });
+      }
+
+      for (const a of alignments) {
+        const key = `${a.mk_id}:${a.party_id}`;
+        const totals = mkTotals.get(key) ?? {
+          mk_id: a.mk_id,
+          party_id: a.party_id,
+          counted: 0,
+          with: 0,
+        };
+        totals.counted++;
+        if (a.aligned) {
+          totals.with++;
+        } else {
+          defectionRows.push({
+            mk_id: a.mk_id,
+            party_id: a.party_id,
+            vote_id: vote.id,
+            vote_date: vote.vote_date,
+            position: a.position,
+            party_position: a.party_position,
+            party_rice_index: a.party_rice_index,
+            computed_at: startedAt,
+          });
+        }
+        mkTotals.set(key, totals);
+      }
+    }
+
+    const voteIds = votes.map((v) => v.id);
+    await db.$transaction([
+      db.partyVoteCohesion.deleteMany({ where: { vote_id: { in: voteIds } } }),
+      db.voteDefection.deleteMany({ where: { vote_id: { in: voteIds } } }),
+      db.partyVoteCohesion.createMany({ data: partyRows }),
+      db.voteDefection.createMany({ data: defectionRows }),
+    ]);
+
+    votes_processed += votes.length;
+    party_votes_written += partyRows.length;
+    defections_written += defectionRows.length;
+    logger.info(
+      { votes_processed, party_votes_written, defections_written },
+      "Cohesion aggregation progress",
+    );
+  }
+
+  // Per-MK totals are small (one row per MK × faction) — upsert in batches
+  const totals = [...mkTotals.values()];
+  for (let b = 0; b < totals.length; b += WRITE_BATCH_SIZE) {
+    await db.$transaction(
+      totals.slice(b, b + WRITE_BATCH_SIZE).map((t) => {
+        const values = {
+          votes_counted: t.counted,
+          votes_with: t.with,
+          votes_against: t.counted - t.with,
+          computed_at: startedAt,
+        };
+        return db.mKPartyCohesion.upsert({
+          where: { mk_id_party_id: { mk_id: t.mk_id, party_id: t.party_id } },
+          create: { mk_id: t.mk_id, party_id: t.party_id, ...values },
+          update: values,
+        });
+      }),
+    );
+  }
+
+  // Drop rows not refreshed by this run
+  const stale = { computed_at: { lt: startedAt } };
+  await db.$transaction([
+    db.partyVoteCohesion.deleteMany({ where: stale }),
+    db.voteDefection.deleteMany({ where: stale }),
+    db.mKPartyCohesion.deleteMany({ where: stale }),
+  ]);
+
+  const result: CohesionAggregateResult = {
+    votes_processed,
+    party_votes_written,
+    mk_rows_written: totals.length,
+    defections_written,
+    duration_ms: Date.now() - startedAt.getTime(),
+  };
+
+  if (votes_processed === 0) {
+    logger.warn("No votes with records found — run `pnpm etl:backfill-votes` first");
+  }
+  logger.info(result, "Cohesion aggregation finished");
+  return result;
+}
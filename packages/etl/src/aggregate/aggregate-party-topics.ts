@@ -5,11 +5,19 @@
  * them into the PartyTopicAgg table.
  *
  * Scoring formula:
- *   raw(party, topic) = Σ bill_points(status) × role_multiplier(role)
+ *   raw(party, topic)        = Σ bill_points(status) × role_multiplier(role)
+ *   government(party, topic) = Σ bill_points(status)
  *
  * bill_points:     passed=5, 2nd/3rd_reading=3, committee/1st_reading=2, submitted=1, else=0
  * role_multiplier: initiator=1.0, cosponsor=0.5, other=0
  *
+ * Government bills are drafted by ministries, not by the MKs listed on them,
+ * so they are left out of raw_score. Instead every party in the coalition on
+ * the bill's submission date (CoalitionPeriod) gets its points as
+ * government_score. Scoring government bills outside every curated coalition
+ * period (or without a submission date) credit no party; they are counted
+ * and logged, and returned as uncredited_government_bills.
+ *
  * Run with: pnpm etl:aggregate
  */
 
@@ -102,19 +110,59 @@ export function normalizePartyScores(
   return result;
 }
 
-// ──────────────────────────────────────────────────────────────────
-// Raw SQL aggregation query
-// ──────────────────────────────────────────────────────────────────
-
-interface SqlAggRow {
+export interface GovernmentAggRow {
   party_id: string;
   topic: string;
-  raw_score: number;
-  bill_count: number;
+  government_score: number;
+  government_bill_count: number;
+}
+
+export type PartyTopicScores = RawAggRow & GovernmentAggRow;
+
+/** One row per (party, topic) holding both scores; a missing side counts as 0 */
+export function mergeAggRows(
+  initiative: RawAggRow[],
+  government: GovernmentAggRow[],
+): PartyTopicScores[] {
+  const merged = new Map<string, PartyTopicScores>();
+  const entry = (party_id: string, topic: string) => {
+    const key = `${party_id}:${topic}`;
+    let row = merged.get(key);
+    if (!row) {
+      row = {
+        party_id,
+        topic,
+        raw_score: 0,
+        bill_count: 0,
+        government_score: 0,
+        government_bill_count: 0,
+      };
+      merged.set(key, row);
+    }
+    return row;
+  };
+
+  for (const r of initiative) {
+    Object.assign(entry(r.party_id, r.topic), {
+      raw_score: Number(r.raw_score),
+      bill_count: Number(r.bill_count),
+    });
+  }
+  for (const r of government) {
+    Object.assign(entry(r.party_id, r.topic), {
+      government_score: Number(r.government_score),
+      government_bill_count: Number(r.government_bill_count),
+    });
+  }
+  return [...merged.values()];
 }
 
-async function fetchAggRows(): Promise<SqlAggRow[]> {
-  const rows = await db.$queryRaw<SqlAggRow[]>`
+// ──────────────────────────────────────────────────────────────────
+// Raw SQL aggregation queries
+// ──────────────────────────────────────────────────────────────────
+
+async function fetchAggRows(): Promise<RawAggRow[]> {
+  const rows = await db.$queryRaw<RawAggRow[]>`
     SELECT
       pm.party_id,
       b.topic,
@@ -140,6 +188,7 @@ async function fetchAggRows(): Promise<SqlAggRow[]> {
     JOIN "Bill" b ON b.id = mbr.bill_id
     JOIN "PartyMembership" pm ON pm.mk_id = mbr.mk_id AND pm.is_current = true
     WHERE mbr.role IN ('initiator', 'cosponsor')
+      AND b.bill_type IS DISTINCT FROM 'government'
       AND b.topic IS NOT NULL
       AND b.topic != 'other'
     GROUP BY pm.party_id, b.topic
@@ -164,6 +213,74 @@ async function fetchAggRows(): Promise<SqlAggRow[]> {
   return rows;
 }
 
+async function fetchGovernmentRows(): Promise<GovernmentAggRow[]> {
+  return db.$queryRaw<GovernmentAggRow[]>`
+    SELECT
+      cp.party_id,
+      b.topic,
+      SUM(
+        CASE b.status
+          WHEN 'passed'          THEN 5
+          WHEN 'second_reading'  THEN 3
+          WHEN 'third_reading'   THEN 3
+          WHEN 'committee_review' THEN 2
+          WHEN 'first_reading'   THEN 2
+          WHEN 'submitted'       THEN 1
+          ELSE 0
+        END
+      )::float AS government_score,
+      COUNT(DISTINCT b.id)::int AS government_bill_count
+    FROM "Bill" b
+    JOIN "CoalitionPeriod" cp
+      ON cp.status = 'coalition'
+     AND b.submitted_date >= cp.start_date
+     AND (cp.end_date IS NULL OR b.submitted_date < cp.end_date)
+    WHERE b.bill_type = 'government'
+      AND b.topic IS NOT NULL
+      AND b.topic != 'other'
+    GROUP BY cp.party_id, b.topic
+    HAVING SUM(
+      CASE b.status
+        WHEN 'passed'          THEN 5
+        WHEN 'second_reading'  THEN 3
+        WHEN 'third_reading'   THEN 3
+        WHEN 'committee_review' THEN 2
+        WHEN 'first_reading'   THEN 2
+        WHEN 'submitted'       THEN 1
+        ELSE 0
+      END
+    ) > 0
+  `;
+}
+
+interface UncreditedGovernmentRow {
+  knesset_number: number | null;
+  bills: number;
+}
+
+/** Scoring government bills that no CoalitionPeriod covers, per Knesset */
+async function fetchUncreditedGovernmentBills(): Promise<UncreditedGovernmentRow[]> {
+  return db.$queryRaw<UncreditedGovernmentRow[]>`
+    SELECT b.knesset_number, COUNT(*)::int AS bills
+    FROM "Bill" b
+    WHERE b.bill_type = 'government'
+      AND b.topic IS NOT NULL
+      AND b.topic != 'other'
+      AND b.status IN (
+        'passed', 'second_reading', 'third_reading',
+        'committee_review', 'first_reading', 'submitted'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM "CoalitionPeriod" cp
+        WHERE cp.status = 'coalition'
+          AND b.submitted_date >= cp.start_date
+          AND (cp.end_date IS NULL OR b.submitted_date < cp.end_date)
+      )
+    GROUP BY b.knesset_number
+    ORDER BY b.knesset_number
+  `;
+}
+
 // ──────────────────────────────────────────────────────────────────
 // Main entry point
 // ──────────────────────────────────────────────────────────────────
@@ -171,21 +288,46 @@ async function fetchAggRows(): Promise<SqlAggRow[]> {
 export interface AggregateResult {
   rows_written: number;
   parties_updated: number;
+  /** Government bills that would score but fall outside every coalition period */
+  uncredited_government_bills: number;
   duration_ms: number;
 }
 
 export async function runAggregate(): Promise<AggregateResult> {
   const startedAt = Date.now();
+  const computedAt = new Date(startedAt);
 
   console.log("=== aggregate-party-topics ===");
   console.log("Fetching raw scores from DB...");
 
-  const rawRows = await fetchAggRows();
-  console.log(`  Aggregation query returned ${rawRows.length} rows`);
+  const [initiativeRows, governmentRows, uncreditedRows] = await Promise.all([
+    fetchAggRows(),
+    fetchGovernmentRows(),
+    fetchUncreditedGovernmentBills(),
+  ]);
+  const rawRows = mergeAggRows(initiativeRows, governmentRows);
+  console.log(
+    `  Aggregation queries returned ${initiativeRows.length} initiative + ${governmentRows.length} government rows`,
+  );
+
+  const uncredited_government_bills = uncreditedRows.reduce((sum, r) => sum + r.bills, 0);
+  if (uncredited_government_bills > 0) {
+    const perKnesset = uncreditedRows
+      .map((r) => `Knesset ${r.knesset_number ?? "?"}: ${r.bills}`)
+      .join(", ");
+    console.warn(
+      `  ${uncredited_government_bills} government bills credited to no party — no coalition period covers their submission date (${perKnesset})`,
+    );
+  }
 
   if (rawRows.length === 0) {
     console.warn("  No rows returned — is bill/MK data loaded? Run pnpm etl:sync first.");
-    return { rows_written: 0, parties_updated: 0, duration_ms: Date.now() - startedAt };
+    return {
+      rows_written: 0,
+      parties_updated: 0,
+      uncredited_government_bills,
+      duration_ms: Date.now() - startedAt,
+    };
   }
 
   // Upsert in batches of 50
@@ -209,14 +351,18 @@ export async function runAggregate(): Promise<AggregateResult> {
           create: {
             party_id: row.party_id,
             topic: row.topic,
-            raw_score: Number(row.raw_score),
-            bill_count: Number(row.bill_count),
-            computed_at: new Date(),
+            raw_score: row.raw_score,
+            bill_count: row.bill_count,
+            government_score: row.government_score,
+            government_bill_count: row.government_bill_count,
+            computed_at: computedAt,
           },
           update: {
-            raw_score: Number(row.raw_score),
-            bill_count: Number(row.bill_count),
-            computed_at: new Date(),
+            raw_score: row.raw_score,
+            bill_count: row.bill_count,
+            government_score: row.government_score,
+            government_bill_count: row.government_bill_count,
+            computed_at: computedAt,
           },
         });
       }),
@@ -231,12 +377,19 @@ export async function runAggregate(): Promise<AggregateResult> {
     }
   }
 
+  // Pairs this run no longer scores (e.g. a bill re-typed as government) would otherwise keep stale points
+  const { count: stale } = await db.partyTopicAgg.deleteMany({
+    where: { computed_at: { lt: computedAt } },
+  });
+  if (stale > 0) console.log(`  Removed ${stale} stale rows`);
+
   const duration_ms = Date.now() - startedAt;
   console.log(`\n✅ Done! ${rows_written} rows, ${partiesSet.size} parties, ${duration_ms}ms`);
 
   return {
     rows_written,
     parties_updated: partiesSet.size,
+    uncredited_government_bills,
     duration_ms,
   };
 }
@@ -21,7 +21,7 @@ async function main() {
   try {
     const result = await runAggregate();
     console.log(
-      `\nAggregate complete: rows_written=${result.rows_written}, parties_updated=${result.parties_updated}, duration_ms=${result.duration_ms}`,
+      `\nAggregate complete: rows_written=${result.rows_written}, parties_updated=${result.parties_updated}, uncredited_government_bills=${result.uncredited_government_bills}, duration_ms=${result.duration_ms}`,
     );
     await db.$disconnect();
     process.exit(0);
@@ -0,0 +1,338 @@
+/**
+ * match-promises.ts
+ *
+ * Suggests PromiseMatch rows for every Promise (statement / commitment):
+ *   - bills sponsored by the statement's MK, or by any MK of its party
+ *   - votes those MKs took part in, on the statement's topic
+ * submitted / held on or after the statement date.
+ *
+ * The topic is the statement's own, or inferred from its text with
+ * TOPIC_KEYWORDS. Each candidate is scored by the share of the statement's
+ * words that appear in the bill / vote text; see scoreCandidate for how topic
+ * and score become a confidence level.
+ *
+ * Suggestions are written as match_type "auto_keyword", review_status
+ * "pending" and wait for an editor (GET /api/promises/review). Manual matches
+ * and reviewed suggestions are never modified; pending suggestions are
+ * refreshed, and dropped when they no longer qualify.
+ *
+ * Run with: pnpm etl:match-promises
+ */
+
+import { db } from "@knesset-vote/db";
+import type { ConfidenceLevel } from "@knesset-vote/shared";
+import { logger } from "../logger.js";
+import { inferTopic } from "../mappers/bill-mapper.js";
+
+const MAX_SUGGESTIONS_PER_KIND = 5;
+// Newest votes considered per statement — a topic can have thousands
+const MAX_VOTE_CANDIDATES = 500;
+
+// Words too common in statements and bill titles to say anything
+const STOPWORDS = new Set([
+  "של",
+  "את",
+  "על",
+  "עם",
+  "לא",
+  "כי",
+  "זה",
+  "זו",
+  "הוא",
+  "היא",
+  "אנחנו",
+  "אני",
+  "כל",
+  "גם",
+  "או",
+  "אם",
+  "יותר",
+  "חוק",
+  "הצעת",
+  "תיקון",
+  "נוסח",
+  "משולב",
+]);
+
+// ──────────────────────────────────────────────────────────────────
+// Pure functions — exported for unit tests
+// ──────────────────────────────────────────────────────────────────
+
+/**
+ * Distinct content words: niqqud and quotes dropped, one leading prefix
+ * letter (ה ו ב ל מ ש כ) stripped when three letters remain. Both sides of a
+ * comparison go through the same function, so over-stripping is harmless.
+ */
+export function tokenize(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/[\u0591-\u05C7"'\u05F3\u05F4`]/g, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length >= 2 && !STOPWORDS.has(w))
+    .map((w) => (/^[הובלמשכ][א-ת]{3}/.test(w) ? w.slice(1) : w))
+    .filter((w) => !STOPWORDS.has(w));
+  return new Set(words);
+}
+
+/** Share of the statement's words found in the candidate (0–1) */
+export function textSimilarity(statement: Set<string>, candidate: Set<string>): number {
+  if (statement.size === 0) return 0;
+  let found = 0;
+  for (const w of statement) if (candidate.has(w)) found++;
+  return found / statement.size;
+}
+
+/** The statement's topic, else one inferred from its text (null rather than "other") */
+export function promiseTopic(promise: { text: string; topic: string | null }): string | null {
+  if (promise.topic) return promise.topic;
+  const inferred = inferTopic(promise.text);
+  return inferred === "other" ? null : inferred;
+}
+
+export interface MatchCandidate {
+  kind: "bill" | "vote";
+  id: string;
+  text: string;
+  topic: string | null;
+  date: Date | null;
+}
+
+export interface MatchSuggestion {
+  kind: "bill" | "vote";
+  id: string;
+  confidence: Exclude<ConfidenceLevel, "unavailable">;
+  score: number;
+  topic_match: boolean;
+  date: Date | null;
+}
+
+/**
+ * Confidence from topic agreement and word overlap:
+ *   high   — same topic and ≥ 30% of the statement's words
+ *   medium — same topic and ≥ 15%, or (bills only) ≥ 30% without a topic match
+ *   low    — same topic only
+ * Votes must share the topic. Null when the candidate does not qualify.
+ */
+export function scoreCandidate(
+  statement: { tokens: Set<string>; topic: string | null },
+  candidate: MatchCandidate,
+): MatchSuggestion | null {
+  const topicMatch = statement.topic !== null && candidate.topic === statement.topic;
+  const score = Math.round(textSimilarity(statement.tokens, tokenize(candidate.text)) * 100) / 100;
+
+  let confidence: MatchSuggestion["confidence"] | null = null;
+  if (topicMatch) {
+    confidence = score >= 0.3 ? "high" : score >= 0.15 ? "medium" : "low";
+  } else if (candidate.kind === "bill" && score >= 0.3) {
+    confidence = "medium";
+  }
+  if (!confidence) return null;
+
+  return {
+    kind: candidate.kind,
+    id: candidate.id,
+    confidence,
+    score,
+    topic_match: topicMatch,
+    date: candidate.date,
+  };
+}
+
+const CONFIDENCE_RANK = { high: 0, medium: 1, low: 2 } as const;
+
+/** Best suggestions per kind: confidence, then score, then newest */
+export function pickSuggestions(suggestions: MatchSuggestion[]): MatchSuggestion[] {
+  const sorted = [...suggestions].sort(
+    (a, b) =>
+      CONFIDENCE_RANK[a.confidence] - CONFIDENCE_RANK[b.confidence] ||
+      b.score - a.score ||
+      (b.date?.getTime() ?? 0) - (a.date?.getTime() ?? 0),
+  );
+  return [
+    ...sorted.filter((s) => s.kind === "bill").slice(0, MAX_SUGGESTIONS_PER_KIND),
+    ...sorted.filter((s) => s.kind === "vote").slice(0, MAX_SUGGESTIONS_PER_KIND),
+  ];
+}
+
+export interface ExistingMatch {
+  id: string;
+  bill_id: string | null;
+  vote_id: string | null;
+  match_type: string;
+  review_status: string;
+}
+
+/**
+ * Diff of a statement's existing matches against fresh suggestions. Targets
+ * that already have a manual or reviewed match are left alone; pending
+ * suggestions are updated or removed.
+ */
+export function planMatches(
+  existing: ExistingMatch[],
+  suggestions: MatchSuggestion[],
+): {
+  create: MatchSuggestion[];
+  update: { id: string; suggestion: MatchSuggestion }[];
+  remove: string[];
+} {
+  const keyOf = (m: ExistingMatch) => (m.bill_id ? `bill:${m.bill_id}` : `vote:${m.vote_id}`);
+  const isPending = (m: ExistingMatch) =>
+    m.match_type !== "manual" && m.review_status === "pending";
+
+  const settled = new Set(existing.filter((m) => !isPending(m)).map(keyOf));
+  const pending = new Map(existing.filter(isPending).map((m) => [keyOf(m), m]));
+
+  const create: MatchSuggestion[] = [];
+  const update: { id: string; suggestion: MatchSuggestion }[] = [];
+  for (const s of suggestions) {
+    const key = `${s.kind}:${s.id}`;
+    if (settled.has(key)) continue;
+    const current = pending.get(key);
+    if (current) {
+      update.push({ id: current.id, suggestion: s });
+      pending.delete(key);
+    } else {
+      create.push(s);
+    }
+  }
+
+  return { create, update, remove: [...pending.values()].map((m) => m.id) };
+}
+
+function matchData(s: MatchSuggestion, topic: string | null) {
+  return {
+    confidence: s.confidence,
+    // Neutral status language per principle 3 — this only says activity was found
+    status: s.confidence === "high" ? "matched" : "partial_match",
+    status_date: s.date,
+    score: s.score,
+    notes:
+      `Auto-suggested: ${s.topic_match ? `topic ${topic}, ` : ""}` +
+      `${Math.round(s.score * 100)}% of the statement's words found`,
+  };
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Main entry point
+// ──────────────────────────────────────────────────────────────────
+
+export interface PromiseMatchingResult {
+  promises: number;
+  created: number;
+  updated: number;
+  removed: number;
+}
+
+async function loadCandidates(
+  mkIds: string[],
+  topic: string | null,
+  since: Date | null,
+): Promise<MatchCandidate[]> {
+  const [bills, votes] = await Promise.all([
+    db.bill.findMany({
+      where: {
+        sponsors: { some: { mk_id: { in: mkIds } } },
+        ...(since ? { OR: [{ submitted_date: null }, { submitted_date: { gte: since } }] } : {}),
+      },
+      select: {
+        id: true,
+        title_he: true,
+        description_he: true,
+        topic: true,
+        last_status_date: true,
+      },
+    }),
+    topic
+      ? db.vote.findMany({
+          where: {
+            topic,
+            records: { some: { mk_id: { in: mkIds }, position: { in: ["yes", "no", "abstain"] } } },
+            ...(since ? { vote_date: { gte: since } } : {}),
+          },
+          orderBy: { vote_date: "desc" },
+          take: MAX_VOTE_CANDIDATES,
+          select: { id: true, title_he: true, topic: true, vote_date: true },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  return [
+    ...bills.map((b) => ({
+      kind: "bill" as const,
+      id: b.id,
+      text: `${b.title_he} ${b.description_he ?? ""}`,
+      topic: b.topic,
+      date: b.last_status_date,
+    })),
+    ...votes.map((v) => ({
+      kind: "vote" as const,
+      id: v.id,
+      text: v.title_he,
+      topic: v.topic,
+      date: v.vote_date,
+    })),
+  ];
+}
+
+export async function runPromiseMatching(): Promise<PromiseMatchingResult> {
+  const promises = await db.promise.findMany({
+    select: { id: true, text: true, topic: true, mk_id: true, party_id: true, stated_on: true },
+  });
+  logger.info({ promises: promises.length }, "Matching statements against bills and votes");
+
+  const result: PromiseMatchingResult = {
+    promises: promises.length,
+    created: 0,
+    updated: 0,
+    removed: 0,
+  };
+
+  for (const promise of promises) {
+    const mkIds = new Set(promise.mk_id ? [promise.mk_id] : []);
+    if (promise.party_id) {
+      const members = await db.partyMembership.findMany({
+        where: { party_id: promise.party_id },
+        select: { mk_id: true },
+      });
+      for (const m of members) mkIds.add(m.mk_id);
+    }
+
+    const topic = promiseTopic(promise);
+    const statement = { tokens: tokenize(promise.text), topic };
+    const candidates =
+      mkIds.size > 0 ? await loadCandidates([...mkIds], topic, promise.stated_on) : [];
+    const suggestions = pickSuggestions(
+      candidates.flatMap((c) => scoreCandidate(statement, c) ?? []),
+    );
+
+    const existing = await db.promiseMatch.findMany({
+      where: { promise_id: promise.id },
+      select: { id: true, bill_id: true, vote_id: true, match_type: true, review_status: true },
+    });
+    const plan = planMatches(existing, suggestions);
+
+    await db.$transaction([
+      db.promiseMatch.deleteMany({ where: { id: { in: plan.remove } } }),
+      ...plan.update.map(({ id, suggestion }) =>
+        db.promiseMatch.update({ where: { id }, data: matchData(suggestion, topic) }),
+      ),
+      db.promiseMatch.createMany({
+        data: plan.create.map((s) => ({
+          promise_id: promise.id,
+          bill_id: s.kind === "bill" ? s.id : null,
+          vote_id: s.kind === "vote" ? s.id : null,
+          match_type: "auto_keyword",
+          review_status: "pending",
+          ...matchData(s, topic),
+        })),
+      }),
+    ]);
+
+    result.created += plan.create.length;
+    result.updated += plan.update.length;
+    result.removed += plan.remove.length;
+  }
+
+  logger.info(result, "Statement matching complete");
+  return result;
+}
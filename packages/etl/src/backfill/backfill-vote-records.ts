@@ -0,0 +1,251 @@
+/**
+ * Resumable VoteRecord backfill from KNS_PlenumVoteResult (~1.85M rows).
+ *
+ * The nightly sync only loads vote headers (see sync-votes.ts). This job pages
+ * through the per-MK results in Id order using a keyset cursor
+ * ($filter=Id gt <last_id>) and writes a BackfillCheckpoint row after every
+ * page, so it can be killed at any point and picks up from the last completed
+ * page on the next run. Upserts are idempotent, so re-processing the page that
+ * was in flight when the job stopped is harmless.
+ *
+ * Paging ends on the first empty page — servers may cap $top below the page
+ * size we ask for, so a short page does not mean the end. A failed write holds
+ * the cursor just before that record and ends the run as partial, so the next
+ * run retries it instead of skipping it for good.
+ *
+ * Votes and MKs must already exist (run `pnpm etl:sync` first) — records whose
+ * VoteID or MkId cannot be resolved are skipped, not created.
+ */
+
+import pLimit from "p-limit";
+import pRetry, { AbortError } from "p-retry";
+import { db } from "@knesset-vote/db";
+import { ETL_CONCURRENCY, ETL_REQUEST_DELAY_MS, ETL_RETRY_MAX } from "@knesset-vote/shared";
+import type { ODataResponse } from "@knesset-vote/shared";
+import {
+  VOTES_V4_BASE,
+  VOTE_RECORD_ENTITY,
+  mapVoteResult,
+  type RawVoteRecord,
+} from "../mappers/vote-mapper.js";
+import { ETLRunTracker } from "../sync/run-tracker.js";
+import { safeFetch } from "../client/ssrf-guard.js";
+import { logger } from "../logger.js";
+
+export const VOTE_RECORD_BACKFILL_JOB = "vote_records";
+const DEFAULT_PAGE_SIZE = 1000;
+
+export interface VoteRecordBackfillOptions {
+  /** OData v4 base URL. Defaults to KNESSET_VOTES_V4_BASE_URL or the public endpoint. */
+  baseUrl?: string;
+  pageSize?: number;
+  /** Stop after this many pages (the checkpoint stays open for the next run). */
+  maxPages?: number;
+  /** Discard the stored cursor and start again from the first record. */
+  reset?: boolean;
+  delayMs?: number;
+}
+
+export interface VoteRecordBackfillResult {
+  run_id: string;
+  status: "completed" | "partial" | "failed";
+  resumed_from: number | null;
+  last_id: number | null;
+  pages: number;
+  records_fetched: number;
+  records_upserted: number;
+  records_skipped: number;
+  errors: number;
+  duration_ms: number;
+}
+
+export function buildVoteRecordPageUrl(
+  baseUrl: string,
+  lastId: number | null,
+  pageSize: number,
+): string {
+  const params = new URLSearchParams();
+  if (lastId !== null) params.set("$filter", `Id gt ${lastId}`);
+  params.set("$orderby", "Id asc");
+  params.set("$top", String(pageSize));
+  return `${baseUrl}/${VOTE_RECORD_ENTITY}?${params.toString()}`;
+}
+
+async function fetchVoteRecordPage(url: string): Promise<RawVoteRecord[]> {
+  return pRetry(
+    async () => {
+      const res = await safeFetch(url, { headers: { Accept: "application/json" } });
+      if (res.status === 429 || res.status >= 500) {
+        throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+      }
+      if (!res.ok) {
+        throw new AbortError(`Non-retryable HTTP ${res.status}: ${res.statusText} for ${url}`);
+      }
+      const data = (await res.json()) as ODataResponse<RawVoteRecord>;
+      return data.value ?? [];
+    },
+    {
+      retries: ETL_RETRY_MAX,
+      onFailedAttempt: (error) => {
+        logger.warn(
+          { url, attempt: error.attemptNumber, error: error.message },
+          "VoteRecord page fetch failed, retrying",
+        );
+      },
+      minTimeout: 1000,
+      maxTimeout: 30_000,
+      factor: 2,
+    },
+  );
+}
+
+export async function runVoteRecordBackfill(
+  options: VoteRecordBackfillOptions = {},
+): Promise<VoteRecordBackfillResult> {
+  const startedAt = Date.now();
+  const baseUrl = options.baseUrl ?? process.env["KNESSET_VOTES_V4_BASE_URL"] ?? VOTES_V4_BASE;
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const delayMs = options.delayMs ?? ETL_REQUEST_DELAY_MS;
+
+  const tracker = new ETLRunTracker();
+  const runId = await tracker.start(`backfill:${VOTE_RECORD_BACKFILL_JOB}`);
+  tracker.initEntity("vote_record");
+
+  if (options.reset) {
+    await db.backfillCheckpoint.deleteMany({ where: { job: VOTE_RECORD_BACKFILL_JOB } });
+    logger.info("Vote record checkpoint reset — starting from the first record");
+  }
+
+  const checkpoint = await db.backfillCheckpoint.upsert({
+    where: { job: VOTE_RECORD_BACKFILL_JOB },
+    create: {
+      job: VOTE_RECORD_BACKFILL_JOB,
+      entity_set: VOTE_RECORD_ENTITY,
+      etl_run_id: runId,
+    },
+    update: { status: "running", etl_run_id: runId },
+  });
+
+  let lastId = checkpoint.last_id;
+  let skip = checkpoint.skip;
+  logger.info({ lastId, skip }, "Starting VoteRecord backfill");
+
+  // VoteID → Vote.id (v4 headers only) and MkId → MK.id
+  const votes = await db.vote.findMany({
+    where: { external_source: "knesset_v4" },
+    select: { id: true, external_id: true },
+  });
+  const voteIdMap = new Map<string, string>(votes.map((v) => [v.external_id, v.id]));
+  const mks = await db.mK.findMany({ select: { id: true, external_id: true } });
+  const mkIdMap = new Map<string, string>(mks.map((mk) => [mk.external_id, mk.id]));
+  logger.info({ votes: voteIdMap.size, mks: mkIdMap.size }, "Id maps built");
+
+  const limit = pLimit(ETL_CONCURRENCY);
+  let pages = 0;
+  let skipped = 0;
+  // Lowest Id on the current page whose write failed
+  let firstFailedId: number | null = null;
+  let status: VoteRecordBackfillResult["status"] = "completed";
+
+  try {
+    while (true) {
+      if (options.maxPages !== undefined && pages >= options.maxPages) {
+        status = "partial";
+        break;
+      }
+
+      const page = await fetchVoteRecordPage(buildVoteRecordPageUrl(baseUrl, lastId, pageSize));
+      if (page.length === 0) break;
+
+      await Promise.all(
+        page.map((raw) =>
+          limit(async () => {
+            tracker.increment("vote_record", "fetched");
+            const voteDbId = voteIdMap.get(String(raw.VoteID ?? ""));
+            const mkDbId = mkIdMap.get(String(raw.MkId ?? ""));
+            if (!voteDbId || !mkDbId) {
+              skipped++;
+              return;
+            }
+
+            const position = mapVoteResult(raw.ResultCode);
+            try {
+              await db.voteRecord.upsert({
+                where: { vote_id_mk_id: { vote_id: voteDbId, mk_id: mkDbId } },
+                create: {
+                  vote_id: voteDbId,
+                  mk_id: mkDbId,
+                  external_id: raw.Id !== undefined ? String(raw.Id) : null,
+                  external_source: "knesset_v4",
+                  position,
+                },
+                update: { position },
+              });
+              tracker.increment("vote_record", "created");
+            } catch (err) {
+              tracker.increment("vote_record", "failed");
+              const id = raw.Id ?? 0;
+              if (firstFailedId === null || id < firstFailedId) firstFailedId = id;
+              logger.error({ raw, err }, "Failed to upsert vote record");
+            }
+          }),
+        ),
+      );
+
+      // Advance the cursor only past records that were written (or skipped)
+      const failedAt = firstFailedId;
+      const done = failedAt === null ? page : page.filter((r) => (r.Id ?? 0) < failedAt);
+      if (failedAt !== null) lastId = failedAt - 1;
+      else lastId = page.reduce((max, r) => Math.max(max, r.Id ?? 0), lastId ?? 0);
+      skip += done.length;
+      pages++;
+
+      await db.backfillCheckpoint.update({
+        where: { job: VOTE_RECORD_BACKFILL_JOB },
+        data: { last_id: lastId, skip, etl_run_id: runId },
+      });
+      await tracker.flushCounts();
+
+      if (pages % 10 === 0) {
+        logger.info({ pages, lastId, skip, skipped }, "VoteRecord backfill progress");
+      }
+
+      if (failedAt !== null) {
+        status = "partial";
+        tracker.addError(`VoteRecord write failed at Id ${failedAt} — rerun to retry from there`);
+        break;
+      }
+      await sleep(delayMs);
+    }
+  } catch (err) {
+    status = "failed";
+    tracker.addError(`VoteRecord backfill stopped at Id ${lastId ?? "start"}: ${String(err)}`);
+  }
+
+  await db.backfillCheckpoint.update({
+    where: { job: VOTE_RECORD_BACKFILL_JOB },
+    data: { status: status === "partial" ? "running" : status },
+  });
+  await tracker.complete(status);
+
+  const counts = tracker.getSummary().counts["vote_record"]!;
+  const result: VoteRecordBackfillResult = {
+    run_id: runId,
+    status,
+    resumed_from: checkpoint.last_id,
+    last_id: lastId,
+    pages,
+    records_fetched: counts.fetched,
+    records_upserted: counts.created,
+    records_skipped: skipped,
+    errors: counts.failed,
+    duration_ms: Date.now() - startedAt,
+  };
+
+  logger.info(result, "VoteRecord backfill finished");
+  return result;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
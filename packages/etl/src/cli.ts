@@ -1,7 +1,18 @@
 #!/usr/bin/env node
 /**
  * ETL CLI
- * Usage: pnpm etl:sync [--demo]
+ * Usage: pnpm etl:sync [--demo] [--full]
+ *        pnpm etl:backfill-votes [--reset] [--max-pages=N]
+ *        pnpm etl:aggregate-cohesion
+ *        pnpm etl:aggregate-similarity
+ *        pnpm etl:aggregate-participation
+ *        pnpm etl:aggregate-bill-timelines
+ *        pnpm etl:detect-changes [--run=ID]
+ *        pnpm etl:deliver-webhooks
+ *        pnpm etl:dump [--out=DIR]
+ *        pnpm etl:import-coalitions
+ *        pnpm etl:match-promises
+ *        pnpm etl:link-votes
  */
 
 import { runSync } from "./sync/orchestrator.js";
@@ -11,6 +22,7 @@ async function main() {
   const args = process.argv.slice(2);
   const command = args[0];
   const isDemo = args.includes("--demo");
+  const isFull = args.includes("--full");
 
   if (command === "sync") {
     if (isDemo) {
@@ -22,7 +34,7 @@ async function main() {
       process.exit(0);
     }
 
-    const result = await runSync();
+    const result = await runSync({ forceFullSync: isFull });
 
     if (result.status === "failed") {
       logger.error({ runId: result.runId, errors: result.errors }, "ETL sync failed");
@@ -53,6 +65,88 @@ async function main() {
     process.exit(0);
   }
 
+  if (command === "aggregate-cohesion") {
+    const { runCohesionAggregate } = await import("./aggregate/aggregate-party-cohesion.js");
+    await runCohesionAggregate();
+    const { db } = await import("@knesset-vote/db");
+    await db.$disconnect();
+    process.exit(0);
+  }
+
+  if (command === "aggregate-similarity") {
+    const { runSimilarityAggregate } = await import("./aggregate/aggregate-mk-similarity.js");
+    await runSimilarityAggregate();
+    const { db } = await import("@knesset-vote/db");
+    await db.$disconnect();
+    process.exit(0);
+  }
+
+  if (command === "aggregate-participation") {
+    const { runParticipationAggregate } = await import("./aggregate/aggregate-participation.js");
+    await runParticipationAggregate();
+    const { db } = await import("@knesset-vote/db");
+    await db.$disconnect();
+    process.exit(0);
+  }
+
+  if (command === "aggregate-bill-timelines") {
+    const { runBillTimelineAggregate } = await import("./aggregate/aggregate-bill-timelines.js");
+    await runBillTimelineAggregate();
+    const { db } = await import("@knesset-vote/db");
+    await db.$disconnect();
+    process.exit(0);
+  }
+
+  if (command === "detect-changes") {
+    const { runChangeDetection } = await import("./sync/change-detection.js");
+    const runArg = args.find((a) => a.startsWith("--run="));
+    await runChangeDetection(runArg?.split("=")[1]);
+    const { db } = await import("@knesset-vote/db");
+    await db.$disconnect();
+    process.exit(0);
+  }
+
+  if (command === "deliver-webhooks") {
+    const { deliverPendingWebhooks } = await import("./sync/webhooks.js");
+    await deliverPendingWebhooks();
+    const { db } = await import("@knesset-vote/db");
+    await db.$disconnect();
+    process.exit(0);
+  }
+
+  if (command === "import-coalitions") {
+    const { syncCoalitionPeriods } = await import("./sync/sync-coalitions.js");
+    await syncCoalitionPeriods();
+    const { db } = await import("@knesset-vote/db");
+    await db.$disconnect();
+    process.exit(0);
+  }
+
+  if (command === "link-votes") {
+    const { linkVotesToBills } = await import("./sync/link-vote-bills.js");
+    await linkVotesToBills();
+    const { db } = await import("@knesset-vote/db");
+    await db.$disconnect();
+    process.exit(0);
+  }
+
+  if (command === "match-promises") {
+    const { runPromiseMatching } = await import("./aggregate/match-promises.js");
+    await runPromiseMatching();
+    const { db } = await import("@knesset-vote/db");
+    await db.$disconnect();
+    process.exit(0);
+  }
+
+  if (command === "dump") {
+    const { runDump } = await import("./export/dump.js");
+    const outArg = args.find((a) => a.startsWith("--out="));
+    await runDump({ outDir: outArg?.split("=")[1] });
+    const { db } = await import("@knesset-vote/db");
+    await db.$disconnect();
+    process.exit(0);
+  }
+
   if (command === "backfill") {
     const { runBackfill } = await import("./backfill/backfill-bill-roles.js");
     const result = await runBackfill();
@@ -62,9 +156,27 @@ async function main() {
     process.exit(0);
   }
 
+  if (command === "backfill-votes") {
+    const { runVoteRecordBackfill } = await import("./backfill/backfill-vote-records.js");
+    const maxPagesArg = args.find((a) => a.startsWith("--max-pages="));
+    const result = await runVoteRecordBackfill({
+      reset: args.includes("--reset"),
+      maxPages: maxPagesArg ? Number(maxPagesArg.split("=")[1]) : undefined,
+    });
+    const { db } = await import("@knesset-vote/db");
+    await db.$disconnect();
+    process.exit(result.status === "failed" ? 1 : 0);
+  }
+
   console.error(`Unknown command: ${command ?? "(none)"}`);
   console.error(
-    "Usage: tsx src/cli.ts sync [--demo] | tsx src/cli.ts aggregate | tsx src/cli.ts backfill",
+    "Usage: tsx src/cli.ts sync [--demo] [--full] | tsx src/cli.ts aggregate | tsx src/cli.ts backfill" +
+      " | tsx src/cli.ts aggregate-cohesion | tsx src/cli.ts aggregate-similarity" +
+      " | tsx src/cli.ts aggregate-participation | tsx src/cli.ts aggregate-bill-timelines" +
+      " | tsx src/cli.ts detect-changes [--run=ID]" +
+      " | tsx src/cli.ts deliver-webhooks | tsx src/cli.ts dump [--out=DIR]" +
+      " | tsx src/cli.ts import-coalitions | tsx src/cli.ts match-promises" +
+      " | tsx src/cli.ts backfill-votes [--reset] [--max-pages=N]",
   );
   process.exit(1);
 }
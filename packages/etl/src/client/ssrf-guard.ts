@@ -3,8 +3,15 @@
  *
  * All outbound HTTP fetches in the ETL must pass through this guard.
  * Only domains in the allowlist may be fetched.
+ *
+ * Webhook deliveries go to subscriber URLs instead, which are checked by
+ * address: see assertWebhookUrl.
  */
 
+import { promises as dns, type LookupAddress } from "dns";
+import type { LookupFunction } from "net";
+import { isPublicIpAddress } from "@knesset-vote/shared";
+
 const DEFAULT_ALLOWED_DOMAINS = ["knesset.gov.il", "gov.il", "main.knesset.gov.il"];
 
 function getAllowedDomains(): string[] {
@@ -53,3 +60,76 @@ export async function safeFetch(url: string, options?: RequestInit): Promise<Res
     },
   });
 }
+
+/**
+ * Local receivers are allowed for testing only when explicitly enabled, and
+ * never in production.
+ */
+function privateWebhookHostsAllowed(): boolean {
+  return (
+    process.env["NODE_ENV"] !== "production" &&
+    process.env["WEBHOOK_ALLOW_PRIVATE_HOSTS"] === "true"
+  );
+}
+
+/**
+ * Resolves a webhook host and rejects it when any of its addresses is
+ * private, loopback, link-local or otherwise not public.
+ */
+export async function resolveWebhookHost(hostname: string): Promise<LookupAddress[]> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const addresses = await dns.lookup(host, { all: true, verbatim: true });
+  const blocked = addresses.find((a) => !isPublicIpAddress(a.address));
+  if (blocked && !privateWebhookHostsAllowed()) {
+    throw new Error(
+      `SSRF protection: webhook host "${host}" resolves to non-public address ${blocked.address}`,
+    );
+  }
+  return addresses;
+}
+
+/**
+ * Webhook targets are registered by API-key holders, so they cannot be held to
+ * the fetch allowlist. Any http(s) URL whose host resolves only to public
+ * addresses is accepted; production requires HTTPS.
+ */
+export async function assertWebhookUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new Error(`Webhook URLs must use http(s). Got: ${url}`);
+  }
+  if (process.env["NODE_ENV"] === "production" && parsed.protocol !== "https:") {
+    throw new Error(`Only HTTPS webhook URLs are allowed in production. Got: ${url}`);
+  }
+  await resolveWebhookHost(parsed.hostname);
+}
+
+/**
+ * `lookup` for webhook requests: the connection goes to the addresses checked
+ * here, so a host cannot pass assertWebhookUrl and then re-resolve (DNS
+ * rebinding) to a private address.
+ */
+export const webhookLookup: LookupFunction = (hostname, options, callback) => {
+  resolveWebhookHost(hostname).then(
+    (resolved) => {
+      const family = options.family === "IPv4" ? 4 : options.family === "IPv6" ? 6 : options.family;
+      const addresses = family ? resolved.filter((a) => a.family === family) : resolved;
+      if (options.all) {
+        callback(null, addresses);
+      } else if (addresses[0]) {
+        callback(null, addresses[0].address, addresses[0].family);
+      } else {
+        const err: NodeJS.ErrnoException = new Error(`No IPv${family} address for ${hostname}`);
+        err.code = "ENOTFOUND";
+        callback(err, "", 0);
+      }
+    },
+    (err: NodeJS.ErrnoException) => callback(err, "", 0),
+  );
+};
@@ -0,0 +1,81 @@
+/**
+ * Curated coalition / opposition periods per faction.
+ *
+ * The Knesset OData service has no coalition data, so the periods are
+ * maintained by hand in coalition-periods.json and applied to the
+ * CoalitionPeriod table on every sync (or with pnpm etl:import-coalitions).
+ * The file is grouped by government; a period inherits its government's dates
+ * unless it sets its own. When a government changes, or a faction joins or
+ * leaves mid-term, close the open period with an end_date and add a new one —
+ * no code changes are needed.
+ *
+ * A faction is the KNS_Faction FactionID when known, otherwise its name within
+ * the government's Knesset. Dates are YYYY-MM-DD, stored as UTC midnight;
+ * end_date is exclusive (the first day the status no longer holds).
+ */
+
+import fs from "fs";
+import { z } from "zod";
+
+export interface CuratedCoalitionPeriod {
+  /** KNS_Faction FactionID; null to match the faction by name_he instead */
+  party_external_id: string | null;
+  party_name_he: string;
+  knesset_number: number;
+  government_num: number;
+  status: "coalition" | "opposition";
+  start_date: string;
+  end_date: string | null;
+  source_url: string | null;
+  source_label: string;
+}
+
+export const COALITION_PERIODS_FILE = new URL("./coalition-periods.json", import.meta.url);
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const CoalitionPeriodsFileSchema = z.object({
+  governments: z.array(
+    z.object({
+      government_num: z.number().int(),
+      knesset_number: z.number().int(),
+      start_date: DateSchema,
+      end_date: DateSchema.nullable(),
+      source_url: z.string().url().nullable(),
+      source_label: z.string(),
+      periods: z.array(
+        z.object({
+          faction_id: z.string().optional(),
+          name_he: z.string().min(1),
+          status: z.enum(["coalition", "opposition"]),
+          start_date: DateSchema.optional(),
+          end_date: DateSchema.nullable().optional(),
+        }),
+      ),
+    }),
+  ),
+});
+
+/** Flattens the per-government file into one row per faction period */
+export function parseCoalitionPeriods(json: unknown): CuratedCoalitionPeriod[] {
+  const file = CoalitionPeriodsFileSchema.parse(json);
+  return file.governments.flatMap((gov) =>
+    gov.periods.map((p) => ({
+      party_external_id: p.faction_id ?? null,
+      party_name_he: p.name_he,
+      knesset_number: gov.knesset_number,
+      government_num: gov.government_num,
+      status: p.status,
+      start_date: p.start_date ?? gov.start_date,
+      end_date: p.end_date !== undefined ? p.end_date : gov.end_date,
+      source_url: gov.source_url,
+      source_label: gov.source_label,
+    })),
+  );
+}
+
+export function loadCoalitionPeriods(
+  file: string | URL = COALITION_PERIODS_FILE,
+): CuratedCoalitionPeriod[] {
+  return parseCoalitionPeriods(JSON.parse(fs.readFileSync(file, "utf8")));
+}
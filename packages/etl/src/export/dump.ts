@@ -0,0 +1,169 @@
+/**
+ * dump.ts
+ *
+ * Writes a full offline snapshot of the public tables (parties, MKs,
+ * memberships, bills, bill roles, votes, vote records) as CSV and JSON Lines.
+ *
+ * Output: <out>/knesset-vote-<YYYY-MM-DD>-v<EXPORT_SCHEMA_VERSION>/
+ *   <entity>.csv, <entity>.jsonl, manifest.json
+ *
+ * The manifest records the latest completed ETLRun, METHODOLOGY_VERSION, and
+ * per-file row counts and SHA-256 hashes. Files are streamed from id-ordered
+ * cursor batches and written to a .partial directory that is renamed on
+ * success, so a failed dump never leaves a half-written directory behind.
+ * Columns match GET /api/export/:entity.
+ *
+ * Run with: pnpm etl:dump [--out=DIR]
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { once } from "events";
+import { db } from "@knesset-vote/db";
+import {
+  EXPORT_COLUMNS,
+  EXPORT_MODELS,
+  EXPORT_SCHEMA_VERSION,
+  ExportEntitySchema,
+  METHODOLOGY_VERSION,
+  UTF8_BOM,
+  csvLine,
+} from "@knesset-vote/shared";
+import type { ExportEntity, ExportFormat, ExportManifest } from "@knesset-vote/shared";
+import { logger } from "../logger.js";
+
+const DUMP_BATCH_SIZE = 5000;
+
+type Row = Record<string, unknown>;
+
+// ──────────────────────────────────────────────────────────────────
+// Pure functions — exported for unit tests
+// ──────────────────────────────────────────────────────────────────
+
+export function formatRow(columns: readonly string[], row: Row, format: ExportFormat): string {
+  if (format === "csv") return csvLine(columns.map((c) => row[c]));
+  return JSON.stringify(Object.fromEntries(columns.map((c) => [c, row[c] ?? null]))) + "\n";
+}
+
+export function dumpDirName(date: Date): string {
+  return `knesset-vote-${date.toISOString().slice(0, 10)}-v${EXPORT_SCHEMA_VERSION}`;
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Main entry point
+// ──────────────────────────────────────────────────────────────────
+
+async function* exportRows(entity: ExportEntity): AsyncGenerator<Row[]> {
+  const select = Object.fromEntries(EXPORT_COLUMNS[entity].map((c) => [c, true]));
+  // Every exported model has a string id and the selected scalar columns
+  const delegate = db[EXPORT_MODELS[entity]] as unknown as {
+    findMany(args: object): Promise<Row[]>;
+  };
+
+  let cursor: string | undefined;
+  for (;;) {
+    const batch = await delegate.findMany({
+      select,
+      orderBy: { id: "asc" },
+      take: DUMP_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+    if (batch.length === 0) return;
+    yield batch;
+    cursor = batch[batch.length - 1]!["id"] as string;
+    if (batch.length < DUMP_BATCH_SIZE) return;
+  }
+}
+
+/** Streams one entity into both formats in a single pass over the table */
+async function dumpEntity(dir: string, entity: ExportEntity): Promise<ExportManifest["files"]> {
+  const columns = EXPORT_COLUMNS[entity];
+  const outputs = (["csv", "jsonl"] as const).map((format) => ({
+    format,
+    file: `${entity}.${format}`,
+    stream: fs.createWriteStream(path.join(dir, `${entity}.${format}`)),
+    hash: crypto.createHash("sha256"),
+    bytes: 0,
+  }));
+
+  const write = async (out: (typeof outputs)[number], chunk: string) => {
+    const buf = Buffer.from(chunk, "utf8");
+    out.hash.update(buf);
+    out.bytes += buf.length;
+    if (!out.stream.write(buf)) await once(out.stream, "drain");
+  };
+
+  await write(outputs[0]!, UTF8_BOM + csvLine([...columns]));
+
+  let rows = 0;
+  for await (const batch of exportRows(entity)) {
+    rows += batch.length;
+    for (const out of outputs) {
+      await write(out, batch.map((r) => formatRow(columns, r, out.format)).join(""));
+    }
+  }
+
+  for (const out of outputs) {
+    out.stream.end();
+    await once(out.stream, "finish");
+  }
+  logger.info({ entity, rows }, "Entity dumped");
+
+  return outputs.map((out) => ({
+    entity,
+    format: out.format,
+    path: out.file,
+    rows,
+    bytes: out.bytes,
+    sha256: out.hash.digest("hex"),
+  }));
+}
+
+export interface DumpResult {
+  dir: string;
+  manifest: ExportManifest;
+}
+
+export async function runDump(opts: { outDir?: string } = {}): Promise<DumpResult> {
+  const generatedAt = new Date();
+  const root = path.resolve(opts.outDir ?? process.env["DUMP_DIR"] ?? "dumps");
+  const dir = path.join(root, dumpDirName(generatedAt));
+  const partial = `${dir}.partial`;
+
+  // The sync that produced the data, not a later backfill or aggregate run
+  const run = await db.eTLRun.findFirst({
+    where: { source: "knesset_odata", status: { in: ["completed", "partial"] } },
+    orderBy: { started_at: "desc" },
+  });
+
+  await fs.promises.rm(partial, { recursive: true, force: true });
+  await fs.promises.mkdir(partial, { recursive: true });
+  logger.info({ dir, runId: run?.id ?? null }, "Dump starting");
+
+  const files: ExportManifest["files"] = [];
+  for (const entity of ExportEntitySchema.options) {
+    files.push(...(await dumpEntity(partial, entity)));
+  }
+
+  const manifest: ExportManifest = {
+    dataset: "knesset-vote",
+    schema_version: EXPORT_SCHEMA_VERSION,
+    methodology_version: METHODOLOGY_VERSION,
+    generated_at: generatedAt.toISOString(),
+    etl_run_id: run?.id ?? null,
+    etl_run_completed_at: run?.completed_at?.toISOString() ?? null,
+    files,
+  };
+  await fs.promises.writeFile(
+    path.join(partial, "manifest.json"),
+    JSON.stringify(manifest, null, 2) + "\n",
+  );
+
+  // Same-day re-runs replace the earlier dump
+  await fs.promises.rm(dir, { recursive: true, force: true });
+  await fs.promises.rename(partial, dir);
+
+  logger.info({ dir, files: files.length }, "Dump complete");
+  return { dir, manifest };
+}
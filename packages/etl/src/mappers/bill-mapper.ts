@@ -62,6 +62,7 @@ export interface RawBillInitiator {
   PersonID?: number;
   MemberID?: number;
   IsInitiator?: boolean;
+  LastUpdatedDate?: string | null;
   [key: string]: unknown;
 }
 
@@ -78,6 +79,7 @@ export interface RawBillStage {
   CommitteeID?: number | null;
   CommitteeName?: string | null;
   ReasonDesc?: string | null;
+  LastUpdatedDate?: string | null;
   [key: string]: unknown;
 }
 
@@ -118,7 +120,7 @@ const STATUS_MAP: Record<number, string> = {
   181: "committee_review", // הודעה על בקשה להחלת דין רציפות
 };
 
-function mapStatus(statusId?: number, statusDesc?: string | null): string {
+export function mapStatus(statusId?: number, statusDesc?: string | null): string {
   if (statusId && STATUS_MAP[statusId]) return STATUS_MAP[statusId];
   // Hebrew keyword fallback for statuses not in the map
   if (statusDesc) {
@@ -136,6 +138,15 @@ function mapStatus(statusId?: number, statusDesc?: string | null): string {
   return "unknown";
 }
 
+/** government, private or committee bill — null when the record carries neither field */
+export function mapBillType(raw: RawBill): string | null {
+  const desc = raw.SubTypeDesc ?? "";
+  if (raw.IsGovernmentBill || desc.includes("ממשלתית")) return "government";
+  if (desc.includes("ועדה")) return "committee";
+  if (desc.includes("פרטית") || raw.IsGovernmentBill === false) return "private";
+  return null;
+}
+
 /**
  * Static topic tagger based on TOPIC_KEYWORDS map.
  * MVP: keyword matching; Later: NLP classification.
@@ -169,6 +180,7 @@ export function mapBillToBill(raw: RawBill): Prisma.BillCreateInput {
     description_he: raw.SummaryLaw ? String(raw.SummaryLaw) : null,
     description_en: null,
     status: mapStatus(raw.StatusID, raw.StatusDesc ?? raw.SubTypeDesc),
+    bill_type: mapBillType(raw),
     topic: inferTopic(String(title), raw.SummaryLaw),
     knesset_number: raw.KnessetNum ? Number(raw.KnessetNum) : null,
     submitted_date: raw.SubmitDate
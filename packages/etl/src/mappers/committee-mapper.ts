@@ -61,6 +61,7 @@ export interface RawCommitteeMember {
   EndDate?: string | null;
   FinishDate?: string | null;
   IsCurrent?: boolean;
+  LastUpdatedDate?: string | null;
   [key: string]: unknown;
 }
 
@@ -56,6 +56,7 @@ export interface RawMemberFaction {
   EndDate?: string | null;
   FinishDate?: string | null;
   IsCurrent?: boolean;
+  LastUpdatedDate?: string | null;
   [key: string]: unknown;
 }
 
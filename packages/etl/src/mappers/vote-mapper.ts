@@ -31,6 +31,7 @@ export interface RawVoteHeader {
   Id?: number;
   VoteDateTime?: string | null;
   SessionID?: number | null;
+  KnessetNum?: number | null;
   ItemID?: number | null;
   Ordinal?: number | null;
   VoteMethodID?: number | null;
@@ -65,7 +66,9 @@ export interface RawVoteRecord {
 
 /**
  * Map v4 ResultCode to our position enum.
- * 7 = yes, 8 = no, 9 = abstain, 6/10/11 = did_not_vote
+ * 7/11 = yes, 8 = no, 9 = abstain, 6 = present, 10 = absent.
+ * Present (in the plenum, no vote cast) and absent are kept apart so
+ * participation metrics can tell them apart; unknown codes = did_not_vote.
  */
 export function mapVoteResult(resultCode?: number): string {
   switch (resultCode) {
@@ -77,8 +80,12 @@ export function mapVoteResult(resultCode?: number): string {
       return "abstain"; // נמנע
     case 11:
       return "yes"; // הצביע (manual show-of-hands, counted as for)
+    case 6:
+      return "present"; // נוכח
+    case 10:
+      return "absent"; // לא נכח
     default:
-      return "did_not_vote"; // 6=נוכח, 10=לא נכח, unknown
+      return "did_not_vote"; // unknown code
   }
 }
 
@@ -142,7 +149,9 @@ export function mapVoteHeaderToVote(
     title_he: String(title),
     title_en: null,
     vote_date: raw.VoteDateTime ? new Date(raw.VoteDateTime) : null,
-    knesset_number: null,
+    // Usually absent on KNS_PlenumVote; assignVoteKnessetNumbers fills it from the vote date
+    knesset_number: raw.KnessetNum ? Number(raw.KnessetNum) : null,
+    item_id: raw.ItemID ? String(raw.ItemID) : null,
     yes_count: counts?.yes ?? null,
     no_count: counts?.no ?? null,
     abstain_count: counts?.abstain ?? null,
@@ -17,6 +17,7 @@ import {
   type RawVoteHeader,
   type RawVoteRecord,
 } from "./mappers/vote-mapper.js";
+import { assignVoteKnessetNumbers } from "./sync/sync-votes.js";
 
 const PAGE_SIZE = 100;
 const START_PAGE = 3; // skip first 300 (already seeded)
@@ -180,6 +181,8 @@ async function main() {
     if (b + BATCH_SIZE < voteOdataIds.length) await sleep(DELAY_MS);
   }
 
+  await assignVoteKnessetNumbers();
+
   console.log(`\n✅ Done! ${voteCount} votes, ${recordCount} vote records`);
 
   const totals = await db.$queryRaw<{ votes: bigint; records: bigint }[]>`
@@ -17,6 +17,7 @@ import {
   type RawVoteHeader,
   type RawVoteRecord,
 } from "./mappers/vote-mapper.js";
+import { assignVoteKnessetNumbers } from "./sync/sync-votes.js";
 
 const PAGE_SIZE = 100;
 const VOTE_PAGES = 3; // 300 most-recent votes
@@ -188,6 +189,8 @@ async function main() {
     if (b + BATCH_SIZE < voteOdataIds.length) await sleep(DELAY_MS);
   }
 
+  await assignVoteKnessetNumbers();
+
   console.log(`\n✅ Done! Inserted ${voteCount} votes and ${recordCount} MK vote records`);
   console.log("   Visit http://localhost:3000/votes to see the results");
 
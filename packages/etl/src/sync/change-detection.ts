@@ -0,0 +1,466 @@
+/**
+ * change-detection.ts
+ *
+ * Compares every RawSnapshot written by an ETL run with the previous snapshot
+ * of the same entity (same entity_type + external_source + external_id) and
+ * records structured ChangeEvent rows:
+ *
+ *   bill             created, status_changed (draft → … → passed)
+ *   mk               created
+ *   party            created
+ *   committee        created
+ *   government_role  role_started (new current role), role_ended
+ *
+ * Two kinds of change have no snapshots and are read from the database instead:
+ *   vote             vote_added    — Vote rows created during the run
+ *   mk               party_changed — PartyMembership rows created during the run
+ *                                    whose party differs from the MK's previous one
+ *
+ * Snapshots with an unchanged payload_hash are skipped without parsing. The
+ * first run against an empty database is a baseline: everything would be
+ * "created", so no events are recorded.
+ *
+ * Runs as the last step of `pnpm etl:sync`; re-run for the latest run with:
+ * pnpm etl:detect-changes
+ */
+
+import { db } from "@knesset-vote/db";
+import type { ChangeType } from "@knesset-vote/shared";
+import { logger } from "../logger.js";
+import { mapBillToBill, type RawBill } from "../mappers/bill-mapper.js";
+import { mapMemberToMK, type RawMember } from "../mappers/mk-mapper.js";
+import { mapFactionToParty, type RawFaction } from "../mappers/party-mapper.js";
+import { mapCommittee, type RawCommittee } from "../mappers/committee-mapper.js";
+import {
+  mapPersonToPositionToGovernmentRole,
+  type RawPersonToPosition,
+} from "../mappers/government-role-mapper.js";
+
+const SNAPSHOT_BATCH_SIZE = 200;
+const WRITE_BATCH_SIZE = 1000;
+
+// ──────────────────────────────────────────────────────────────────
+// Pure functions — exported for unit tests
+// ──────────────────────────────────────────────────────────────────
+
+export interface ChangeDraft {
+  change_type: ChangeType;
+  field: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  label_he: string;
+  occurred_at: Date | null;
+}
+
+function draft(
+  change_type: ChangeType,
+  label_he: string,
+  extra: Partial<Omit<ChangeDraft, "change_type" | "label_he">> = {},
+): ChangeDraft {
+  return {
+    change_type,
+    field: null,
+    old_value: null,
+    new_value: null,
+    occurred_at: null,
+    label_he,
+    ...extra,
+  };
+}
+
+function roleLabel(role: {
+  duty_desc?: string | null;
+  position_label: string;
+  ministry_name?: string | null;
+}): string {
+  if (role.duty_desc) return role.duty_desc;
+  return role.ministry_name
+    ? `${role.position_label} — ${role.ministry_name}`
+    : role.position_label;
+}
+
+function asDate(value: string | Date | null | undefined): Date | null {
+  return value ? new Date(value) : null;
+}
+
+/**
+ * Diffs two raw OData payloads of the same entity. Both are run through the
+ * sync mappers so comparisons use the same normalized values as the tables.
+ * `prev` is null when the entity has never been snapshotted before.
+ */
+export function diffSnapshots(entityType: string, prev: unknown, next: unknown): ChangeDraft[] {
+  switch (entityType) {
+    case "bill": {
+      const after = mapBillToBill(next as RawBill);
+      if (!prev)
+        return [draft("created", after.title_he, { occurred_at: asDate(after.submitted_date) })];
+      const before = mapBillToBill(prev as RawBill);
+      if (before.status === after.status) return [];
+      return [
+        draft("status_changed", after.title_he, {
+          field: "status",
+          old_value: before.status ?? null,
+          new_value: after.status ?? null,
+          occurred_at: asDate(after.last_status_date),
+        }),
+      ];
+    }
+    case "mk": {
+      if (prev) return [];
+      return [draft("created", mapMemberToMK(next as RawMember).name_he)];
+    }
+    case "party": {
+      if (prev) return [];
+      return [draft("created", mapFactionToParty(next as RawFaction).name_he)];
+    }
+    case "committee": {
+      if (prev) return [];
+      return [draft("created", mapCommittee(next as RawCommittee).name_he)];
+    }
+    case "government_role": {
+      const after = mapPersonToPositionToGovernmentRole(next as RawPersonToPosition, "");
+      const wasCurrent = prev
+        ? Boolean(mapPersonToPositionToGovernmentRole(prev as RawPersonToPosition, "").is_current)
+        : false;
+      if (after.is_current && !wasCurrent) {
+        return [draft("role_started", roleLabel(after), { occurred_at: asDate(after.start_date) })];
+      }
+      if (!after.is_current && prev && wasCurrent) {
+        return [draft("role_ended", roleLabel(after), { occurred_at: asDate(after.end_date) })];
+      }
+      return [];
+    }
+    default:
+      return [];
+  }
+}
+
+export interface MembershipRow {
+  id: string;
+  mk_id: string;
+  party_id: string;
+  party_name_he: string;
+  start_date: Date | null;
+  created_at: Date;
+}
+
+export interface PartySwitch {
+  membership_id: string;
+  mk_id: string;
+  old_party_name_he: string;
+  new_party_name_he: string;
+  start_date: Date | null;
+}
+
+/**
+ * Finds memberships created at or after `since` (and, when given, no later
+ * than `until`) whose party differs from the MK's preceding membership
+ * (ordered by start_date). A first-ever membership or a new term in the same
+ * party is not a switch.
+ */
+export function findPartySwitches(
+  rows: MembershipRow[],
+  since: Date,
+  until?: Date | null,
+): PartySwitch[] {
+  const byMK = new Map<string, MembershipRow[]>();
+  for (const row of rows) {
+    const list = byMK.get(row.mk_id) ?? [];
+    list.push(row);
+    byMK.set(row.mk_id, list);
+  }
+
+  const switches: PartySwitch[] = [];
+  for (const list of byMK.values()) {
+    list.sort((a, b) => (a.start_date?.getTime() ?? 0) - (b.start_date?.getTime() ?? 0));
+    for (let i = 1; i < list.length; i++) {
+      const prev = list[i - 1]!;
+      const cur = list[i]!;
+      if (cur.created_at < since || (until && cur.created_at > until)) continue;
+      if (cur.party_id === prev.party_id) continue;
+      switches.push({
+        membership_id: cur.id,
+        mk_id: cur.mk_id,
+        old_party_name_he: prev.party_name_he,
+        new_party_name_he: cur.party_name_he,
+        start_date: cur.start_date,
+      });
+    }
+  }
+  return switches;
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Main entry point
+// ──────────────────────────────────────────────────────────────────
+
+interface ChangeEventInput extends ChangeDraft {
+  entity_type: string;
+  entity_id: string;
+  external_id: string | null;
+}
+
+export interface ChangeDetectionResult {
+  run_id: string | null;
+  snapshots_compared: number;
+  events_written: number;
+  baseline: boolean;
+  duration_ms: number;
+}
+
+interface PreviousSnapshot {
+  id: string;
+  entity_type: string;
+  external_source: string;
+  external_id: string;
+  payload_hash: string;
+}
+
+/** The latest snapshot of each entity taken before `before` — one row per key */
+async function latestSnapshotsBefore(
+  entityType: string,
+  externalSource: string,
+  externalIds: string[],
+  before: Date,
+): Promise<PreviousSnapshot[]> {
+  return db.$queryRaw<PreviousSnapshot[]>`
+    SELECT DISTINCT ON (external_id)
+      id, entity_type, external_source, external_id, payload_hash
+    FROM "RawSnapshot"
+    WHERE entity_type = ${entityType}
+      AND external_source = ${externalSource}
+      AND external_id = ANY(${externalIds})
+      AND fetched_at < ${before}
+    ORDER BY external_id, fetched_at DESC
+  `;
+}
+
+async function detectSnapshotChanges(
+  runId: string,
+  runStartedAt: Date,
+): Promise<{
+  compared: number;
+  events: ChangeEventInput[];
+}> {
+  const events: ChangeEventInput[] = [];
+  let compared = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const snapshots = await db.rawSnapshot.findMany({
+      where: { etl_run_id: runId },
+      orderBy: { id: "asc" },
+      take: SNAPSHOT_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+    const last = snapshots[snapshots.length - 1];
+    if (!last) break;
+    cursor = last.id;
+
+    // Hashes first: payloads are loaded only for the previous snapshots that differ
+    const idsByKind = new Map<string, { type: string; source: string; ids: string[] }>();
+    for (const snap of snapshots) {
+      const kind = `${snap.entity_type}:${snap.external_source}`;
+      const group = idsByKind.get(kind) ?? {
+        type: snap.entity_type,
+        source: snap.external_source,
+        ids: [],
+      };
+      group.ids.push(snap.external_id);
+      idsByKind.set(kind, group);
+    }
+    const latest = new Map<string, PreviousSnapshot>();
+    for (const { type, source, ids } of idsByKind.values()) {
+      for (const p of await latestSnapshotsBefore(type, source, ids, runStartedAt)) {
+        latest.set(`${p.entity_type}:${p.external_source}:${p.external_id}`, p);
+      }
+    }
+
+    const changed = snapshots
+      .map((snap) => ({
+        snap,
+        prev: latest.get(`${snap.entity_type}:${snap.external_source}:${snap.external_id}`),
+      }))
+      .filter(({ snap, prev }) => snap.payload_json && prev?.payload_hash !== snap.payload_hash);
+
+    const prevPayloads = await db.rawSnapshot.findMany({
+      where: { id: { in: changed.flatMap(({ prev }) => (prev ? [prev.id] : [])) } },
+      select: { id: true, payload_json: true },
+    });
+    const prevPayloadById = new Map(prevPayloads.map((p) => [p.id, p.payload_json]));
+
+    for (const { snap, prev } of changed) {
+      compared++;
+      try {
+        for (const change of diffSnapshots(
+          snap.entity_type,
+          prev ? prevPayloadById.get(prev.id) : null,
+          snap.payload_json,
+        )) {
+          events.push({
+            ...change,
+            entity_type: snap.entity_type,
+            entity_id: snap.entity_id,
+            external_id: snap.external_id,
+          });
+        }
+      } catch (err) {
+        logger.warn({ err, snapshotId: snap.id }, "Failed to diff snapshot - skipping");
+      }
+    }
+  }
+
+  // Role labels carry the office only; prefix the office holder's name
+  const roleIds = events.filter((e) => e.entity_type === "government_role").map((e) => e.entity_id);
+  if (roleIds.length > 0) {
+    const roles = await db.governmentRole.findMany({
+      where: { id: { in: roleIds } },
+      select: { id: true, mk: { select: { name_he: true } } },
+    });
+    const holders = new Map(roles.map((r) => [r.id, r.mk.name_he]));
+    for (const e of events) {
+      const holder = e.entity_type === "government_role" ? holders.get(e.entity_id) : undefined;
+      if (holder) e.label_he = `${holder} — ${e.label_he}`;
+    }
+  }
+
+  return { compared, events };
+}
+
+/** `created_at` within the run — a later run's rows are not credited to an earlier one */
+function createdDuring(since: Date, until: Date | null) {
+  return { gte: since, ...(until ? { lte: until } : {}) };
+}
+
+async function detectNewVotes(
+  since: Date,
+  until: Date | null,
+  runId: string,
+): Promise<ChangeEventInput[]> {
+  const votes = await db.vote.findMany({
+    where: { created_at: createdDuring(since, until) },
+    select: { id: true, external_id: true, title_he: true, vote_date: true },
+  });
+  logger.info({ runId, votes: votes.length }, "New votes in run");
+  return votes.map((v) => ({
+    ...draft("vote_added", v.title_he, { occurred_at: v.vote_date }),
+    entity_type: "vote",
+    entity_id: v.id,
+    external_id: v.external_id,
+  }));
+}
+
+async function detectPartySwitches(since: Date, until: Date | null): Promise<ChangeEventInput[]> {
+  const fresh = await db.partyMembership.findMany({
+    where: { created_at: createdDuring(since, until) },
+    select: { mk_id: true },
+  });
+  if (fresh.length === 0) return [];
+
+  const mkIds = [...new Set(fresh.map((m) => m.mk_id))];
+  const [memberships, mks] = await Promise.all([
+    db.partyMembership.findMany({
+      where: { mk_id: { in: mkIds } },
+      select: {
+        id: true,
+        mk_id: true,
+        party_id: true,
+        start_date: true,
+        created_at: true,
+        party: { select: { name_he: true } },
+      },
+    }),
+    db.mK.findMany({
+      where: { id: { in: mkIds } },
+      select: { id: true, external_id: true, name_he: true },
+    }),
+  ]);
+  const mkById = new Map(mks.map((m) => [m.id, m]));
+
+  const switches = findPartySwitches(
+    memberships.map((m) => ({ ...m, party_name_he: m.party.name_he })),
+    since,
+    until,
+  );
+  return switches.map((s) => ({
+    ...draft("party_changed", mkById.get(s.mk_id)?.name_he ?? "", {
+      field: "party",
+      old_value: s.old_party_name_he,
+      new_value: s.new_party_name_he,
+      occurred_at: s.start_date,
+    }),
+    entity_type: "mk",
+    entity_id: s.mk_id,
+    external_id: mkById.get(s.mk_id)?.external_id ?? null,
+  }));
+}
+
+/**
+ * Detects changes for one ETL run (defaults to the latest knesset_odata run).
+ * Idempotent: events previously recorded for the run are replaced.
+ */
+export async function runChangeDetection(runId?: string): Promise<ChangeDetectionResult> {
+  const startedAt = new Date();
+
+  const run = await db.eTLRun.findFirst({
+    where: runId ? { id: runId } : { source: "knesset_odata" },
+    orderBy: { started_at: "desc" },
+  });
+  if (!run) {
+    logger.warn({ runId }, "No ETL run found — nothing to compare");
+    return {
+      run_id: null,
+      snapshots_compared: 0,
+      events_written: 0,
+      baseline: false,
+      duration_ms: Date.now() - startedAt.getTime(),
+    };
+  }
+
+  const earlierRun = await db.eTLRun.findFirst({
+    where: {
+      source: run.source,
+      started_at: { lt: run.started_at },
+      status: { in: ["completed", "partial"] },
+    },
+    select: { id: true },
+  });
+  if (!earlierRun) {
+    logger.info({ runId: run.id }, "First ETL run — recorded as baseline, no change events");
+    return {
+      run_id: run.id,
+      snapshots_compared: 0,
+      events_written: 0,
+      baseline: true,
+      duration_ms: Date.now() - startedAt.getTime(),
+    };
+  }
+
+  const { compared, events } = await detectSnapshotChanges(run.id, run.started_at);
+  // A run still in progress (detection inside the sync) has no end yet
+  events.push(...(await detectNewVotes(run.started_at, run.completed_at, run.id)));
+  events.push(...(await detectPartySwitches(run.started_at, run.completed_at)));
+
+  const detectedAt = run.completed_at ?? startedAt;
+  const writes = [db.changeEvent.deleteMany({ where: { etl_run_id: run.id } })];
+  for (let b = 0; b < events.length; b += WRITE_BATCH_SIZE) {
+    writes.push(
+      db.changeEvent.createMany({
+        data: events
+          .slice(b, b + WRITE_BATCH_SIZE)
+          .map((e) => ({ ...e, etl_run_id: run.id, detected_at: detectedAt })),
+      }),
+    );
+  }
+  await db.$transaction(writes);
+
+  const result: ChangeDetectionResult = {
+    run_id: run.id,
+    snapshots_compared: compared,
+    events_written: events.length,
+    baseline: false,
+    duration_ms: Date.now() - startedAt.getTime(),
+  };
+  logger.info(result, "Change detection finished");
+  return result;
+}
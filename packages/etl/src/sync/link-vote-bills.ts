@@ -0,0 +1,258 @@
+/**
+ * Vote → bill linker
+ *
+ * KNS_PlenumVote carries no BillID. For bill votes its ItemID (the plenum
+ * agenda item) is the BillID, so that is tried first; other votes fall back
+ * to matching the normalized vote title against bill titles:
+ *   - high    ItemID = Bill.external_id and the title names a law
+ *   - medium  exactly one bill has the vote's normalized title
+ *   - low     several bills share the title (identical private bills are
+ *             common); the latest submitted on or before the vote date wins
+ *
+ * The reading (preliminary, first, second-third…) is parsed from the title.
+ * Runs after the vote sync on the votes that sync touched, every vote still
+ * without a bill, and title links whose ItemID or title key matches a bill
+ * the sync touched, so they can be upgraded or corrected once the bill syncs.
+ * Votes already linked by ItemID are not revisited.
+ * A link that no longer resolves is cleared with a warning, never silently.
+ *
+ * Run alone with: pnpm etl:link-votes
+ */
+
+import { db } from "@knesset-vote/db";
+import type { VoteReading } from "@knesset-vote/shared";
+import { logger } from "../logger.js";
+
+const VOTE_BATCH_SIZE = 1000;
+
+// ──────────────────────────────────────────────────────────────────
+// Pure functions — exported for unit tests
+// ──────────────────────────────────────────────────────────────────
+
+export type BillLinkConfidence = "high" | "medium" | "low";
+
+// Most specific first: "שנייה ושלישית" also contains "שלישית"
+const READING_PATTERNS: [RegExp, VoteReading][] = [
+  [/קריאה\s+שני[י]?ה\s*(ו|-)\s*שלישית/, "second_third_reading"],
+  [/קריאה\s+שלישית/, "third_reading"],
+  [/קריאה\s+שני[י]?ה/, "second_reading"],
+  [/קריאה\s+ראשונה/, "first_reading"],
+  [/קריאה\s+טרומית|דיון\s+מוקדם/, "preliminary"],
+];
+
+/** The reading a vote was on, from its title or the "for" option text */
+export function detectReading(...texts: (string | null | undefined)[]): VoteReading | null {
+  for (const text of texts) {
+    if (!text) continue;
+    for (const [pattern, reading] of READING_PATTERNS) {
+      if (pattern.test(text)) return reading;
+    }
+  }
+  return null;
+}
+
+/**
+ * Title key shared by a bill and the votes on it: niqqud, quotes and
+ * punctuation removed, the reading suffix dropped, and "הצעת חוק" cut to
+ * "חוק" — votes on the final readings name the law, not the bill.
+ * The Hebrew / Gregorian year stays — it tells apart re-tabled bills.
+ */
+export function normalizeBillTitle(title: string): string {
+  return title
+    .replace(/[\u0591-\u05C7"'\u05F3\u05F4`]/g, "")
+    .replace(/\s*[-–—]\s*(קריאה|דיון|הצבעה)\s.*$/, "")
+    .replace(/\((קריאה|דיון)[^)]*\)/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .replace(/^הצעת\s+/, "");
+}
+
+export interface BillRef {
+  id: string;
+  external_id: string;
+  title_he: string;
+  submitted_date: Date | null;
+}
+
+export interface BillIndex {
+  byExternalId: Map<string, BillRef>;
+  byTitle: Map<string, BillRef[]>;
+}
+
+export function buildBillIndex(bills: BillRef[]): BillIndex {
+  const byExternalId = new Map<string, BillRef>();
+  const byTitle = new Map<string, BillRef[]>();
+  for (const bill of bills) {
+    byExternalId.set(bill.external_id, bill);
+    const key = normalizeBillTitle(bill.title_he);
+    if (!key) continue;
+    const list = byTitle.get(key) ?? [];
+    list.push(bill);
+    byTitle.set(key, list);
+  }
+  return { byExternalId, byTitle };
+}
+
+export interface VoteLinkInput {
+  item_id: string | null;
+  title_he: string;
+  vote_date: Date | null;
+}
+
+export interface VoteLink {
+  bill_id: string;
+  confidence: BillLinkConfidence;
+  reading: VoteReading | null;
+}
+
+export function resolveVoteBill(vote: VoteLinkInput, index: BillIndex): VoteLink | null {
+  const reading = detectReading(vote.title_he);
+
+  // ItemID is only a BillID on bill agenda items; other item types reuse the numbers
+  const byId = vote.item_id ? index.byExternalId.get(vote.item_id) : undefined;
+  if (byId && vote.title_he.includes("חוק")) {
+    return { bill_id: byId.id, confidence: "high", reading };
+  }
+
+  const candidates = index.byTitle.get(normalizeBillTitle(vote.title_he)) ?? [];
+  if (candidates.length === 1) {
+    return { bill_id: candidates[0]!.id, confidence: "medium", reading };
+  }
+
+  // Several bills share the title: take the latest one already tabled at the vote
+  const tabled = candidates
+    .filter((b) => !vote.vote_date || !b.submitted_date || b.submitted_date <= vote.vote_date)
+    .sort((a, b) => (b.submitted_date?.getTime() ?? 0) - (a.submitted_date?.getTime() ?? 0));
+  const pick = tabled[0];
+  return pick ? { bill_id: pick.id, confidence: "low", reading } : null;
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Main entry point
+// ──────────────────────────────────────────────────────────────────
+
+export interface VoteLinkResult {
+  votes_checked: number;
+  links_written: number;
+  /** Existing links cleared because the vote no longer resolves to a bill */
+  links_cleared: number;
+  linked: Record<BillLinkConfidence, number>;
+  duration_ms: number;
+}
+
+export interface VoteLinkOptions {
+  /**
+   * Run watermark: only votes updated since then, unlinked votes and title
+   * links that a bill updated since then could change are checked. Omit to
+   * re-check every vote (pnpm etl:link-votes).
+   */
+  changedSince?: Date;
+}
+
+export async function linkVotesToBills(options: VoteLinkOptions = {}): Promise<VoteLinkResult> {
+  const startedAt = Date.now();
+  const { changedSince } = options;
+
+  const bills = await db.bill.findMany({
+    where: { external_source: "knesset_odata" },
+    select: { id: true, external_id: true, title_he: true, submitted_date: true, updated_at: true },
+  });
+  const index = buildBillIndex(bills);
+  logger.info({ bills: bills.length, titles: index.byTitle.size }, "Bill index built");
+
+  // Title links are only worth re-checking when a bill they could point to changed
+  const changedBills = changedSince ? bills.filter((b) => b.updated_at >= changedSince) : [];
+  const changedItemIds = new Set(changedBills.map((b) => b.external_id));
+  const changedTitles = new Set(changedBills.map((b) => normalizeBillTitle(b.title_he)));
+  const needsCheck = (vote: { item_id: string | null; title_he: string; updated_at: Date }) =>
+    !changedSince ||
+    vote.updated_at >= changedSince ||
+    (vote.item_id !== null && changedItemIds.has(vote.item_id)) ||
+    changedTitles.has(normalizeBillTitle(vote.title_he));
+
+  const linked: Record<BillLinkConfidence, number> = { high: 0, medium: 0, low: 0 };
+  let votesChecked = 0;
+  let linksWritten = 0;
+  let linksCleared = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const votes = await db.vote.findMany({
+      where: {
+        external_source: "knesset_v4",
+        AND: [
+          { OR: [{ bill_link_confidence: null }, { bill_link_confidence: { not: "high" } }] },
+          ...(changedSince
+            ? [
+                {
+                  OR: [
+                    { bill_id: null },
+                    { updated_at: { gte: changedSince } },
+                    ...(changedBills.length > 0 ? [{ bill_id: { not: null } }] : []),
+                  ],
+                },
+              ]
+            : []),
+        ],
+      },
+      orderBy: { id: "asc" },
+      take: VOTE_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      select: {
+        id: true,
+        item_id: true,
+        title_he: true,
+        vote_date: true,
+        bill_id: true,
+        bill_link_confidence: true,
+        bill_reading: true,
+        updated_at: true,
+      },
+    });
+    const last = votes[votes.length - 1];
+    if (!last) break;
+    cursor = last.id;
+
+    const updates = [];
+    for (const vote of votes) {
+      if (vote.bill_id && !needsCheck(vote)) continue;
+      votesChecked += 1;
+      const link = resolveVoteBill(vote, index);
+      if (link) linked[link.confidence] += 1;
+
+      const next = {
+        bill_id: link?.bill_id ?? null,
+        bill_link_confidence: link?.confidence ?? null,
+        bill_reading: link?.reading ?? null,
+      };
+      if (
+        next.bill_id === vote.bill_id &&
+        next.bill_link_confidence === vote.bill_link_confidence &&
+        next.bill_reading === vote.bill_reading
+      ) {
+        continue;
+      }
+      if (vote.bill_id && !next.bill_id) {
+        logger.warn(
+          { voteId: vote.id, billId: vote.bill_id, confidence: vote.bill_link_confidence },
+          "Vote no longer resolves to its linked bill; clearing the link",
+        );
+        linksCleared += 1;
+      }
+      updates.push(db.vote.update({ where: { id: vote.id }, data: next }));
+    }
+
+    if (updates.length > 0) await db.$transaction(updates);
+    linksWritten += updates.length;
+  }
+
+  const result: VoteLinkResult = {
+    votes_checked: votesChecked,
+    links_written: linksWritten,
+    links_cleared: linksCleared,
+    linked,
+    duration_ms: Date.now() - startedAt,
+  };
+  logger.info(result, "Vote → bill linking finished");
+  return result;
+}
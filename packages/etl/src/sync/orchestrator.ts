@@ -3,27 +3,40 @@
  *
  * Coordinates the full sync pipeline:
  * 1. Fetch + parse OData metadata
- * 2. Sync Parties
+ * 2. Sync Parties + apply curated CoalitionPeriods
  * 3. Sync MKs + Memberships
- * 4. Sync Bills + Sponsors + Stages
- * 5. Sync Committees + Memberships
- * 6. Sync Votes + VoteRecords (from separate votes.svc OData)
+ * 4. Sync Committees + Memberships
+ * 5. Sync Bills + Sponsors + Stages (stages reference committees)
+ * 6. Sync Votes + VoteRecords (from separate votes.svc OData), then link votes to bills
  * 7. Sync GovernmentRoles (Ministers + Deputy Ministers from KNS_PersonToPosition)
- * 8. Produce ETLRun report
+ * 8. Detect changes against the previous snapshots (ChangeEvent feed)
+ * 9. Enqueue + deliver bill webhooks for status / stage changes
+ * 10. Produce ETLRun report
+ *
+ * Runs are incremental by default: entity sets are filtered on LastUpdatedDate
+ * against the watermarks of the last completed run (see watermarks.ts).
+ * Pass `forceFullSync` (`--full` on the CLI) to re-download everything.
  */
 
 import { fetchODataMetadata, parseODataMetadataXmlAsync } from "../client/odata-metadata.js";
 import { syncParties } from "./sync-parties.js";
+import { syncCoalitionPeriods } from "./sync-coalitions.js";
 import { syncMKs } from "./sync-mks.js";
 import { syncBills } from "./sync-bills.js";
 import { syncCommittees } from "./sync-committees.js";
 import { syncVotes } from "./sync-votes.js";
+import { linkVotesToBills } from "./link-vote-bills.js";
 import { syncGovernmentRoles } from "./sync-government-roles.js";
+import { runChangeDetection } from "./change-detection.js";
+import { enqueueWebhookDeliveries, deliverPendingWebhooks } from "./webhooks.js";
 import { ETLRunTracker } from "./run-tracker.js";
+import { loadSyncWatermarks } from "./watermarks.js";
 import { logger } from "../logger.js";
 import type { ETLRunResult, SyncOptions } from "@knesset-vote/shared";
 import { KNESSET_ODATA_METADATA } from "@knesset-vote/shared";
 
+const WEBHOOK_DRAIN_MS = 3 * 60_000;
+
 export async function runSync(options: SyncOptions = {}): Promise<ETLRunResult> {
   const tracker = new ETLRunTracker();
   const runId = await tracker.start("knesset_odata");
@@ -31,6 +44,8 @@ export async function runSync(options: SyncOptions = {}): Promise<ETLRunResult>
   logger.info({ runId, options }, "Starting ETL sync");
 
   try {
+    const watermarks = await loadSyncWatermarks(options.forceFullSync);
+
     // Step 1: Discover entity sets from metadata
     const metadataUrl = process.env["KNESSET_ODATA_BASE_URL"]
       ? `${process.env["KNESSET_ODATA_BASE_URL"]}/$metadata`
@@ -55,24 +70,56 @@ export async function runSync(options: SyncOptions = {}): Promise<ETLRunResult>
       return await tracker.complete("failed");
     }
 
-    // Step 2: Sync Parties
-    const partyIdMap = await syncParties(metadata, tracker);
+    // Step 2: Sync Parties, then re-apply the curated coalition periods (needs party ids)
+    const partyIdMap = await syncParties(metadata, tracker, watermarks);
+    try {
+      await syncCoalitionPeriods();
+    } catch (err) {
+      logger.error({ err, runId }, "Coalition period import failed");
+      tracker.addError(`Coalition period import failed: ${String(err)}`);
+    }
 
     // Step 3: Sync MKs + Memberships
-    const mkIdMap = await syncMKs(metadata, tracker, partyIdMap);
+    const mkIdMap = await syncMKs(metadata, tracker, partyIdMap, watermarks);
 
-    // Step 4: Sync Bills + Sponsors + Stages
-    const _billIdMap = await syncBills(metadata, tracker, mkIdMap);
+    // Step 4: Sync Committees + Memberships
+    const committeeIdMap = await syncCommittees(metadata, tracker, mkIdMap, watermarks);
 
-    // Step 5: Sync Committees + Memberships
-    await syncCommittees(metadata, tracker, mkIdMap);
+    // Step 5: Sync Bills + Sponsors + Stages (after committees so stages can link to them)
+    const _billIdMap = await syncBills(metadata, tracker, mkIdMap, committeeIdMap, watermarks);
 
     // Step 6: Sync Votes + VoteRecords (separate votes.svc OData endpoint)
-    await syncVotes(tracker, mkIdMap);
+    await syncVotes(tracker, mkIdMap, watermarks);
+    try {
+      await linkVotesToBills({ changedSince: tracker.getStartedAt() });
+    } catch (err) {
+      logger.error({ err, runId }, "Vote → bill linking failed");
+      tracker.addError(`Vote → bill linking failed: ${String(err)}`);
+    }
 
     // Step 7: Sync GovernmentRoles (Ministers + Deputy Ministers)
+    // Always a full fetch: a few hundred rows split across per-position queries.
     await syncGovernmentRoles(tracker, mkIdMap);
 
+    // Step 8: Change feed — a failure here must not fail an otherwise good sync
+    try {
+      await runChangeDetection(runId);
+    } catch (err) {
+      logger.error({ err, runId }, "Change detection failed");
+      tracker.addError(`Change detection failed: ${String(err)}`);
+    }
+
+    // Step 9: Webhooks — builds on the change feed; retries due within a few minutes are drained
+    try {
+      await enqueueWebhookDeliveries(runId);
+      await deliverPendingWebhooks({ drainWithinMs: WEBHOOK_DRAIN_MS });
+    } catch (err) {
+      logger.error({ err, runId }, "Webhook delivery failed");
+      tracker.addError(`Webhook delivery failed: ${String(err)}`);
+    }
+
+    await tracker.updateWatermarks(watermarks.toJSON());
+
     // Determine final status
     const summary = tracker.getSummary();
     const hasErrors = summary.errors.length > 0;
@@ -80,7 +127,8 @@ export async function runSync(options: SyncOptions = {}): Promise<ETLRunResult>
     const hasData = totalFetched > 0;
 
     let status: "completed" | "partial" | "failed";
-    if (!hasData) {
+    // An incremental run with nothing changed upstream is a valid, empty run
+    if (!hasData && !watermarks.incremental) {
       status = "failed";
     } else if (hasErrors) {
       status = "partial";
@@ -95,6 +143,7 @@ export async function runSync(options: SyncOptions = {}): Promise<ETLRunResult>
       {
         status,
         runId,
+        incremental: watermarks.incremental,
         totalFetched,
         counts: summary.counts,
         errors: summary.errors.length,
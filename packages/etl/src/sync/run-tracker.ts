@@ -50,6 +50,24 @@ export class ETLRunTracker {
     });
   }
 
+  async updateWatermarks(watermarks: Record<string, string>): Promise<void> {
+    await db.eTLRun.update({
+      where: { id: this.runId },
+      data: { watermarks_json: watermarks },
+    });
+  }
+
+  /**
+   * Write the in-progress counts to the ETLRun row without closing it.
+   * Long-running jobs call this after each page so progress survives a kill.
+   */
+  async flushCounts(): Promise<void> {
+    await db.eTLRun.update({
+      where: { id: this.runId },
+      data: { counts_json: this.counts as object },
+    });
+  }
+
   async complete(status: "completed" | "failed" | "partial"): Promise<ETLRunResult> {
     const completedAt = new Date();
     const latencyMs = completedAt.getTime() - this.startedAt.getTime();
@@ -84,6 +102,10 @@ export class ETLRunTracker {
     return this.runId;
   }
 
+  getStartedAt(): Date {
+    return this.startedAt;
+  }
+
   getSummary(): { counts: ETLRunResult["counts"]; errors: string[] } {
     return { counts: this.counts, errors: this.errors };
   }
@@ -15,14 +15,25 @@ import {
 import { findEntitySet } from "../client/odata-metadata.js";
 import { saveSnapshot } from "./snapshot.js";
 import type { ETLRunTracker } from "./run-tracker.js";
+import type { SyncWatermarks } from "./watermarks.js";
 import { logger } from "../logger.js";
 
 export async function syncBills(
   metadata: ODataMetadata,
   tracker: ETLRunTracker,
   mkIdMap: Map<string, string>,
+  committeeIdMap: Map<string, string>,
+  watermarks: SyncWatermarks,
 ): Promise<Map<string, string>> {
+  // Seeded from the DB on incremental runs so initiators/stages of unchanged bills resolve
   const billIdMap = new Map<string, string>();
+  if (watermarks.incremental) {
+    const existing = await db.bill.findMany({
+      where: { external_source: "knesset_odata" },
+      select: { id: true, external_id: true },
+    });
+    for (const b of existing) billIdMap.set(b.external_id, b.id);
+  }
 
   const entitySet = findEntitySet(metadata, BILL_ENTITY_SET_CANDIDATES);
   if (!entitySet) {
@@ -40,7 +51,10 @@ export async function syncBills(
   const client = new ODataClient(metadata);
   const limit = pLimit(ETL_CONCURRENCY);
 
-  for await (const page of client.fetchAllPages<RawBill>(entitySet.name)) {
+  for await (const page of client.fetchAllPages<RawBill>(
+    entitySet.name,
+    watermarks.queryOptions(entitySet),
+  )) {
     await Promise.all(
       page.map((raw) =>
         limit(async () => {
@@ -66,6 +80,7 @@ export async function syncBills(
               create: data,
               update: {
                 status: data.status,
+                bill_type: data.bill_type,
                 topic: data.topic,
                 last_status_date: data.last_status_date,
                 last_seen_at: new Date(),
@@ -110,13 +125,14 @@ export async function syncBills(
         }),
       ),
     );
+    watermarks.observe(entitySet.name, page);
   }
 
   // Sync bill initiators (sponsors)
-  await syncBillInitiators(metadata, tracker, billIdMap, mkIdMap, client);
+  await syncBillInitiators(metadata, tracker, billIdMap, mkIdMap, client, watermarks);
 
   // Sync bill stage history
-  await syncBillStages(metadata, tracker, billIdMap, client);
+  await syncBillStages(metadata, tracker, billIdMap, committeeIdMap, client, watermarks);
 
   logger.info(
     { count: billIdMap.size, ...tracker.getSummary().counts["bill"] },
@@ -131,6 +147,7 @@ async function syncBillInitiators(
   billIdMap: Map<string, string>,
   mkIdMap: Map<string, string>,
   client: ODataClient,
+  watermarks: SyncWatermarks,
 ): Promise<void> {
   const entitySet = findEntitySet(metadata, BILL_INITIATOR_ENTITY_SET_CANDIDATES);
   if (!entitySet) {
@@ -143,7 +160,10 @@ async function syncBillInitiators(
 
   const limit = pLimit(ETL_CONCURRENCY);
 
-  for await (const page of client.fetchAllPages<RawBillInitiator>(entitySet.name)) {
+  for await (const page of client.fetchAllPages<RawBillInitiator>(
+    entitySet.name,
+    watermarks.queryOptions(entitySet),
+  )) {
     await Promise.all(
       page.map((raw) =>
         limit(async () => {
@@ -184,6 +204,7 @@ async function syncBillInitiators(
         }),
       ),
     );
+    watermarks.observe(entitySet.name, page);
   }
 }
 
@@ -191,7 +212,9 @@ async function syncBillStages(
   metadata: ODataMetadata,
   tracker: ETLRunTracker,
   billIdMap: Map<string, string>,
+  committeeIdMap: Map<string, string>,
   client: ODataClient,
+  watermarks: SyncWatermarks,
 ): Promise<void> {
   const entitySet = findEntitySet(metadata, BILL_STAGE_ENTITY_SET_CANDIDATES);
   if (!entitySet) {
@@ -204,7 +227,10 @@ async function syncBillStages(
 
   const limit = pLimit(ETL_CONCURRENCY);
 
-  for await (const page of client.fetchAllPages<RawBillStage>(entitySet.name)) {
+  for await (const page of client.fetchAllPages<RawBillStage>(
+    entitySet.name,
+    watermarks.queryOptions(entitySet),
+  )) {
     await Promise.all(
       page.map((raw) =>
         limit(async () => {
@@ -215,6 +241,9 @@ async function syncBillStages(
             if (!billDbId) return;
 
             const stageExtId = String(raw.BillHistoryInitiatorID ?? raw.BillHistoryID ?? "").trim();
+            const committeeDbId = raw.CommitteeID
+              ? (committeeIdMap.get(String(raw.CommitteeID)) ?? null)
+              : null;
 
             // Skip stages with no external_id — we have no idempotency key for them
             if (!stageExtId) {
@@ -245,9 +274,11 @@ async function syncBillStages(
                   : raw.StageDate
                     ? new Date(raw.StageDate)
                     : null,
+                committee_id: committeeDbId,
                 notes: null,
               },
               update: {
+                committee_id: committeeDbId,
                 status: raw.ReasonDesc
                   ? String(raw.ReasonDesc)
                   : raw.StageDesc
@@ -269,5 +300,6 @@ async function syncBillStages(
         }),
       ),
     );
+    watermarks.observe(entitySet.name, page);
   }
 }
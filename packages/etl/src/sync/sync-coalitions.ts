@@ -0,0 +1,161 @@
+/**
+ * sync-coalitions.ts
+ *
+ * Applies the curated coalition / opposition periods
+ * (config/coalition-periods.json) to the CoalitionPeriod table. The table is a
+ * full replace of the curated list, so removing or correcting an entry takes
+ * effect on the next run. Factions are matched by FactionID, or by name among
+ * the parties of the period's Knesset; entries whose faction has not been
+ * synced yet (or whose name matches more than one party) are skipped and
+ * logged.
+ *
+ * Runs after parties in every sync. Run alone with: pnpm etl:import-coalitions
+ */
+
+import { db } from "@knesset-vote/db";
+import { loadCoalitionPeriods, type CuratedCoalitionPeriod } from "../config/coalition-periods.js";
+import { logger } from "../logger.js";
+
+// ──────────────────────────────────────────────────────────────────
+// Pure functions — exported for unit tests
+// ──────────────────────────────────────────────────────────────────
+
+export function parseCuratedDate(value: string): Date {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new Error(`Invalid coalition period date: ${value}`);
+  }
+  return new Date(`${value}T00:00:00Z`);
+}
+
+/** Identifies a faction across periods: its FactionID, or its name within a Knesset */
+export function factionKey(p: CuratedCoalitionPeriod): string {
+  return p.party_external_id ?? `${p.knesset_number}:${p.party_name_he}`;
+}
+
+/**
+ * Returns a list of problems with the curated periods: inverted date ranges
+ * and overlapping periods for the same faction. Empty when the list is valid.
+ */
+export function validateCoalitionPeriods(periods: CuratedCoalitionPeriod[]): string[] {
+  const problems: string[] = [];
+  const byParty = new Map<string, CuratedCoalitionPeriod[]>();
+
+  for (const p of periods) {
+    const start = parseCuratedDate(p.start_date);
+    if (p.end_date && parseCuratedDate(p.end_date) <= start) {
+      problems.push(`${factionKey(p)}: end_date ${p.end_date} is not after ${p.start_date}`);
+    }
+    byParty.set(factionKey(p), [...(byParty.get(factionKey(p)) ?? []), p]);
+  }
+
+  for (const [partyId, list] of byParty) {
+    const sorted = [...list].sort((a, b) => a.start_date.localeCompare(b.start_date));
+    for (let i = 1; i < sorted.length; i++) {
+      const prev = sorted[i - 1]!;
+      const curr = sorted[i]!;
+      if (prev.end_date === null || prev.end_date > curr.start_date) {
+        problems.push(
+          `${partyId}: period starting ${curr.start_date} overlaps the one starting ${prev.start_date}`,
+        );
+      }
+    }
+  }
+
+  return problems;
+}
+
+export interface MatchableParty {
+  id: string;
+  external_id: string;
+  name_he: string;
+  knesset_number: number | null;
+}
+
+/**
+ * The party a curated period refers to: by FactionID, else the one party of
+ * that Knesset whose name contains the curated name. Null when there is no
+ * match or the name is ambiguous.
+ */
+export function matchCuratedParty(
+  period: CuratedCoalitionPeriod,
+  parties: MatchableParty[],
+): MatchableParty | null {
+  if (period.party_external_id) {
+    return parties.find((p) => p.external_id === period.party_external_id) ?? null;
+  }
+  const inKnesset = parties.filter((p) => p.knesset_number === period.knesset_number);
+  const exact = inKnesset.filter((p) => p.name_he === period.party_name_he);
+  const candidates =
+    exact.length > 0 ? exact : inKnesset.filter((p) => p.name_he.includes(period.party_name_he));
+  return candidates.length === 1 ? candidates[0]! : null;
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Main entry point
+// ──────────────────────────────────────────────────────────────────
+
+export interface CoalitionImportResult {
+  imported: number;
+  skipped: number;
+}
+
+export async function syncCoalitionPeriods(
+  periods: CuratedCoalitionPeriod[] = loadCoalitionPeriods(),
+): Promise<CoalitionImportResult> {
+  const problems = validateCoalitionPeriods(periods);
+  if (problems.length > 0) {
+    throw new Error(`Invalid curated coalition periods:\n${problems.join("\n")}`);
+  }
+
+  const parties = await db.party.findMany({
+    where: {
+      external_source: "knesset_odata",
+      OR: [
+        {
+          external_id: {
+            in: periods.flatMap((p) => (p.party_external_id ? [p.party_external_id] : [])),
+          },
+        },
+        { knesset_number: { in: [...new Set(periods.map((p) => p.knesset_number))] } },
+      ],
+    },
+    select: { id: true, external_id: true, name_he: true, knesset_number: true },
+  });
+
+  const rows = [];
+  const missing = new Set<string>();
+  for (const p of periods) {
+    const party = matchCuratedParty(p, parties);
+    if (!party) {
+      missing.add(factionKey(p));
+      continue;
+    }
+    rows.push({
+      party_id: party.id,
+      knesset_number: p.knesset_number,
+      government_num: p.government_num,
+      status: p.status,
+      start_date: parseCuratedDate(p.start_date),
+      end_date: p.end_date ? parseCuratedDate(p.end_date) : null,
+      source_url: p.source_url,
+      source_label: p.source_label,
+    });
+  }
+
+  await db.$transaction([
+    db.coalitionPeriod.deleteMany(),
+    db.coalitionPeriod.createMany({ data: rows }),
+  ]);
+
+  if (missing.size > 0) {
+    logger.warn(
+      { factions: [...missing] },
+      "Coalition periods skipped — factions not in the database yet",
+    );
+  }
+  logger.info(
+    { imported: rows.length, skipped: periods.length - rows.length },
+    "Coalition periods applied",
+  );
+  return { imported: rows.length, skipped: periods.length - rows.length };
+}
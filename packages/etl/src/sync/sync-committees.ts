@@ -13,14 +13,24 @@ import {
 import { findEntitySet } from "../client/odata-metadata.js";
 import { saveSnapshot } from "./snapshot.js";
 import type { ETLRunTracker } from "./run-tracker.js";
+import type { SyncWatermarks } from "./watermarks.js";
 import { logger } from "../logger.js";
 
 export async function syncCommittees(
   metadata: ODataMetadata,
   tracker: ETLRunTracker,
   mkIdMap: Map<string, string>,
+  watermarks: SyncWatermarks,
 ): Promise<Map<string, string>> {
+  // Seeded from the DB on incremental runs so memberships of unchanged committees resolve
   const committeeIdMap = new Map<string, string>();
+  if (watermarks.incremental) {
+    const existing = await db.committee.findMany({
+      where: { external_source: "knesset_odata" },
+      select: { id: true, external_id: true },
+    });
+    for (const c of existing) committeeIdMap.set(c.external_id, c.id);
+  }
 
   const entitySet = findEntitySet(metadata, COMMITTEE_ENTITY_SET_CANDIDATES);
   if (!entitySet) {
@@ -34,7 +44,10 @@ export async function syncCommittees(
   const client = new ODataClient(metadata);
   const limit = pLimit(ETL_CONCURRENCY);
 
-  for await (const page of client.fetchAllPages<RawCommittee>(entitySet.name)) {
+  for await (const page of client.fetchAllPages<RawCommittee>(
+    entitySet.name,
+    watermarks.queryOptions(entitySet),
+  )) {
     await Promise.all(
       page.map((raw) =>
         limit(async () => {
@@ -68,6 +81,20 @@ export async function syncCommittees(
               payload: raw,
             });
 
+            await db.sourceLink.upsert({
+              where: { id: `committee-${committee.id}-odata` },
+              create: {
+                id: `committee-${committee.id}-odata`,
+                entity_type: "committee",
+                entity_id: committee.id,
+                label: "Knesset OData",
+                url: data.source_url ?? "https://knesset.gov.il",
+                external_source: "knesset_odata",
+                external_id: data.external_id,
+              },
+              update: {},
+            });
+
             tracker.increment("committee", "created");
           } catch (err) {
             tracker.increment("committee", "failed");
@@ -76,10 +103,11 @@ export async function syncCommittees(
         }),
       ),
     );
+    watermarks.observe(entitySet.name, page);
   }
 
   // Sync committee memberships via KNS_PersonToPosition (CommitteeID ne null)
-  await syncCommitteeMembers(metadata, tracker, committeeIdMap, mkIdMap, client);
+  await syncCommitteeMembers(metadata, tracker, committeeIdMap, mkIdMap, client, watermarks);
 
   return committeeIdMap;
 }
@@ -90,6 +118,7 @@ async function syncCommitteeMembers(
   committeeIdMap: Map<string, string>,
   mkIdMap: Map<string, string>,
   client: ODataClient,
+  watermarks: SyncWatermarks,
 ): Promise<void> {
   const entitySet = findEntitySet(metadata, COMMITTEE_MEMBER_ENTITY_SET_CANDIDATES);
   if (!entitySet) {
@@ -109,7 +138,10 @@ async function syncCommitteeMembers(
   const fetchOptions =
     entitySet.name === "KNS_PersonToPosition" ? { $filter: "CommitteeID ne null" } : {};
 
-  for await (const page of client.fetchAllPages<RawCommitteeMember>(entitySet.name, fetchOptions)) {
+  for await (const page of client.fetchAllPages<RawCommitteeMember>(
+    entitySet.name,
+    watermarks.queryOptions(entitySet, fetchOptions),
+  )) {
     await Promise.all(
       page.map((raw) =>
         limit(async () => {
@@ -167,5 +199,6 @@ async function syncCommitteeMembers(
         }),
       ),
     );
+    watermarks.observe(entitySet.name, page, fetchOptions.$filter);
   }
 }
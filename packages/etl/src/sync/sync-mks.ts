@@ -13,15 +13,24 @@ import {
 import { findEntitySet } from "../client/odata-metadata.js";
 import { saveSnapshot } from "./snapshot.js";
 import type { ETLRunTracker } from "./run-tracker.js";
+import type { SyncWatermarks } from "./watermarks.js";
 import { logger } from "../logger.js";
 
 export async function syncMKs(
   metadata: ODataMetadata,
   tracker: ETLRunTracker,
   partyIdMap: Map<string, string>,
+  watermarks: SyncWatermarks,
 ): Promise<Map<string, string>> {
-  // external_id → db id
+  // external_id → db id (seeded from the DB on incremental runs, as for parties)
   const mkIdMap = new Map<string, string>();
+  if (watermarks.incremental) {
+    const existing = await db.mK.findMany({
+      where: { external_source: "knesset_odata" },
+      select: { id: true, external_id: true },
+    });
+    for (const mk of existing) mkIdMap.set(mk.external_id, mk.id);
+  }
 
   const entitySet = findEntitySet(metadata, MK_ENTITY_SET_CANDIDATES);
   if (!entitySet) {
@@ -39,7 +48,10 @@ export async function syncMKs(
   const client = new ODataClient(metadata);
   const limit = pLimit(ETL_CONCURRENCY);
 
-  for await (const page of client.fetchAllPages<RawMember>(entitySet.name)) {
+  for await (const page of client.fetchAllPages<RawMember>(
+    entitySet.name,
+    watermarks.queryOptions(entitySet),
+  )) {
     await Promise.all(
       page.map((raw) =>
         limit(async () => {
@@ -138,10 +150,11 @@ export async function syncMKs(
         }),
       ),
     );
+    watermarks.observe(entitySet.name, page);
   }
 
   // Now sync detailed faction memberships if available
-  await syncMKMemberships(metadata, tracker, mkIdMap, partyIdMap, client);
+  await syncMKMemberships(metadata, tracker, mkIdMap, partyIdMap, client, watermarks);
 
   logger.info({ count: mkIdMap.size, ...tracker.getSummary().counts["mk"] }, "MK sync complete");
   return mkIdMap;
@@ -153,6 +166,7 @@ async function syncMKMemberships(
   mkIdMap: Map<string, string>,
   partyIdMap: Map<string, string>,
   client: ODataClient,
+  watermarks: SyncWatermarks,
 ): Promise<void> {
   const entitySet = findEntitySet(metadata, MK_FACTION_ENTITY_SET_CANDIDATES);
   if (!entitySet) {
@@ -165,7 +179,10 @@ async function syncMKMemberships(
 
   const limit = pLimit(ETL_CONCURRENCY);
 
-  for await (const page of client.fetchAllPages<RawMemberFaction>(entitySet.name)) {
+  for await (const page of client.fetchAllPages<RawMemberFaction>(
+    entitySet.name,
+    watermarks.queryOptions(entitySet),
+  )) {
     await Promise.all(
       page.map((raw) =>
         limit(async () => {
@@ -232,5 +249,6 @@ async function syncMKMemberships(
         }),
       ),
     );
+    watermarks.observe(entitySet.name, page);
   }
 }
@@ -11,14 +11,24 @@ import {
 import { findEntitySet } from "../client/odata-metadata.js";
 import { saveSnapshot } from "./snapshot.js";
 import type { ETLRunTracker } from "./run-tracker.js";
+import type { SyncWatermarks } from "./watermarks.js";
 import { logger } from "../logger.js";
 
 export async function syncParties(
   metadata: ODataMetadata,
   tracker: ETLRunTracker,
+  watermarks: SyncWatermarks,
 ): Promise<Map<string, string>> {
-  // external_id → db id
+  // external_id → db id. Incremental runs only fetch changed factions, so start
+  // from the stored ids to keep unchanged parties resolvable downstream.
   const partyIdMap = new Map<string, string>();
+  if (watermarks.incremental) {
+    const existing = await db.party.findMany({
+      where: { external_source: "knesset_odata" },
+      select: { id: true, external_id: true },
+    });
+    for (const p of existing) partyIdMap.set(p.external_id, p.id);
+  }
 
   const entitySet = findEntitySet(metadata, FACTION_ENTITY_SET_CANDIDATES);
   if (!entitySet) {
@@ -38,7 +48,10 @@ export async function syncParties(
   const client = new ODataClient(metadata);
   const limit = pLimit(ETL_CONCURRENCY);
 
-  for await (const page of client.fetchAllPages<RawFaction>(entitySet.name)) {
+  for await (const page of client.fetchAllPages<RawFaction>(
+    entitySet.name,
+    watermarks.queryOptions(entitySet),
+  )) {
     await Promise.all(
       page.map((raw) =>
         limit(async () => {
@@ -116,6 +129,7 @@ export async function syncParties(
         }),
       ),
     );
+    watermarks.observe(entitySet.name, page);
   }
 
   logger.info(
@@ -6,7 +6,9 @@
  *
  * Pipeline:
  * 1. Fetch all KNS_PlenumVote headers → upsert Vote rows
- * 2. Fetch all KNS_PlenumVoteResult rows → upsert VoteRecord rows
+ * 2. Votes without a Knesset number get the term their date falls in
+ * 3. KNS_PlenumVoteResult rows → VoteRecord rows are loaded separately by
+ *    `pnpm etl:backfill-votes` (see backfill/backfill-vote-records.ts)
  *
  * MK resolution: KNS_PlenumVoteResult.MkId IS the PersonID directly
  * (no zero-padding or conversion needed)
@@ -14,7 +16,7 @@
 
 import pLimit from "p-limit";
 import { db } from "@knesset-vote/db";
-import { ETL_CONCURRENCY } from "@knesset-vote/shared";
+import { ETL_CONCURRENCY, knessetTermRanges } from "@knesset-vote/shared";
 import {
   VOTES_V4_BASE,
   VOTE_HEADER_ENTITY,
@@ -22,6 +24,7 @@ import {
   type RawVoteHeader,
 } from "../mappers/vote-mapper.js";
 import type { ETLRunTracker } from "./run-tracker.js";
+import type { SyncWatermarks } from "./watermarks.js";
 import { logger } from "../logger.js";
 import { safeFetch } from "../client/ssrf-guard.js";
 
@@ -38,8 +41,13 @@ async function fetchVotesNextLink<T>(url: string): Promise<ODataPage<T>> {
   return res.json() as Promise<ODataPage<T>>;
 }
 
-async function* fetchAllVotePages<T>(entity: string): AsyncGenerator<T[], void, unknown> {
-  let nextUrl: string | undefined = `${VOTES_V4_BASE}/${entity}`;
+async function* fetchAllVotePages<T>(
+  entity: string,
+  filter?: string,
+): AsyncGenerator<T[], void, unknown> {
+  let nextUrl: string | undefined = filter
+    ? `${VOTES_V4_BASE}/${entity}?$filter=${encodeURIComponent(filter)}`
+    : `${VOTES_V4_BASE}/${entity}`;
   while (nextUrl !== undefined) {
     const currentUrl: string = nextUrl;
     const page = await fetchVotesNextLink<T>(currentUrl);
@@ -49,9 +57,44 @@ async function* fetchAllVotePages<T>(entity: string): AsyncGenerator<T[], void,
   }
 }
 
+/**
+ * KNS_PlenumVote carries no Knesset number, so votes are assigned the term
+ * their date falls in, by the shared knessetTermRanges rule. Only votes without a number are touched, which also
+ * fills rows synced before this step existed. Returns the number updated.
+ */
+export async function assignVoteKnessetNumbers(): Promise<number> {
+  const terms = await db.partyMembership.groupBy({
+    by: ["knesset_number"],
+    where: { knesset_number: { not: null }, start_date: { not: null } },
+    _min: { start_date: true },
+  });
+  const ranges = knessetTermRanges(
+    terms.flatMap((t) =>
+      t.knesset_number !== null && t._min.start_date
+        ? [{ knesset_number: t.knesset_number, start_date: t._min.start_date }]
+        : [],
+    ),
+  );
+
+  let updated = 0;
+  for (const range of ranges) {
+    const { count } = await db.vote.updateMany({
+      where: {
+        knesset_number: null,
+        vote_date: { gte: range.from, ...(range.to ? { lt: range.to } : {}) },
+      },
+      data: { knesset_number: range.knesset_number },
+    });
+    updated += count;
+  }
+  logger.info({ terms: ranges.length, updated }, "Vote Knesset numbers assigned from vote dates");
+  return updated;
+}
+
 export async function syncVotes(
   tracker: ETLRunTracker,
   mkIdMap: Map<string, string>,
+  watermarks: SyncWatermarks,
 ): Promise<void> {
   logger.info("Syncing votes from OData v4 ParliamentInfo (KNS_PlenumVote)");
   tracker.initEntity("vote");
@@ -66,7 +109,10 @@ export async function syncVotes(
 
   // Step 1: Sync vote headers (KNS_PlenumVote)
   logger.info("Syncing vote headers from KNS_PlenumVote");
-  for await (const page of fetchAllVotePages<RawVoteHeader>(VOTE_HEADER_ENTITY)) {
+  for await (const page of fetchAllVotePages<RawVoteHeader>(
+    VOTE_HEADER_ENTITY,
+    watermarks.filterFor(VOTE_HEADER_ENTITY),
+  )) {
     await Promise.all(
       page.map((raw) =>
         limit(async () => {
@@ -84,6 +130,8 @@ export async function syncVotes(
               update: {
                 title_he: data.title_he,
                 vote_date: data.vote_date,
+                item_id: data.item_id,
+                ...(data.knesset_number ? { knesset_number: data.knesset_number } : {}),
                 result: data.result,
                 last_seen_at: new Date(),
               },
@@ -98,14 +146,18 @@ export async function syncVotes(
         }),
       ),
     );
+    watermarks.observe(VOTE_HEADER_ENTITY, page);
   }
 
   logger.info({ votes: voteIdMap.size }, "Vote headers synced");
 
+  await assignVoteKnessetNumbers();
+
   // Step 2: VoteRecords (KNS_PlenumVoteResult) — 1.85M rows, skipped in nightly cron.
   // Too large for a single deployment run (~2h at 20s/page from Railway).
-  // TODO: run as a separate backfill job with resumable pagination checkpointing.
-  logger.info("Skipping VoteRecord sync (1.85M rows — use dedicated backfill job for this)");
+  // Loaded by the resumable `pnpm etl:backfill-votes` job instead
+  // (backfill/backfill-vote-records.ts).
+  logger.info("Skipping VoteRecord sync (1.85M rows — run `pnpm etl:backfill-votes`)");
   tracker.initEntity("vote_record"); // ensure the entity exists in the summary
 
   const summary = tracker.getSummary();
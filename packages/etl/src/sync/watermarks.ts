@@ -0,0 +1,156 @@
+/**
+ * Incremental sync high-water marks.
+ *
+ * Each ETLRun records the highest LastUpdatedDate it saw per entity set in
+ * `watermarks_json`. The next run loads the marks from the most recent
+ * *completed* knesset_odata run and adds `$filter=LastUpdatedDate gt <mark>`
+ * to every entity set that exposes the property, so only changed rows are
+ * re-downloaded. A partial or failed run never becomes the baseline.
+ *
+ * Marks are keyed by entity set name, plus the base filter when a set is read
+ * more than once with different filters (e.g. KNS_PersonToPosition).
+ */
+
+import { db, Prisma } from "@knesset-vote/db";
+import type { ODataEntitySet } from "@knesset-vote/shared";
+import type { ODataQueryOptions } from "../client/odata-client.js";
+import { logger } from "../logger.js";
+
+export const WATERMARK_FIELD = "LastUpdatedDate";
+
+/**
+ * Knesset timestamps are local time without an offset, so the filter is moved
+ * back by a day to cover any timezone skew. Re-upserting a day of rows is
+ * cheap and idempotent; missing a change is not.
+ */
+export const WATERMARK_OVERLAP_MS = 24 * 60 * 60 * 1000;
+
+export type WatermarkMap = Record<string, string>;
+
+export function watermarkKey(entitySetName: string, baseFilter?: string): string {
+  return baseFilter ? `${entitySetName}[${baseFilter}]` : entitySetName;
+}
+
+/**
+ * Build the OData literal for `LastUpdatedDate gt ...`.
+ * Edm.DateTime (OData v3) needs the datetime'...' form; v4 takes a bare
+ * DateTimeOffset.
+ */
+export function formatWatermarkLiteral(watermark: string, edmType?: string): string | null {
+  const parsed = new Date(watermark);
+  if (Number.isNaN(parsed.getTime())) return null;
+  const since = new Date(parsed.getTime() - WATERMARK_OVERLAP_MS).toISOString();
+  if (edmType === "Edm.DateTime") {
+    return `datetime'${since.slice(0, 19)}'`;
+  }
+  return since;
+}
+
+export function buildWatermarkFilter(
+  watermark: string,
+  baseFilter?: string,
+  edmType?: string,
+): string | undefined {
+  const literal = formatWatermarkLiteral(watermark, edmType);
+  if (!literal) return baseFilter;
+  const clause = `${WATERMARK_FIELD} gt ${literal}`;
+  return baseFilter ? `(${baseFilter}) and ${clause}` : clause;
+}
+
+/** Later of two LastUpdatedDate values; unparseable values never win. */
+export function maxWatermark(current: string | undefined, candidate: unknown): string | undefined {
+  if (typeof candidate !== "string" || !candidate) return current;
+  const candidateTime = new Date(candidate).getTime();
+  if (Number.isNaN(candidateTime)) return current;
+  if (current === undefined || candidateTime > new Date(current).getTime()) return candidate;
+  return current;
+}
+
+export class SyncWatermarks {
+  private readonly next: WatermarkMap;
+
+  /**
+   * @param previous marks from the last completed run ({} for a full sync)
+   * @param incremental false when a full resync was requested
+   */
+  constructor(
+    private readonly previous: WatermarkMap,
+    readonly incremental: boolean,
+  ) {
+    // Carry forward marks for sets that see no changes this run
+    this.next = { ...previous };
+  }
+
+  /**
+   * Query options for an entity set, with the watermark filter added when the
+   * run is incremental, a previous mark exists and the set has LastUpdatedDate.
+   */
+  queryOptions(entitySet: ODataEntitySet, base: ODataQueryOptions = {}): ODataQueryOptions {
+    if (!this.incremental) return base;
+
+    const key = watermarkKey(entitySet.name, base.$filter);
+    const watermark = this.previous[key];
+    const property = entitySet.properties?.find((p) => p.name === WATERMARK_FIELD);
+    if (!watermark || !property) {
+      logger.info({ entitySet: key }, "No usable watermark - fetching full entity set");
+      return base;
+    }
+
+    const $filter = buildWatermarkFilter(watermark, base.$filter, property.type);
+    logger.info({ entitySet: key, since: watermark }, "Incremental fetch");
+    return { ...base, $filter };
+  }
+
+  /**
+   * Query filter for entity sets fetched outside ODataClient (no metadata),
+   * e.g. the v4 vote endpoint. Assumes LastUpdatedDate is present.
+   */
+  filterFor(entitySetName: string, baseFilter?: string): string | undefined {
+    if (!this.incremental) return baseFilter;
+    const watermark = this.previous[watermarkKey(entitySetName, baseFilter)];
+    if (!watermark) return baseFilter;
+    return buildWatermarkFilter(watermark, baseFilter);
+  }
+
+  observe(entitySetName: string, rows: { LastUpdatedDate?: unknown }[], baseFilter?: string): void {
+    const key = watermarkKey(entitySetName, baseFilter);
+    let mark = this.next[key];
+    for (const row of rows) {
+      mark = maxWatermark(mark, row.LastUpdatedDate);
+    }
+    if (mark !== undefined) this.next[key] = mark;
+  }
+
+  toJSON(): WatermarkMap {
+    return { ...this.next };
+  }
+}
+
+/**
+ * Load the watermarks recorded by the most recent completed sync run.
+ * Returns an empty map when forced full or when no such run exists yet.
+ */
+export async function loadSyncWatermarks(forceFullSync = false): Promise<SyncWatermarks> {
+  if (forceFullSync) {
+    logger.info("Full sync requested - ignoring stored watermarks");
+    return new SyncWatermarks({}, false);
+  }
+
+  const lastRun = await db.eTLRun.findFirst({
+    where: {
+      source: "knesset_odata",
+      status: "completed",
+      watermarks_json: { not: Prisma.DbNull },
+    },
+    orderBy: { started_at: "desc" },
+    select: { id: true, watermarks_json: true },
+  });
+
+  const previous = (lastRun?.watermarks_json ?? {}) as WatermarkMap;
+  const incremental = Object.keys(previous).length > 0;
+  logger.info(
+    { baselineRunId: lastRun?.id ?? null, entitySets: Object.keys(previous).length },
+    incremental ? "Incremental sync from stored watermarks" : "No watermarks found - full sync",
+  );
+  return new SyncWatermarks(previous, incremental);
+}
@@ -0,0 +1,365 @@
+/**
+ * webhooks.ts
+ *
+ * Bill stage-transition webhooks.
+ *
+ * Enqueue (end of each sync): for the run's bill status changes (ChangeEvent
+ * rows from change-detection.ts) and BillStage rows added to bills that
+ * already existed before the run, one WebhookDelivery is written per matching
+ * active WebhookSubscription. A subscription matches when every filter it sets
+ * (bill_id, topic, sponsoring mk_id) matches the bill.
+ *
+ * Deliver: pending deliveries whose next_attempt_at has passed are claimed
+ * (next_attempt_at is pushed out by a lease, conditional on the row being
+ * unchanged, so concurrent delivery passes never send the same row twice) and
+ * POSTed as JSON with an HMAC-SHA256 signature over `${timestamp}.${body}`.
+ * The target host is resolved and checked again on every attempt, and the
+ * request connects only to the addresses that passed. Non-2xx
+ * responses and network errors are retried with backoff (30s, 2m, 10m, 1h,
+ * 6h); after MAX_DELIVERY_ATTEMPTS the delivery is marked failed. Every
+ * attempt updates the delivery row, which doubles as the delivery log.
+ *
+ * The sync drains retries due within a few minutes; later retries go out on
+ * the next sync or with: pnpm etl:deliver-webhooks
+ */
+
+import crypto from "crypto";
+import http from "http";
+import https from "https";
+import { db } from "@knesset-vote/db";
+import {
+  BillStatusSchema,
+  BillTopicSchema,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "@knesset-vote/shared";
+import type { WebhookEventType, WebhookPayload } from "@knesset-vote/shared";
+import { assertWebhookUrl, webhookLookup } from "../client/ssrf-guard.js";
+import { logger } from "../logger.js";
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+const BACKOFF_MS = [30_000, 2 * 60_000, 10 * 60_000, 60 * 60_000, 6 * 60 * 60_000];
+const DELIVERY_TIMEOUT_MS = 10_000;
+const DELIVERY_BATCH_SIZE = 50;
+// A claimed delivery is due again after this if its pass dies mid-send
+const DELIVERY_LEASE_MS = 5 * 60_000;
+
+// ──────────────────────────────────────────────────────────────────
+// Pure functions — exported for unit tests
+// ──────────────────────────────────────────────────────────────────
+
+export interface SubscriptionFilter {
+  bill_id: string | null;
+  topic: string | null;
+  mk_id: string | null;
+}
+
+export interface MatchableBill {
+  id: string;
+  topic: string | null;
+  sponsor_mk_ids: string[];
+}
+
+export function matchesSubscription(sub: SubscriptionFilter, bill: MatchableBill): boolean {
+  if (sub.bill_id && sub.bill_id !== bill.id) return false;
+  if (sub.topic && sub.topic !== bill.topic) return false;
+  if (sub.mk_id && !bill.sponsor_mk_ids.includes(sub.mk_id)) return false;
+  return true;
+}
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/** Delay before the next attempt, given how many attempts have been made */
+export function nextAttemptDelayMs(attempts: number): number {
+  return BACKOFF_MS[Math.min(Math.max(attempts, 1), BACKOFF_MS.length) - 1]!;
+}
+
+export interface SendResult {
+  ok: boolean;
+  status_code: number | null;
+  error: string | null;
+}
+
+/** POSTs a body without following redirects; resolves with the status code */
+function post(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  const target = new URL(url);
+  const transport = target.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = transport.request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup: webhookLookup,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (res) => {
+        // Drain the body so the socket is released
+        res.resume();
+        res.on("end", () => resolve(res.statusCode ?? 0));
+        res.on("error", reject);
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+/** POSTs one signed payload. Never throws — failures are returned for the log. */
+export async function sendWebhook(opts: {
+  url: string;
+  secret: string;
+  deliveryId: string;
+  event: WebhookEventType;
+  payload: unknown;
+}): Promise<SendResult> {
+  const body = JSON.stringify(opts.payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  try {
+    await assertWebhookUrl(opts.url);
+    const status = await post(
+      opts.url,
+      {
+        "Content-Type": "application/json; charset=utf-8",
+        "User-Agent": "KnessetVote-Webhooks/1.0",
+        [WEBHOOK_EVENT_HEADER]: opts.event,
+        [WEBHOOK_DELIVERY_HEADER]: opts.deliveryId,
+        [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+        [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signPayload(opts.secret, timestamp, body)}`,
+      },
+      body,
+    );
+    const ok = status >= 200 && status < 300;
+    return { ok, status_code: status, error: ok ? null : `HTTP ${status}` };
+  } catch (err) {
+    return { ok: false, status_code: null, error: String(err) };
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Enqueue
+// ──────────────────────────────────────────────────────────────────
+
+interface BillEvent {
+  event: WebhookEventType;
+  bill_id: string;
+  previous_status: string | null;
+  occurred_at: Date | null;
+  stage: { stage_name_he: string; status: string | null; stage_date: Date | null } | null;
+}
+
+function webUrl(path: string): string {
+  return `${process.env["WEB_URL"] ?? "http://localhost:3000"}${path}`;
+}
+
+/**
+ * Writes pending deliveries for the bill transitions seen in one ETL run.
+ * Returns the number of deliveries enqueued.
+ */
+export async function enqueueWebhookDeliveries(runId: string): Promise<number> {
+  const subscriptions = await db.webhookSubscription.findMany({ where: { is_active: true } });
+  if (subscriptions.length === 0) return 0;
+
+  const run = await db.eTLRun.findUnique({ where: { id: runId } });
+  if (!run) return 0;
+
+  const [statusChanges, stages] = await Promise.all([
+    db.changeEvent.findMany({
+      where: { etl_run_id: runId, entity_type: "bill", change_type: "status_changed" },
+    }),
+    // Stages of bills first seen in this run are history, not transitions
+    db.billStage.findMany({
+      where: {
+        created_at: { gte: run.started_at },
+        bill: { created_at: { lt: run.started_at } },
+      },
+    }),
+  ]);
+
+  const events: BillEvent[] = [
+    ...statusChanges.map((c) => ({
+      event: "bill.status_changed" as const,
+      bill_id: c.entity_id,
+      previous_status: c.old_value,
+      occurred_at: c.occurred_at,
+      stage: null,
+    })),
+    ...stages.map((s) => ({
+      event: "bill.stage_added" as const,
+      bill_id: s.bill_id,
+      previous_status: null,
+      occurred_at: s.stage_date,
+      stage: { stage_name_he: s.stage_name_he, status: s.status, stage_date: s.stage_date },
+    })),
+  ];
+  if (events.length === 0) return 0;
+
+  const bills = await db.bill.findMany({
+    where: { id: { in: [...new Set(events.map((e) => e.bill_id))] } },
+    select: {
+      id: true,
+      external_id: true,
+      title_he: true,
+      status: true,
+      topic: true,
+      source_url: true,
+      sponsors: { select: { mk_id: true } },
+    },
+  });
+  const billById = new Map(bills.map((b) => [b.id, b]));
+
+  const deliveries = [];
+  for (const e of events) {
+    const bill = billById.get(e.bill_id);
+    if (!bill) continue;
+    const matchable = {
+      id: bill.id,
+      topic: bill.topic,
+      sponsor_mk_ids: bill.sponsors.map((s) => s.mk_id),
+    };
+    const payload: WebhookPayload = {
+      event: e.event,
+      occurred_at: e.occurred_at?.toISOString() ?? null,
+      bill: {
+        id: bill.id,
+        external_id: bill.external_id,
+        title_he: bill.title_he,
+        status: BillStatusSchema.catch("unknown").parse(bill.status),
+        previous_status: e.previous_status
+          ? BillStatusSchema.catch("unknown").parse(e.previous_status)
+          : null,
+        topic: bill.topic ? BillTopicSchema.catch("other").parse(bill.topic) : null,
+        url: webUrl(`/bills/${bill.id}`),
+        source_url: bill.source_url,
+      },
+      stage: e.stage
+        ? {
+            stage_name_he: e.stage.stage_name_he,
+            status: e.stage.status,
+            stage_date: e.stage.stage_date?.toISOString() ?? null,
+          }
+        : null,
+    };
+    for (const sub of subscriptions) {
+      if (!matchesSubscription(sub, matchable)) continue;
+      deliveries.push({
+        subscription_id: sub.id,
+        event_type: e.event,
+        bill_id: bill.id,
+        payload_json: payload,
+      });
+    }
+  }
+
+  if (deliveries.length > 0) {
+    await db.webhookDelivery.createMany({ data: deliveries });
+  }
+  logger.info(
+    { runId, events: events.length, deliveries: deliveries.length },
+    "Webhook deliveries enqueued",
+  );
+  return deliveries.length;
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Deliver
+// ──────────────────────────────────────────────────────────────────
+
+export interface WebhookDeliveryResult {
+  attempted: number;
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+/**
+ * Attempts every pending delivery that is due. With `drainWithinMs`, keeps
+ * waiting for retries that come due inside that window before returning.
+ */
+export async function deliverPendingWebhooks(
+  opts: { drainWithinMs?: number } = {},
+): Promise<WebhookDeliveryResult> {
+  const deadline = Date.now() + (opts.drainWithinMs ?? 0);
+  const result: WebhookDeliveryResult = { attempted: 0, delivered: 0, retrying: 0, failed: 0 };
+
+  for (;;) {
+    const due = await db.webhookDelivery.findMany({
+      where: { status: "pending", next_attempt_at: { lte: new Date() } },
+      orderBy: { next_attempt_at: "asc" },
+      take: DELIVERY_BATCH_SIZE,
+      include: { subscription: true },
+    });
+
+    if (due.length === 0) {
+      const next = await db.webhookDelivery.findFirst({
+        where: { status: "pending" },
+        orderBy: { next_attempt_at: "asc" },
+        select: { next_attempt_at: true },
+      });
+      if (!next || next.next_attempt_at.getTime() > deadline) break;
+      await new Promise((r) =>
+        setTimeout(r, Math.max(next.next_attempt_at.getTime() - Date.now(), 0)),
+      );
+      continue;
+    }
+
+    for (const delivery of due) {
+      // Another pass may have claimed or sent this row since it was read
+      const claimed = await db.webhookDelivery.updateMany({
+        where: {
+          id: delivery.id,
+          status: "pending",
+          attempts: delivery.attempts,
+          next_attempt_at: delivery.next_attempt_at,
+        },
+        data: { next_attempt_at: new Date(Date.now() + DELIVERY_LEASE_MS) },
+      });
+      if (claimed.count === 0) continue;
+
+      result.attempted++;
+      const sent = await sendWebhook({
+        url: delivery.subscription.url,
+        secret: delivery.subscription.secret,
+        deliveryId: delivery.id,
+        event: delivery.event_type as WebhookEventType,
+        payload: delivery.payload_json,
+      });
+      const attempts = delivery.attempts + 1;
+      const exhausted = !sent.ok && attempts >= MAX_DELIVERY_ATTEMPTS;
+      const status = sent.ok ? "delivered" : exhausted ? "failed" : "pending";
+
+      await db.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status,
+          attempts,
+          last_status_code: sent.status_code,
+          last_error: sent.error,
+          delivered_at: sent.ok ? new Date() : null,
+          next_attempt_at: sent.ok
+            ? delivery.next_attempt_at
+            : new Date(Date.now() + nextAttemptDelayMs(attempts)),
+        },
+      });
+
+      if (sent.ok) result.delivered++;
+      else if (exhausted) result.failed++;
+      else result.retrying++;
+      if (!sent.ok) {
+        logger.warn(
+          { deliveryId: delivery.id, attempts, error: sent.error },
+          exhausted
+            ? "Webhook delivery failed permanently"
+            : "Webhook delivery failed — will retry",
+        );
+      }
+    }
+  }
+
+  logger.info(result, "Webhook delivery pass finished");
+  return result;
+}
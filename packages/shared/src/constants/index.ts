@@ -34,6 +34,9 @@ export const CURRENT_KNESSET_NUMBER = 25;
 
 export const METHODOLOGY_VERSION = "1.0.0";
 
+// Minimum shared (present) votes before two MKs' agreement rate is reported
+export const MIN_SIMILARITY_OVERLAP = 50;
+
 // Hebrew display labels for bill topics (UI: Hebrew)
 // Note: BILL_TOPIC_LABELS (English) is in schemas/bill.ts
 export const BILL_TOPIC_LABELS_HE: Record<string, string> = {
@@ -3,11 +3,17 @@ export * from "./schemas/mk.js";
 export * from "./schemas/bill.js";
 export * from "./schemas/committee.js";
 export * from "./schemas/vote.js";
+export * from "./schemas/cohesion.js";
+export * from "./schemas/change.js";
+export * from "./schemas/webhook.js";
+export * from "./schemas/export.js";
 export * from "./schemas/promise.js";
+export * from "./schemas/editorial.js";
 export * from "./schemas/common.js";
 export * from "./schemas/api.js";
 export * from "./schemas/recommendation.js";
 export * from "./schemas/government.js";
+export * from "./schemas/knesset.js";
 export * from "./schemas/ai.js";
 export * from "./types/index.js";
 export * from "./constants/index.js";
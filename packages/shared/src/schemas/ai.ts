@@ -24,10 +24,10 @@ export const CitationSchema = z.object({
 });
 
 /**
- * A quick-link card for an MK, party, bill, or minister extracted from the answer.
+ * A quick-link card for an MK, party, bill, minister, committee or vote extracted from the answer.
  */
 export const EntityCardSchema = z.object({
-  type: z.enum(["mk", "party", "bill", "minister"]),
+  type: z.enum(["mk", "party", "bill", "minister", "committee", "vote"]),
   /** Internal DB id */
   id: z.string(),
   /** Display name */
@@ -38,16 +38,34 @@ export const EntityCardSchema = z.object({
   meta: z.string().optional(),
 });
 
+/**
+ * A number, date or name stated in the answer, checked against the DB tool
+ * results of the same turn.
+ */
+export const AiClaimSchema = z.object({
+  /** The claim as written, e.g. "61" or "הצעת חוק הדיור" */
+  text: z.string(),
+  kind: z.enum(["number", "date", "name"]),
+  /** The sentence of answer_md the claim appears in */
+  sentence: z.string(),
+  /** Whether a tool result contains the claimed value */
+  verified: z.boolean(),
+});
+
 /**
  * Full AI answer returned by POST /api/ai/answer
  */
 export const AiAnswerSchema = z.object({
   /** The original question (echoed for display) */
   question: z.string(),
+  /** Conversation this answer belongs to — send it with a follow-up question */
+  conversation_id: z.string(),
   /** Gemini's markdown-formatted Hebrew answer */
   answer_md: z.string(),
   /** Source citations extracted from tool call results */
   citations: z.array(CitationSchema),
+  /** Every checkable claim in answer_md and whether the data supports it */
+  claims: z.array(AiClaimSchema),
   /** Entity cards for quick navigation */
   entity_cards: z.array(EntityCardSchema),
   /** Names of DB tools that were called (transparency) */
@@ -60,4 +78,5 @@ export const AiAnswerSchema = z.object({
 
 export type Citation = z.infer<typeof CitationSchema>;
 export type EntityCard = z.infer<typeof EntityCardSchema>;
+export type AiClaim = z.infer<typeof AiClaimSchema>;
 export type AiAnswer = z.infer<typeof AiAnswerSchema>;
@@ -41,16 +41,38 @@ export const MetaResponseSchema = z.object({
   methodology_url: z.string(),
 });
 
+export const SearchEntityTypeSchema = z.enum(["mk", "party", "bill", "vote", "committee"]);
+
+// Snippet of the matched text, split into plain and highlighted (matched) segments
+export const SearchHighlightSchema = z.array(z.object({ text: z.string(), match: z.boolean() }));
+
 export const SearchResultSchema = z.object({
-  type: z.enum(["mk", "party", "bill"]),
+  type: SearchEntityTypeSchema,
   id: z.string(),
   title: z.string(),
   subtitle: z.string().nullable(),
   url: z.string(),
   source_url: z.string().url().nullable(),
+  score: z.number(),
+  highlight: SearchHighlightSchema,
+});
+
+const facetBuckets = <T extends z.ZodTypeAny>(value: T) =>
+  z.array(z.object({ value, count: z.number().int() }));
+
+// Result counts for filter chips. `type` counts ignore the type filter so the
+// other types stay selectable; the rest count the filtered results.
+export const SearchFacetsSchema = z.object({
+  type: facetBuckets(SearchEntityTypeSchema),
+  topic: facetBuckets(z.string()),
+  status: facetBuckets(z.string()),
+  knesset: facetBuckets(z.number().int()),
 });
 
 export type ApiError = z.infer<typeof ApiErrorSchema>;
 export type HealthResponse = z.infer<typeof HealthResponseSchema>;
 export type MetaResponse = z.infer<typeof MetaResponseSchema>;
+export type SearchEntityType = z.infer<typeof SearchEntityTypeSchema>;
+export type SearchHighlight = z.infer<typeof SearchHighlightSchema>;
 export type SearchResult = z.infer<typeof SearchResultSchema>;
+export type SearchFacets = z.infer<typeof SearchFacetsSchema>;
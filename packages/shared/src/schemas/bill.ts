@@ -1,5 +1,6 @@
 import { z } from "zod";
-import { SourceLinkSchema } from "./common.js";
+import { ConfidenceLevel, SourceLinkSchema } from "./common.js";
+import { VoteReadingSchema } from "./vote.js";
 
 export const BillTopicSchema = z.enum([
   "economy",
@@ -55,6 +56,31 @@ export const BillStatusSchema = z.enum([
 
 export type BillStatus = z.infer<typeof BillStatusSchema>;
 
+export const BILL_STATUS_LABELS_HE: Record<BillStatus, string> = {
+  draft: "טיוטה",
+  submitted: "הוגשה",
+  committee_review: "בדיון בוועדה",
+  first_reading: "קריאה ראשונה",
+  second_reading: "קריאה שנייה",
+  third_reading: "קריאה שלישית",
+  passed: "אושרה",
+  rejected: "נדחתה",
+  withdrawn: "הוסרה",
+  expired: "פגת תוקף",
+  unknown: "לא ידוע",
+};
+
+// From KNS_Bill.SubTypeDesc / IsGovernmentBill — see /methodology#bills
+export const BillTypeSchema = z.enum(["government", "private", "committee"]);
+
+export type BillType = z.infer<typeof BillTypeSchema>;
+
+export const BILL_TYPE_LABELS_HE: Record<BillType, string> = {
+  government: "ממשלתית",
+  private: "פרטית",
+  committee: "ועדה",
+};
+
 export const BillSchema = z.object({
   id: z.string(),
   external_id: z.string(),
@@ -64,6 +90,7 @@ export const BillSchema = z.object({
   description_he: z.string().nullable(),
   description_en: z.string().nullable(),
   status: BillStatusSchema,
+  bill_type: BillTypeSchema.nullable(),
   topic: BillTopicSchema.nullable(),
   knesset_number: z.number().int().nullable(),
   submitted_date: z.string().datetime().nullable(),
@@ -92,9 +119,23 @@ export const BillStageSchema = z.object({
   sources: z.array(SourceLinkSchema),
 });
 
+// A plenum vote on the bill, linked by the ETL — see /methodology#vote-bill-links
+export const BillVoteSchema = z.object({
+  id: z.string(),
+  title_he: z.string(),
+  vote_date: z.string().datetime().nullable(),
+  reading: VoteReadingSchema.nullable(),
+  result: z.enum(["passed", "rejected", "unknown"]).nullable(),
+  yes_count: z.number().int().nullable(),
+  no_count: z.number().int().nullable(),
+  abstain_count: z.number().int().nullable(),
+  link_confidence: ConfidenceLevel.nullable(),
+});
+
 export const BillDetailSchema = BillSchema.extend({
   sponsors: z.array(BillSponsorSchema),
   stage_history: z.array(BillStageSchema),
+  votes: z.array(BillVoteSchema),
   ai_summary: z
     .object({
       text: z.string(),
@@ -106,7 +147,58 @@ export const BillDetailSchema = BillSchema.extend({
     .nullable(),
 });
 
+// Derived from status changes across ETL snapshots and stage rows — see /methodology#bill-timeline
+export const BillStageSpanSchema = z.object({
+  status: BillStatusSchema,
+  status_label: z.string(),
+  started_at: z.string().datetime(),
+  ended_at: z.string().datetime().nullable(),
+  days: z.number().int().nullable(),
+  source: z.enum(["submission", "stage_history", "snapshot"]),
+  committee: z.object({ id: z.string(), name_he: z.string() }).nullable(),
+});
+
+export const BillTimelineSchema = z.object({
+  bill_id: z.string(),
+  bill_type: BillTypeSchema.nullable(),
+  submitted_at: z.string().datetime().nullable(),
+  first_reading_at: z.string().datetime().nullable(),
+  passed_at: z.string().datetime().nullable(),
+  days_to_first_reading: z.number().int().nullable(),
+  days_to_passed: z.number().int().nullable(),
+  stages: z.array(BillStageSpanSchema),
+  computed_at: z.string().datetime().nullable(),
+});
+
+const PipelineMediansSchema = z.object({
+  bills: z.number().int(),
+  median_days_to_first_reading: z.number().nullable(),
+  median_days_to_passed: z.number().nullable(),
+  reached_first_reading: z.number().int(),
+  passed: z.number().int(),
+});
+
+export const LegislativePipelineStatsSchema = z.object({
+  overall: PipelineMediansSchema,
+  by_bill_type: z.array(PipelineMediansSchema.extend({ bill_type: BillTypeSchema.nullable() })),
+  by_committee: z.array(
+    PipelineMediansSchema.extend({ committee_id: z.string(), committee_name_he: z.string() }),
+  ),
+  time_in_stage: z.array(
+    z.object({
+      status: BillStatusSchema,
+      spans: z.number().int(),
+      median_days: z.number().nullable(),
+    }),
+  ),
+  computed_at: z.string().datetime().nullable(),
+});
+
 export type Bill = z.infer<typeof BillSchema>;
+export type BillVote = z.infer<typeof BillVoteSchema>;
 export type BillSponsor = z.infer<typeof BillSponsorSchema>;
 export type BillStage = z.infer<typeof BillStageSchema>;
 export type BillDetail = z.infer<typeof BillDetailSchema>;
+export type BillStageSpan = z.infer<typeof BillStageSpanSchema>;
+export type BillTimeline = z.infer<typeof BillTimelineSchema>;
+export type LegislativePipelineStats = z.infer<typeof LegislativePipelineStatsSchema>;
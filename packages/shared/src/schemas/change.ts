@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+export const ChangeEntityTypeSchema = z.enum([
+  "bill",
+  "mk",
+  "party",
+  "committee",
+  "government_role",
+  "vote",
+]);
+
+export const ChangeTypeSchema = z.enum([
+  "created",
+  "status_changed",
+  "party_changed",
+  "role_started",
+  "role_ended",
+  "vote_added",
+]);
+
+export const ChangeEventSchema = z.object({
+  id: z.string(),
+  entity_type: ChangeEntityTypeSchema,
+  entity_id: z.string(),
+  external_id: z.string().nullable(),
+  change_type: ChangeTypeSchema,
+  field: z.string().nullable(),
+  // Display values: bill status enum values, party names
+  old_value: z.string().nullable(),
+  new_value: z.string().nullable(),
+  label_he: z.string(),
+  // Source-side date when known (vote date, role start); detected_at is when the ETL saw it
+  occurred_at: z.string().datetime().nullable(),
+  detected_at: z.string().datetime(),
+});
+
+export type ChangeEntityType = z.infer<typeof ChangeEntityTypeSchema>;
+export type ChangeType = z.infer<typeof ChangeTypeSchema>;
+export type ChangeEvent = z.infer<typeof ChangeEventSchema>;
@@ -0,0 +1,71 @@
+import { z } from "zod";
+
+const PresentPositionSchema = z.enum(["yes", "no", "abstain"]);
+
+export const CohesionDefectionSchema = z.object({
+  vote_id: z.string(),
+  vote_title_he: z.string(),
+  vote_date: z.string().datetime().nullable(),
+  mk_id: z.string(),
+  mk_name_he: z.string(),
+  party_id: z.string(),
+  party_name_he: z.string().nullable(),
+  position: PresentPositionSchema,
+  party_position: PresentPositionSchema,
+  party_rice_index: z.number().min(0).max(1).nullable(),
+});
+
+export const MKPartyLoyaltySchema = z.object({
+  party_id: z.string(),
+  party_name_he: z.string().nullable(),
+  votes_counted: z.number().int(),
+  votes_with: z.number().int(),
+  votes_against: z.number().int(),
+  // null when no votes were counted
+  with_party_pct: z.number().min(0).max(100).nullable(),
+});
+
+export const MKCohesionSchema = z.object({
+  mk_id: z.string(),
+  mk_name_he: z.string(),
+  votes_counted: z.number().int(),
+  votes_with: z.number().int(),
+  with_party_pct: z.number().min(0).max(100).nullable(),
+  parties: z.array(MKPartyLoyaltySchema),
+  defections: z.array(CohesionDefectionSchema),
+  computed_at: z.string().datetime().nullable(),
+});
+
+export const PartyCohesionPeriodSchema = z.object({
+  period: z.string(), // YYYY-MM
+  votes: z.number().int(),
+  avg_rice_index: z.number().min(0).max(1),
+});
+
+export const PartyMemberLoyaltySchema = z.object({
+  mk_id: z.string(),
+  mk_name_he: z.string(),
+  votes_counted: z.number().int(),
+  votes_with: z.number().int(),
+  votes_against: z.number().int(),
+  with_party_pct: z.number().min(0).max(100).nullable(),
+});
+
+export const PartyCohesionSchema = z.object({
+  party_id: z.string(),
+  party_name_he: z.string(),
+  votes_counted: z.number().int(),
+  avg_rice_index: z.number().min(0).max(1).nullable(),
+  timeline: z.array(PartyCohesionPeriodSchema),
+  // Sorted least loyal first
+  members: z.array(PartyMemberLoyaltySchema),
+  defections: z.array(CohesionDefectionSchema),
+  computed_at: z.string().datetime().nullable(),
+});
+
+export type CohesionDefection = z.infer<typeof CohesionDefectionSchema>;
+export type MKPartyLoyalty = z.infer<typeof MKPartyLoyaltySchema>;
+export type MKCohesion = z.infer<typeof MKCohesionSchema>;
+export type PartyCohesionPeriod = z.infer<typeof PartyCohesionPeriodSchema>;
+export type PartyMemberLoyalty = z.infer<typeof PartyMemberLoyaltySchema>;
+export type PartyCohesion = z.infer<typeof PartyCohesionSchema>;
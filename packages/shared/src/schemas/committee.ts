@@ -26,5 +26,43 @@ export const CommitteeMembershipSchema = z.object({
   sources: z.array(SourceLinkSchema),
 });
 
+export const CommitteeListItemSchema = CommitteeSchema.extend({
+  current_member_count: z.number().int(),
+});
+
+export const CommitteeMemberSchema = z.object({
+  mk_id: z.string(),
+  mk_name_he: z.string(),
+  party_name_he: z.string().nullable(),
+  role: z.string().nullable(),
+  is_chair: z.boolean(),
+  start_date: z.string().datetime().nullable(),
+  end_date: z.string().datetime().nullable(),
+  is_current: z.boolean(),
+});
+
+// A bill whose stage history references this committee (BillStage.committee_id)
+export const CommitteeBillSchema = z.object({
+  id: z.string(),
+  title_he: z.string(),
+  status: z.string(),
+  last_stage_name_he: z.string(),
+  last_stage_date: z.string().datetime().nullable(),
+  source_url: z.string().nullable(),
+});
+
+export const CommitteeDetailSchema = CommitteeSchema.extend({
+  last_seen_at: z.string().datetime().nullable(),
+  chairs: z.array(CommitteeMemberSchema),
+  current_members: z.array(CommitteeMemberSchema),
+  past_members: z.array(CommitteeMemberSchema),
+  bills: z.array(CommitteeBillSchema),
+  bill_count: z.number().int(),
+});
+
 export type Committee = z.infer<typeof CommitteeSchema>;
 export type CommitteeMembership = z.infer<typeof CommitteeMembershipSchema>;
+export type CommitteeListItem = z.infer<typeof CommitteeListItemSchema>;
+export type CommitteeMember = z.infer<typeof CommitteeMemberSchema>;
+export type CommitteeBill = z.infer<typeof CommitteeBillSchema>;
+export type CommitteeDetail = z.infer<typeof CommitteeDetailSchema>;
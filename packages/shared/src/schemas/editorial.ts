@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+// viewer: read drafts, the review queue and the audit log
+// editor: create / edit statements and matches, review suggestions, publish others' drafts
+// admin:  everything, including deletes and editor management
+export const EditorRoleSchema = z.enum(["viewer", "editor", "admin"]);
+
+export const PromiseStatusSchema = z.enum(["draft", "published"]);
+
+export const EditorSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string().nullable(),
+  role: EditorRoleSchema,
+  key_prefix: z.string(),
+  is_active: z.boolean(),
+  last_used_at: z.string().datetime().nullable(),
+  created_at: z.string().datetime(),
+});
+
+export const AuditActionSchema = z.enum(["create", "update", "delete", "publish", "review"]);
+export const AuditEntityTypeSchema = z.enum(["promise", "promise_match", "editor"]);
+
+export const AuditLogEntrySchema = z.object({
+  id: z.string(),
+  editor_id: z.string().nullable(),
+  actor: z.string(),
+  action: AuditActionSchema,
+  entity_type: AuditEntityTypeSchema,
+  entity_id: z.string(),
+  // Changed fields only; `from` is absent on create, `to` on delete
+  changes: z
+    .record(z.object({ from: z.unknown().optional(), to: z.unknown().optional() }))
+    .nullable(),
+  created_at: z.string().datetime(),
+});
+
+export type EditorRole = z.infer<typeof EditorRoleSchema>;
+export type PromiseStatus = z.infer<typeof PromiseStatusSchema>;
+export type Editor = z.infer<typeof EditorSchema>;
+export type AuditAction = z.infer<typeof AuditActionSchema>;
+export type AuditEntityType = z.infer<typeof AuditEntityTypeSchema>;
+export type AuditLogEntry = z.infer<typeof AuditLogEntrySchema>;
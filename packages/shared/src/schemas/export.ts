@@ -0,0 +1,133 @@
+import { z } from "zod";
+
+export const ExportEntitySchema = z.enum([
+  "parties",
+  "mks",
+  "memberships",
+  "bills",
+  "bill_roles",
+  "votes",
+  "vote_records",
+]);
+
+export const ExportFormatSchema = z.enum(["csv", "jsonl"]);
+
+// Bumped when columns are renamed or removed (adding columns is compatible)
+export const EXPORT_SCHEMA_VERSION = 1;
+
+// Column order for CSV headers and JSONL keys. Ids are internal; join on *_id columns.
+export const EXPORT_COLUMNS: Record<ExportEntity, readonly string[]> = {
+  parties: [
+    "id",
+    "external_id",
+    "name_he",
+    "name_en",
+    "abbreviation",
+    "knesset_number",
+    "seat_count",
+    "is_active",
+    "is_demo",
+    "source_url",
+    "last_changed_at",
+  ],
+  mks: [
+    "id",
+    "external_id",
+    "name_he",
+    "name_en",
+    "name_first_he",
+    "name_last_he",
+    "gender",
+    "is_current",
+    "is_demo",
+    "source_url",
+    "last_changed_at",
+  ],
+  memberships: [
+    "id",
+    "mk_id",
+    "party_id",
+    "knesset_number",
+    "start_date",
+    "end_date",
+    "is_current",
+  ],
+  bills: [
+    "id",
+    "external_id",
+    "title_he",
+    "title_en",
+    "status",
+    "topic",
+    "knesset_number",
+    "submitted_date",
+    "last_status_date",
+    "is_demo",
+    "source_url",
+    "last_changed_at",
+  ],
+  bill_roles: ["id", "bill_id", "mk_id", "party_id", "role"],
+  votes: [
+    "id",
+    "external_id",
+    "title_he",
+    "vote_date",
+    "knesset_number",
+    "bill_id",
+    "topic",
+    "yes_count",
+    "no_count",
+    "abstain_count",
+    "result",
+    "source_url",
+  ],
+  vote_records: ["id", "vote_id", "mk_id", "position"],
+};
+
+// Prisma model behind each entity: db[EXPORT_MODELS[entity]]
+export const EXPORT_MODELS = {
+  parties: "party",
+  mks: "mK",
+  memberships: "partyMembership",
+  bills: "bill",
+  bill_roles: "mKBillRole",
+  votes: "vote",
+  vote_records: "voteRecord",
+} as const satisfies Record<ExportEntity, string>;
+
+// CSV files start with a BOM so Excel detects UTF-8 and renders Hebrew correctly
+export const UTF8_BOM = "\uFEFF";
+
+// RFC 4180 quoting; dates as ISO timestamps, null/undefined as empty
+export function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvLine(values: unknown[]): string {
+  return values.map(csvValue).join(",") + "\r\n";
+}
+
+export const ExportManifestSchema = z.object({
+  dataset: z.literal("knesset-vote"),
+  schema_version: z.number().int(),
+  methodology_version: z.string(),
+  generated_at: z.string().datetime(),
+  etl_run_id: z.string().nullable(),
+  etl_run_completed_at: z.string().datetime().nullable(),
+  files: z.array(
+    z.object({
+      entity: ExportEntitySchema,
+      format: ExportFormatSchema,
+      path: z.string(),
+      rows: z.number().int(),
+      bytes: z.number().int(),
+      sha256: z.string(),
+    }),
+  ),
+});
+
+export type ExportEntity = z.infer<typeof ExportEntitySchema>;
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+export type ExportManifest = z.infer<typeof ExportManifestSchema>;
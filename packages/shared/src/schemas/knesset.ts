@@ -0,0 +1,80 @@
+/**
+ * Shared Zod schemas + TypeScript types for Knesset terms.
+ * Terms are derived from synced data (factions, memberships, government roles).
+ */
+
+import { z } from "zod";
+
+// ─────────────────────────────────────────────
+// Seat distribution entry (one faction in a term)
+// ─────────────────────────────────────────────
+export const KnessetSeatSchema = z.object({
+  party_id: z.string(),
+  name_he: z.string(),
+  name_en: z.string().nullable(),
+  seat_count: z.number().int().nullable(),
+});
+
+export type KnessetSeat = z.infer<typeof KnessetSeatSchema>;
+
+// ─────────────────────────────────────────────
+// Government that served during a term
+// ─────────────────────────────────────────────
+export const KnessetGovernmentSchema = z.object({
+  government_num: z.number().int(),
+  start_date: z.string().datetime().nullable(),
+  end_date: z.string().datetime().nullable(),
+  role_count: z.number().int(),
+});
+
+export type KnessetGovernment = z.infer<typeof KnessetGovernmentSchema>;
+
+// ─────────────────────────────────────────────
+// Knesset term
+// ─────────────────────────────────────────────
+export const KnessetTermSchema = z.object({
+  knesset_number: z.number().int(),
+  // See knessetTermRanges; end is null for the current term
+  start_date: z.string().datetime().nullable(),
+  end_date: z.string().datetime().nullable(),
+  is_current: z.boolean(),
+  mk_count: z.number().int(),
+  bill_count: z.number().int(),
+  vote_count: z.number().int(),
+  seats: z.array(KnessetSeatSchema),
+  governments: z.array(KnessetGovernmentSchema),
+});
+
+export type KnessetTerm = z.infer<typeof KnessetTermSchema>;
+
+// ─────────────────────────────────────────────
+// Term date ranges — the one rule for dating a term
+// ─────────────────────────────────────────────
+export interface KnessetTermRange {
+  knesset_number: number;
+  from: Date;
+  /** Start of the next term; null for the latest one */
+  to: Date | null;
+}
+
+/**
+ * Date ranges of the Knesset terms, each from its earliest membership start to
+ * the start of the next term. The term list, the vote sync and the vote
+ * breakdown all date terms this way.
+ */
+export function knessetTermRanges(
+  starts: { knesset_number: number; start_date: Date }[],
+): KnessetTermRange[] {
+  const sorted = [...starts].sort((a, b) => a.start_date.getTime() - b.start_date.getTime());
+  return sorted.map((t, i) => ({
+    knesset_number: t.knesset_number,
+    from: t.start_date,
+    to: sorted[i + 1]?.start_date ?? null,
+  }));
+}
+
+/** The term whose range holds `at`; null before the first term */
+export function knessetTermAt(ranges: KnessetTermRange[], at: Date): number | null {
+  const range = ranges.find((r) => r.from <= at && (!r.to || at < r.to));
+  return range?.knesset_number ?? null;
+}
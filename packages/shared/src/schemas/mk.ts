@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { SourceLinkSchema } from "./common.js";
+import { CoalitionStatusSchema } from "./party.js";
 
 export const MKSchema = z.object({
   id: z.string(),
@@ -13,7 +14,9 @@ export const MKSchema = z.object({
   is_current: z.boolean(),
   current_party_id: z.string().nullable(),
   current_party_name: z.string().nullable(),
-  coalition_status: z.enum(["coalition", "opposition"]).nullable().optional(),
+  coalition_status: CoalitionStatusSchema.nullable().optional(),
+  // Overall share of recorded plenum votes with a yes/no/abstain position (list view only)
+  participation_pct: z.number().min(0).max(100).nullable().optional(),
   source_url: z.string().url().nullable(),
   image_url: z.string().url().nullable(),
   last_seen_at: z.string().datetime().nullable(),
@@ -97,6 +100,46 @@ export const MKDetailSchema = MKSchema.extend({
   special_roles: z.array(MKSpecialRoleSchema).optional().default([]),
 });
 
+export const MKSimilarityItemSchema = z.object({
+  mk_id: z.string(),
+  name_he: z.string(),
+  party_name_he: z.string().nullable(),
+  overlap: z.number().int(),
+  agreements: z.number().int(),
+  agreement_pct: z.number().min(0).max(100),
+});
+
+export const MKSimilaritySchema = z.object({
+  mk_id: z.string(),
+  min_overlap: z.number().int(),
+  most_similar: z.array(MKSimilarityItemSchema),
+  least_similar: z.array(MKSimilarityItemSchema),
+  computed_at: z.string().datetime().nullable(),
+});
+
+export const MKParticipationPeriodSchema = z.object({
+  period: z.string(), // "all", Knesset number, or YYYY-MM
+  total_votes: z.number().int(),
+  yes_count: z.number().int(),
+  no_count: z.number().int(),
+  abstain_count: z.number().int(),
+  present_count: z.number().int(),
+  absent_count: z.number().int(),
+  unknown_count: z.number().int(),
+  // Percentages of total_votes; null when total_votes is 0
+  participation_pct: z.number().min(0).max(100).nullable(),
+  absence_pct: z.number().min(0).max(100).nullable(),
+  abstention_pct: z.number().min(0).max(100).nullable(),
+});
+
+export const MKParticipationSchema = z.object({
+  mk_id: z.string(),
+  overall: MKParticipationPeriodSchema.nullable(),
+  by_term: z.array(MKParticipationPeriodSchema),
+  by_month: z.array(MKParticipationPeriodSchema),
+  computed_at: z.string().datetime().nullable(),
+});
+
 export type MK = z.infer<typeof MKSchema>;
 export type MKMembership = z.infer<typeof MKMembershipSchema>;
 export type MKActivityMetrics = z.infer<typeof MKActivityMetricsSchema>;
@@ -105,3 +148,7 @@ export type MKCommitteeListItem = z.infer<typeof MKCommitteeListItemSchema>;
 export type MKProfile = z.infer<typeof MKProfileSchema>;
 export type MKSpecialRole = z.infer<typeof MKSpecialRoleSchema>;
 export type MKDetail = z.infer<typeof MKDetailSchema>;
+export type MKSimilarityItem = z.infer<typeof MKSimilarityItemSchema>;
+export type MKSimilarity = z.infer<typeof MKSimilaritySchema>;
+export type MKParticipationPeriod = z.infer<typeof MKParticipationPeriodSchema>;
+export type MKParticipation = z.infer<typeof MKParticipationSchema>;
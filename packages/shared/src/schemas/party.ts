@@ -1,6 +1,9 @@
 import { z } from "zod";
 import { SourceLinkSchema } from "./common.js";
 
+// Resolved by date from CoalitionPeriod rows; null when no period covers the date
+export const CoalitionStatusSchema = z.enum(["coalition", "opposition"]);
+
 export const PartySchema = z.object({
   id: z.string(),
   external_id: z.string(),
@@ -11,6 +14,7 @@ export const PartySchema = z.object({
   knesset_number: z.number().int().nullable(),
   seat_count: z.number().int().nullable(),
   is_active: z.boolean(),
+  coalition_status: CoalitionStatusSchema.nullable().optional(),
   source_url: z.string().url().nullable(),
   last_seen_at: z.string().datetime().nullable(),
   last_changed_at: z.string().datetime().nullable(),
@@ -27,5 +31,6 @@ export const PartyDetailSchema = PartySchema.extend({
   }),
 });
 
+export type CoalitionStatus = z.infer<typeof CoalitionStatusSchema>;
 export type Party = z.infer<typeof PartySchema>;
 export type PartyDetail = z.infer<typeof PartyDetailSchema>;
@@ -17,6 +17,9 @@ export const PromiseSchema = z.object({
   sources: z.array(SourceLinkSchema),
 });
 
+// Auto matches are suggestions until an editor accepts them; only accepted matches are public
+export const PromiseMatchReviewStatusSchema = z.enum(["accepted", "pending", "rejected"]);
+
 export const PromiseMatchSchema = z.object({
   id: z.string(),
   promise_id: z.string(),
@@ -27,9 +30,12 @@ export const PromiseMatchSchema = z.object({
   status: DataStatus,
   status_date: z.string().datetime().nullable(),
   notes: z.string().nullable(),
+  score: z.number().nullable(),
+  review_status: PromiseMatchReviewStatusSchema,
   // Never say "fulfilled/unfulfilled" - use status labels
   sources: z.array(SourceLinkSchema),
 });
 
 export type Promise_ = z.infer<typeof PromiseSchema>;
 export type PromiseMatch = z.infer<typeof PromiseMatchSchema>;
+export type PromiseMatchReviewStatus = z.infer<typeof PromiseMatchReviewStatusSchema>;
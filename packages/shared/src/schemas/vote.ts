@@ -1,5 +1,25 @@
 import { z } from "zod";
-import { SourceLinkSchema } from "./common.js";
+import { ConfidenceLevel, SourceLinkSchema } from "./common.js";
+import { CoalitionStatusSchema } from "./party.js";
+
+// Which reading of its bill a vote was — parsed from the vote title
+export const VoteReadingSchema = z.enum([
+  "preliminary",
+  "first_reading",
+  "second_reading",
+  "third_reading",
+  "second_third_reading",
+]);
+
+export type VoteReading = z.infer<typeof VoteReadingSchema>;
+
+export const VOTE_READING_LABELS_HE: Record<VoteReading, string> = {
+  preliminary: "קריאה טרומית",
+  first_reading: "קריאה ראשונה",
+  second_reading: "קריאה שנייה",
+  third_reading: "קריאה שלישית",
+  second_third_reading: "קריאה שנייה ושלישית",
+};
 
 export const VoteSchema = z.object({
   id: z.string(),
@@ -10,6 +30,9 @@ export const VoteSchema = z.object({
   vote_date: z.string().datetime().nullable(),
   knesset_number: z.number().int().nullable(),
   bill_id: z.string().nullable(),
+  bill_reading: VoteReadingSchema.nullable(),
+  // How the bill was resolved — see /methodology#vote-bill-links
+  bill_link_confidence: ConfidenceLevel.nullable(),
   topic: z.string().nullable(),
   yes_count: z.number().int().nullable(),
   no_count: z.number().int().nullable(),
@@ -24,9 +47,43 @@ export const VoteRecordSchema = z.object({
   vote_id: z.string(),
   mk_id: z.string(),
   mk_name_he: z.string(),
-  position: z.enum(["yes", "no", "abstain", "absent", "did_not_vote"]),
+  position: z.enum(["yes", "no", "abstain", "present", "absent", "did_not_vote"]),
+  // The MK's faction's status on the vote date (vote detail only)
+  coalition_status: CoalitionStatusSchema.nullable().optional(),
   sources: z.array(SourceLinkSchema),
 });
 
+// "absent" also covers did_not_vote and MKs seated on the vote date with no record
+export const VotePositionCountsSchema = z.object({
+  yes: z.number().int(),
+  no: z.number().int(),
+  abstain: z.number().int(),
+  present: z.number().int(),
+  absent: z.number().int(),
+});
+
+// One faction as of the vote date (PartyMembership dates). party_id is null for
+// MKs with no membership covering the date.
+export const VotePartyBreakdownSchema = VotePositionCountsSchema.extend({
+  party_id: z.string().nullable(),
+  party_name_he: z.string().nullable(),
+  abbreviation: z.string().nullable(),
+  coalition_status: CoalitionStatusSchema.nullable(),
+  seats: z.number().int(),
+});
+
+export const VoteBreakdownSchema = z.object({
+  // Coalition first, then opposition, then unknown; larger factions first within each
+  parties: z.array(VotePartyBreakdownSchema),
+  blocs: z.object({
+    coalition: VotePositionCountsSchema,
+    opposition: VotePositionCountsSchema,
+    unknown: VotePositionCountsSchema,
+  }),
+});
+
 export type Vote = z.infer<typeof VoteSchema>;
 export type VoteRecord = z.infer<typeof VoteRecordSchema>;
+export type VotePositionCounts = z.infer<typeof VotePositionCountsSchema>;
+export type VotePartyBreakdown = z.infer<typeof VotePartyBreakdownSchema>;
+export type VoteBreakdown = z.infer<typeof VoteBreakdownSchema>;
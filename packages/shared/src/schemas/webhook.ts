@@ -0,0 +1,153 @@
+import { z } from "zod";
+import { BillStatusSchema, BillTopicSchema } from "./bill.js";
+
+export const WebhookEventTypeSchema = z.enum(["bill.status_changed", "bill.stage_added"]);
+
+// Signature: hex HMAC-SHA256 of `${timestamp}.${raw body}` keyed by the subscription secret
+export const WEBHOOK_SIGNATURE_HEADER = "x-knesset-vote-signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "x-knesset-vote-timestamp";
+export const WEBHOOK_EVENT_HEADER = "x-knesset-vote-event";
+export const WEBHOOK_DELIVERY_HEADER = "x-knesset-vote-delivery";
+
+// Webhook targets may not resolve into these (SSRF): this-network, private,
+// carrier-grade NAT, loopback, link-local, IETF protocol, benchmarking,
+// multicast and reserved IPv4 ranges, as [network, prefix length]
+const NON_PUBLIC_IPV4: [number, number][] = [
+  [0x00000000, 8],
+  [0x0a000000, 8],
+  [0x64400000, 10],
+  [0x7f000000, 8],
+  [0xa9fe0000, 16],
+  [0xac100000, 12],
+  [0xc0000000, 24],
+  [0xc0a80000, 16],
+  [0xc6120000, 15],
+  [0xe0000000, 4],
+  [0xf0000000, 4],
+];
+
+function parseIPv4(ip: string): number | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4 || !parts.every((p) => /^\d{1,3}$/.test(p) && Number(p) <= 255)) {
+    return null;
+  }
+  return parts.reduce((n, p) => n * 256 + Number(p), 0);
+}
+
+function isPublicIPv4(n: number): boolean {
+  return !NON_PUBLIC_IPV4.some(
+    ([net, bits]) => Math.floor(n / 2 ** (32 - bits)) === net / 2 ** (32 - bits),
+  );
+}
+
+/** The eight 16-bit groups of an IPv6 address, or null when it is not one */
+function parseIPv6(ip: string): number[] | null {
+  const addr = ip.replace(/^\[|\]$/g, "").replace(/%.*$/, "");
+  const halves = addr.split("::");
+  if (halves.length > 2) return null;
+
+  const groupsOf = (part: string): number[] | null => {
+    if (part === "") return [];
+    const groups: number[] = [];
+    const pieces = part.split(":");
+    for (const [i, piece] of pieces.entries()) {
+      // An embedded IPv4 address may end the address (::ffff:10.0.0.1)
+      if (i === pieces.length - 1 && piece.includes(".")) {
+        const v4 = parseIPv4(piece);
+        if (v4 === null) return null;
+        groups.push(Math.floor(v4 / 0x10000), v4 % 0x10000);
+      } else if (/^[0-9a-f]{1,4}$/i.test(piece)) {
+        groups.push(parseInt(piece, 16));
+      } else {
+        return null;
+      }
+    }
+    return groups;
+  };
+
+  const head = groupsOf(halves[0]!);
+  const tail = halves.length === 2 ? groupsOf(halves[1]!) : [];
+  if (!head || !tail) return null;
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  return [...head, ...Array<number>(missing).fill(0), ...tail];
+}
+
+/**
+ * Whether a resolved address is on the public internet. Anything that does
+ * not parse as an IP address is treated as not public.
+ */
+export function isPublicIpAddress(ip: string): boolean {
+  const v4 = parseIPv4(ip);
+  if (v4 !== null) return isPublicIPv4(v4);
+
+  const g = parseIPv6(ip);
+  if (!g) return false;
+  const embeddedV4 = g[6]! * 0x10000 + g[7]!;
+  // IPv4-compatible (including :: and ::1) and IPv4-mapped addresses
+  if (g.slice(0, 5).every((x) => x === 0) && (g[5] === 0 || g[5] === 0xffff)) {
+    return isPublicIPv4(embeddedV4);
+  }
+  // NAT64 (64:ff9b::/96) reaches the embedded IPv4 address
+  if (g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every((x) => x === 0)) {
+    return isPublicIPv4(embeddedV4);
+  }
+  if ((g[0]! & 0xfe00) === 0xfc00) return false; // unique local
+  if ((g[0]! & 0xffc0) === 0xfe80) return false; // link-local
+  if ((g[0]! & 0xff00) === 0xff00) return false; // multicast
+  if (g[0] === 0x2001 && g[1] === 0x0db8) return false; // documentation
+  return true;
+}
+
+export const WebhookSubscriptionSchema = z.object({
+  id: z.string(),
+  url: z.string().url(),
+  description: z.string().nullable(),
+  bill_id: z.string().nullable(),
+  topic: BillTopicSchema.nullable(),
+  mk_id: z.string().nullable(),
+  is_active: z.boolean(),
+  created_at: z.string().datetime(),
+});
+
+export const WebhookDeliverySchema = z.object({
+  id: z.string(),
+  subscription_id: z.string(),
+  event_type: WebhookEventTypeSchema,
+  bill_id: z.string(),
+  status: z.enum(["pending", "delivered", "failed"]),
+  attempts: z.number().int(),
+  last_status_code: z.number().int().nullable(),
+  last_error: z.string().nullable(),
+  next_attempt_at: z.string().datetime(),
+  delivered_at: z.string().datetime().nullable(),
+  created_at: z.string().datetime(),
+});
+
+// Body POSTed to subscribers
+export const WebhookPayloadSchema = z.object({
+  event: WebhookEventTypeSchema,
+  occurred_at: z.string().datetime().nullable(),
+  bill: z.object({
+    id: z.string(),
+    external_id: z.string(),
+    title_he: z.string(),
+    status: BillStatusSchema,
+    previous_status: BillStatusSchema.nullable(),
+    topic: BillTopicSchema.nullable(),
+    url: z.string().url(),
+    source_url: z.string().url().nullable(),
+  }),
+  stage: z
+    .object({
+      stage_name_he: z.string(),
+      status: z.string().nullable(),
+      stage_date: z.string().datetime().nullable(),
+    })
+    .nullable(),
+});
+
+export type WebhookEventType = z.infer<typeof WebhookEventTypeSchema>;
+export type WebhookSubscription = z.infer<typeof WebhookSubscriptionSchema>;
+export type WebhookDelivery = z.infer<typeof WebhookDeliverySchema>;
+export type WebhookPayload = z.infer<typeof WebhookPayloadSchema>;